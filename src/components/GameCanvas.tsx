@@ -1,30 +1,34 @@
 import { useEffect, useRef, memo } from 'react';
 import GameOverlay from './Overlays/GameOverlay';
-import { EmulatorStatus } from '../hooks/emulator/types';
+import { EmulatorStatus } from '../lib/emulator';
 import { setupCanvasResize } from '../lib/game-player-utils';
 
 interface GameCanvasProps {
     status: EmulatorStatus;
     system: string;
     error: string | null;
+    missingFiles?: string[];
     isPaused: boolean;
     onStart: () => Promise<void>;
     systemColor: string;
     isFullscreen: boolean;
     canvasRef: React.MutableRefObject<HTMLCanvasElement | null>;
     onSelectBios?: () => void;
+    biosWarning?: boolean;
 }
 
 const GameCanvas = memo(function GameCanvas({
     status,
     system,
     error,
+    missingFiles,
     isPaused,
     onStart,
     systemColor,
     // isFullscreen, // Unused
     canvasRef,
-    onSelectBios
+    onSelectBios,
+    biosWarning,
 }: GameCanvasProps) {
     const canvasContainerRef = useRef<HTMLDivElement>(null);
 
@@ -70,10 +74,12 @@ const GameCanvas = memo(function GameCanvas({
                 status={status}
                 system={system}
                 error={error}
+                missingFiles={missingFiles}
                 isPaused={isPaused}
                 onStart={onStart}
                 systemColor={systemColor}
                 onSelectBios={onSelectBios}
+                biosWarning={biosWarning}
             />
         </div>
     );
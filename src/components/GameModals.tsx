@@ -4,8 +4,12 @@ import CheatModal from './Modals/CheatModal';
 import SavedSlotModal from './Modals/SaveSlotModal';
 import BiosSelectionModal from './Modals/BiosSelectionModal';
 import SettingsModal from './Modals/SettingsModal';
-import { KeyboardMapping } from '../lib/controls';
+import HotkeyMapper from './Modals/HotkeyMapper';
+import { KeyboardMapping, HotkeyConfig } from '../lib/controls';
 import { SaveSlot } from './types';
+import { BiosCheck } from '../lib/bios';
+import { CoreOptionDefinition } from '../lib/systems';
+import { RetroArchConfig, LayeredRetroArchConfig } from '../lib/emulator';
 
 interface GameModalsProps {
     controlsModalOpen: boolean;
@@ -17,6 +21,7 @@ interface GameModalsProps {
 
     gamepadModalOpen: boolean;
     setGamepadModalOpen: (open: boolean) => void;
+    onGamepadSave?: () => void;
     gamepads: any[]; // Using any[] for now as Gamepad type might be complex or standard
     systemColor: string;
 
@@ -36,6 +41,9 @@ interface GameModalsProps {
     actioningSlot: number | null;
     onSlotSelect: (slot: number) => void;
     onSlotDelete: (slot: number) => void;
+    isTransferringSaves?: boolean;
+    onExportSaves?: () => void;
+    onImportSaves?: () => void;
     maxSlots?: number;
     currentTier?: string;
     onUpgrade?: () => void;
@@ -46,6 +54,7 @@ interface GameModalsProps {
     availableBios?: { id: string; name: string; description?: string }[];
     currentBiosId?: string;
     onSelectBios?: (biosId: string) => void;
+    biosChecks?: BiosCheck[];
 
     // Settings Modal
     settingsModalOpen: boolean;
@@ -54,6 +63,20 @@ interface GameModalsProps {
     onLanguageChange: (lang: 'en' | 'es' | 'fr') => void;
     hapticsEnabled: boolean;
     onToggleHaptics: () => void;
+    coreOptionDefinitions: CoreOptionDefinition[];
+    coreOptionValues: Record<string, string>;
+    coreOptionDefaults: Record<string, string>;
+    onApplyCoreOptions: (values: Record<string, string>) => Promise<void>;
+    retroarchValues: RetroArchConfig;
+    retroarchDefaults: RetroArchConfig;
+    retroarchConfig: LayeredRetroArchConfig | null;
+    onApplyRetroArchOverrides: (values: RetroArchConfig) => Promise<void>;
+
+    // Hotkey Mapper
+    hotkeysModalOpen: boolean;
+    setHotkeysModalOpen: (open: boolean) => void;
+    hotkeys: HotkeyConfig;
+    onSaveHotkeys: (config: HotkeyConfig) => void;
 }
 
 export default function GameModals({
@@ -66,6 +89,7 @@ export default function GameModals({
 
     gamepadModalOpen,
     setGamepadModalOpen,
+    onGamepadSave,
     gamepads,
     systemColor,
 
@@ -84,6 +108,9 @@ export default function GameModals({
     actioningSlot,
     onSlotSelect,
     onSlotDelete,
+    isTransferringSaves,
+    onExportSaves,
+    onImportSaves,
     maxSlots,
     currentTier,
     onUpgrade,
@@ -93,6 +120,7 @@ export default function GameModals({
     availableBios,
     currentBiosId,
     onSelectBios,
+    biosChecks,
 
     settingsModalOpen,
     setSettingsModalOpen,
@@ -100,6 +128,19 @@ export default function GameModals({
     onLanguageChange,
     hapticsEnabled,
     onToggleHaptics,
+    coreOptionDefinitions,
+    coreOptionValues,
+    coreOptionDefaults,
+    onApplyCoreOptions,
+    retroarchValues,
+    retroarchDefaults,
+    retroarchConfig,
+    onApplyRetroArchOverrides,
+
+    hotkeysModalOpen,
+    setHotkeysModalOpen,
+    hotkeys,
+    onSaveHotkeys,
 }: GameModalsProps) {
     return (
         <>
@@ -117,6 +158,8 @@ export default function GameModals({
             <GamepadMapper
                 isOpen={gamepadModalOpen}
                 gamepads={gamepads}
+                onSave={onGamepadSave}
+                system={system}
                 onClose={() => {
                     setGamepadModalOpen(false);
                     onResume();
@@ -144,6 +187,9 @@ export default function GameModals({
                 actioningSlot={actioningSlot}
                 onSelect={onSlotSelect}
                 onDelete={onSlotDelete}
+                isTransferring={isTransferringSaves}
+                onExport={onExportSaves}
+                onImport={onImportSaves}
                 onClose={() => {
                     setSaveModalOpen(false);
                     onResume();
@@ -161,6 +207,7 @@ export default function GameModals({
                     setBiosModalOpen(false);
                     onSelectBios?.(id);
                 }}
+                biosChecks={biosChecks}
                 onClose={() => {
                     setBiosModalOpen(false);
                     onResume();
@@ -179,6 +226,39 @@ export default function GameModals({
                 systemColor={systemColor}
                 hapticsEnabled={hapticsEnabled}
                 onToggleHaptics={onToggleHaptics}
+                coreOptionDefinitions={coreOptionDefinitions}
+                coreOptionValues={coreOptionValues}
+                coreOptionDefaults={coreOptionDefaults}
+                onApplyCoreOptions={async (values) => {
+                    // Resume once the core is back (it reloads paused)
+                    setSettingsModalOpen(false);
+                    await onApplyCoreOptions(values);
+                    onResume();
+                }}
+                retroarchValues={retroarchValues}
+                retroarchDefaults={retroarchDefaults}
+                retroarchConfig={retroarchConfig}
+                onApplyRetroArchOverrides={async (values) => {
+                    setSettingsModalOpen(false);
+                    await onApplyRetroArchOverrides(values);
+                    onResume();
+                }}
+                onEditHotkeys={() => {
+                    // Swap modals - the game stays paused
+                    setSettingsModalOpen(false);
+                    setHotkeysModalOpen(true);
+                }}
+            />
+
+            <HotkeyMapper
+                isOpen={hotkeysModalOpen}
+                hotkeys={hotkeys}
+                onSave={onSaveHotkeys}
+                onClose={() => {
+                    setHotkeysModalOpen(false);
+                    onResume();
+                }}
+                systemColor={systemColor}
             />
         </>
     );
@@ -1,12 +1,14 @@
 'use client';
 
-import { memo, useState, useEffect, useCallback, useMemo } from 'react';
+import { memo, forwardRef, useImperativeHandle, useState, useEffect, useCallback, useMemo } from 'react';
 import PlayerControls from './PlayerControls';
 import ToastContainer from './Overlays/ToastContainer';
 import PerformanceOverlay from './Overlays/PerformanceOverlay';
 import InputDisplay from './Overlays/InputDisplay';
 import RecordingIndicator from './Overlays/RecordingIndicator';
+import InputMovieIndicator from './Overlays/InputMovieIndicator';
 import PerformanceModeBadge from './Overlays/PerformanceModeBadge';
+import NetplayOverlay from './Overlays/NetplayOverlay';
 import ShortcutsModal from './Modals/ShortcutsModal';
 import { VirtualController } from './VirtualController';
 import FloatingExitButton from './UI/FloatingExitButton';
@@ -18,24 +20,32 @@ import RASidebar from './RASidebar';
 
 import { useGamePlayer } from '../hooks/useGamePlayer';
 import { usePlayerPersistence } from '../hooks/usePlayerPersistence';
-import { GamePlayerProps } from './types';
+import { useHotkeys } from '../hooks/useHotkeys';
+import { useKoinTranslation } from '../hooks/useKoinTranslation';
+import { GamePlayerProps, GamePlayerHandle } from './types';
+import { SpeedMultiplier } from '../hooks/useNostalgist';
 import { KeyboardMapping } from '../lib/controls';
 import { sendTelemetry } from '../lib/telemetry';
 import { KoinI18nProvider } from '../hooks/useKoinTranslation';
+import { SHADER_PRESETS, ShaderPresetId } from '../lib/shader-presets';
+import { AUTO_SAVE_SLOT } from '../lib/storage';
 import { en, es, fr } from '../locales';
 import { deepMerge } from '../lib/common-utils';
 import { KoinTranslations } from '../locales/types';
 
-const GamePlayerInner = memo(function GamePlayerInner(
-    props: GamePlayerProps & {
-        controls?: KeyboardMapping;
-        saveControls?: (controls: KeyboardMapping) => void;
-        currentLanguage?: 'en' | 'es' | 'fr';
-        onLanguageChange?: (lang: 'en' | 'es' | 'fr') => void;
-    }
+type GamePlayerInnerProps = GamePlayerProps & {
+    controls?: KeyboardMapping;
+    saveControls?: (controls: KeyboardMapping) => void;
+    currentLanguage?: 'en' | 'es' | 'fr';
+    onLanguageChange?: (lang: 'en' | 'es' | 'fr') => void;
+};
+
+const GamePlayerInner = memo(forwardRef<GamePlayerHandle, GamePlayerInnerProps>(function GamePlayerInner(
+    props,
+    ref
 ) {
     // -- Persistence Hook --
-    const { settings, updateSettings, isLoaded: settingsLoaded } = usePlayerPersistence();
+    const { settings, updateSettings, isLoaded: settingsLoaded } = usePlayerPersistence(undefined, props.storage);
 
     // -- Telemetry --
     useEffect(() => {
@@ -50,6 +60,9 @@ const GamePlayerInner = memo(function GamePlayerInner(
     const [biosModalOpen, setBiosModalOpen] = useState(false);
     const [showShortcutsModal, setShowShortcutsModal] = useState(false);
     const [settingsModalOpen, setSettingsModalOpen] = useState(false);
+    const [hotkeysModalOpen, setHotkeysModalOpen] = useState(false);
+    const [hotkeySlot, setHotkeySlot] = useState(1);
+    const t = useKoinTranslation();
 
     // -- Derived Props from Persistence (if not overridden by direct props) --
     // Use props.shader if provided, otherwise persistent shader
@@ -65,6 +78,7 @@ const GamePlayerInner = memo(function GamePlayerInner(
         isMobile,
         isFullscreen,
         toasts,
+        showToast,
         dismissToast,
         raSidebarOpen,
         setRaSidebarOpen,
@@ -80,6 +94,7 @@ const GamePlayerInner = memo(function GamePlayerInner(
         // Modals
         gamepadModalOpen,
         setGamepadModalOpen,
+        reloadGamepadBindings,
         controlsModalOpen,
         setControlsModalOpen,
         cheatsModalOpen,
@@ -94,11 +109,17 @@ const GamePlayerInner = memo(function GamePlayerInner(
         actioningSlot,
         handleSlotSelect,
         handleSlotDelete,
+        isTransferring,
+        handleExportSaves,
+        handleImportSaves,
+        saveToSlot,
+        loadFromSlot,
         autoSaveEnabled,
         autoSavePaused,
         autoSaveState,
         autoSaveProgress,
         handleAutoSaveToggle,
+        flushSram,
 
         // Restrictions
         hardcoreRestrictions,
@@ -122,6 +143,18 @@ const GamePlayerInner = memo(function GamePlayerInner(
         handleFullscreen,
         handleSave, // Use handleSave instead of handleSaveState
         handleLoad, // Use handleLoad instead of handleLoadState
+        handleDiscChange,
+        handleCoreOptionsChange,
+
+        // Core Options
+        coreOptionDefinitions,
+        coreOptionValues,
+        coreOptionDefaults,
+
+        // Advanced (RetroArch overrides)
+        handleRetroArchOverridesChange,
+        retroarchValues,
+        retroarchDefaults,
 
         // Actions (Destructured from nostalgist wrapper in useGamePlayer)
         pause,
@@ -136,6 +169,20 @@ const GamePlayerInner = memo(function GamePlayerInner(
         pauseRecording,
         resumeRecording,
         recordingSupported,
+
+        // Input Movies
+        isMovieRecording,
+        isMoviePlaying,
+        movieFrame,
+        handleToggleMovieRecording,
+        handlePlayMovieFile,
+
+        // Netplay
+        netplayStatus,
+        netplayLatency,
+        netplayPressDown,
+        netplayPressUp,
+        leaveNetplay,
     } = useGamePlayer({
         ...props,
         onToggleCheat: props.onToggleCheat,
@@ -160,6 +207,7 @@ const GamePlayerInner = memo(function GamePlayerInner(
         isPaused,
         status,
         isPerformanceMode,
+        performanceSteps,
     } = nostalgist;
 
     // -- Debug: High Performance Mode --
@@ -219,9 +267,11 @@ const GamePlayerInner = memo(function GamePlayerInner(
         setSettingsModalOpen(true);
     }, [pause, setSettingsModalOpen]);
 
-    const handleExitClick = useCallback(() => {
+    const handleExitClick = useCallback(async () => {
+        // Persist in-game progress before the host tears down the emulator
+        await flushSram();
         onExit?.();
-    }, [onExit]);
+    }, [flushSram, onExit]);
 
     const handleBiosSelection = useCallback(() => {
         setBiosModalOpen(true);
@@ -258,7 +308,7 @@ const GamePlayerInner = memo(function GamePlayerInner(
         updateSettings({ hapticsEnabled: !settings.hapticsEnabled });
     }, [updateSettings, settings.hapticsEnabled]);
 
-    // Recording Toggle Handler (F5) - with auto-download
+    // Recording Toggle Handler - with auto-download
     const handleToggleRecording = useCallback(async () => {
         if (!recordingSupported) {
             console.warn('[Recording] Not supported in this browser');
@@ -283,7 +333,7 @@ const GamePlayerInner = memo(function GamePlayerInner(
         }
     }, [isRecording, recordingSupported, startRecording, stopRecording]);
 
-    // Shortcuts Modal Toggle (F1) - pauses game when opening, resumes when closing
+    // Shortcuts Modal Toggle - pauses game when opening, resumes when closing
     const handleToggleShortcuts = useCallback(() => {
         setShowShortcutsModal(prev => {
             // Schedule side effects AFTER state update completes
@@ -296,43 +346,145 @@ const GamePlayerInner = memo(function GamePlayerInner(
         });
     }, [pause, resume]);
 
-    // Keyboard shortcuts
+    // -- Hotkeys --
+    const { canUseSaveStates, canUseRewind, canUseSlowMotion } = hardcoreRestrictions;
+    const isRunning = status === 'running' || status === 'paused';
+
+    // Input movies count core frames: fast-forward and rewind would desync them
+    const isMovieActive = isMovieRecording || isMoviePlaying;
+    const handleSpeedChange = useCallback((multiplier: SpeedMultiplier) => {
+        if (!isMovieActive || multiplier === 1) setSpeed(multiplier);
+    }, [isMovieActive, setSpeed]);
+    const handleRewindStart = useCallback(() => {
+        if (!isMovieActive) startRewind();
+    }, [isMovieActive, startRewind]);
+
+    // Loading a state mid-movie jumps away from the frames it records or replays,
+    // and in netplay only one peer would load it
+    const canLoadStates = canUseSaveStates && !isMovieActive && !props.netplay;
+    const handleLoadClick = useCallback(() => {
+        if (canLoadStates) handleLoad();
+    }, [canLoadStates, handleLoad]);
+    const handleSaveSlotSelect = useCallback(async (slot: number) => {
+        if (saveModalMode === 'load' && !canLoadStates) return;
+        await handleSlotSelect(slot);
+    }, [saveModalMode, canLoadStates, handleSlotSelect]);
+
+    // Manual slots only (the last one is the auto-save), within the tier's limit
+    const lastHotkeySlot = props.maxSlots && props.maxSlots > 0 && props.maxSlots < AUTO_SAVE_SLOT
+        ? props.maxSlots
+        : AUTO_SAVE_SLOT - 1;
+
+    // Slots the save modal shows: the manual ones within the limit, and the auto-save
+    const isPlayerSlot = useCallback((slot: number) => {
+        if (slot === AUTO_SAVE_SLOT || (Number.isInteger(slot) && slot >= 1 && slot <= lastHotkeySlot)) return true;
+        console.warn(`[GamePlayer] Slot ${slot} is outside 1-${lastHotkeySlot}`);
+        return false;
+    }, [lastHotkeySlot]);
+
+    const handleSelectSlot = useCallback((step: 1 | -1) => {
+        const slot = ((hotkeySlot - 1 + step + lastHotkeySlot) % lastHotkeySlot) + 1;
+        setHotkeySlot(slot);
+        showToast(t.notifications.slotSelected.replace('{{num}}', slot.toString()), 'info');
+    }, [hotkeySlot, lastHotkeySlot, showToast, t]);
+
+    const handleCycleShader = useCallback(() => {
+        const index = SHADER_PRESETS.findIndex(preset => preset.id === (effectiveShader ?? ''));
+        const next = SHADER_PRESETS[(index + 1) % SHADER_PRESETS.length];
+        handleShaderChange(next.id, isRunning);
+        showToast(t.notifications.shaderSelected.replace('{{name}}', next.name), 'info');
+    }, [effectiveShader, handleShaderChange, isRunning, showToast, t]);
+
+    const { hotkeys, saveHotkeys } = useHotkeys({
+        // Rebinding keys must not trigger them
+        enabled: !hotkeysModalOpen && !controlsModalOpen,
+        onPress: {
+            save: () => { if (canUseSaveStates && isRunning) saveToSlot(hotkeySlot); },
+            load: () => { if (canLoadStates && isRunning) loadFromSlot(hotkeySlot); },
+            nextSlot: () => handleSelectSlot(1),
+            prevSlot: () => handleSelectSlot(-1),
+            fastForward: () => { if (canUseSlowMotion && isRunning) handleSpeedChange(2); },
+            rewind: () => { if (canUseRewind && isRunning) handleRewindStart(); },
+            screenshot: () => { if (isRunning) handleScreenshot(); },
+            record: handleToggleRecording,
+            pause: handlePauseToggle,
+            fullscreen: handleFullscreen,
+            mute: handleToggleMute,
+            shaderCycle: handleCycleShader,
+            help: handleToggleShortcuts,
+            perfOverlay: handleTogglePerformanceOverlay,
+            inputDisplay: handleToggleInputDisplay,
+            movieRecord: handleToggleMovieRecording,
+            moviePlay: handlePlayMovieFile,
+        },
+        onRelease: {
+            fastForward: () => { if (speed !== 1) setSpeed(1); },
+            rewind: () => { if (isRewinding) stopRewind(); },
+        },
+    });
+
+    // Escape closes the shortcuts help
     useEffect(() => {
+        if (!showShortcutsModal) return;
         const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key === 'F1') {
-                e.preventDefault();
-                handleToggleShortcuts();
-            }
-            if (e.key === 'F3') {
-                e.preventDefault();
-                handleTogglePerformanceOverlay();
-            }
-            if (e.key === 'F4') {
-                e.preventDefault();
-                handleToggleInputDisplay();
-            }
-            if (e.key === 'F5') {
-                e.preventDefault();
-                handleToggleRecording();
-            }
-            if (e.key === 'F9') {
-                e.preventDefault();
-                handleToggleMute();
-            }
-            if (e.key === 'Escape' && showShortcutsModal) {
+            if (e.key === 'Escape') {
                 setShowShortcutsModal(false);
                 resume(); // Resume when closing with Escape
             }
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [handleToggleShortcuts, handleTogglePerformanceOverlay, handleToggleInputDisplay, handleToggleRecording, handleToggleMute, showShortcutsModal, resume]);
+    }, [showShortcutsModal, resume]);
+
+    // Imperative handle for host apps (custom chrome, automation)
+    useImperativeHandle(ref, (): GamePlayerHandle => ({
+        start,
+        restart,
+        getStatus: () => nostalgist.emulator.getState().status,
+
+        pause,
+        resume,
+        togglePause,
+        setSpeed: handleSpeedChange,
+        getSpeed: () => nostalgist.emulator.getState().speed,
+
+        // Without a slot, the one the save/load hotkeys use
+        save: async (slot = hotkeySlot) => canUseSaveStates && isPlayerSlot(slot) ? saveToSlot(slot) : null,
+        load: async (slot = hotkeySlot) => canLoadStates && isPlayerSlot(slot) ? loadFromSlot(slot) : false,
+        loadState: async (state) => {
+            if (!canLoadStates) return false;
+            const data = state instanceof Blob ? new Uint8Array(await state.arrayBuffer()) : state;
+            return nostalgist.loadState(data);
+        },
+
+        setDisc: handleDiscChange,
+
+        screenshot,
+        startRecording,
+        stopRecording,
+        isRecording: () => isRecording,
+
+        setVolume: handleVolumeChange,
+        toggleMute: handleToggleMute,
+
+        toggleFullscreen: handleFullscreen,
+
+        getPerformanceStats: nostalgist.getPerformanceStats,
+
+        getEmulator: () => nostalgist.emulator,
+    }), [
+        start, restart, pause, resume, togglePause, handleSpeedChange, nostalgist,
+        canUseSaveStates, canLoadStates, hotkeySlot, isPlayerSlot, saveToSlot, loadFromSlot, handleDiscChange,
+        screenshot, startRecording, stopRecording, isRecording,
+        handleVolumeChange, handleToggleMute, handleFullscreen,
+    ]);
 
     return (
         <div className="koin-scope" style={{ display: 'contents' }}>
             <div
                 ref={containerRef}
-                className={`absolute inset-0 bg-black overflow-hidden select-none flex flex-col ${isFullscreen ? 'fixed !inset-0 z-[9999] w-screen h-screen touch-none' : ''
+                tabIndex={-1} // Focusable, so netplay can capture keys inside the player
+                className={`absolute inset-0 bg-black overflow-hidden select-none flex flex-col outline-none ${isFullscreen ? 'fixed !inset-0 z-[9999] w-screen h-screen touch-none' : ''
                     } ${props.className || ''}`}
                 style={props.style}
             >
@@ -342,12 +494,14 @@ const GamePlayerInner = memo(function GamePlayerInner(
                         status={status}
                         system={system}
                         error={error}
+                        missingFiles={nostalgist.missingFiles}
                         isPaused={isPaused}
                         onStart={start}
                         systemColor={systemColor}
                         isFullscreen={isFullscreen}
                         canvasRef={canvasRef}
-                        onSelectBios={props.onSelectBios ? handleBiosSelection : undefined}
+                        onSelectBios={props.onSelectBios || nostalgist.biosChecks.length > 0 ? handleBiosSelection : undefined}
+                        biosWarning={nostalgist.biosChecks.some(check => check.status === 'badHash' || check.status === 'missing')}
                     />
 
                     {/* Virtual controller only shows in fullscreen to avoid overlaying page content */}
@@ -358,13 +512,26 @@ const GamePlayerInner = memo(function GamePlayerInner(
                             controls={controls}
                             systemColor={systemColor}
                             hapticsEnabled={settings.hapticsEnabled}
-                            onButtonDown={nostalgist.pressDown}
-                            onButtonUp={nostalgist.pressUp}
+                            onButtonDown={props.netplay ? netplayPressDown : nostalgist.pressDown}
+                            onButtonUp={props.netplay ? netplayPressUp : nostalgist.pressUp}
+                            // Netplay relays buttons only - sticks fall back to the D-pad there
+                            onAnalogStick={props.netplay ? undefined : nostalgist.setAnalogStick}
                             onPause={nostalgist.pause}
                             onResume={nostalgist.resume}
                         />
                     )}
 
+                    {props.netplay && (
+                        <NetplayOverlay
+                            status={netplayStatus}
+                            role={props.netplay.role}
+                            roomId={props.netplay.roomId}
+                            latency={netplayLatency}
+                            onLeave={leaveNetplay}
+                            systemColor={systemColor}
+                        />
+                    )}
+
                     {!isFullscreen && isMobile && (
                         <FloatingFullscreenButton
                             onClick={handleFullscreen}
@@ -399,10 +566,18 @@ const GamePlayerInner = memo(function GamePlayerInner(
                             onStop={handleToggleRecording}
                         />
 
+                        {/* Input Movie Indicator */}
+                        <InputMovieIndicator
+                            isRecording={isMovieRecording}
+                            isPlaying={isMoviePlaying}
+                            frame={movieFrame}
+                        />
+
                         {/* Performance Overlay */}
                         {settings.showPerformanceOverlay && (status === 'running' || status === 'paused') && (
                             <PerformanceOverlay
                                 isVisible={true}
+                                getStats={nostalgist.getPerformanceStats}
                                 coreName={props.core}
                                 systemColor={systemColor}
                             />
@@ -412,6 +587,7 @@ const GamePlayerInner = memo(function GamePlayerInner(
                         {!isMobile && (status === 'running' || status === 'paused') && (
                             <PerformanceModeBadge
                                 isHighPerformance={isPerformanceMode}
+                                reducedSteps={performanceSteps}
                                 systemColor={systemColor}
                             />
                         )}
@@ -432,6 +608,7 @@ const GamePlayerInner = memo(function GamePlayerInner(
                         <div className="absolute bottom-3 right-3 z-40 pointer-events-none">
                             <PerformanceModeBadge
                                 isHighPerformance={isPerformanceMode}
+                                reducedSteps={performanceSteps}
                                 systemColor={systemColor}
                             />
                         </div>
@@ -450,9 +627,9 @@ const GamePlayerInner = memo(function GamePlayerInner(
                             onPauseToggle={handlePauseToggle}
                             onRestart={restart}
                             onSave={handleSave}
-                            onLoad={handleLoad}
-                            onSpeedChange={setSpeed}
-                            onRewindStart={startRewind}
+                            onLoad={handleLoadClick}
+                            onSpeedChange={handleSpeedChange}
+                            onRewindStart={handleRewindStart}
                             onRewindStop={stopRewind}
                             onScreenshot={handleScreenshot}
                             onFullscreen={handleFullscreen}
@@ -461,7 +638,7 @@ const GamePlayerInner = memo(function GamePlayerInner(
                             onRetroAchievements={handleShowRA}
                             onExit={handleExitClick}
                             disabled={status === 'loading' || status === 'error'}
-                            loadDisabled={status === 'loading' || status === 'error'}
+                            loadDisabled={status === 'loading' || status === 'error' || !canLoadStates}
                             saveDisabled={status === 'ready'}
                             systemColor={systemColor}
                             gamepadCount={connectedCount}
@@ -484,8 +661,11 @@ const GamePlayerInner = memo(function GamePlayerInner(
                             onShowShortcuts={handleToggleShortcuts}
                             onRecordToggle={handleToggleRecording}
                             isRecording={isRecording}
-                            currentShader={effectiveShader as import('../lib/shader-presets').ShaderPresetId}
+                            currentShader={effectiveShader as ShaderPresetId}
                             onShaderChange={handleShaderChange} // Wrapped
+                            discIndex={nostalgist.discIndex}
+                            discCount={nostalgist.discCount}
+                            onDiscChange={handleDiscChange}
                             isMobile={isMobile}
                         />
                     </div>
@@ -499,6 +679,7 @@ const GamePlayerInner = memo(function GamePlayerInner(
                         resume();
                     }}
                     systemColor={systemColor}
+                    hotkeys={hotkeys}
                 />
 
                 <GameModals
@@ -511,6 +692,7 @@ const GamePlayerInner = memo(function GamePlayerInner(
 
                     gamepadModalOpen={gamepadModalOpen}
                     setGamepadModalOpen={setGamepadModalOpen}
+                    onGamepadSave={reloadGamepadBindings}
                     gamepads={gamepads}
                     systemColor={systemColor}
 
@@ -527,8 +709,11 @@ const GamePlayerInner = memo(function GamePlayerInner(
                     saveSlots={saveSlots}
                     isSlotLoading={isSlotLoading}
                     actioningSlot={actioningSlot}
-                    onSlotSelect={handleSlotSelect}
+                    onSlotSelect={handleSaveSlotSelect}
                     onSlotDelete={handleSlotDelete}
+                    isTransferringSaves={isTransferring}
+                    onExportSaves={handleExportSaves}
+                    onImportSaves={handleImportSaves}
                     maxSlots={props.maxSlots}
                     currentTier={props.currentTier}
                     onUpgrade={props.onUpgrade}
@@ -538,6 +723,7 @@ const GamePlayerInner = memo(function GamePlayerInner(
                     availableBios={props.availableBios}
                     currentBiosId={props.currentBiosId}
                     onSelectBios={props.onSelectBios}
+                    biosChecks={nostalgist.biosChecks}
 
                     settingsModalOpen={settingsModalOpen}
                     setSettingsModalOpen={setSettingsModalOpen}
@@ -546,6 +732,19 @@ const GamePlayerInner = memo(function GamePlayerInner(
                     onLanguageChange={(props as any).onLanguageChange}
                     hapticsEnabled={settings.hapticsEnabled}
                     onToggleHaptics={handleToggleHaptics}
+                    coreOptionDefinitions={coreOptionDefinitions}
+                    coreOptionValues={coreOptionValues}
+                    coreOptionDefaults={coreOptionDefaults}
+                    onApplyCoreOptions={handleCoreOptionsChange}
+                    retroarchValues={retroarchValues}
+                    retroarchDefaults={retroarchDefaults}
+                    retroarchConfig={nostalgist.retroarchConfig}
+                    onApplyRetroArchOverrides={handleRetroArchOverridesChange}
+
+                    hotkeysModalOpen={hotkeysModalOpen}
+                    setHotkeysModalOpen={setHotkeysModalOpen}
+                    hotkeys={hotkeys}
+                    onSaveHotkeys={saveHotkeys}
                 />
 
                 {/* RASidebar */}
@@ -571,15 +770,13 @@ const GamePlayerInner = memo(function GamePlayerInner(
             </div>
         </div>
     );
-});
-
-export const GamePlayer = memo(function GamePlayer(
-    props: GamePlayerProps & {
-        controls?: KeyboardMapping;
-        saveControls?: (controls: KeyboardMapping) => void;
-        initialLanguage?: 'en' | 'es' | 'fr';
-    }
-) {
+}));
+
+export const GamePlayer = memo(forwardRef<GamePlayerHandle, GamePlayerProps & {
+    controls?: KeyboardMapping;
+    saveControls?: (controls: KeyboardMapping) => void;
+    initialLanguage?: 'en' | 'es' | 'fr';
+}>(function GamePlayer(props, ref) {
     const [currentLanguage, setCurrentLanguage] = useState<'en' | 'es' | 'fr'>(props.initialLanguage || 'en');
 
     const effectiveTranslations = useMemo(() => {
@@ -597,12 +794,13 @@ export const GamePlayer = memo(function GamePlayer(
     return (
         <KoinI18nProvider translations={effectiveTranslations}>
             <GamePlayerInner
+                ref={ref}
                 {...props}
                 currentLanguage={currentLanguage}
                 onLanguageChange={handleLanguageChange}
             />
         </KoinI18nProvider>
     );
-});
+}));
 
 export default GamePlayer;
@@ -1,8 +1,9 @@
 'use client';
 
 
-import { X, Cpu, Check, FileCode, AlertCircle, Code } from 'lucide-react';
+import { X, Cpu, Check, FileCode, AlertCircle, Code, ShieldCheck, ShieldAlert, ShieldQuestion, ShieldX } from 'lucide-react';
 import { useKoinTranslation } from '../../hooks/useKoinTranslation';
+import { BiosCheck, BiosStatus } from '../../lib/bios';
 
 export interface BiosOption {
     id: string;
@@ -16,19 +17,35 @@ interface BiosSelectionModalProps {
     biosOptions: BiosOption[];
     currentBiosId?: string;
     onSelectBios: (id: string) => void;
+    biosChecks?: BiosCheck[];
     systemColor?: string;
 }
 
+const STATUS_STYLES: Record<BiosStatus, { icon: typeof ShieldCheck; className: string }> = {
+    ok: { icon: ShieldCheck, className: 'text-green-400' },
+    badHash: { icon: ShieldX, className: 'text-red-400' },
+    missing: { icon: ShieldAlert, className: 'text-yellow-400' },
+    unknown: { icon: ShieldQuestion, className: 'text-gray-400' },
+};
+
 export default function BiosSelectionModal({
     isOpen,
     onClose,
     biosOptions,
     currentBiosId,
     onSelectBios,
+    biosChecks = [],
     systemColor = '#00FF41',
 }: BiosSelectionModalProps) {
     const t = useKoinTranslation();
 
+    const statusLabels: Record<BiosStatus, string> = {
+        ok: t.modals.bios.statusOk,
+        badHash: t.modals.bios.statusBadHash,
+        missing: t.modals.bios.statusMissing,
+        unknown: t.modals.bios.statusUnknown,
+    };
+
     if (!isOpen) return null;
 
     return (
@@ -73,6 +90,35 @@ export default function BiosSelectionModal({
                         </div>
                     </div>
 
+                    {/* Verification of the BIOS files in use */}
+                    {biosChecks.length > 0 && (
+                        <div className="mb-4 rounded-lg border border-white/10 bg-black/20 divide-y divide-white/5">
+                            <div className="px-3 py-2 text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+                                {t.modals.bios.checkTitle}
+                            </div>
+                            {biosChecks.map(check => {
+                                const { icon: StatusIcon, className } = STATUS_STYLES[check.status];
+                                return (
+                                    <div key={check.fileName} className="flex items-center gap-3 px-3 py-2">
+                                        <StatusIcon size={16} className={`shrink-0 ${className}`} />
+                                        <div className="flex-1 min-w-0">
+                                            <div className="font-mono text-xs text-gray-300 truncate">{check.fileName}</div>
+                                            {(check.description || check.mountedAs) && (
+                                                <div className="text-[10px] text-gray-500 truncate">
+                                                    {check.description}
+                                                    {check.mountedAs && ` · ${t.modals.bios.mountedAs.replace('{{names}}', check.mountedAs.join(', '))}`}
+                                                </div>
+                                            )}
+                                        </div>
+                                        <span className={`text-[10px] font-bold uppercase tracking-wider ${className}`}>
+                                            {statusLabels[check.status]}
+                                        </span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
                     {/* System Default Option (Clear Selection) */}
                     <button
                         onClick={() => onSelectBios('')}
@@ -1,18 +1,25 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Joystick, RotateCcw, Check, User } from 'lucide-react';
 import { GamepadInfo } from '../../hooks/useGamepad';
 import {
     GamepadMapping,
+    AnalogMapping,
+    AnalogInputId,
     ButtonId,
     PlayerIndex,
     BUTTON_LABELS,
     BUTTON_GROUPS,
+    ANALOG_LABELS,
+    ALL_ANALOG_INPUTS,
     DEFAULT_GAMEPAD,
+    DEFAULT_ANALOG,
+    getConsoleAnalogInputs,
     loadGamepadMapping,
     saveGamepadMapping,
     formatGamepadButton,
+    formatAxisBinding,
 } from '../../lib/controls';
 import { useKoinTranslation } from '../../hooks/useKoinTranslation';
 import { useInputCapture } from '../../hooks/useInputCapture';
@@ -24,6 +31,21 @@ export interface GamepadMapperProps {
     onClose: () => void;
     onSave?: (bindings: GamepadMapping, playerIndex: number) => void;
     systemColor?: string;
+    /** Console key, used to offer analog bindings on consoles with sticks */
+    system?: string;
+}
+
+type MapperTarget = ButtonId | AnalogInputId;
+
+// Axis travel from rest needed to register an analog binding
+const AXIS_CAPTURE_THRESHOLD = 0.5;
+
+function isAnalogInput(target: MapperTarget): target is AnalogInputId {
+    return (ALL_ANALOG_INPUTS as string[]).includes(target);
+}
+
+function getTargetLabel(target: MapperTarget): string {
+    return isAnalogInput(target) ? ANALOG_LABELS[target] : BUTTON_LABELS[target];
 }
 
 export default function GamepadMapper({
@@ -32,6 +54,7 @@ export default function GamepadMapper({
     onClose,
     onSave,
     systemColor = '#00FF41',
+    system,
 }: GamepadMapperProps) {
     const t = useKoinTranslation();
     // Selected player for remapping (1-indexed)
@@ -41,7 +64,7 @@ export default function GamepadMapper({
     const [bindings, setBindings] = useState<Record<number, GamepadMapping>>({});
 
     // Use shared input capture hook for listening state
-    const { listeningFor, startListening, stopListening, isListening } = useInputCapture<ButtonId>({
+    const { listeningFor, startListening, stopListening, isListening } = useInputCapture<MapperTarget>({
         isOpen,
         onClose,
     });
@@ -54,7 +77,9 @@ export default function GamepadMapper({
         if (isOpen) {
             const loadedBindings: Record<number, GamepadMapping> = {};
             for (let i = 1; i <= 4; i++) {
-                loadedBindings[i] = loadGamepadMapping(i as PlayerIndex);
+                // Bindings follow the controller model plugged into this slot
+                const gamepad = gamepads.find(g => g.index === i - 1);
+                loadedBindings[i] = loadGamepadMapping(i as PlayerIndex, gamepad?.id);
             }
             setBindings(loadedBindings);
 
@@ -65,6 +90,20 @@ export default function GamepadMapper({
         }
     }, [isOpen, gamepads]);
 
+    // Edit the selected player's analog settings (starting from defaults)
+    const updateAnalog = useCallback((update: (analog: AnalogMapping) => AnalogMapping) => {
+        setBindings(prev => {
+            const current = prev[selectedPlayer] ?? DEFAULT_GAMEPAD;
+            return {
+                ...prev,
+                [selectedPlayer]: {
+                    ...current,
+                    analog: update(current.analog ?? DEFAULT_ANALOG),
+                },
+            };
+        });
+    }, [selectedPlayer]);
+
     // Poll gamepad for button presses when listening
     useEffect(() => {
         if (!isOpen || !listeningFor) {
@@ -75,11 +114,28 @@ export default function GamepadMapper({
             return;
         }
 
+        // Resting axis values (triggers may rest at -1), sampled on the first poll
+        let restAxes: number[] | null = null;
+
         const poll = () => {
             const rawGamepads = navigator.getGamepads?.() ?? [];
             const gamepad = rawGamepads[selectedPlayer - 1];
 
-            if (gamepad) {
+            if (gamepad && isAnalogInput(listeningFor)) {
+                restAxes ??= Array.from(gamepad.axes);
+                for (let i = 0; i < gamepad.axes.length; i++) {
+                    const travel = gamepad.axes[i] - (restAxes[i] ?? 0);
+                    if (Math.abs(travel) > AXIS_CAPTURE_THRESHOLD) {
+                        // Moving against the labelled direction means the axis is inverted
+                        updateAnalog(analog => ({
+                            ...analog,
+                            axes: { ...analog.axes, [listeningFor]: { axis: i, inverted: travel < 0 } },
+                        }));
+                        stopListening();
+                        return;
+                    }
+                }
+            } else if (gamepad) {
                 // Check for any button press
                 for (let i = 0; i < gamepad.buttons.length; i++) {
                     if (gamepad.buttons[i].pressed) {
@@ -107,7 +163,7 @@ export default function GamepadMapper({
                 cancelAnimationFrame(rafRef.current);
             }
         };
-    }, [isOpen, listeningFor, selectedPlayer, stopListening]);
+    }, [isOpen, listeningFor, selectedPlayer, stopListening, updateAnalog]);
 
     // Note: Escape key handling is now in useInputCapture hook
 
@@ -122,13 +178,16 @@ export default function GamepadMapper({
         // Save bindings for all players
         Object.entries(bindings).forEach(([player, playerBindings]) => {
             const playerIdx = parseInt(player) as PlayerIndex;
-            saveGamepadMapping(playerBindings, playerIdx);
+            const gamepad = gamepads.find(g => g.index === playerIdx - 1);
+            saveGamepadMapping(playerBindings, playerIdx, gamepad?.id);
         });
         onSave?.(bindings[selectedPlayer], selectedPlayer);
         onClose();
     };
 
     const currentBindings = bindings[selectedPlayer] ?? DEFAULT_GAMEPAD;
+    const currentAnalog = currentBindings.analog ?? DEFAULT_ANALOG;
+    const analogInputs = system ? getConsoleAnalogInputs(system) : [];
     const currentGamepad = gamepads.find(g => g.index === selectedPlayer - 1);
 
     return (
@@ -238,7 +297,9 @@ export default function GamepadMapper({
                     {listeningFor && (
                         <div className="p-4 rounded-lg bg-black/50 border border-retro-primary/50 text-center animate-pulse" style={{ borderColor: `${systemColor}50` }}>
                             <p className="text-sm text-white mb-1">
-                                {t.modals.gamepad.pressButton.replace('{{button}}', BUTTON_LABELS[listeningFor])}
+                                {isAnalogInput(listeningFor)
+                                    ? t.modals.gamepad.moveAxis.replace('{{input}}', getTargetLabel(listeningFor))
+                                    : t.modals.gamepad.pressButton.replace('{{button}}', getTargetLabel(listeningFor))}
                             </p>
                             <p className="text-xs text-gray-400">
                                 {t.modals.gamepad.pressEsc}
@@ -294,6 +355,96 @@ export default function GamepadMapper({
                             </div>
                         </div>
                     ))}
+
+                    {/* Analog sticks/triggers (consoles with analog input only) */}
+                    {analogInputs.length > 0 && (
+                        <div>
+                            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
+                                {t.modals.gamepad.analog}
+                            </h3>
+                            <div className="grid grid-cols-2 gap-2">
+                                {analogInputs.map((input) => {
+                                    const binding = currentAnalog.axes[input];
+                                    return (
+                                        <div
+                                            key={input}
+                                            className={`
+                                                flex items-center gap-2 px-3 py-2 rounded-lg border transition-all
+                                                ${listeningFor === input
+                                                    ? 'border-retro-primary bg-retro-primary/20'
+                                                    : 'border-white/10 bg-white/5'
+                                                }
+                                            `}
+                                            style={listeningFor === input ? {
+                                                borderColor: systemColor,
+                                                backgroundColor: `${systemColor}20`,
+                                            } : {}}
+                                        >
+                                            <button
+                                                onClick={() => startListening(input)}
+                                                disabled={!!listeningFor && listeningFor !== input}
+                                                className="flex-1 flex items-center justify-between gap-2 text-left disabled:opacity-50"
+                                            >
+                                                <span className="text-sm text-gray-300">{ANALOG_LABELS[input]}</span>
+                                                <span className="px-2 py-1 rounded text-xs font-mono bg-black/50 text-white">
+                                                    {listeningFor === input ? t.controls.press : formatAxisBinding(binding)}
+                                                </span>
+                                            </button>
+                                            <button
+                                                onClick={() => binding && updateAnalog(analog => ({
+                                                    ...analog,
+                                                    axes: { ...analog.axes, [input]: { ...binding, inverted: !binding.inverted } },
+                                                }))}
+                                                disabled={!binding || !!listeningFor}
+                                                className={`px-2 py-1 rounded text-[10px] font-bold uppercase border transition-colors disabled:opacity-30 ${binding?.inverted
+                                                    ? 'border-retro-primary text-retro-primary'
+                                                    : 'border-white/10 text-gray-500 hover:text-white'
+                                                    }`}
+                                                style={binding?.inverted ? { borderColor: systemColor, color: systemColor } : {}}
+                                            >
+                                                {t.modals.gamepad.invert}
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4 mt-4">
+                                <label className="block">
+                                    <span className="flex justify-between text-xs text-gray-400 mb-1">
+                                        {t.modals.gamepad.deadzone}
+                                        <span className="font-mono text-white">{Math.round(currentAnalog.deadzone * 100)}%</span>
+                                    </span>
+                                    <input
+                                        type="range"
+                                        min={0}
+                                        max={0.5}
+                                        step={0.05}
+                                        value={currentAnalog.deadzone}
+                                        onChange={(e) => updateAnalog(analog => ({ ...analog, deadzone: Number(e.target.value) }))}
+                                        className="w-full"
+                                        style={{ accentColor: systemColor }}
+                                    />
+                                </label>
+                                <label className="block">
+                                    <span className="flex justify-between text-xs text-gray-400 mb-1">
+                                        {t.modals.gamepad.sensitivity}
+                                        <span className="font-mono text-white">{currentAnalog.sensitivity.toFixed(2)}×</span>
+                                    </span>
+                                    <input
+                                        type="range"
+                                        min={0.5}
+                                        max={2}
+                                        step={0.05}
+                                        value={currentAnalog.sensitivity}
+                                        onChange={(e) => updateAnalog(analog => ({ ...analog, sensitivity: Number(e.target.value) }))}
+                                        className="w-full"
+                                        style={{ accentColor: systemColor }}
+                                    />
+                                </label>
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
         </ModalShell>
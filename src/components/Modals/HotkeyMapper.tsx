@@ -0,0 +1,270 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Keyboard, RotateCcw, Check, X } from 'lucide-react';
+import {
+    HotkeyAction,
+    HotkeyConfig,
+    HOTKEY_GROUPS,
+    DEFAULT_HOTKEYS,
+    eventToHotkey,
+    formatHotkey,
+    formatGamepadButton,
+} from '../../lib/controls';
+import { useKoinTranslation } from '../../hooks/useKoinTranslation';
+import { useInputCapture } from '../../hooks/useInputCapture';
+import ModalShell from './ModalShell';
+
+interface HotkeyMapperProps {
+    isOpen: boolean;
+    hotkeys: HotkeyConfig;
+    onSave: (config: HotkeyConfig) => void;
+    onClose: () => void;
+    systemColor?: string;
+}
+
+// What is being rebound: a keyboard key, a gamepad button, or the enable button
+type HotkeyTarget = `key:${HotkeyAction}` | `pad:${HotkeyAction}` | 'enable';
+
+export default function HotkeyMapper({
+    isOpen,
+    hotkeys,
+    onSave,
+    onClose,
+    systemColor = '#00FF41',
+}: HotkeyMapperProps) {
+    const t = useKoinTranslation();
+    const [localHotkeys, setLocalHotkeys] = useState<HotkeyConfig>(hotkeys);
+    const rafRef = useRef<number | null>(null);
+
+    const { listeningFor, startListening, stopListening, isListening } = useInputCapture<HotkeyTarget>({
+        isOpen,
+        onClose,
+    });
+
+    useEffect(() => {
+        if (isOpen) {
+            setLocalHotkeys(hotkeys);
+        }
+    }, [isOpen, hotkeys]);
+
+    // A key or button can only trigger one action - drop it from the others
+    const bindKey = (action: HotkeyAction, hotkey: string) => {
+        setLocalHotkeys(prev => {
+            const keyboard = { ...prev.keyboard };
+            (Object.keys(keyboard) as HotkeyAction[]).forEach(other => {
+                if (keyboard[other] === hotkey) delete keyboard[other];
+            });
+            keyboard[action] = hotkey;
+            return { ...prev, keyboard };
+        });
+    };
+
+    const bindButton = (action: HotkeyAction, button: number) => {
+        setLocalHotkeys(prev => {
+            const gamepad = { ...prev.gamepad };
+            (Object.keys(gamepad) as HotkeyAction[]).forEach(other => {
+                if (gamepad[other] === button) delete gamepad[other];
+            });
+            gamepad[action] = button;
+            return { ...prev, gamepad };
+        });
+    };
+
+    const clearBinding = (target: HotkeyTarget) => {
+        setLocalHotkeys(prev => {
+            if (target === 'enable') return { ...prev, gamepadEnable: null };
+            const [device, action] = target.split(':') as ['key' | 'pad', HotkeyAction];
+            if (device === 'key') {
+                const { [action]: _removed, ...keyboard } = prev.keyboard;
+                return { ...prev, keyboard };
+            }
+            const { [action]: _removed, ...gamepad } = prev.gamepad;
+            return { ...prev, gamepad };
+        });
+    };
+
+    // Capture keyboard input when listening (Escape is handled by useInputCapture)
+    useEffect(() => {
+        if (!isOpen || !listeningFor?.startsWith('key:')) return;
+        const action = listeningFor.slice(4) as HotkeyAction;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code === 'Escape') return;
+            e.preventDefault();
+            e.stopPropagation();
+
+            const hotkey = eventToHotkey(e);
+            // Wait for the key that goes with the modifiers
+            if (!hotkey) return;
+            bindKey(action, hotkey);
+            stopListening();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isOpen, listeningFor, stopListening]);
+
+    // Poll gamepads for a button press when listening
+    useEffect(() => {
+        if (!isOpen || !listeningFor || listeningFor.startsWith('key:')) return;
+
+        // Ignore buttons already down when capture started (e.g. the enable button)
+        let held: Set<number> | null = null;
+
+        const poll = () => {
+            const pressed = new Set<number>();
+            for (const gamepad of navigator.getGamepads?.() ?? []) {
+                gamepad?.buttons.forEach((button, i) => {
+                    if (button.pressed) pressed.add(i);
+                });
+            }
+            held ??= pressed;
+
+            const button = Array.from(pressed).find(i => !held!.has(i));
+            if (button !== undefined) {
+                if (listeningFor === 'enable') {
+                    setLocalHotkeys(prev => ({ ...prev, gamepadEnable: button }));
+                } else {
+                    bindButton(listeningFor.slice(4) as HotkeyAction, button);
+                }
+                stopListening();
+                return;
+            }
+            held.forEach(i => {
+                if (!pressed.has(i)) held!.delete(i);
+            });
+
+            rafRef.current = requestAnimationFrame(poll);
+        };
+
+        rafRef.current = requestAnimationFrame(poll);
+
+        return () => {
+            if (rafRef.current) {
+                cancelAnimationFrame(rafRef.current);
+            }
+        };
+    }, [isOpen, listeningFor, stopListening]);
+
+    const handleReset = () => {
+        setLocalHotkeys(DEFAULT_HOTKEYS);
+    };
+
+    const handleSave = () => {
+        onSave(localHotkeys);
+        onClose();
+    };
+
+    const renderBinding = (target: HotkeyTarget, label: string, isBound: boolean) => {
+        const isActive = listeningFor === target;
+        return (
+            <div className="flex items-center gap-1">
+                <button
+                    onClick={() => startListening(target)}
+                    disabled={isListening && !isActive}
+                    className={`
+                        min-w-[88px] px-2 py-1 rounded text-xs font-mono transition-colors
+                        ${isActive ? 'animate-pulse' : 'bg-black/50 text-white hover:bg-white/10'}
+                    `}
+                    style={isActive ? { backgroundColor: `${systemColor}30`, color: systemColor } : undefined}
+                >
+                    {isActive
+                        ? (target.startsWith('key:') ? t.modals.hotkeys.pressKey : t.modals.hotkeys.pressButton)
+                        : label}
+                </button>
+                <button
+                    onClick={() => clearBinding(target)}
+                    disabled={!isBound || isListening}
+                    className="p-1 rounded text-gray-500 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500"
+                    title={t.modals.hotkeys.clear}
+                    aria-label={t.modals.hotkeys.clear}
+                >
+                    <X size={12} />
+                </button>
+            </div>
+        );
+    };
+
+    const padEnabled = localHotkeys.gamepadEnable !== null;
+
+    return (
+        <ModalShell
+            isOpen={isOpen}
+            onClose={onClose}
+            title={t.modals.hotkeys.title}
+            subtitle={t.modals.hotkeys.description}
+            icon={<Keyboard size={24} style={{ color: systemColor }} />}
+            systemColor={systemColor}
+            closeOnBackdrop={!isListening}
+            footer={
+                <>
+                    <button
+                        onClick={handleReset}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                        <RotateCcw size={16} />
+                        {t.modals.hotkeys.reset}
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        className="flex items-center gap-2 px-6 py-2 rounded-lg text-black font-bold text-sm transition-colors"
+                        style={{ backgroundColor: systemColor }}
+                    >
+                        <Check size={16} />
+                        {t.modals.hotkeys.save}
+                    </button>
+                </>
+            }
+        >
+            <div className="p-4 space-y-6 max-h-[400px] overflow-y-auto">
+                {/* Hotkey enable button */}
+                <div className="flex items-center justify-between gap-3 px-4 py-3 rounded-lg border border-white/10 bg-white/5">
+                    <div>
+                        <div className="text-sm text-gray-300">{t.modals.hotkeys.enableButton}</div>
+                        <div className="text-xs text-gray-500">{t.modals.hotkeys.enableHint}</div>
+                    </div>
+                    {renderBinding(
+                        'enable',
+                        padEnabled ? formatGamepadButton(localHotkeys.gamepadEnable!) : t.modals.hotkeys.off,
+                        padEnabled
+                    )}
+                </div>
+
+                {HOTKEY_GROUPS.map(group => (
+                    <div key={group.id}>
+                        <div className="flex items-center justify-between mb-2 text-xs font-bold text-gray-500 uppercase tracking-wider">
+                            <h3>{t.modals.hotkeys.groups[group.id]}</h3>
+                            <div className="flex gap-1 text-[10px]">
+                                <span className="w-[108px] text-center">{t.modals.hotkeys.keyboard}</span>
+                                {padEnabled && <span className="w-[108px] text-center">{t.modals.hotkeys.gamepad}</span>}
+                            </div>
+                        </div>
+                        <div className="space-y-1">
+                            {group.actions.map(action => (
+                                <div
+                                    key={action}
+                                    className="flex items-center justify-between gap-2 px-4 py-2 rounded-lg border border-white/10 bg-white/5"
+                                >
+                                    <span className="text-sm text-gray-300">{t.modals.hotkeys.actions[action]}</span>
+                                    <div className="flex gap-1">
+                                        {renderBinding(
+                                            `key:${action}`,
+                                            formatHotkey(localHotkeys.keyboard[action]),
+                                            localHotkeys.keyboard[action] !== undefined
+                                        )}
+                                        {padEnabled && renderBinding(
+                                            `pad:${action}`,
+                                            formatGamepadButton(localHotkeys.gamepad[action]),
+                                            localHotkeys.gamepad[action] !== undefined
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </ModalShell>
+    );
+}
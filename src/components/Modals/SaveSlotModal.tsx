@@ -1,12 +1,10 @@
 'use client';
 
-import { Save, Download, Trash2, Clock, HardDrive, Loader2, RefreshCw, Lock, Zap } from 'lucide-react';
+import { Save, Download, Trash2, Clock, HardDrive, Loader2, RefreshCw, Lock, Zap, FileDown, FileUp } from 'lucide-react';
 import { SaveSlotModalProps, SaveSlot } from '../types';
 import { useKoinTranslation } from '../../hooks/useKoinTranslation';
 import ModalShell from './ModalShell';
-
-// Slot 5 is reserved for auto-save
-const AUTO_SAVE_SLOT = 5;
+import { AUTO_SAVE_SLOT } from '../../lib/storage';
 
 function formatBytes(bytes: number): string {
     if (bytes === 0) return '0 B';
@@ -49,6 +47,9 @@ export default function SaveSlotModal({
     onSelect,
     onDelete,
     onClose,
+    isTransferring = false,
+    onExport,
+    onImport,
     maxSlots = 5,
     onUpgrade,
 }: SaveSlotModalProps) {
@@ -89,12 +90,38 @@ export default function SaveSlotModal({
             }
             maxWidth="md"
             footer={
-                <p className="text-xs text-gray-500 text-center w-full">
-                    {isSaveMode
-                        ? t.modals.saveSlots.footerSave
-                        : t.modals.saveSlots.footerLoad
-                    }
-                </p>
+                <div className="w-full space-y-3">
+                    {(onExport || onImport) && (
+                        <div className="flex items-center justify-center gap-2">
+                            {onExport && (
+                                <button
+                                    onClick={onExport}
+                                    disabled={isTransferring || slots.length === 0}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-white/10 bg-white/5 text-gray-300 hover:border-retro-primary/50 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <FileDown size={14} />
+                                    {t.modals.saveSlots.exportAll}
+                                </button>
+                            )}
+                            {onImport && (
+                                <button
+                                    onClick={onImport}
+                                    disabled={isTransferring}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-white/10 bg-white/5 text-gray-300 hover:border-retro-primary/50 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isTransferring ? <Loader2 size={14} className="animate-spin" /> : <FileUp size={14} />}
+                                    {t.modals.saveSlots.importAll}
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    <p className="text-xs text-gray-500 text-center w-full">
+                        {isSaveMode
+                            ? t.modals.saveSlots.footerSave
+                            : t.modals.saveSlots.footerLoad
+                        }
+                    </p>
+                </div>
             }
         >
 
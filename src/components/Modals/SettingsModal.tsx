@@ -1,7 +1,10 @@
 'use client';
 
-import { Globe, Check, Settings, Zap } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Globe, Check, Settings, Zap, Keyboard, ChevronRight, Cpu, RotateCcw, SlidersHorizontal } from 'lucide-react';
 import { useKoinTranslation } from '../../hooks/useKoinTranslation';
+import { CoreOptionDefinition } from '../../lib/systems';
+import { RETROARCH_TUNING_SETTINGS, RetroArchConfig, LayeredRetroArchConfig } from '../../lib/emulator';
 import ModalShell from './ModalShell';
 
 interface SettingsModalProps {
@@ -12,8 +15,23 @@ interface SettingsModalProps {
     systemColor?: string;
     hapticsEnabled: boolean;
     onToggleHaptics: () => void;
+    /** Open the hotkey editor */
+    onEditHotkeys?: () => void;
+    /** Options of the active core (Core Options tab) */
+    coreOptionDefinitions?: CoreOptionDefinition[];
+    coreOptionValues?: Record<string, string>;
+    coreOptionDefaults?: Record<string, string>;
+    onApplyCoreOptions?: (values: Record<string, string>) => void;
+    /** Player's RetroArch overrides (Advanced tab) */
+    retroarchValues?: RetroArchConfig;
+    retroarchDefaults?: RetroArchConfig;
+    /** Merged config of the running session, shown for debugging */
+    retroarchConfig?: LayeredRetroArchConfig | null;
+    onApplyRetroArchOverrides?: (values: RetroArchConfig) => void;
 }
 
+type SettingsTab = 'general' | 'coreOptions' | 'advanced';
+
 export default function SettingsModal({
     isOpen,
     onClose,
@@ -22,8 +40,52 @@ export default function SettingsModal({
     systemColor = '#00FF41',
     hapticsEnabled,
     onToggleHaptics,
+    onEditHotkeys,
+    coreOptionDefinitions = [],
+    coreOptionValues = {},
+    coreOptionDefaults = {},
+    onApplyCoreOptions,
+    retroarchValues = {},
+    retroarchDefaults = {},
+    retroarchConfig,
+    onApplyRetroArchOverrides,
 }: SettingsModalProps) {
     const t = useKoinTranslation();
+    const [activeTab, setActiveTab] = useState<SettingsTab>('general');
+
+    // Edits are staged until Apply - applying reloads the core
+    const [draft, setDraft] = useState(coreOptionValues);
+    const [retroarchDraft, setRetroarchDraft] = useState(retroarchValues);
+    useEffect(() => {
+        if (isOpen) setDraft(coreOptionValues);
+    }, [isOpen, coreOptionValues]);
+    useEffect(() => {
+        if (isOpen) setRetroarchDraft(retroarchValues);
+    }, [isOpen, retroarchValues]);
+
+    // Reset/Apply of the tab being edited (none for General)
+    const staged = activeTab === 'coreOptions' && coreOptionDefinitions.length > 0 ? {
+        reset: () => setDraft(coreOptionDefaults),
+        apply: () => onApplyCoreOptions?.(draft),
+        hasChanges: coreOptionDefinitions.some(option => draft[option.key] !== coreOptionValues[option.key]),
+    } : activeTab === 'advanced' ? {
+        reset: () => setRetroarchDraft(retroarchDefaults),
+        apply: () => onApplyRetroArchOverrides?.(retroarchDraft),
+        hasChanges: RETROARCH_TUNING_SETTINGS.some(setting => retroarchDraft[setting.key] !== retroarchValues[setting.key]),
+    } : null;
+
+    const tabs = [
+        { id: 'general', icon: <Settings size={12} />, label: t.settings.general, visible: true },
+        { id: 'coreOptions', icon: <Cpu size={12} />, label: t.settings.coreOptions, visible: !!onApplyCoreOptions },
+        { id: 'advanced', icon: <SlidersHorizontal size={12} />, label: t.settings.advanced, visible: !!onApplyRetroArchOverrides },
+    ].filter(tab => tab.visible) as { id: SettingsTab; icon: JSX.Element; label: string }[];
+
+    const tuningLabels: Record<string, string> = {
+        run_ahead_enabled: t.settings.runAhead,
+        run_ahead_frames: t.settings.runAheadFrames,
+        video_threaded: t.settings.threadedVideo,
+        audio_latency: t.settings.audioLatency,
+    };
 
     const languages = [
         { code: 'en', name: 'English' },
@@ -39,73 +101,194 @@ export default function SettingsModal({
             icon={<Settings size={20} className="text-white" />}
             maxWidth="sm"
             footer={
-                <button
-                    onClick={onClose}
-                    className="text-sm text-gray-500 hover:text-white transition-colors w-full text-center"
-                >
-                    {t.modals.shortcuts.pressEsc}
-                </button>
+                staged ? (
+                    <div className="flex gap-2">
+                        <button
+                            onClick={staged.reset}
+                            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm text-gray-400 bg-black/20 hover:bg-white/5 hover:text-white transition-colors"
+                        >
+                            <RotateCcw size={14} />
+                            {t.settings.resetDefaults}
+                        </button>
+                        <button
+                            onClick={staged.apply}
+                            disabled={!staged.hasChanges}
+                            className="flex-1 px-4 py-2 rounded-lg text-sm font-medium text-black transition-opacity disabled:opacity-40"
+                            style={{ backgroundColor: systemColor }}
+                        >
+                            {t.settings.apply}
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        onClick={onClose}
+                        className="text-sm text-gray-500 hover:text-white transition-colors w-full text-center"
+                    >
+                        {t.modals.shortcuts.pressEsc}
+                    </button>
+                )
             }
         >
-            {/* Content */}
-            <div className="p-6 space-y-6">
-                {/* Language Section */}
-                <div className="space-y-3">
-                    <div className="flex items-center gap-2 text-sm font-medium text-gray-400">
-                        <Globe size={16} />
-                        <span>{t.settings.language}</span>
-                    </div>
+            {/* Tabs */}
+            {tabs.length > 1 && (
+                <div className="flex gap-1 mx-6 mt-4 bg-black/30 rounded-lg p-0.5">
+                    {tabs.map((tab) => (
+                        <button
+                            key={tab.id}
+                            onClick={() => setActiveTab(tab.id)}
+                            className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs rounded-md transition-colors ${activeTab === tab.id
+                                ? 'bg-white/10 text-white'
+                                : 'text-gray-400 hover:text-white'
+                                }`}
+                        >
+                            {tab.icon}
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+            )}
 
-                    <div className="grid gap-2">
-                        {languages.map((lang) => {
-                            const isActive = currentLanguage === lang.code;
-                            return (
-                                <button
-                                    key={lang.code}
-                                    onClick={() => onLanguageChange(lang.code)}
-                                    className={`
-                                        flex items-center justify-between px-4 py-3 rounded-lg border transition-all
-                                        ${isActive
-                                            ? 'bg-white/10 border-white/20 text-white'
-                                            : 'bg-black/20 border-transparent text-gray-400 hover:bg-white/5 hover:text-white'
-                                        }
-                                    `}
-                                >
-                                    <span>{lang.name}</span>
-                                    {isActive && (
-                                        <Check size={16} style={{ color: systemColor }} />
-                                    )}
-                                </button>
-                            );
-                        })}
-                    </div>
+            {activeTab === 'advanced' ? (
+                <div className="p-6 space-y-4">
+                    <p className="text-xs text-gray-500">{t.settings.advancedNotice}</p>
+                    {RETROARCH_TUNING_SETTINGS.map((setting) => (
+                        <label key={setting.key} className="flex items-center justify-between gap-4 text-sm">
+                            <span className="text-gray-300">{tuningLabels[setting.key] ?? setting.key}</span>
+                            <select
+                                value={String(retroarchDraft[setting.key] ?? setting.values[0])}
+                                onChange={(e) => setRetroarchDraft({
+                                    ...retroarchDraft,
+                                    [setting.key]: setting.values.find(value => String(value) === e.target.value),
+                                })}
+                                className="max-w-[50%] bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-white focus:outline-none focus:border-white/30"
+                            >
+                                {setting.values.map((value) => (
+                                    <option key={String(value)} value={String(value)}>{String(value)}</option>
+                                ))}
+                            </select>
+                        </label>
+                    ))}
+
+                    {/* What the running session was booted with, and where each key came from */}
+                    {retroarchConfig && (
+                        <details className="text-xs text-gray-400">
+                            <summary className="cursor-pointer hover:text-white">{t.settings.effectiveConfig}</summary>
+                            <div className="mt-2 p-2 rounded-lg bg-black/40 font-mono space-y-0.5">
+                                {Object.entries(retroarchConfig.config).map(([key, value]) => (
+                                    <div key={key} className="flex justify-between gap-4">
+                                        <span>{key} = {String(value)}</span>
+                                        <span className="text-gray-600">{retroarchConfig.sources[key]}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </details>
+                    )}
+                </div>
+            ) : activeTab === 'coreOptions' ? (
+                <div className="p-6 space-y-4">
+                    {coreOptionDefinitions.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center">{t.settings.coreOptionsEmpty}</p>
+                    ) : (
+                        <>
+                            {coreOptionDefinitions.map((option) => (
+                                <label key={option.key} className="flex items-center justify-between gap-4 text-sm">
+                                    <span className="text-gray-300">
+                                        {option.label}{option.requiresReset && ' *'}
+                                    </span>
+                                    <select
+                                        value={draft[option.key] ?? option.values[0]}
+                                        onChange={(e) => setDraft({ ...draft, [option.key]: e.target.value })}
+                                        className="max-w-[50%] bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-white focus:outline-none focus:border-white/30"
+                                    >
+                                        {option.values.map((value) => (
+                                            <option key={value} value={value}>{value}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            ))}
+                            {coreOptionDefinitions.some(option => option.requiresReset) && (
+                                <p className="text-xs text-gray-500">{t.settings.coreOptionsRestartNotice}</p>
+                            )}
+                        </>
+                    )}
                 </div>
-                {/* Haptics Section */}
-                <div className="space-y-3">
-                    <div className="flex items-center gap-2 text-sm font-medium text-gray-400">
-                        <Zap size={16} />
-                        <span>{t.settings.haptics}</span>
+            ) : (
+                <div className="p-6 space-y-6">
+                    {/* Language Section */}
+                    <div className="space-y-3">
+                        <div className="flex items-center gap-2 text-sm font-medium text-gray-400">
+                            <Globe size={16} />
+                            <span>{t.settings.language}</span>
+                        </div>
+
+                        <div className="grid gap-2">
+                            {languages.map((lang) => {
+                                const isActive = currentLanguage === lang.code;
+                                return (
+                                    <button
+                                        key={lang.code}
+                                        onClick={() => onLanguageChange(lang.code)}
+                                        className={`
+                                            flex items-center justify-between px-4 py-3 rounded-lg border transition-all
+                                            ${isActive
+                                                ? 'bg-white/10 border-white/20 text-white'
+                                                : 'bg-black/20 border-transparent text-gray-400 hover:bg-white/5 hover:text-white'
+                                            }
+                                        `}
+                                    >
+                                        <span>{lang.name}</span>
+                                        {isActive && (
+                                            <Check size={16} style={{ color: systemColor }} />
+                                        )}
+                                    </button>
+                                );
+                            })}
+                        </div>
                     </div>
+                    {/* Haptics Section */}
+                    <div className="space-y-3">
+                        <div className="flex items-center gap-2 text-sm font-medium text-gray-400">
+                            <Zap size={16} />
+                            <span>{t.settings.haptics}</span>
+                        </div>
 
-                    <button
-                        onClick={onToggleHaptics}
-                        className={`
-                            w-full flex items-center justify-between px-4 py-3 rounded-lg border transition-all
-                            ${hapticsEnabled
-                                ? 'bg-white/10 border-white/20 text-white'
-                                : 'bg-black/20 border-transparent text-gray-400 hover:bg-white/5 hover:text-white'
-                            }
-                        `}
-                    >
-                        <span>{t.settings.enableHaptics}</span>
-                        <div className={`w-10 h-6 rounded-full p-1 transition-colors ${hapticsEnabled ? 'bg-[#00FF41]' : 'bg-gray-700'}`}>
-                            <div
-                                className={`w-4 h-4 rounded-full bg-white transition-transform ${hapticsEnabled ? 'translate-x-4' : 'translate-x-0'}`}
-                            />
+                        <button
+                            onClick={onToggleHaptics}
+                            className={`
+                                w-full flex items-center justify-between px-4 py-3 rounded-lg border transition-all
+                                ${hapticsEnabled
+                                    ? 'bg-white/10 border-white/20 text-white'
+                                    : 'bg-black/20 border-transparent text-gray-400 hover:bg-white/5 hover:text-white'
+                                }
+                            `}
+                        >
+                            <span>{t.settings.enableHaptics}</span>
+                            <div className={`w-10 h-6 rounded-full p-1 transition-colors ${hapticsEnabled ? 'bg-[#00FF41]' : 'bg-gray-700'}`}>
+                                <div
+                                    className={`w-4 h-4 rounded-full bg-white transition-transform ${hapticsEnabled ? 'translate-x-4' : 'translate-x-0'}`}
+                                />
+                            </div>
+                        </button>
+                    </div>
+                    {/* Hotkeys Section */}
+                    {onEditHotkeys && (
+                        <div className="space-y-3">
+                            <div className="flex items-center gap-2 text-sm font-medium text-gray-400">
+                                <Keyboard size={16} />
+                                <span>{t.settings.hotkeys}</span>
+                            </div>
+
+                            <button
+                                onClick={onEditHotkeys}
+                                className="w-full flex items-center justify-between px-4 py-3 rounded-lg border bg-black/20 border-transparent text-gray-400 hover:bg-white/5 hover:text-white transition-all"
+                            >
+                                <span>{t.settings.editHotkeys}</span>
+                                <ChevronRight size={16} />
+                            </button>
                         </div>
-                    </button>
+                    )}
                 </div>
-            </div>
+            )}
         </ModalShell>
     );
 }
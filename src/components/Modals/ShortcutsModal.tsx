@@ -3,47 +3,45 @@
 import { memo, useMemo } from 'react';
 import { Keyboard } from 'lucide-react';
 import { useKoinTranslation } from '../../hooks/useKoinTranslation';
+import { HotkeyConfig, HOTKEY_GROUPS, DEFAULT_HOTKEYS, formatHotkey, formatGamepadHotkey } from '../../lib/controls';
 import ModalShell from './ModalShell';
 
 interface ShortcutsModalProps {
     isOpen: boolean;
     onClose: () => void;
     systemColor?: string;
+    /** Current hotkey bindings (defaults if omitted) */
+    hotkeys?: HotkeyConfig;
 }
 
 /**
  * Shortcuts Modal
  * ---------------
- * Shows PLAYER shortcuts (F-keys only).
+ * Shows PLAYER hotkeys as currently bound (keyboard and gamepad).
  * Game controls are configured separately in the Controls modal.
  */
 const ShortcutsModal = memo(function ShortcutsModal({
     isOpen,
     onClose,
     systemColor = '#00FF41',
+    hotkeys = DEFAULT_HOTKEYS,
 }: ShortcutsModalProps) {
     const t = useKoinTranslation();
 
-    // F-key shortcuts - these are PLAYER features, not game controls
-    const shortcuts = useMemo(() => [
-        {
-            section: t.modals.shortcuts.overlays, items: [
-                { key: 'F1', description: t.modals.shortcuts.showHelp },
-                { key: 'F3', description: t.modals.shortcuts.perfOverlay },
-                { key: 'F4', description: t.modals.shortcuts.inputDisplay },
-            ]
-        },
-        {
-            section: t.modals.shortcuts.recording, items: [
-                { key: 'F5', description: t.modals.shortcuts.toggleRec },
-            ]
-        },
-        {
-            section: t.settings.audio, items: [
-                { key: 'F9', description: t.modals.shortcuts.toggleMute },
-            ]
-        },
-    ], [t]);
+    // Hotkeys are PLAYER features, not game controls - unbound ones are left out
+    const shortcuts = useMemo(() => HOTKEY_GROUPS.map(group => ({
+        section: t.modals.hotkeys.groups[group.id],
+        items: group.actions
+            .map(action => ({
+                action,
+                keys: [
+                    hotkeys.keyboard[action] && formatHotkey(hotkeys.keyboard[action]),
+                    hotkeys.gamepadEnable !== null && hotkeys.gamepad[action] !== undefined && formatGamepadHotkey(hotkeys, action),
+                ].filter((key): key is string => !!key),
+                description: t.modals.hotkeys.actions[action],
+            }))
+            .filter(item => item.keys.length > 0),
+    })).filter(group => group.items.length > 0), [t, hotkeys]);
 
     return (
         <ModalShell
@@ -70,22 +68,27 @@ const ShortcutsModal = memo(function ShortcutsModal({
                             {section}
                         </h3>
                         <div className="space-y-1">
-                            {items.map(({ key, description }) => (
+                            {items.map(({ action, keys, description }) => (
                                 <div
-                                    key={key}
-                                    className="flex items-center justify-between text-sm"
+                                    key={action}
+                                    className="flex items-center justify-between gap-2 text-sm"
                                 >
                                     <span className="text-white/70">{description}</span>
-                                    <kbd
-                                        className="px-2 py-0.5 rounded text-xs font-mono font-bold"
-                                        style={{
-                                            backgroundColor: `${systemColor}20`,
-                                            color: systemColor,
-                                            border: `1px solid ${systemColor}40`,
-                                        }}
-                                    >
-                                        {key}
-                                    </kbd>
+                                    <div className="flex flex-wrap justify-end gap-1">
+                                        {keys.map(key => (
+                                            <kbd
+                                                key={key}
+                                                className="px-2 py-0.5 rounded text-xs font-mono font-bold"
+                                                style={{
+                                                    backgroundColor: `${systemColor}20`,
+                                                    color: systemColor,
+                                                    border: `1px solid ${systemColor}40`,
+                                                }}
+                                            >
+                                                {key}
+                                            </kbd>
+                                        ))}
+                                    </div>
                                 </div>
                             ))}
                         </div>
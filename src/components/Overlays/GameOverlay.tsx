@@ -6,12 +6,14 @@ interface GameOverlayProps {
   status: EmulatorStatus;
   system?: string;
   error?: string | null;
+  missingFiles?: string[]; // Files the ROM set lacks - shown instead of the raw error
   isPaused: boolean;
   onStart: () => void;
   systemColor?: string;
   pendingSlot?: number; // If set, indicates a save will be loaded on start
   isLoadingSave?: boolean; // If true, shows loading indicator for save
   onSelectBios?: () => void;
+  biosWarning?: boolean; // A BIOS file is missing or a bad dump
 }
 
 // Unified loading spinner component
@@ -24,12 +26,14 @@ export default function GameOverlay({
   status,
   system,
   error,
+  missingFiles,
   isPaused,
   onStart,
   systemColor = '#00FF41',
   pendingSlot,
   isLoadingSave,
   onSelectBios,
+  biosWarning,
 }: GameOverlayProps) {
   const t = useKoinTranslation();
 
@@ -99,7 +103,9 @@ export default function GameOverlay({
             onClick={onSelectBios}
             className="mt-6 flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
           >
-            <div className="w-2 h-2 rounded-full" style={{ backgroundColor: systemColor }} />
+            {biosWarning
+              ? <AlertTriangle size={12} className="text-yellow-400" />
+              : <div className="w-2 h-2 rounded-full" style={{ backgroundColor: systemColor }} />}
             <span className="font-mono uppercase tracking-wider text-xs">
               {t.overlay.systemFirmware}
             </span>
@@ -120,7 +126,9 @@ export default function GameOverlay({
               {t.overlay.systemError}
             </p>
             <p className="text-gray-500 text-xs mt-1 max-w-xs">
-              {error || t.overlay.failedInit}
+              {missingFiles?.length
+                ? t.overlay.missingFiles.replace('{{files}}', missingFiles.join(', '))
+                : error || t.overlay.failedInit}
             </p>
           </div>
           <button
@@ -0,0 +1,60 @@
+'use client';
+
+import { memo } from 'react';
+import { useKoinTranslation } from '../../hooks/useKoinTranslation';
+import { Circle, Play } from 'lucide-react';
+
+interface InputMovieIndicatorProps {
+    isRecording: boolean;
+    isPlaying: boolean;
+    frame: number;
+}
+
+/**
+ * Input Movie Indicator
+ * ---------------------
+ * Shows that an input movie is being recorded or replayed, with the frame
+ * counter. Speed and rewind are locked meanwhile.
+ */
+const InputMovieIndicator = memo(function InputMovieIndicator({
+    isRecording,
+    isPlaying,
+    frame,
+}: InputMovieIndicatorProps) {
+    const t = useKoinTranslation();
+
+    if (!isRecording && !isPlaying) return null;
+
+    const color = isRecording ? '#FF3333' : '#33AAFF';
+
+    return (
+        <div
+            className="z-40 select-none pointer-events-none"
+            style={{ fontFamily: 'monospace' }}
+        >
+            <div
+                className="flex items-center gap-2 px-3 py-2 rounded"
+                style={{
+                    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+                    border: `2px solid ${color}`,
+                }}
+            >
+                {isRecording ? (
+                    <Circle size={12} fill={color} style={{ color }} />
+                ) : (
+                    <Play size={12} fill={color} style={{ color }} />
+                )}
+                <div className="flex flex-col">
+                    <span className="text-xs font-bold" style={{ color }}>
+                        {isRecording ? t.overlays.movie.recording : t.overlays.movie.playing}
+                    </span>
+                    <span className="text-[10px] text-white/60">
+                        {t.overlays.movie.frame.replace('{{frame}}', frame.toString())}
+                    </span>
+                </div>
+            </div>
+        </div>
+    );
+});
+
+export default InputMovieIndicator;
@@ -0,0 +1,116 @@
+'use client';
+
+import { memo, useCallback } from 'react';
+import { Copy, Loader2, Users, WifiOff } from 'lucide-react';
+import { useKoinTranslation } from '../../hooks/useKoinTranslation';
+import { NetplayRole, NetplayStatus } from '../../lib/netplay';
+
+interface NetplayOverlayProps {
+    status: NetplayStatus;
+    role: NetplayRole;
+    roomId: string;
+    latency: number | null;
+    onLeave: () => void;
+    systemColor?: string;
+}
+
+/**
+ * Netplay Overlay
+ * ---------------
+ * Lobby panel while connecting/syncing (or after the peer drops), then a
+ * compact status pill with player slot and round-trip time while playing.
+ * Position: Top-left pill (performance HUD is top-right)
+ */
+const NetplayOverlay = memo(function NetplayOverlay({
+    status,
+    role,
+    roomId,
+    latency,
+    onLeave,
+    systemColor = '#00FF41',
+}: NetplayOverlayProps) {
+    const t = useKoinTranslation();
+
+    const handleCopyRoom = useCallback(() => {
+        navigator.clipboard?.writeText(roomId).catch(() => {
+            // Clipboard can be blocked (permissions/insecure context) - the code is visible anyway
+        });
+    }, [roomId]);
+
+    if (status === 'idle') return null;
+
+    const player = t.overlays.netplay.player.replace('{{num}}', role === 'host' ? '1' : '2');
+
+    // In-game status pill
+    if (status === 'playing' || status === 'waiting') {
+        const isWaiting = status === 'waiting';
+        return (
+            <div className="absolute top-2 left-2 z-40 pointer-events-none select-none">
+                <div
+                    className="bg-black/50 backdrop-blur-md px-2 py-1 rounded border flex items-center gap-1.5"
+                    style={{ borderColor: isWaiting ? '#FFA50080' : `${systemColor}40` }}
+                    title={isWaiting ? t.overlays.netplay.waiting : undefined}
+                >
+                    <div
+                        className={`w-2 h-2 rounded-full ${isWaiting ? 'animate-pulse' : ''}`}
+                        style={{ backgroundColor: isWaiting ? '#FFA500' : systemColor }}
+                    />
+                    <span className="text-[10px] uppercase font-bold tracking-wider text-white/90">
+                        {player}
+                    </span>
+                    {latency !== null && (
+                        <span className="text-[10px] font-mono text-white/60">{latency}ms</span>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    // Lobby
+    const isFailed = status === 'disconnected' || status === 'error';
+    const message = {
+        connecting: role === 'host' ? t.overlays.netplay.hosting : t.overlays.netplay.joining,
+        syncing: t.overlays.netplay.syncing,
+        disconnected: t.overlays.netplay.disconnected,
+        error: t.overlays.netplay.error,
+    }[status];
+
+    return (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+            <div
+                className="w-72 max-w-[90%] rounded-lg border bg-black/90 p-5 flex flex-col items-center gap-4 text-center"
+                style={{ borderColor: `${systemColor}60`, boxShadow: `0 0 24px ${systemColor}20` }}
+            >
+                <div className="flex items-center gap-2" style={{ color: isFailed ? '#FF6B6B' : systemColor }}>
+                    {isFailed ? <WifiOff size={20} /> : <Users size={20} />}
+                    <span className="text-xs uppercase font-bold tracking-wider">{player}</span>
+                </div>
+
+                <div className="flex items-center gap-2 text-sm text-white/90">
+                    {!isFailed && <Loader2 size={14} className="animate-spin" />}
+                    <span>{message}</span>
+                </div>
+
+                <button
+                    onClick={handleCopyRoom}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded bg-white/5 hover:bg-white/10 transition-colors"
+                    title={t.overlays.netplay.copyRoom}
+                >
+                    <span className="text-[10px] uppercase tracking-wider text-white/50">{t.overlays.netplay.room}</span>
+                    <span className="font-mono text-sm text-white">{roomId}</span>
+                    <Copy size={12} className="text-white/50" />
+                </button>
+
+                <button
+                    onClick={onLeave}
+                    className="text-xs uppercase tracking-wider font-bold px-4 py-2 rounded transition-colors hover:bg-white/10"
+                    style={{ color: systemColor, border: `1px solid ${systemColor}60` }}
+                >
+                    {t.overlays.netplay.leave}
+                </button>
+            </div>
+        </div>
+    );
+});
+
+export default NetplayOverlay;
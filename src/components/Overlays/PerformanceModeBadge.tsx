@@ -1,20 +1,44 @@
 'use client';
 
 import { memo } from 'react';
+import type { PerformanceStep } from '../../lib/emulator';
 
 interface PerformanceModeBadgeProps {
     isHighPerformance: boolean;
+    /** Quality steps the performance governor took */
+    reducedSteps?: PerformanceStep[];
     systemColor?: string;
 }
 
+const STEP_DESCRIPTIONS: Record<PerformanceStep, string> = {
+    rewind: 'rewind off',
+    runAhead: 'run-ahead off',
+    audioLatency: 'audio latency raised',
+    shader: 'lighter shader',
+};
+
 /**
- * Badge showing current performance mode (High Perf / Standard)
+ * Badge showing current performance mode (High Perf / Standard / Reduced)
  * Reusable across desktop HUD and mobile bottom positioning
  */
 const PerformanceModeBadge = memo(function PerformanceModeBadge({
     isHighPerformance,
+    reducedSteps = [],
     systemColor = '#00FF41',
 }: PerformanceModeBadgeProps) {
+    if (reducedSteps.length > 0) {
+        return (
+            <div
+                className="bg-amber-900/80 backdrop-blur-md px-2 py-1 rounded border border-amber-500/50 flex items-center gap-1.5"
+                title={`Reduced to keep up: ${reducedSteps.map(step => STEP_DESCRIPTIONS[step]).join(', ')}`}
+            >
+                <span className="text-[10px] uppercase font-bold tracking-wider text-amber-200">
+                    Reduced
+                </span>
+            </div>
+        );
+    }
+
     if (isHighPerformance) {
         return (
             <div
@@ -1,113 +1,143 @@
 'use client';
 
-import { memo, useState, useEffect, useRef } from 'react';
+import { memo, useState, useEffect } from 'react';
 import { useKoinTranslation } from '../../hooks/useKoinTranslation';
+import type { PerformanceStats } from '../../lib/emulator';
 
 interface PerformanceOverlayProps {
     isVisible: boolean;
+    getStats: () => PerformanceStats | null;
     coreName?: string;
     systemColor?: string;
 }
 
+// How often the counters are read (ms)
+const REFRESH_INTERVAL = 250;
+
+const GRAPH_WIDTH = 120;
+const GRAPH_HEIGHT = 24;
+
 /**
  * Performance Overlay
  * -------------------
  * A subtle HUD displaying real-time performance metrics.
  * Useful for debugging, power users, and streamers.
- * 
+ *
+ * Reads the emulator's own frame counters (see FrameMetrics), so a core
+ * that falls behind shows it even while the browser renders at 60 FPS.
+ *
  * Metrics displayed:
- * - FPS (frames per second)
- * - Frame time (ms per frame)
+ * - FPS run by the core, against the system's native rate
+ * - Frame time (ms per frame) and a graph of recent frames
+ * - Skipped frames
+ * - Audio buffer (when the core's audio can be read)
  * - Core name
  */
 const PerformanceOverlay = memo(function PerformanceOverlay({
     isVisible,
+    getStats,
     coreName = 'Unknown',
     systemColor = '#00FF41',
 }: PerformanceOverlayProps) {
     const t = useKoinTranslation();
-    const [fps, setFps] = useState(0);
-    const [frameTime, setFrameTime] = useState(0);
-
-    const frameTimesRef = useRef<number[]>([]);
-    const lastTimeRef = useRef<number>(performance.now());
-    const rafIdRef = useRef<number | null>(null);
+    const [stats, setStats] = useState<PerformanceStats | null>(null);
 
     useEffect(() => {
-        if (!isVisible) {
-            if (rafIdRef.current) {
-                cancelAnimationFrame(rafIdRef.current);
-                rafIdRef.current = null;
-            }
-            return;
-        }
-
-        const measureFrame = () => {
-            const now = performance.now();
-            const delta = now - lastTimeRef.current;
-            lastTimeRef.current = now;
-
-            // Keep last 60 frame times for smoothing
-            frameTimesRef.current.push(delta);
-            if (frameTimesRef.current.length > 60) {
-                frameTimesRef.current.shift();
-            }
-
-            // Calculate average
-            const avgFrameTime = frameTimesRef.current.reduce((a, b) => a + b, 0) / frameTimesRef.current.length;
-            const currentFps = 1000 / avgFrameTime;
-
-            setFps(Math.round(currentFps));
-            setFrameTime(Number(avgFrameTime.toFixed(1)));
-
-            rafIdRef.current = requestAnimationFrame(measureFrame);
-        };
-
-        rafIdRef.current = requestAnimationFrame(measureFrame);
-
-        return () => {
-            if (rafIdRef.current) {
-                cancelAnimationFrame(rafIdRef.current);
-            }
-        };
-    }, [isVisible]);
+        if (!isVisible) return;
+
+        setStats(getStats());
+        const interval = setInterval(() => setStats(getStats()), REFRESH_INTERVAL);
+        return () => clearInterval(interval);
+    }, [isVisible, getStats]);
 
     if (!isVisible) return null;
 
+    const fps = stats ? Math.round(stats.fps) : 0;
+    const targetFps = stats ? Math.round(stats.targetFps) : 0;
+    const budget = stats ? 1000 / stats.targetFps : 1000 / 60;
+    const isBehind = !!stats && stats.speed < 0.95;
+
+    // Graph scale: two frame budgets tall, so a dropped frame hits the top
+    const graphMax = budget * 2;
+    const frameTimes = stats?.frameTimes ?? [];
+    const step = GRAPH_WIDTH / Math.max(frameTimes.length - 1, 1);
+    const graphY = (time: number) => GRAPH_HEIGHT - Math.min(time / graphMax, 1) * GRAPH_HEIGHT;
+    const points = frameTimes.map((time, i) => `${(i * step).toFixed(1)},${graphY(time).toFixed(1)}`).join(' ');
+
     return (
         <div
             className="z-40 pointer-events-none select-none"
             style={{ fontFamily: 'monospace' }}
         >
             <div
-                className="flex items-center gap-3 px-2 py-1 rounded text-xs"
+                className="flex flex-col gap-1 px-2 py-1 rounded text-xs"
                 style={{
                     backgroundColor: 'rgba(0, 0, 0, 0.75)',
                     color: systemColor,
                     border: `1px solid ${systemColor}40`,
                 }}
             >
-                {/* FPS */}
-                <div className="flex items-center gap-1">
-                    <span className="opacity-60 text-[10px] uppercase">{t.overlays.performance.fps}</span>
-                    <span className="font-bold">{fps}</span>
+                <div className="flex items-center gap-3">
+                    {/* FPS */}
+                    <div className="flex items-center gap-1">
+                        <span className="opacity-60 text-[10px] uppercase">{t.overlays.performance.fps}</span>
+                        <span className={`font-bold ${isBehind ? 'text-amber-400' : ''}`}>{fps}</span>
+                        <span className="opacity-60">/{targetFps}</span>
+                    </div>
+
+                    <div className="w-px h-3 bg-white/20" />
+
+                    {/* Frame Time */}
+                    <div className="flex items-center gap-1">
+                        <span className="opacity-60 text-[10px] uppercase">{t.overlays.performance.frameTime}</span>
+                        <span className="font-bold">{stats ? stats.frameTime.toFixed(1) : '0.0'}ms</span>
+                    </div>
+
+                    <div className="w-px h-3 bg-white/20" />
+
+                    {/* Skipped Frames */}
+                    <div className="flex items-center gap-1">
+                        <span className="opacity-60 text-[10px] uppercase">{t.overlays.performance.skipped}</span>
+                        <span className={`font-bold ${stats?.framesSkipped ? 'text-amber-400' : ''}`}>{stats?.framesSkipped ?? 0}</span>
+                    </div>
+
+                    {/* Audio Buffer */}
+                    {stats?.audioBufferMs != null && (
+                        <>
+                            <div className="w-px h-3 bg-white/20" />
+                            <div className="flex items-center gap-1">
+                                <span className="opacity-60 text-[10px] uppercase">{t.overlays.performance.audio}</span>
+                                <span className={`font-bold ${stats.audioBufferFill !== null && stats.audioBufferFill < 0.25 ? 'text-amber-400' : ''}`}>
+                                    {Math.round(stats.audioBufferMs)}ms
+                                </span>
+                            </div>
+                        </>
+                    )}
+
+                    <div className="w-px h-3 bg-white/20" />
+
+                    {/* Core */}
+                    <div className="flex items-center gap-1">
+                        <span className="opacity-60 text-[10px] uppercase">{t.overlays.performance.core}</span>
+                        <span className="font-bold text-white/80">{coreName}</span>
+                    </div>
                 </div>
 
-                <div className="w-px h-3 bg-white/20" />
-
-                {/* Frame Time */}
-                <div className="flex items-center gap-1">
-                    <span className="opacity-60 text-[10px] uppercase">{t.overlays.performance.frameTime}</span>
-                    <span className="font-bold">{frameTime}ms</span>
-                </div>
-
-                <div className="w-px h-3 bg-white/20" />
-
-                {/* Core */}
-                <div className="flex items-center gap-1">
-                    <span className="opacity-60 text-[10px] uppercase">{t.overlays.performance.core}</span>
-                    <span className="font-bold text-white/80">{coreName}</span>
-                </div>
+                {/* Frame Time Graph - dashed line is the frame budget */}
+                {frameTimes.length > 1 && (
+                    <svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className="overflow-visible">
+                        <line
+                            x1={0}
+                            x2={GRAPH_WIDTH}
+                            y1={graphY(budget)}
+                            y2={graphY(budget)}
+                            stroke="white"
+                            strokeOpacity={0.25}
+                            strokeDasharray="2 2"
+                        />
+                        <polyline points={points} fill="none" stroke={systemColor} strokeWidth={1} />
+                    </svg>
+                )}
             </div>
         </div>
     );
@@ -52,6 +52,9 @@ const PlayerControls = memo(function PlayerControls({
     isRecording = false,
     currentShader,
     onShaderChange,
+    discIndex,
+    discCount,
+    onDiscChange,
     isMobile = false, // Default to false if not provided
 }: PlayerControlsProps & { loadDisabled?: boolean; saveDisabled?: boolean }) {
 
@@ -113,6 +116,9 @@ const PlayerControls = memo(function PlayerControls({
                 onExit={onExit}
                 currentShader={currentShader}
                 onShaderChange={onShaderChange}
+                discIndex={discIndex}
+                discCount={discCount}
+                onDiscChange={onDiscChange}
                 isRunning={isRunning}
                 disabled={disabled}
                 systemColor={systemColor}
@@ -0,0 +1,134 @@
+'use client';
+
+import { memo, useState, useRef, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { usePortalContainer } from '../../hooks/usePortalContainer';
+import { useKoinTranslation } from '../../hooks/useKoinTranslation';
+import { Disc, ChevronDown } from 'lucide-react';
+
+interface DiscDropdownProps {
+    discIndex?: number;
+    discCount?: number;
+    onDiscChange?: (disc: number) => void;
+    systemColor?: string;
+    disabled?: boolean;
+}
+
+/**
+ * Disc Dropdown
+ * -------------
+ * Disc selector for multi-disc games in the controls bar.
+ * Hidden for single-disc content.
+ */
+const DiscDropdown = memo(function DiscDropdown({
+    discIndex = 0,
+    discCount = 1,
+    onDiscChange,
+    systemColor = '#00FF41',
+    disabled = false,
+}: DiscDropdownProps) {
+    const t = useKoinTranslation();
+    const [isOpen, setIsOpen] = useState(false);
+    const buttonRef = useRef<HTMLButtonElement>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+    const portalContainer = usePortalContainer();
+    const [dropdownPosition, setDropdownPosition] = useState({ bottom: '0px', left: '0px' });
+
+    const updateDropdownPosition = () => {
+        if (!buttonRef.current) return;
+        const rect = buttonRef.current.getBoundingClientRect();
+        setDropdownPosition({
+            bottom: `${window.innerHeight - rect.top + 8}px`,
+            left: `${rect.left}px`,
+        });
+    };
+
+    useEffect(() => {
+        if (isOpen) {
+            updateDropdownPosition();
+            window.addEventListener('resize', updateDropdownPosition);
+            window.addEventListener('scroll', updateDropdownPosition);
+            return () => {
+                window.removeEventListener('resize', updateDropdownPosition);
+                window.removeEventListener('scroll', updateDropdownPosition);
+            };
+        }
+    }, [isOpen]);
+
+    // Close on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClickOutside = (e: MouseEvent) => {
+            // composedPath: inside a shadow root e.target is retargeted to the host element
+            const target = (e.composedPath()[0] ?? e.target) as Node;
+            if (buttonRef.current?.contains(target) || menuRef.current?.contains(target)) {
+                return;
+            }
+            setIsOpen(false);
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    if (!onDiscChange || discCount < 2) return null;
+
+    const discLabel = (disc: number) => t.controls.disc
+        .replace('{{num}}', (disc + 1).toString())
+        .replace('{{count}}', discCount.toString());
+
+    const handleSelect = (disc: number) => {
+        setIsOpen(false);
+        if (disc !== discIndex) onDiscChange(disc);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                ref={buttonRef}
+                onClick={() => !disabled && setIsOpen(!isOpen)}
+                disabled={disabled}
+                className={`flex items-center gap-1.5 px-2 py-1.5 rounded-lg transition-all duration-200 hover:bg-white/10 ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+                title={t.controls.changeDisc}
+            >
+                <Disc size={16} style={{ color: systemColor }} />
+                <span className="text-[10px] font-bold uppercase text-white/80">{discLabel(discIndex)}</span>
+                <ChevronDown size={12} className={`text-white/60 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+            </button>
+
+            {/* Dropdown */}
+            {isOpen && portalContainer && createPortal(
+                <>
+                    <div className="fixed inset-0 z-[9998]" onClick={() => setIsOpen(false)} />
+                    <div
+                        ref={menuRef}
+                        className="fixed py-1 rounded-lg shadow-xl z-[9999] min-w-[120px]"
+                        style={{
+                            backgroundColor: 'rgba(0, 0, 0, 0.95)',
+                            border: `1px solid ${systemColor}40`,
+                            ...dropdownPosition
+                        }}
+                    >
+                        {Array.from({ length: discCount }, (_, disc) => (
+                            <button
+                                key={disc}
+                                onClick={() => handleSelect(disc)}
+                                className={`w-full px-3 py-1.5 text-left text-xs font-medium transition-colors ${discIndex === disc
+                                        ? 'text-white'
+                                        : 'text-white/70 hover:bg-white/10'
+                                    }`}
+                                style={discIndex === disc ? { backgroundColor: `${systemColor}30`, color: systemColor } : undefined}
+                            >
+                                {discLabel(disc)}
+                            </button>
+                        ))}
+                    </div>
+                </>,
+                portalContainer
+            )}
+        </div>
+    );
+});
+
+export default DiscDropdown;
@@ -5,7 +5,7 @@ import SpeedMenu from '../UI/SpeedMenu';
 import VolumeControl from '../UI/VolumeControl';
 import HardcoreTooltip from '../UI/HardcoreTooltip';
 import { PortalTooltip } from '../UI/PortalTooltip';
-import { SpeedMultiplier } from '../../hooks/emulator/types';
+import { SpeedMultiplier } from '../../lib/emulator';
 import { useKoinTranslation } from '../../hooks/useKoinTranslation';
 
 interface PlaybackControlsProps {
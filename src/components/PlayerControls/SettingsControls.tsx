@@ -2,6 +2,7 @@ import { memo } from 'react';
 import { Maximize, Gamepad2, Joystick, Code, Power, HelpCircle, Settings } from 'lucide-react';
 import { ControlButton } from './ControlButton';
 import ShaderDropdown from './ShaderDropdown';
+import DiscDropdown from './DiscDropdown';
 import RAButton from '../RASidebar/RAButton';
 import HardcoreTooltip from '../UI/HardcoreTooltip';
 import { ShaderPresetId } from '../../lib/shader-presets';
@@ -21,6 +22,10 @@ interface SettingsControlsProps {
     currentShader?: ShaderPresetId;
     onShaderChange?: (shader: ShaderPresetId, requiresRestart: boolean) => void;
     isRunning?: boolean; // Passed to ShaderDropdown for restart warning
+    // Disc controls (multi-disc games)
+    discIndex?: number;
+    discCount?: number;
+    onDiscChange?: (disc: number) => void;
     disabled?: boolean;
     systemColor?: string;
     gamepadCount?: number;
@@ -43,6 +48,9 @@ export const SettingsControls = memo(function SettingsControls({
     currentShader,
     onShaderChange,
     isRunning = false,
+    discIndex,
+    discCount,
+    onDiscChange,
     disabled = false,
     systemColor = '#00FF41',
     gamepadCount = 0,
@@ -75,6 +83,15 @@ export const SettingsControls = memo(function SettingsControls({
                 disabled={disabled}
             />
 
+            {/* Disc Selector */}
+            <DiscDropdown
+                discIndex={discIndex}
+                discCount={discCount}
+                onDiscChange={onDiscChange}
+                systemColor={systemColor}
+                disabled={disabled}
+            />
+
             {/* Help / Shortcuts button - Hide on mobile */}
             {!isMobile && onShowShortcuts && (
                 <ControlButton onClick={onShowShortcuts} icon={HelpCircle} label={t.controls.help} disabled={disabled} className="hidden sm:flex" systemColor={systemColor} />
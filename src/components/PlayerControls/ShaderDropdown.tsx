@@ -2,6 +2,7 @@
 
 import { memo, useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
+import { usePortalContainer } from '../../hooks/usePortalContainer';
 import { Monitor, ChevronDown, RefreshCw } from 'lucide-react';
 import { ShaderPresetId } from '../../lib/shader-presets';
 
@@ -39,6 +40,7 @@ const ShaderDropdown = memo(function ShaderDropdown({
     const [pendingShader, setPendingShader] = useState<ShaderPresetId | null>(null);
     const buttonRef = useRef<HTMLButtonElement>(null);
     const menuRef = useRef<HTMLDivElement>(null);
+    const portalContainer = usePortalContainer();
     const [dropdownPosition, setDropdownPosition] = useState({ bottom: '0px', left: '0px' });
 
     const updateDropdownPosition = () => {
@@ -67,7 +69,8 @@ const ShaderDropdown = memo(function ShaderDropdown({
         if (!isOpen) return;
         
         const handleClickOutside = (e: MouseEvent) => {
-            const target = e.target as Node;
+            // composedPath: inside a shadow root e.target is retargeted to the host element
+            const target = (e.composedPath()[0] ?? e.target) as Node;
             if (buttonRef.current?.contains(target) || menuRef.current?.contains(target)) {
                 return;
             }
@@ -126,7 +129,7 @@ const ShaderDropdown = memo(function ShaderDropdown({
             </button>
 
             {/* Dropdown */}
-            {isOpen && typeof document !== 'undefined' && createPortal(
+            {isOpen && portalContainer && createPortal(
                 <>
                     <div className="fixed inset-0 z-[9998]" onClick={() => setIsOpen(false)} />
                     <div
@@ -181,7 +184,7 @@ const ShaderDropdown = memo(function ShaderDropdown({
                     )}
                     </div>
                 </>,
-                document.body
+                portalContainer
             )}
         </div>
     );
@@ -1,5 +1,6 @@
 import { memo, useState, useRef, useEffect, ReactNode } from 'react';
 import { createPortal } from 'react-dom';
+import { usePortalContainer } from '../../hooks/usePortalContainer';
 
 interface PortalTooltipProps {
     content: string;
@@ -22,6 +23,7 @@ export const PortalTooltip = memo(function PortalTooltip({
 }: PortalTooltipProps) {
     const [isHovered, setIsHovered] = useState(false);
     const containerRef = useRef<HTMLDivElement>(null);
+    const portalContainer = usePortalContainer();
     const [tooltipPosition, setTooltipPosition] = useState({ bottom: '0px', left: '0px' });
 
     useEffect(() => {
@@ -58,14 +60,14 @@ export const PortalTooltip = memo(function PortalTooltip({
             >
                 {children}
             </div>
-            {isHovered && typeof document !== 'undefined' && createPortal(
+            {isHovered && portalContainer && createPortal(
                 <div 
                     className={`fixed px-2 py-1 text-xs rounded whitespace-nowrap z-[9999] ${tooltipClassName}`}
                     style={{ ...tooltipPosition, transform: 'translateX(-50%)' }}
                 >
                     {content}
                 </div>,
-                document.body
+                portalContainer
             )}
         </>
     );
@@ -1,35 +1,35 @@
 'use client';
 
-import { memo, useState } from 'react';
+import { memo, useState, useMemo } from 'react';
 import { Keyboard, ChevronDown, ChevronUp } from 'lucide-react';
+import { HotkeyConfig, ALL_HOTKEYS, DEFAULT_HOTKEYS, HOTKEY_LABELS, formatHotkey } from '../../lib/controls';
 
 /**
  * Shortcuts Reference
  * -------------------
- * Collapsible panel showing player F-key shortcuts.
+ * Collapsible panel showing the player's keyboard hotkeys.
  * Game controls have their own config in the Keys modal.
  */
 
 interface ShortcutsReferenceProps {
     systemColor?: string;
     isExpanded?: boolean;
+    /** Hotkey bindings to list (defaults if omitted) */
+    hotkeys?: HotkeyConfig;
 }
 
-// F-key shortcuts only - these don't conflict with games
-const SHORTCUTS = [
-    { key: 'F1', description: 'Help' },
-    { key: 'F3', description: 'FPS Overlay' },
-    { key: 'F4', description: 'Input Display' },
-    { key: 'F5', description: 'Record' },
-    { key: 'F9', description: 'Mute' },
-];
-
 const ShortcutsReference = memo(function ShortcutsReference({
     systemColor = '#00FF41',
     isExpanded: initialExpanded = false,
+    hotkeys = DEFAULT_HOTKEYS,
 }: ShortcutsReferenceProps) {
     const [isExpanded, setIsExpanded] = useState(initialExpanded);
 
+    const shortcuts = useMemo(() => ALL_HOTKEYS
+        .filter(action => hotkeys.keyboard[action])
+        .map(action => ({ key: formatHotkey(hotkeys.keyboard[action]), description: HOTKEY_LABELS[action] })),
+        [hotkeys]);
+
     return (
         <div
             className="rounded overflow-hidden"
@@ -57,7 +57,7 @@ const ShortcutsReference = memo(function ShortcutsReference({
             {/* Shortcuts list - collapsible */}
             {isExpanded && (
                 <div className="px-3 pb-3 pt-1 space-y-1.5 border-t border-white/10">
-                    {SHORTCUTS.map(({ key, description }) => (
+                    {shortcuts.map(({ key, description }) => (
                         <div key={key} className="flex items-center justify-between text-xs">
                             <span className="text-white/60">{description}</span>
                             <kbd
@@ -1,7 +1,8 @@
 import React, { useState, useEffect, memo } from 'react';
 import { createPortal } from 'react-dom';
+import { usePortalContainer } from '../../hooks/usePortalContainer';
 import { Gauge } from 'lucide-react';
-import { SpeedMultiplier } from '../../hooks/emulator/types';
+import { SpeedMultiplier } from '../../lib/emulator';
 
 const SPEED_OPTIONS: SpeedMultiplier[] = [1, 2]; // Normal, Fast (browser limitations)
 
@@ -15,6 +16,7 @@ const SpeedMenu = memo(function SpeedMenu({ speed, onSpeedChange, disabled = fal
     const [showMenu, setShowMenu] = useState(false);
     const buttonRef = React.useRef<HTMLButtonElement>(null);
     const menuRef = React.useRef<HTMLDivElement>(null);
+    const portalContainer = usePortalContainer();
     const [menuPosition, setMenuPosition] = useState({ bottom: '0px', left: '0px', transform: 'translateX(-50%)' });
 
     const updateMenuPosition = () => {
@@ -44,7 +46,8 @@ const SpeedMenu = memo(function SpeedMenu({ speed, onSpeedChange, disabled = fal
         if (!showMenu) return;
         
         const handleClickOutside = (e: MouseEvent) => {
-            const target = e.target as Node;
+            // composedPath: inside a shadow root e.target is retargeted to the host element
+            const target = (e.composedPath()[0] ?? e.target) as Node;
             if (buttonRef.current?.contains(target) || menuRef.current?.contains(target)) {
                 return;
             }
@@ -82,7 +85,7 @@ const SpeedMenu = memo(function SpeedMenu({ speed, onSpeedChange, disabled = fal
                 </span>
             </button>
 
-            {showMenu && typeof document !== 'undefined' && createPortal(
+            {showMenu && portalContainer && createPortal(
                 <>
                     <div className="fixed inset-0 z-[9998]" onClick={() => setShowMenu(false)} />
                     <div
@@ -110,7 +113,7 @@ const SpeedMenu = memo(function SpeedMenu({ speed, onSpeedChange, disabled = fal
                         ))}
                     </div>
                 </>,
-                document.body
+                portalContainer
             )}
         </div>
     );
@@ -0,0 +1,275 @@
+'use client';
+
+import { memo, useRef, useState, useCallback } from 'react';
+import { Plus, Trash2, FileDown, FileUp, RotateCcw } from 'lucide-react';
+import { ALL_BUTTONS, ButtonId } from '../../lib/controls/types';
+import { useKoinTranslation } from '../../hooks/useKoinTranslation';
+import { ButtonConfig, ButtonShape, ControllerLayout, getButtonId } from './layouts';
+import { MAX_BUTTON_SIZE, MIN_BUTTON_OPACITY, MIN_BUTTON_SIZE, TOUCH_LAYOUT_EXTENSION } from './customLayouts';
+
+interface LayoutEditorProps {
+    system: string;
+    layout: ControllerLayout;
+    isCustom: boolean;
+    selectedId: string | null;
+    systemColor?: string;
+    onSelect: (id: string | null) => void;
+    onUpdate: (id: string, patch: Partial<ButtonConfig>) => void;
+    onAdd: (button: Omit<ButtonConfig, 'x' | 'y' | 'id'>) => string;
+    onRemove: (id: string) => void;
+    onReset: () => void;
+    onExport: () => void;
+    /** @returns false if the file was made for another system */
+    onImport: (file: File) => Promise<boolean>;
+}
+
+const SHAPES: ButtonShape[] = ['circle', 'square', 'rect', 'pill'];
+// Directions are covered by the D-pad
+const DIRECTIONS: string[] = ['up', 'down', 'left', 'right'];
+const COMBO_BUTTONS = ALL_BUTTONS.filter(b => !DIRECTIONS.includes(b));
+
+/**
+ * Layout mode panel: edit the selected button's look and what it presses,
+ * add/remove buttons and share the layout as a file
+ */
+const LayoutEditor = memo(function LayoutEditor({
+    system,
+    layout,
+    isCustom,
+    selectedId,
+    systemColor = '#00FF41',
+    onSelect,
+    onUpdate,
+    onAdd,
+    onRemove,
+    onReset,
+    onExport,
+    onImport,
+}: LayoutEditorProps) {
+    const t = useKoinTranslation();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const selected = layout.buttons.find(b => getButtonId(b) === selectedId) ?? null;
+    const pressed: ButtonId[] = selected && selected.type !== 'menu'
+        ? [selected.type, ...(selected.combo ?? [])]
+        : [];
+
+    // Label a button after what it presses, reusing the layout's own labels (e.g. ✕ on PlayStation)
+    const labelFor = useCallback((buttons: ButtonId[]) => buttons.map(b =>
+        layout.buttons.find(existing => existing.type === b && !existing.combo)?.label ?? b.toUpperCase()
+    ).join('+'), [layout.buttons]);
+
+    const togglePressed = (button: ButtonId) => {
+        if (!selected) return;
+        const next = pressed.includes(button) ? pressed.filter(b => b !== button) : [...pressed, button];
+        if (next.length === 0) return;
+        onUpdate(getButtonId(selected), {
+            type: next[0],
+            combo: next.length > 1 ? next.slice(1) : undefined,
+            label: labelFor(next),
+        });
+    };
+
+    const handleAdd = () => {
+        const type: ButtonId = 'a';
+        const id = onAdd({
+            type,
+            label: labelFor([type]),
+            size: 56,
+            showInPortrait: true,
+            showInLandscape: true,
+        });
+        onSelect(id);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = await onImport(file);
+            setError(imported ? null : t.overlays.layoutEditor.wrongSystem.replace('{{system}}', system));
+            if (imported) onSelect(null);
+        } catch (err) {
+            console.error('[Controls] Layout import failed:', err);
+            setError(t.overlays.layoutEditor.invalidFile);
+        }
+    };
+
+    const chipStyle = (active: boolean) => ({
+        backgroundColor: active ? `${systemColor}30` : 'rgba(255,255,255,0.05)',
+        borderColor: active ? systemColor : 'rgba(255,255,255,0.15)',
+        color: active ? systemColor : 'rgba(255,255,255,0.7)',
+    });
+
+    return (
+        <div className="fixed bottom-3 left-1/2 -translate-x-1/2 z-40 w-[min(92vw,360px)] max-h-[55vh] overflow-y-auto rounded-2xl border bg-black/85 backdrop-blur-md p-3 pointer-events-auto text-white"
+            style={{ borderColor: `${systemColor}60`, touchAction: 'pan-y' }}
+        >
+            {/* Header */}
+            <div className="flex items-center gap-2 mb-2">
+                <h4 className="text-[10px] font-black uppercase tracking-[0.15em] flex-1">
+                    {t.overlays.layoutEditor.title}
+                    {isCustom && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-[9px]" style={{ backgroundColor: `${systemColor}25`, color: systemColor }}>
+                            {t.overlays.layoutEditor.custom}
+                        </span>
+                    )}
+                </h4>
+                <button onClick={handleAdd} className="p-1.5 rounded-lg bg-white/5 active:scale-90" title={t.overlays.layoutEditor.add} aria-label={t.overlays.layoutEditor.add}>
+                    <Plus size={14} />
+                </button>
+                <button onClick={onExport} className="p-1.5 rounded-lg bg-white/5 active:scale-90" title={t.overlays.layoutEditor.export} aria-label={t.overlays.layoutEditor.export}>
+                    <FileDown size={14} />
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} className="p-1.5 rounded-lg bg-white/5 active:scale-90" title={t.overlays.layoutEditor.import} aria-label={t.overlays.layoutEditor.import}>
+                    <FileUp size={14} />
+                </button>
+                {isCustom && (
+                    <button onClick={() => { onReset(); onSelect(null); }} className="p-1.5 rounded-lg bg-white/5 active:scale-90" title={t.overlays.layoutEditor.reset} aria-label={t.overlays.layoutEditor.reset}>
+                        <RotateCcw size={14} />
+                    </button>
+                )}
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={`${TOUCH_LAYOUT_EXTENSION},.json,application/json`}
+                    className="hidden"
+                    onChange={handleImport}
+                />
+            </div>
+
+            {error && <p className="text-[11px] text-red-400 mb-2">{error}</p>}
+
+            {/* Every button, so hidden ones can be selected too */}
+            <div className="flex flex-wrap gap-1 mb-2">
+                {layout.buttons.filter(button => button.id || !DIRECTIONS.includes(button.type)).map(button => (
+                    <button
+                        key={getButtonId(button)}
+                        onClick={() => onSelect(getButtonId(button) === selectedId ? null : getButtonId(button))}
+                        className={`px-2 py-0.5 rounded-full border text-[10px] font-bold ${button.showInLandscape ? '' : 'opacity-40'}`}
+                        style={chipStyle(getButtonId(button) === selectedId)}
+                    >
+                        {button.label}
+                    </button>
+                ))}
+            </div>
+
+            {!selected ? (
+                <p className="text-xs text-white/50">{t.overlays.layoutEditor.hint}</p>
+            ) : (
+                <div className="space-y-2.5 text-xs">
+                    {/* Label */}
+                    <label className="flex items-center gap-2">
+                        <span className="w-20 text-white/60">{t.overlays.layoutEditor.label}</span>
+                        <input
+                            type="text"
+                            maxLength={12}
+                            value={selected.label}
+                            onChange={(e) => onUpdate(getButtonId(selected), { label: e.target.value })}
+                            className="flex-1 bg-white/5 border border-white/15 rounded-md px-2 py-1 text-white"
+                        />
+                    </label>
+
+                    {/* Pressed buttons (combo) */}
+                    {selected.type !== 'menu' && (
+                        <div>
+                            <span className="text-white/60">{t.overlays.layoutEditor.buttons}</span>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                                {COMBO_BUTTONS.map(button => (
+                                    <button
+                                        key={button}
+                                        onClick={() => togglePressed(button)}
+                                        className="px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase"
+                                        style={chipStyle(pressed.includes(button))}
+                                    >
+                                        {button}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Size */}
+                    <label className="flex items-center gap-2">
+                        <span className="w-20 text-white/60">{t.overlays.layoutEditor.size}</span>
+                        <input
+                            type="range"
+                            min={MIN_BUTTON_SIZE}
+                            max={MAX_BUTTON_SIZE}
+                            step={2}
+                            value={selected.size}
+                            onChange={(e) => onUpdate(getButtonId(selected), { size: Number(e.target.value) })}
+                            className="flex-1"
+                            style={{ accentColor: systemColor }}
+                        />
+                    </label>
+
+                    {/* Opacity */}
+                    <label className="flex items-center gap-2">
+                        <span className="w-20 text-white/60">{t.overlays.layoutEditor.opacity}</span>
+                        <input
+                            type="range"
+                            min={MIN_BUTTON_OPACITY}
+                            max={1}
+                            step={0.05}
+                            value={selected.opacity ?? 0.85}
+                            onChange={(e) => onUpdate(getButtonId(selected), { opacity: Number(e.target.value) })}
+                            className="flex-1"
+                            style={{ accentColor: systemColor }}
+                        />
+                    </label>
+
+                    {/* Shape */}
+                    <div className="flex items-center gap-2">
+                        <span className="w-20 text-white/60">{t.overlays.layoutEditor.shape}</span>
+                        <div className="flex flex-wrap gap-1">
+                            {SHAPES.map(shape => (
+                                <button
+                                    key={shape}
+                                    onClick={() => onUpdate(getButtonId(selected), { shape })}
+                                    className="px-2 py-0.5 rounded-full border text-[10px] font-bold"
+                                    style={chipStyle((selected.shape ?? 'circle') === shape)}
+                                >
+                                    {t.overlays.layoutEditor.shapes[shape]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Orientation visibility */}
+                    <div className="flex items-center gap-3">
+                        <label className="flex items-center gap-1.5">
+                            <input
+                                type="checkbox"
+                                checked={selected.showInLandscape}
+                                onChange={(e) => onUpdate(getButtonId(selected), { showInLandscape: e.target.checked })}
+                                style={{ accentColor: systemColor }}
+                            />
+                            {t.overlays.layoutEditor.landscape}
+                        </label>
+                        <label className="flex items-center gap-1.5">
+                            <input
+                                type="checkbox"
+                                checked={selected.showInPortrait}
+                                onChange={(e) => onUpdate(getButtonId(selected), { showInPortrait: e.target.checked })}
+                                style={{ accentColor: systemColor }}
+                            />
+                            {t.overlays.layoutEditor.portrait}
+                        </label>
+                        <button
+                            onClick={() => { onRemove(getButtonId(selected)); onSelect(null); }}
+                            className="ml-auto flex items-center gap-1 px-2 py-1 rounded-lg bg-red-500/20 text-red-300 active:scale-95"
+                        >
+                            <Trash2 size={12} />
+                            {t.overlays.layoutEditor.remove}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+});
+
+export default LayoutEditor;
@@ -2,7 +2,7 @@
 
 import React, { useRef } from 'react';
 import { Hand, Zap } from 'lucide-react';
-import { ButtonConfig } from './layouts';
+import { ButtonConfig, getButtonId } from './layouts';
 import { useTouchHandlers } from './hooks/useTouchHandlers';
 import { useTouchEvents } from './hooks/useTouchEvents';
 import { getButtonStyles } from './utils/buttonStyles';
@@ -70,7 +70,7 @@ const VirtualButton = React.memo(function VirtualButton({
     handleTouchCancel,
     cleanup,
   } = useTouchHandlers({
-    buttonType: config.type,
+    buttonType: getButtonId(config),
     isSystemButton,
     buttonSize: config.size,
     displayX,
@@ -151,8 +151,8 @@ const VirtualButton = React.memo(function VirtualButton({
         borderRadius,
         borderWidth: isPressed ? '0px' : '1.5px', // slightly thicker border
         lineHeight: '1',
-        // Semi-transparent in landscape mode
-        opacity: isLandscape ? 0.85 : 1,
+        // Semi-transparent in landscape mode unless the layout sets it
+        opacity: config.opacity ?? (isLandscape ? 0.85 : 1),
         WebkitTouchCallout: 'none',
         WebkitUserSelect: 'none',
         userSelect: 'none',
@@ -2,9 +2,12 @@
 
 import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useMobile } from '../../hooks/useMobile';
-import { getLayoutForSystem } from './layouts';
+import { getLayoutForSystem, getButtonId } from './layouts';
+import { PositionKey } from './useButtonPositions';
 import VirtualButton from './VirtualButton';
 import Dpad from './Dpad';
+import VirtualJoystick from './VirtualJoystick';
+import LayoutEditor from './LayoutEditor';
 import { ControlMapping } from '../../lib/controls/types';
 import { adjustButtonPosition, PositioningContext } from './positioning';
 import { useOrientationBehavior } from './useOrientationBehavior';
@@ -21,6 +24,7 @@ import ModeOverlay from './ModeOverlay';
 import OrientationOverlay from './OrientationOverlay';
 import { useControllerModes } from './hooks/useControllerModes';
 import { useControllerLayout } from './hooks/useControllerLayout';
+import { useCustomLayout } from './hooks/useCustomLayout';
 
 export interface VirtualControllerProps {
   system: string;
@@ -32,6 +36,8 @@ export interface VirtualControllerProps {
   onButtonDown: (button: string) => void;
   /** Callback when button is released - uses Nostalgist API */
   onButtonUp: (button: string) => void;
+  /** Analog stick input (-1..1, y down is positive). Without it virtual sticks act as a D-pad. */
+  onAnalogStick?: (stick: 'left' | 'right', x: number, y: number) => void;
   /** Pause game (for hold mode) */
   onPause: () => void;
   /** Resume game (after hold mode exit) */
@@ -50,6 +56,7 @@ export default function VirtualController({
   hapticsEnabled = true,
   onButtonDown,
   onButtonUp,
+  onAnalogStick,
   onPause,
   onResume,
 }: VirtualControllerProps) {
@@ -90,8 +97,39 @@ export default function VirtualController({
     onPause
   });
 
-  // Get layout for current system
-  const layout = getLayoutForSystem(system);
+  // Responsive sizing for D-pad
+  const dpadSize = containerSize.width > containerSize.height ? 160 : 180;
+  const dpadY = containerSize.width > containerSize.height ? 55 : 62;
+
+  // For Neo Geo, D-pad might need to be slightly higher to avoid overlap if 4 buttons are curved
+  const finalDpadY = system.toUpperCase() === 'NEOGEO' ? dpadY - 5 : dpadY;
+
+  // Layouts with an analog stick move the D-pad out of its way
+  const builtInDpad = getLayoutForSystem(system).dpad;
+  const defaultDpad = useMemo(
+    () => builtInDpad ?? { x: 14, y: finalDpadY, size: dpadSize },
+    [builtInDpad, finalDpadY, dpadSize]
+  );
+
+  // User-defined layout for this system, or the built-in one
+  const {
+    layout,
+    isCustom,
+    moveElement,
+    updateButton,
+    addButton,
+    removeButton,
+    resetLayout,
+    exportLayout,
+    importLayout,
+  } = useCustomLayout({ system, getPosition, dpad: defaultDpad });
+  const [selectedButtonId, setSelectedButtonId] = useState<string | null>(null);
+
+  // Custom layouts carry their own positions
+  const getElementPosition = useCallback(
+    (key: PositionKey) => (isCustom ? null : getPosition(key, isLandscape)),
+    [isCustom, getPosition, isLandscape]
+  );
 
   // Filter buttons based on orientation
   const visibleButtons = layout.buttons.filter((btn) => {
@@ -275,6 +313,39 @@ export default function VirtualController({
     [getButtonKeyboardCode, shouldBlockRelease, onButtonUp]
   );
 
+  // Buttons each layout button presses (combos press several at once)
+  const buttonTargets = useMemo(() => {
+    const targets = new Map<string, string[]>();
+    layout.buttons.forEach(btn => targets.set(getButtonId(btn), [btn.type, ...(btn.combo ?? [])]));
+    return targets;
+  }, [layout.buttons]);
+
+  // Layout buttons report their id; in layout mode a touch selects the button for editing
+  const handleButtonPress = useCallback((id: string) => {
+    if (!isLocked) {
+      setSelectedButtonId(id);
+      return;
+    }
+    (buttonTargets.get(id) ?? [id]).forEach(handlePress);
+  }, [isLocked, buttonTargets, handlePress]);
+
+  const handleButtonPressDown = useCallback((id: string) => {
+    if (!isLocked) {
+      setSelectedButtonId(id);
+      return;
+    }
+    (buttonTargets.get(id) ?? [id]).forEach(handlePressDown);
+  }, [isLocked, buttonTargets, handlePressDown]);
+
+  const handleButtonRelease = useCallback((id: string) => {
+    (buttonTargets.get(id) ?? [id]).forEach(handleRelease);
+  }, [buttonTargets, handleRelease]);
+
+  // Drop the editor selection when the layout is locked again
+  useEffect(() => {
+    if (isLocked) setSelectedButtonId(null);
+  }, [isLocked]);
+
   // Release all buttons when game stops (only non-system buttons)
   useEffect(() => {
     if (!isRunning && pressedButtons.size > 0) {
@@ -325,7 +396,7 @@ export default function VirtualController({
 
     return visibleButtons.map((buttonConfig) => {
       const adjustedConfig = adjustButtonPosition(buttonConfig, context);
-      const customPosition = getPosition(buttonConfig.type, isLandscape);
+      const customPosition = isCustom ? null : getPosition(getButtonId(buttonConfig) as PositionKey, isLandscape);
 
       return {
         buttonConfig,
@@ -335,14 +406,10 @@ export default function VirtualController({
         height
       };
     });
-  }, [visibleButtons, containerSize, isLandscape, isFullscreenState, getPosition]); // Dependencies that actually change layout
-
-  // Responsive sizing for D-pad
-  const dpadSize = containerSize.width > containerSize.height ? 160 : 180;
-  const dpadY = containerSize.width > containerSize.height ? 55 : 62;
+  }, [visibleButtons, containerSize, isLandscape, isFullscreenState, isCustom, getPosition]); // Dependencies that actually change layout
 
-  // For Neo Geo, D-pad might need to be slightly higher to avoid overlap if 4 buttons are curved
-  const finalDpadY = system.toUpperCase() === 'NEOGEO' ? dpadY - 5 : dpadY;
+  const dpadPlacement = layout.dpad ?? defaultDpad;
+  const sticks = layout.sticks ?? [];
 
 
   // Create stable position change handlers to preserve React.memo on buttons
@@ -351,17 +418,27 @@ export default function VirtualController({
     if (isLocked) return {};
 
     const handlers: Record<string, (x: number, y: number) => void> = {};
+    // Custom layouts are edited in place, built-in ones keep per-orientation overrides
+    const save = (key: string, x: number, y: number) => isCustom
+      ? moveElement(key, x, y)
+      : savePosition(key as PositionKey, x, y, isLandscape);
 
     // Handler for D-pad
-    handlers['up'] = (x, y) => savePosition('up', x, y, isLandscape); // 'up' key is used for D-pad root
+    handlers['up'] = (x, y) => save('up', x, y); // 'up' key is used for D-pad root
 
     // Handlers for other buttons
     visibleButtons.forEach(btn => {
-      handlers[btn.type] = (x, y) => savePosition(btn.type, x, y, isLandscape);
+      const id = getButtonId(btn);
+      handlers[id] = (x, y) => save(id, x, y);
+    });
+
+    // Handlers for analog sticks
+    sticks.forEach(stick => {
+      handlers[stick.type] = (x, y) => save(stick.type, x, y);
     });
 
     return handlers;
-  }, [isLocked, visibleButtons, savePosition, isLandscape]);
+  }, [isLocked, visibleButtons, sticks, isCustom, moveElement, savePosition, isLandscape]);
 
   // Don't render on desktop
   if (!isMobile) {
@@ -393,42 +470,66 @@ export default function VirtualController({
 
       {/* Unified D-pad */}
       <Dpad
-        size={dpadSize}
-        x={14}
-        y={finalDpadY}
+        size={dpadPlacement.size}
+        x={dpadPlacement.x}
+        y={dpadPlacement.y}
         containerWidth={containerSize.width || window.innerWidth}
         containerHeight={containerSize.height || window.innerHeight}
         systemColor={systemColor}
         isLandscape={isLandscape}
-        customPosition={getPosition('up', isLandscape)} // 'up' acts as dpad position key
+        customPosition={getElementPosition('up')} // 'up' acts as dpad position key
         onPositionChange={isLocked ? undefined : positionHandlerMap['up']}
         hapticsEnabled={hapticsEnabled}
         onButtonDown={onButtonDown}
         onButtonUp={onButtonUp}
       />
 
+      {/* Analog sticks (N64, PlayStation) */}
+      {sticks.map((stickConfig) => (
+        <VirtualJoystick
+          key={stickConfig.type}
+          config={stickConfig}
+          containerWidth={containerSize.width || window.innerWidth}
+          containerHeight={containerSize.height || window.innerHeight}
+          systemColor={systemColor}
+          isLandscape={isLandscape}
+          customPosition={getElementPosition(stickConfig.type)}
+          onPositionChange={isLocked ? undefined : positionHandlerMap[stickConfig.type]}
+          hapticsEnabled={hapticsEnabled}
+          onStickMove={onAnalogStick}
+          onButtonDown={onButtonDown}
+          onButtonUp={onButtonUp}
+        />
+      ))}
+
       {/* Other buttons (A, B, Start, Select, etc.) */}
       {memoizedButtonElements
-        .filter(({ buttonConfig }) => !DPAD_TYPES.includes(buttonConfig.type))
-        .map(({ buttonConfig, adjustedConfig, customPosition, width, height }) => (
-          <VirtualButton
-            key={buttonConfig.type}
-            config={adjustedConfig}
-            isPressed={pressedButtons.has(buttonConfig.type) || heldButtons.has(buttonConfig.type)}
-            onPress={handlePress}
-            onPressDown={handlePressDown}
-            onRelease={handleRelease}
-            containerWidth={width}
-            containerHeight={height}
-            customPosition={customPosition}
-            onPositionChange={isLocked ? undefined : positionHandlerMap[buttonConfig.type]}
-            isLandscape={isLandscape}
-            console={layout.console}
-            hapticsEnabled={hapticsEnabled}
-            mode={isHoldMode ? 'hold' : isTurboMode ? 'turbo' : 'normal'}
-            isHeld={heldButtons.has(buttonConfig.type)}
-            isInTurbo={turboButtons.has(buttonConfig.type)}
-          />))}
+        // Direction placeholders without an id belong to the Dpad component
+        .filter(({ buttonConfig }) => buttonConfig.id || !DPAD_TYPES.includes(buttonConfig.type))
+        .map(({ buttonConfig, adjustedConfig, customPosition, width, height }) => {
+          const id = getButtonId(buttonConfig);
+          const targets = buttonTargets.get(id) ?? [buttonConfig.type];
+          return (
+            <VirtualButton
+              key={id}
+              config={adjustedConfig}
+              isPressed={targets.every(b => pressedButtons.has(b) || heldButtons.has(b)) || id === selectedButtonId}
+              onPress={handleButtonPress}
+              onPressDown={handleButtonPressDown}
+              onRelease={handleButtonRelease}
+              containerWidth={width}
+              containerHeight={height}
+              customPosition={customPosition}
+              onPositionChange={isLocked ? undefined : positionHandlerMap[id]}
+              isLandscape={isLandscape}
+              console={layout.console}
+              hapticsEnabled={hapticsEnabled}
+              mode={isHoldMode ? 'hold' : isTurboMode ? 'turbo' : 'normal'}
+              isHeld={targets.every(b => heldButtons.has(b))}
+              isInTurbo={targets.every(b => turboButtons.has(b))}
+            />
+          );
+        })}
 
       {/* Mode Overlay (Hold, Turbo, or Layout) */}
       {(isHoldMode || isTurboMode || !isLocked) && (
@@ -441,6 +542,24 @@ export default function VirtualController({
         />
       )}
 
+      {/* Button editor (Layout mode) */}
+      {!isLocked && (
+        <LayoutEditor
+          system={system}
+          layout={layout}
+          isCustom={isCustom}
+          selectedId={selectedButtonId}
+          systemColor={systemColor}
+          onSelect={setSelectedButtonId}
+          onUpdate={updateButton}
+          onAdd={addButton}
+          onRemove={removeButton}
+          onReset={resetLayout}
+          onExport={exportLayout}
+          onImport={importLayout}
+        />
+      )}
+
       {/* First-time hint */}
       <ControlsHint isVisible={isRunning} systemColor={systemColor} />
     </div>
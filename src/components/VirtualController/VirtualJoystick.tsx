@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useRef, useCallback, useEffect } from 'react';
+import { useDrag } from './hooks/useDrag';
+import { useTouchEvents } from './hooks/useTouchEvents';
+import { StickConfig } from './layouts';
+
+interface VirtualJoystickProps {
+    config: StickConfig;
+    containerWidth: number;
+    containerHeight: number;
+    systemColor?: string;
+    isLandscape?: boolean;
+    customPosition?: { x: number; y: number } | null;
+    onPositionChange?: (x: number, y: number) => void;
+    hapticsEnabled?: boolean;
+    /** Analog output (-1..1, y down is positive). Without it the stick drives the D-pad. */
+    onStickMove?: (stick: 'left' | 'right', x: number, y: number) => void;
+    onButtonDown: (button: string) => void;
+    onButtonUp: (button: string) => void;
+}
+
+type Direction = 'up' | 'down' | 'left' | 'right';
+
+const KNOB_RATIO = 0.45;            // Knob diameter relative to the base
+const FLOATING_ZONE_SCALE = 1.6;    // Touch zone of a floating stick relative to the base
+const DIGITAL_THRESHOLD = 0.5;      // Deflection that presses a direction in D-pad fallback
+
+/**
+ * Virtual analog stick
+ * - fixed origin: deflection is measured from the base center
+ * - floating origin: the base recenters under the thumb where it lands
+ * - Layout mode: drag anywhere on the stick to move it
+ */
+const VirtualJoystick = React.memo(function VirtualJoystick({
+    config,
+    containerWidth,
+    containerHeight,
+    systemColor = '#00FF41',
+    isLandscape = false,
+    customPosition,
+    onPositionChange,
+    hapticsEnabled = true,
+    onStickMove,
+    onButtonDown,
+    onButtonUp,
+}: VirtualJoystickProps) {
+    const { size, stick, origin } = config;
+    const zoneSize = origin === 'floating' ? size * FLOATING_ZONE_SCALE : size;
+
+    const zoneRef = useRef<HTMLDivElement>(null);
+    const baseRef = useRef<HTMLDivElement>(null);
+    const knobRef = useRef<HTMLDivElement>(null);
+    const activeTouchRef = useRef<number | null>(null);
+    const originRef = useRef({ x: 0, y: 0 });
+    const activeDirectionsRef = useRef<Set<Direction>>(new Set());
+    const isDeflectedRef = useRef(false);
+
+    const displayX = customPosition ? customPosition.x : config.x;
+    const displayY = customPosition ? customPosition.y : config.y;
+
+    const drag = useDrag({
+        elementSize: zoneSize,
+        displayX,
+        displayY,
+        containerWidth,
+        containerHeight,
+        onPositionChange,
+        // Whole stick is a handle - input is off while the layout is edited
+        centerThreshold: 0.5,
+    });
+
+    const updateVisuals = useCallback((baseOffset: { x: number; y: number }, knob: { x: number; y: number }) => {
+        const radius = size / 2;
+        if (baseRef.current) {
+            baseRef.current.style.transform = `translate3d(${baseOffset.x}px, ${baseOffset.y}px, 0)`;
+        }
+        if (knobRef.current) {
+            const isActive = knob.x !== 0 || knob.y !== 0;
+            knobRef.current.style.transform = `translate3d(${knob.x * radius}px, ${knob.y * radius}px, 0)`;
+            knobRef.current.style.background = isActive ? `${systemColor}80` : 'rgba(255, 255, 255, 0.15)';
+            knobRef.current.style.boxShadow = isActive ? `0 0 15px ${systemColor}` : 'none';
+        }
+    }, [size, systemColor]);
+
+    const updateDirections = useCallback((x: number, y: number) => {
+        const next = new Set<Direction>();
+        if (y < -DIGITAL_THRESHOLD) next.add('up');
+        if (y > DIGITAL_THRESHOLD) next.add('down');
+        if (x < -DIGITAL_THRESHOLD) next.add('left');
+        if (x > DIGITAL_THRESHOLD) next.add('right');
+
+        const prev = activeDirectionsRef.current;
+        prev.forEach(dir => {
+            if (!next.has(dir)) onButtonUp(dir);
+        });
+        next.forEach(dir => {
+            if (!prev.has(dir)) onButtonDown(dir);
+        });
+        activeDirectionsRef.current = next;
+    }, [onButtonDown, onButtonUp]);
+
+    const emit = useCallback((x: number, y: number) => {
+        if (onStickMove) {
+            onStickMove(stick, x, y);
+        } else {
+            updateDirections(x, y);
+        }
+    }, [onStickMove, stick, updateDirections]);
+
+    const moveKnob = useCallback((touchX: number, touchY: number) => {
+        const zone = zoneRef.current?.getBoundingClientRect();
+        if (!zone) return;
+
+        const radius = size / 2;
+        let dx = (touchX - originRef.current.x) / radius;
+        let dy = (touchY - originRef.current.y) / radius;
+        const length = Math.sqrt(dx * dx + dy * dy);
+        if (length > 1) {
+            dx /= length;
+            dy /= length;
+        }
+
+        const baseOffset = {
+            x: originRef.current.x - (zone.left + zone.width / 2),
+            y: originRef.current.y - (zone.top + zone.height / 2),
+        };
+        isDeflectedRef.current = true;
+        updateVisuals(baseOffset, { x: dx, y: dy });
+        emit(dx, dy);
+    }, [size, updateVisuals, emit]);
+
+    const release = useCallback(() => {
+        if (!isDeflectedRef.current) return;
+        isDeflectedRef.current = false;
+        updateVisuals({ x: 0, y: 0 }, { x: 0, y: 0 });
+        emit(0, 0);
+    }, [updateVisuals, emit]);
+
+    // Don't leave the stick deflected (or a direction held) on unmount
+    const releaseRef = useRef(release);
+    releaseRef.current = release;
+    useEffect(() => () => releaseRef.current(), []);
+
+    const findActiveTouch = (e: TouchEvent): Touch | null => {
+        for (let i = 0; i < e.changedTouches.length; i++) {
+            if (e.changedTouches[i].identifier === activeTouchRef.current) {
+                return e.changedTouches[i];
+            }
+        }
+        return null;
+    };
+
+    const handleTouchStart = useCallback((e: TouchEvent) => {
+        e.preventDefault();
+        if (activeTouchRef.current !== null) return;
+
+        const touch = e.changedTouches[0];
+        const rect = zoneRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        activeTouchRef.current = touch.identifier;
+
+        if (onPositionChange) {
+            drag.checkDragStart(touch.clientX, touch.clientY, rect);
+            return;
+        }
+
+        originRef.current = origin === 'floating'
+            ? { x: touch.clientX, y: touch.clientY }
+            : { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+
+        if (hapticsEnabled && navigator.vibrate) navigator.vibrate(5);
+        moveKnob(touch.clientX, touch.clientY);
+    }, [onPositionChange, drag, origin, hapticsEnabled, moveKnob]);
+
+    const handleTouchMove = useCallback((e: TouchEvent) => {
+        e.preventDefault();
+        const touch = findActiveTouch(e);
+        if (!touch) return;
+
+        if (onPositionChange) {
+            if (drag.isDragging) {
+                drag.handleDragMove(touch.clientX, touch.clientY);
+            } else {
+                drag.checkMoveThreshold(touch.clientX, touch.clientY);
+            }
+            return;
+        }
+
+        moveKnob(touch.clientX, touch.clientY);
+    }, [onPositionChange, drag, moveKnob]);
+
+    const handleTouchEnd = useCallback((e: TouchEvent) => {
+        e.preventDefault();
+        if (!findActiveTouch(e)) return;
+        activeTouchRef.current = null;
+
+        drag.handleDragEnd();
+        // Layout mode may have been entered mid-touch
+        release();
+    }, [drag, release]);
+
+    useTouchEvents(zoneRef, {
+        onTouchStart: handleTouchStart,
+        onTouchMove: handleTouchMove,
+        onTouchEnd: handleTouchEnd,
+        onTouchCancel: handleTouchEnd,
+    }, { cleanup: drag.clearDragTimer });
+
+    const leftPx = (displayX / 100) * containerWidth - zoneSize / 2;
+    const topPx = (displayY / 100) * containerHeight - zoneSize / 2;
+    const knobSize = size * KNOB_RATIO;
+
+    return (
+        <div
+            ref={zoneRef}
+            className={`absolute pointer-events-auto touch-manipulation select-none flex items-center justify-center ${drag.isDragging ? 'opacity-60' : ''}`}
+            style={{
+                top: 0,
+                left: 0,
+                transform: `translate3d(${leftPx}px, ${topPx}px, 0)${drag.isDragging ? ' scale(1.05)' : ''}`,
+                width: zoneSize,
+                height: zoneSize,
+                opacity: isLandscape ? 0.75 : 0.9,
+                WebkitTouchCallout: 'none',
+                WebkitUserSelect: 'none',
+                touchAction: 'none',
+                transition: drag.isDragging ? 'none' : 'transform 0.1s ease-out',
+            }}
+        >
+            {/* Floating zone outline is only shown while editing the layout */}
+            {origin === 'floating' && onPositionChange && (
+                <div className="absolute inset-0 rounded-full border border-dashed border-white/20" />
+            )}
+
+            <div
+                ref={baseRef}
+                className={`relative rounded-full bg-black/40 backdrop-blur-md border shadow-lg flex items-center justify-center ${drag.isDragging ? 'border-white/50 ring-2 ring-white/30' : 'border-white/10'}`}
+                style={{ width: size, height: size }}
+            >
+                <div
+                    ref={knobRef}
+                    className="rounded-full border border-white/30 transition-[background,box-shadow] duration-75"
+                    style={{
+                        width: knobSize,
+                        height: knobSize,
+                        background: drag.isDragging ? systemColor : 'rgba(255, 255, 255, 0.15)',
+                    }}
+                />
+            </div>
+        </div>
+    );
+});
+
+export default VirtualJoystick;
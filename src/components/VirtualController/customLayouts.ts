@@ -0,0 +1,179 @@
+/**
+ * User-defined touch layouts
+ *
+ * A custom layout replaces the built-in one for its system. Layouts are kept
+ * in localStorage and can be shared as JSON files:
+ *   { format: 'koin-touch-layout', version: 1, system, layout }
+ */
+
+import { ALL_BUTTONS, ButtonId } from '../../lib/controls/types';
+import { ButtonConfig, ButtonShape, ButtonType, ControllerLayout, StickConfig } from './layouts';
+
+export const TOUCH_LAYOUT_FORMAT = 'koin-touch-layout';
+export const TOUCH_LAYOUT_VERSION = 1;
+export const TOUCH_LAYOUT_EXTENSION = '.koinlayout.json';
+
+export const MIN_BUTTON_SIZE = 32;
+export const MAX_BUTTON_SIZE = 112;
+export const MIN_BUTTON_OPACITY = 0.1;
+
+const STORAGE_PREFIX = 'koin-touch-layout-';
+
+const BUTTON_SHAPES: ButtonShape[] = ['circle', 'square', 'rect', 'pill'];
+const BUTTON_TYPES: ButtonType[] = [...ALL_BUTTONS, 'menu'];
+
+export interface TouchLayoutFile {
+  format: typeof TOUCH_LAYOUT_FORMAT;
+  version: number;
+  system: string;
+  layout: ControllerLayout;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isButtonType = (value: unknown): value is ButtonType => BUTTON_TYPES.includes(value as ButtonType);
+
+const isButtonShape = (value: unknown): value is ButtonShape => BUTTON_SHAPES.includes(value as ButtonShape);
+
+const isButtonId = (value: unknown): value is ButtonId => ALL_BUTTONS.includes(value as ButtonId);
+
+function parseButton(raw: unknown): ButtonConfig {
+  if (!isRecord(raw) || !isButtonType(raw.type) || !isNumber(raw.x) || !isNumber(raw.y) || !isNumber(raw.size)) {
+    throw new Error('Invalid layout file');
+  }
+
+  const type = raw.type;
+  const button: ButtonConfig = {
+    type,
+    label: typeof raw.label === 'string' ? raw.label.slice(0, 12) : type.toUpperCase(),
+    x: clamp(raw.x, 0, 100),
+    y: clamp(raw.y, 0, 100),
+    size: clamp(raw.size, MIN_BUTTON_SIZE, MAX_BUTTON_SIZE),
+    showInPortrait: raw.showInPortrait !== false,
+    showInLandscape: raw.showInLandscape !== false,
+  };
+  if (isButtonShape(raw.shape)) button.shape = raw.shape;
+  if (typeof raw.id === 'string' && raw.id) button.id = raw.id;
+  if (Array.isArray(raw.combo)) {
+    const combo = raw.combo.filter((b: unknown): b is ButtonId => isButtonId(b) && b !== type);
+    if (combo.length > 0) button.combo = Array.from(new Set(combo));
+  }
+  if (isNumber(raw.opacity)) button.opacity = clamp(raw.opacity, MIN_BUTTON_OPACITY, 1);
+  return button;
+}
+
+function parseStick(raw: unknown): StickConfig {
+  if (!isRecord(raw) || (raw.type !== 'leftStick' && raw.type !== 'rightStick') || !isNumber(raw.x) || !isNumber(raw.y) || !isNumber(raw.size)) {
+    throw new Error('Invalid layout file');
+  }
+  return {
+    type: raw.type,
+    stick: raw.type === 'leftStick' ? 'left' : 'right',
+    x: clamp(raw.x, 0, 100),
+    y: clamp(raw.y, 0, 100),
+    size: clamp(raw.size, 80, 240),
+    origin: raw.origin === 'fixed' ? 'fixed' : 'floating',
+  };
+}
+
+/**
+ * Validate an untrusted layout and normalise out-of-range values
+ * @throws Error if it can't be used as a layout
+ */
+export function validateLayout(raw: unknown): ControllerLayout {
+  if (!isRecord(raw) || !Array.isArray(raw.buttons)) {
+    throw new Error('Invalid layout file');
+  }
+
+  const buttons = raw.buttons.map(parseButton);
+  // Keys must be unique - the first button keeps a clashing id
+  const seen = new Set<string>();
+  for (const button of buttons) {
+    let id = button.id ?? button.type;
+    for (let n = 2; seen.has(id); n++) id = `${button.id ?? button.type}-${n}`;
+    if (id !== (button.id ?? button.type)) button.id = id;
+    seen.add(id);
+  }
+
+  const layout: ControllerLayout = {
+    console: typeof raw.console === 'string' ? raw.console : 'CUSTOM',
+    buttons,
+  };
+  if (Array.isArray(raw.sticks)) layout.sticks = raw.sticks.map(parseStick);
+  if (isRecord(raw.dpad) && isNumber(raw.dpad.x) && isNumber(raw.dpad.y) && isNumber(raw.dpad.size)) {
+    layout.dpad = {
+      x: clamp(raw.dpad.x, 0, 100),
+      y: clamp(raw.dpad.y, 0, 100),
+      size: clamp(raw.dpad.size, 80, 240),
+    };
+  }
+  return layout;
+}
+
+/**
+ * Encode a layout for sharing
+ */
+export function serializeTouchLayout(system: string, layout: ControllerLayout): string {
+  const file: TouchLayoutFile = {
+    format: TOUCH_LAYOUT_FORMAT,
+    version: TOUCH_LAYOUT_VERSION,
+    system: system.toUpperCase(),
+    layout,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Decode a shared layout file
+ * @throws Error if the file is not a supported layout
+ */
+export function parseTouchLayout(json: string): { system: string; layout: ControllerLayout } {
+  let file: unknown;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid layout file');
+  }
+
+  if (!isRecord(file) || file.format !== TOUCH_LAYOUT_FORMAT || typeof file.system !== 'string') {
+    throw new Error('Invalid layout file');
+  }
+  if (file.version !== TOUCH_LAYOUT_VERSION) {
+    throw new Error(`Unsupported layout version: ${file.version}`);
+  }
+  return { system: file.system.toUpperCase(), layout: validateLayout(file.layout) };
+}
+
+/**
+ * Load the user's layout for a system, or null to use the built-in one
+ */
+export function loadCustomLayout(system: string): ControllerLayout | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + system.toUpperCase());
+    return stored ? validateLayout(JSON.parse(stored)) : null;
+  } catch (e) {
+    console.error('Failed to load custom layout:', e);
+    return null;
+  }
+}
+
+export function saveCustomLayout(system: string, layout: ControllerLayout): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + system.toUpperCase(), JSON.stringify(layout));
+  } catch (e) {
+    console.error('Failed to save custom layout:', e);
+  }
+}
+
+export function deleteCustomLayout(system: string): void {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + system.toUpperCase());
+  } catch (e) {
+    console.error('Failed to reset custom layout:', e);
+  }
+}
@@ -0,0 +1,126 @@
+import { useState, useCallback, useEffect } from 'react';
+import { ButtonConfig, ControllerLayout, getButtonId, getLayoutForSystem } from '../layouts';
+import { PositionKey } from '../useButtonPositions';
+import {
+  TOUCH_LAYOUT_EXTENSION,
+  deleteCustomLayout,
+  loadCustomLayout,
+  parseTouchLayout,
+  saveCustomLayout,
+  serializeTouchLayout,
+} from '../customLayouts';
+
+interface UseCustomLayoutProps {
+  system: string;
+  /** Dragged position of a built-in element (landscape) */
+  getPosition: (key: PositionKey, isLandscape: boolean) => { x: number; y: number } | null;
+  /** Where the D-pad currently sits */
+  dpad: { x: number; y: number; size: number };
+}
+
+/**
+ * Custom touch layout for a system: editing, persistence and JSON sharing.
+ * The first edit forks the built-in layout, keeping any dragged positions.
+ */
+export const useCustomLayout = ({ system, getPosition, dpad }: UseCustomLayoutProps) => {
+  const [customLayout, setCustomLayout] = useState<ControllerLayout | null>(null);
+
+  useEffect(() => {
+    setCustomLayout(loadCustomLayout(system));
+  }, [system]);
+
+  const layout = customLayout ?? getLayoutForSystem(system);
+
+  const fork = useCallback((): ControllerLayout => {
+    if (customLayout) return customLayout;
+    const builtIn = getLayoutForSystem(system);
+    const dpadPosition = getPosition('up', true);
+    return {
+      ...builtIn,
+      buttons: builtIn.buttons.map(button => ({ ...button, ...getPosition(button.type, true) })),
+      sticks: builtIn.sticks?.map(stick => ({ ...stick, ...getPosition(stick.type, true) })),
+      dpad: { ...dpad, ...dpadPosition },
+    };
+  }, [customLayout, system, getPosition, dpad]);
+
+  const commit = useCallback((next: ControllerLayout) => {
+    setCustomLayout(next);
+    saveCustomLayout(system, next);
+  }, [system]);
+
+  // Position change of a button (by id), stick, or the D-pad ('up')
+  const moveElement = useCallback((key: string, x: number, y: number) => {
+    const base = fork();
+    commit({
+      ...base,
+      buttons: base.buttons.map(button => (getButtonId(button) === key ? { ...button, x, y } : button)),
+      sticks: base.sticks?.map(stick => (stick.type === key ? { ...stick, x, y } : stick)),
+      dpad: key === 'up' && base.dpad ? { ...base.dpad, x, y } : base.dpad,
+    });
+  }, [fork, commit]);
+
+  const updateButton = useCallback((id: string, patch: Partial<ButtonConfig>) => {
+    const base = fork();
+    commit({
+      ...base,
+      // Pin the id so a button keeps its identity when what it presses changes
+      buttons: base.buttons.map(button => (getButtonId(button) === id ? { ...button, id, ...patch } : button)),
+    });
+  }, [fork, commit]);
+
+  /** Add a button at the screen center, returns its id */
+  const addButton = useCallback((button: Omit<ButtonConfig, 'x' | 'y' | 'id'>): string => {
+    const base = fork();
+    const taken = new Set(base.buttons.map(getButtonId));
+    let id = button.type as string;
+    for (let n = 2; taken.has(id); n++) id = `${button.type}-${n}`;
+    commit({ ...base, buttons: [...base.buttons, { ...button, id, x: 50, y: 50 }] });
+    return id;
+  }, [fork, commit]);
+
+  const removeButton = useCallback((id: string) => {
+    const base = fork();
+    commit({ ...base, buttons: base.buttons.filter(button => getButtonId(button) !== id) });
+  }, [fork, commit]);
+
+  const resetLayout = useCallback(() => {
+    setCustomLayout(null);
+    deleteCustomLayout(system);
+  }, [system]);
+
+  const exportLayout = useCallback(() => {
+    const blob = new Blob([serializeTouchLayout(system, fork())], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${system.toLowerCase()}${TOUCH_LAYOUT_EXTENSION}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, [system, fork]);
+
+  /**
+   * Replace the layout with a shared file
+   * @returns false if the layout was made for another system
+   * @throws Error if the file is not a valid layout
+   */
+  const importLayout = useCallback(async (file: File): Promise<boolean> => {
+    const imported = parseTouchLayout(await file.text());
+    if (imported.system !== system.toUpperCase()) return false;
+    commit(imported.layout);
+    return true;
+  }, [system, commit]);
+
+  return {
+    layout,
+    isCustom: customLayout !== null,
+    moveElement,
+    updateButton,
+    addButton,
+    removeButton,
+    resetLayout,
+    exportLayout,
+    importLayout,
+  };
+};
@@ -4,11 +4,11 @@
  */
 
 import { useRef, useCallback } from 'react';
-import { ButtonType } from '../layouts';
 import { useDrag } from './useDrag';
 
 export interface UseTouchHandlersProps {
-  buttonType: ButtonType;
+  /** Button id within the layout (its type unless it's a combo or duplicate) */
+  buttonType: string;
   isSystemButton: boolean;
   buttonSize: number;
   displayX: number;
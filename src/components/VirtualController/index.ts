@@ -1,7 +1,9 @@
 export { default as VirtualController } from './VirtualController';
 export type { VirtualControllerProps } from './VirtualController';
 export { getLayoutForSystem, TWO_BUTTON_LAYOUT, SNES_LAYOUT, GBA_LAYOUT, SIX_BUTTON_LAYOUT, NEOGEO_LAYOUT, PSX_LAYOUT, N64_LAYOUT, DREAMCAST_LAYOUT, SATURN_LAYOUT } from './layouts';
-export type { ButtonConfig, ButtonType, ControllerLayout } from './layouts';
+export type { ButtonConfig, ButtonShape, ButtonType, ControllerLayout, StickConfig, StickType } from './layouts';
+export { serializeTouchLayout, parseTouchLayout, loadCustomLayout, saveCustomLayout, deleteCustomLayout } from './customLayouts';
+export type { TouchLayoutFile } from './customLayouts';
 export { default as VirtualButton } from './VirtualButton';
 export type { VirtualButtonProps } from './VirtualButton';
-
+export { default as VirtualJoystick } from './VirtualJoystick';
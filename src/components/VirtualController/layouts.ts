@@ -9,12 +9,15 @@
  * - Action buttons: Bottom-right (~75-95%, ~45-70%)
  * - System buttons: Top center (~38-62%, ~8%)
  * - Shoulders: Top corners (~8%, ~92%, ~20%)
+ * - Analog stick (3D consoles): D-pad spot, D-pad moves below-right of it
  */
 
 import { ButtonId } from '../../lib/controls/types';
 
 export type ButtonType = ButtonId | 'menu';
 
+export type ButtonShape = 'circle' | 'square' | 'rect' | 'pill';
+
 export interface ButtonConfig {
   type: ButtonType;
   label: string;
@@ -23,12 +26,44 @@ export interface ButtonConfig {
   size: number;
   showInPortrait: boolean;
   showInLandscape: boolean;
-  shape?: 'circle' | 'square' | 'rect' | 'pill';
+  shape?: ButtonShape;
+  /** Unique key within the layout (defaults to `type`; needed for combos and duplicates) */
+  id?: string;
+  /** Extra buttons pressed together with `type` (e.g. A+B on one button) */
+  combo?: ButtonId[];
+  /** 0-1, defaults to the orientation's standard transparency */
+  opacity?: number;
+}
+
+/** Key of a button within its layout */
+export function getButtonId(button: ButtonConfig): string {
+  return button.id ?? button.type;
+}
+
+/** Position key of a virtual stick (shares storage with button positions) */
+export type StickType = 'leftStick' | 'rightStick';
+
+export interface StickConfig {
+  type: StickType;
+  /** RetroPad stick it drives */
+  stick: 'left' | 'right';
+  x: number;
+  y: number;
+  size: number;
+  /**
+   * fixed: the stick's center is its origin.
+   * floating: the origin jumps to where the thumb lands inside the stick zone.
+   */
+  origin: 'fixed' | 'floating';
 }
 
 export interface ControllerLayout {
   console: string;
   buttons: ButtonConfig[];
+  /** Analog sticks, for consoles whose games need them */
+  sticks?: StickConfig[];
+  /** D-pad placement when the default spot is taken (by a stick) */
+  dpad?: { x: number; y: number; size: number };
 }
 
 // --- SIZE CONSTANTS ---
@@ -41,6 +76,10 @@ const START_SELECT_Y = 8;
 const SELECT_X = 38;
 const START_X = 62;
 
+const STICK_SIZE = 150;
+// D-pad makes room for the left stick
+const STICK_LAYOUT_DPAD = { x: 30, y: 82, size: 110 };
+
 // --- SHARED D-PAD BUTTONS (filtered out, handled by Dpad component) ---
 const DPAD_BUTTONS: ButtonConfig[] = [
   { type: 'up', label: '↑', x: 14, y: 55, size: BUTTON_MEDIUM, showInPortrait: true, showInLandscape: true },
@@ -185,6 +224,11 @@ export const PSX_LAYOUT: ControllerLayout = {
     { type: 'select', label: 'SELECT', x: SELECT_X, y: START_SELECT_Y, size: BUTTON_SMALL, showInPortrait: true, showInLandscape: true, shape: 'pill' },
     { type: 'start', label: 'START', x: START_X, y: START_SELECT_Y, size: BUTTON_SMALL, showInPortrait: true, showInLandscape: true, shape: 'pill' },
   ],
+  // Left stick only - a right stick would sit on the face buttons
+  sticks: [
+    { type: 'leftStick', stick: 'left', x: 14, y: 55, size: STICK_SIZE, origin: 'floating' },
+  ],
+  dpad: STICK_LAYOUT_DPAD,
 };
 
 /**
@@ -210,6 +254,10 @@ export const N64_LAYOUT: ControllerLayout = {
     { type: 'select', label: 'SELECT', x: SELECT_X, y: START_SELECT_Y, size: BUTTON_SMALL, showInPortrait: true, showInLandscape: true, shape: 'pill' },
     { type: 'start', label: 'START', x: START_X, y: START_SELECT_Y, size: BUTTON_SMALL, showInPortrait: true, showInLandscape: true, shape: 'pill' },
   ],
+  sticks: [
+    { type: 'leftStick', stick: 'left', x: 14, y: 55, size: STICK_SIZE, origin: 'floating' },
+  ],
+  dpad: STICK_LAYOUT_DPAD,
 };
 
 /**
@@ -4,9 +4,12 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { ButtonType } from './layouts';
+import { ButtonType, StickType } from './layouts';
 
-export type ButtonPositions = Partial<Record<ButtonType, { x: number; y: number }>>;
+/** Anything the layout editor can move */
+export type PositionKey = ButtonType | StickType;
+
+export type ButtonPositions = Partial<Record<PositionKey, { x: number; y: number }>>;
 
 interface StoredPositions {
   landscape: ButtonPositions;
@@ -41,7 +44,7 @@ export function useButtonPositions() {
 
   // Save position for a button (orientation-specific)
   const savePosition = useCallback((
-    buttonType: ButtonType,
+    buttonType: PositionKey,
     x: number,
     y: number,
     isLandscape: boolean
@@ -79,7 +82,7 @@ export function useButtonPositions() {
 
   // Get position for a button (orientation-specific)
   const getPosition = useCallback((
-    buttonType: ButtonType,
+    buttonType: PositionKey,
     isLandscape: boolean
   ): { x: number; y: number } | null => {
     const positions = isLandscape ? landscapePositions : portraitPositions;
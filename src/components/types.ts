@@ -1,9 +1,13 @@
-import { SpeedMultiplier } from '../hooks/useNostalgist';
+import { SpeedMultiplier, EmulatorStatus } from '../hooks/useNostalgist';
+import type { KoinEmulator, KoinResolvers, RetroArchOverrides, PerformanceChange, PerformanceStats } from '../lib/emulator';
 import { ShaderPresetId } from '../lib/shader-presets';
 // Re-export from unified controls module for backwards compatibility
 import { KeyboardMapping, DEFAULT_KEYBOARD } from '../lib/controls';
 import { RACredentials, RAGameExtended, RAAchievement } from '../lib/retroachievements';
 import { KoinTranslations, RecursivePartial } from '../locales/types';
+import { KoinStorageAdapter } from '../lib/storage';
+import { NetplayConfig } from '../lib/netplay';
+import { RomDatabaseEntry, RomIdentity } from '../lib/rom-identify';
 
 export interface SaveSlot {
     slot: number;
@@ -28,10 +32,34 @@ export interface GamePlayerProps {
     romId: string;
     romUrl: string;
     romFileName?: string;
+    // Files mounted next to the ROM: .bin tracks of a .cue/.gdi sheet, parent romsets of an arcade clone
+    romFiles?: (string | { url: string; fileName?: string })[];
+    // Multi-disc games: every disc in order (romUrl may also be an .m3u playlist)
+    discs?: (string | { url: string; fileName?: string })[];
     system: string;
-    title: string;
+    title?: string; // Falls back to the DAT title when `romDatabase` identifies the ROM
     core?: string;
+    // Self-hosted cores and shaders for offline/intranet use (see configureResolvers for page-wide defaults)
+    resolvers?: KoinResolvers;
     biosUrl?: string | { url: string; name: string; location?: 'system' | 'rom_folder' };
+    // BIOS set by the file name the core expects → URL (e.g. { 'scph5501.bin': url }).
+    // Verified against known-good dumps; the ROM region's BIOS is picked automatically.
+    biosFiles?: Record<string, string>;
+    // libretro core options (e.g. { genesis_plus_gx_region_detect: 'ntsc-u' }).
+    // Options the player changes in Settings → Core Options are saved per romId and win over these.
+    coreOptions?: Record<string, string>;
+    // RetroArch settings (run_ahead_frames, audio_latency, video_threaded...) over the system tier's:
+    // `systems` by system key, then `game` for this game. The player's Settings → Advanced picks win over both.
+    retroarchOverrides?: RetroArchOverrides;
+
+    // ROM identification - URL of a No-Intro/Redump DAT (XML) or JSON file, or its entries.
+    // The ROM is hashed (headers skipped) and looked up for its canonical title, region and system.
+    romDatabase?: string | RomDatabaseEntry[];
+    // Hashes and DAT match of the ROM, e.g. to look the game up on RetroAchievements
+    onRomIdentified?: (identity: RomIdentity) => void;
+    // Key saves (states, SRAM) by the ROM's SHA1 instead of romId, so they follow the dump.
+    // Only applies to saves made through `storage` - own callbacks get the slot as usual
+    saveKeyFromHash?: boolean;
 
     // Manual BIOS Selection
     availableBios?: { id: string; name: string; description?: string }[];
@@ -54,8 +82,30 @@ export interface GamePlayerProps {
     onDeleteSaveState?: (slot: number) => Promise<void>;
     initialSaveState?: Blob;
     onScreenshotCaptured?: (image: string | Blob) => void;
+    onInputMovieRecorded?: (movie: Blob) => void; // Overrides the default .koinmovie download
     autoSaveInterval?: number; // Time in ms for auto-save (default: 60000)
 
+    // Battery Save (SRAM) Handlers - in-game saves, persisted separately from save states
+    onSaveSram?: (blob: Blob) => Promise<void>;
+    onLoadSram?: () => Promise<Blob | null>;
+    sramSaveInterval?: number; // Time in ms between SRAM flushes (default: 30000)
+
+    // Storage Adapter - single backend for states, SRAM and settings
+    // Any callback props above take precedence over the adapter
+    storage?: KoinStorageAdapter;
+
+    // Rewind
+    rewindMemoryBudgetMB?: number; // Memory budget for compressed rewind snapshots (default: 32)
+    rewindOnHeavySystems?: boolean; // Enable rewind capture on Tier 2 systems (PS1, N64, GBA...) (default: false)
+
+    // Performance - step quality down (rewind, run-ahead, audio latency, shader) when frames run late,
+    // and back up once play is smooth (default: true, never in netplay)
+    adaptivePerformance?: boolean;
+    onPerformanceChange?: (change: PerformanceChange) => void;
+
+    // Netplay - online two-player session (host = player 1, guest = player 2)
+    netplay?: NetplayConfig;
+
     // Tier Limits
     maxSlots?: number;
     currentTier?: string;
@@ -91,6 +141,53 @@ export interface GamePlayerProps {
     translations?: RecursivePartial<KoinTranslations>;
 }
 
+/**
+ * Imperative handle exposed through `<GamePlayer ref={...} />`.
+ * Lets host apps build their own chrome and automation around the player.
+ */
+export interface GamePlayerHandle {
+    // Lifecycle
+    start: () => Promise<void>; // Call from a user gesture (audio autoplay policy)
+    restart: () => Promise<void>;
+    getStatus: () => EmulatorStatus;
+
+    // Playback
+    pause: () => void;
+    resume: () => void;
+    togglePause: () => void;
+    setSpeed: (speed: SpeedMultiplier) => void;
+    getSpeed: () => SpeedMultiplier;
+
+    // Save States - slots go through onSaveState/onLoadState (or the storage adapter)
+    // Disabled in RetroAchievements hardcore mode (resolve null/false). Slots are
+    // 1..maxSlots or the auto-save slot (others resolve null/false); the default is the hotkey slot
+    save: (slot?: number) => Promise<Blob | null>; // Resolves with the saved state
+    load: (slot?: number) => Promise<boolean>;
+    loadState: (state: Blob | Uint8Array) => Promise<boolean>;
+
+    // Discs - multi-disc games (0-based; resolves false if there is nothing to swap)
+    setDisc: (disc: number) => Promise<boolean>;
+
+    // Media
+    screenshot: () => Promise<string | null>; // PNG data URL
+    startRecording: () => void;
+    stopRecording: () => Promise<Blob | null>; // WebM video
+    isRecording: () => boolean;
+
+    // Audio
+    setVolume: (volume: number) => void; // 0-100
+    toggleMute: () => void;
+
+    // UI
+    toggleFullscreen: () => void;
+
+    // Diagnostics - frame and audio counters of the running core (null when stopped)
+    getPerformanceStats: () => PerformanceStats | null;
+
+    // Underlying framework-agnostic controller (see KoinEmulator)
+    getEmulator: () => KoinEmulator;
+}
+
 export interface PlayerControlsProps {
     isPaused: boolean;
     isRunning: boolean; // Whether the game is actually running (vs ready/loading)
@@ -140,6 +237,10 @@ export interface PlayerControlsProps {
     // Shader controls
     currentShader?: ShaderPresetId;
     onShaderChange?: (shader: ShaderPresetId, requiresRestart: boolean) => void;
+    // Disc controls (multi-disc games)
+    discIndex?: number;
+    discCount?: number;
+    onDiscChange?: (disc: number) => void;
     // Layout override
     isMobile?: boolean;
 }
@@ -153,6 +254,10 @@ export interface SaveSlotModalProps {
     onSelect: (slot: number) => void;
     onDelete: (slot: number) => void;
     onClose: () => void;
+    // Bundle export/import of every slot (hidden when not provided)
+    isTransferring?: boolean;
+    onExport?: () => void;
+    onImport?: () => void;
     // Tier limits for save slots
     maxSlots?: number; // -1 for unlimited
     currentTier?: string;
@@ -0,0 +1,43 @@
+export type BiosRegion = 'us' | 'eu' | 'jp';
+
+export interface KnownBios {
+    fileName: string;        // Name the core looks for in /system
+    md5: string;             // Known-good dump (lower-case hex)
+    crc32?: string;
+    region?: BiosRegion;     // Regional BIOS - picked to match the ROM
+    description: string;
+}
+
+/**
+ * Known-good BIOS dumps per system key, from the libretro core docs.
+ * Regional files are listed in order of preference when the ROM's
+ * region is unknown.
+ */
+export const KNOWN_BIOS: Record<string, KnownBios[]> = {
+    PS1: [
+        { fileName: 'scph5501.bin', md5: '490f666e1afb15b7362b406ed1cea246', crc32: '8d8cb7e4', region: 'us', description: 'PlayStation BIOS v4.1 (USA)' },
+        { fileName: 'scph1001.bin', md5: '924e392ed05558ffdb115408c263dccf', crc32: '37157331', region: 'us', description: 'PlayStation BIOS v2.2 (USA)' },
+        { fileName: 'scph5502.bin', md5: '32736f17079d0b2b7024407c39bd3050', crc32: 'd786f0b9', region: 'eu', description: 'PlayStation BIOS v4.1 (Europe)' },
+        { fileName: 'scph5500.bin', md5: '8dd7d5296a650fac7319bce665a6a53c', crc32: 'ff3eeb8c', region: 'jp', description: 'PlayStation BIOS v3.0 (Japan)' },
+    ],
+    SATURN: [
+        { fileName: 'mpr-17933.bin', md5: '3240872c70984b6cbfda1586cab68dbe', crc32: '4afcf0fa', region: 'us', description: 'Saturn BIOS v1.01 (USA/Europe)' },
+        { fileName: 'sega_101.bin', md5: '85ec9ca47d8f6807718151cbcca8b964', crc32: '224b752c', region: 'jp', description: 'Saturn BIOS v1.01 (Japan)' },
+    ],
+    // Sega CD
+    GENESIS: [
+        { fileName: 'bios_CD_U.bin', md5: '2efd74e3232ff260e371b99f84024f7f', region: 'us', description: 'Sega CD BIOS (USA)' },
+        { fileName: 'bios_CD_E.bin', md5: 'e66fa1dc5820d254611fdcdba0662372', region: 'eu', description: 'Mega-CD BIOS (Europe)' },
+        { fileName: 'bios_CD_J.bin', md5: '278a9397d192149e84e820ac621a8edd', region: 'jp', description: 'Mega-CD BIOS (Japan)' },
+    ],
+    // PC Engine CD
+    PC_ENGINE: [
+        { fileName: 'syscard3.pce', md5: '38179df8f4ac870017db21ebcbf53114', description: 'Super CD-ROM2 System Card 3.0' },
+    ],
+    LYNX: [
+        { fileName: 'lynxboot.img', md5: 'fcd403db69f54290b51035d82f835e7b', description: 'Lynx boot ROM' },
+    ],
+    ATARI_5200: [
+        { fileName: '5200.rom', md5: '281f20ea4320404ec820fb7ec0693b38', description: 'Atari 5200 BIOS' },
+    ],
+};
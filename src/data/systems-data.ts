@@ -30,6 +30,11 @@ export interface SystemConfig {
     biosFileNames?: string[]; // Expected filenames for BIOS matching
     biosLocation?: 'system' | 'rom_folder'; // Where to mount the BIOS ('system' dir or alongside 'rom_folder')
     maxFileSizeMB?: number; // Max file size in MB (default: 100, CD-based: 700)
+    archiveContent?: boolean; // Zips are the content itself (romsets) - never unpacked
+
+    // Timing
+    frameRate?: number;      // Native frame rate in Hz (default: 60)
+    palFrameRate?: number;   // Frame rate of PAL consoles, for systems sold in both
 }
 
 /**
@@ -50,6 +55,8 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#E60012]',
         accentHex: '#E60012', // Nintendo Red
         aliases: ['NINTENDO ENTERTAINMENT SYSTEM', 'FAMICOM'],
+        frameRate: 60.0988,
+        palFrameRate: 50.007,
     },
     {
         key: 'SNES',
@@ -63,6 +70,8 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#514689]',
         accentHex: '#514689', // SNES Purple
         aliases: ['SUPER NINTENDO', 'SUPER NINTENDO ENTERTAINMENT SYSTEM', 'SUPER FAMICOM'],
+        frameRate: 60.0988,
+        palFrameRate: 50.007,
     },
     {
         key: 'N64',
@@ -77,6 +86,8 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#FFB300]',
         accentHex: '#FFB300', // N64 Gold
         aliases: ['NINTENDO 64'],
+        frameRate: 60,
+        palFrameRate: 50,
     },
     {
         key: 'GB',
@@ -90,6 +101,7 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#8BC34A]',
         accentHex: '#8BC34A', // GB Green
         aliases: ['GAME BOY', 'GAMEBOY', 'NINTENDO GAME BOY'],
+        frameRate: 59.7275,
     },
     {
         key: 'GBC',
@@ -103,6 +115,7 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#9C27B0]',
         accentHex: '#9C27B0', // GBC Purple
         aliases: ['GAME BOY COLOR', 'GAMEBOY COLOR', 'NINTENDO GAME BOY COLOR'],
+        frameRate: 59.7275,
     },
     {
         key: 'GBA',
@@ -116,6 +129,7 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#3F51B5]',
         accentHex: '#3F51B5', // GBA Indigo
         aliases: ['GAME BOY ADVANCE', 'GAMEBOY ADVANCE', 'NINTENDO GAME BOY ADVANCE'],
+        frameRate: 59.7275,
     },
     {
         key: 'NDS',
@@ -131,6 +145,7 @@ export const SYSTEMS: SystemConfig[] = [
         accentHex: '#00BCD4', // DS Cyan
         aliases: ['NDS', 'NINTENDO DS'],
         maxFileSizeMB: 512, // DS games are 128MB-512MB
+        frameRate: 59.8261,
     },
     {
         key: 'VIRTUAL_BOY',
@@ -144,6 +159,7 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#D50000]',
         accentHex: '#D50000', // VB Red
         aliases: ['VIRTUAL BOY', 'NINTENDO VIRTUAL BOY'],
+        frameRate: 50.2734,
     },
 
     // Note: Dreamcast (flycast) removed - core not available in any web source
@@ -152,7 +168,7 @@ export const SYSTEMS: SystemConfig[] = [
         label: 'Sega Saturn',
         fullName: 'Sega Saturn',
         slug: 'saturn',
-        extensions: ['.cue', '.chd', '.iso', '.7z'],
+        extensions: ['.cue', '.chd', '.iso', '.m3u', '.7z'],
         core: 'yabause',
         coreSource: 'linuxserver',
         dbNames: ['Sega Saturn'],
@@ -163,6 +179,8 @@ export const SYSTEMS: SystemConfig[] = [
         biosNeeded: true,
         biosFileNames: ['sega_101.bin', 'mpr-17933.bin'],
         maxFileSizeMB: 700, // CD-ROM games can be up to 700MB
+        frameRate: 59.8261,
+        palFrameRate: 49.9201,
     },
     {
         key: 'GENESIS',
@@ -178,6 +196,8 @@ export const SYSTEMS: SystemConfig[] = [
         aliases: ['SEGA GENESIS', 'MEGA DRIVE', 'SEGA MEGA DRIVE', 'MEGADRIVE'],
         biosNeeded: true, // For Sega CD
         biosFileNames: ['bios_CD_U.bin', 'bios_CD_E.bin', 'bios_CD_J.bin'],
+        frameRate: 59.9227,
+        palFrameRate: 49.7015,
     },
     {
         key: 'MASTER_SYSTEM',
@@ -191,6 +211,8 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#00897B]',
         accentHex: '#00897B', // SMS Teal
         aliases: ['MASTER SYSTEM', 'SEGA MASTER SYSTEM', 'SMS'],
+        frameRate: 59.9227,
+        palFrameRate: 49.7015,
     },
     {
         key: 'GAME_GEAR',
@@ -204,6 +226,7 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#1976D2]',
         accentHex: '#1976D2', // GG Blue
         aliases: ['GAME GEAR', 'SEGA GAME GEAR', 'GG'],
+        frameRate: 59.9227,
     },
 
     // ============ Sony ============
@@ -212,7 +235,7 @@ export const SYSTEMS: SystemConfig[] = [
         label: 'PlayStation',
         fullName: 'Sony PlayStation',
         slug: 'ps1',
-        extensions: ['.iso', '.cue', '.pbp'],
+        extensions: ['.iso', '.cue', '.chd', '.pbp', '.m3u'],
         core: 'pcsx_rearmed',
         dbNames: ['PLAYSTATION', 'Sony Playstation', 'Sony PlayStation'],
         iconName: 'PS1',
@@ -222,6 +245,8 @@ export const SYSTEMS: SystemConfig[] = [
         biosNeeded: true,
         biosFileNames: ['scph5500.bin', 'scph5501.bin', 'scph5502.bin', 'scph1001.bin'],
         maxFileSizeMB: 700, // CD-ROM games can be up to 700MB
+        frameRate: 59.826,
+        palFrameRate: 49.761,
     },
 
     // ============ NEC ============
@@ -239,6 +264,7 @@ export const SYSTEMS: SystemConfig[] = [
         aliases: ['PC ENGINE', 'TURBOGRAFX-16', 'TURBOGRAFX', 'PCE', 'TG16'],
         biosNeeded: true, // For CD games
         biosFileNames: ['syscard3.pce'],
+        frameRate: 59.826,
     },
 
     // ============ SNK ============
@@ -257,6 +283,8 @@ export const SYSTEMS: SystemConfig[] = [
         biosNeeded: true,
         biosFileNames: ['neogeo.zip'],
         biosLocation: 'rom_folder',
+        archiveContent: true,
+        frameRate: 59.1856,
     },
     {
         key: 'NEOGEO_POCKET',
@@ -270,6 +298,7 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#0277BD]',
         accentHex: '#0277BD', // NGP Blue
         aliases: ['NEO GEO POCKET', 'NGP'],
+        frameRate: 60.2531,
     },
     {
         key: 'NEOGEO_POCKET_COLOR',
@@ -283,6 +312,7 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#AD1457]',
         accentHex: '#AD1457', // NGPC Pink
         aliases: ['NEO GEO POCKET COLOR', 'NGPC'],
+        frameRate: 60.2531,
     },
 
     // ============ Atari ============
@@ -300,6 +330,7 @@ export const SYSTEMS: SystemConfig[] = [
         aliases: ['ATARI LYNX'],
         biosNeeded: true,
         biosFileNames: ['lynxboot.img'],
+        frameRate: 75,
     },
     {
         key: 'ATARI_5200',
@@ -316,6 +347,7 @@ export const SYSTEMS: SystemConfig[] = [
         aliases: ['ATARI 5200', 'ATARI5200'],
         biosNeeded: true,
         biosFileNames: ['5200.rom'],
+        frameRate: 59.9227,
     },
     {
         key: 'ATARI_2600',
@@ -330,6 +362,8 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#D84315]',
         accentHex: '#D84315', // 2600 Red-Orange
         aliases: ['ATARI 2600', 'ATARI2600'],
+        frameRate: 59.9227,
+        palFrameRate: 49.8607,
     },
     {
         key: 'ATARI_7800',
@@ -344,6 +378,8 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#5D4037]',
         accentHex: '#5D4037', // 7800 Brown
         aliases: ['ATARI 7800', 'ATARI7800'],
+        frameRate: 59.9227,
+        palFrameRate: 49.8607,
     },
 
     // ============ Other ============
@@ -359,6 +395,7 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#7CB342]',
         accentHex: '#7CB342', // WS Green
         aliases: ['WONDERSWAN', 'WONDER SWAN', 'BANDAI WONDERSWAN'],
+        frameRate: 75.4717,
     },
     {
         key: 'WONDERSWAN_COLOR',
@@ -372,6 +409,7 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#009688]',
         accentHex: '#009688', // WSC Teal
         aliases: ['WONDERSWAN COLOR', 'WONDER SWAN COLOR', 'BANDAI WONDERSWAN COLOR', 'WSC'],
+        frameRate: 75.4717,
     },
     {
         key: 'ARCADE',
@@ -386,6 +424,7 @@ export const SYSTEMS: SystemConfig[] = [
         accentHex: '#E91E63', // Arcade Neon Pink
         aliases: ['MAME', 'CPS1', 'CPS2', 'CPS3', 'FBNEO', 'FINALBURN', 'SYSTEM16', 'SEGA SYSTEM 16'],
         biosNeeded: true,
+        archiveContent: true,
     },
     {
         key: 'C64',
@@ -399,5 +438,74 @@ export const SYSTEMS: SystemConfig[] = [
         color: 'group-hover:text-[#546E7A]',
         accentHex: '#546E7A', // C64 Blue-Grey
         aliases: ['C64', 'COMMODORE 64'],
+        frameRate: 59.826,
+        palFrameRate: 50.1245,
     },
 ];
+
+export interface CoreOptionDefinition {
+    key: string;             // Core option key (e.g., 'genesis_plus_gx_region_detect')
+    label: string;           // Display name
+    values: string[];        // Accepted values, the core's default first
+    requiresReset?: boolean; // Changes the emulated hardware - old save states won't load
+}
+
+/**
+ * Core options offered in the player's settings, per core. A curated subset
+ * of each core's options (from its libretro_core_options.h): the ones worth
+ * changing per game and safe in the browser.
+ */
+export const CORE_OPTIONS: Record<string, CoreOptionDefinition[]> = {
+    fceumm: [
+        { key: 'fceumm_region', label: 'Region', values: ['Auto', 'NTSC', 'PAL', 'Dendy'], requiresReset: true },
+        { key: 'fceumm_palette', label: 'Color Palette', values: ['default', 'asqrealc', 'nintendo-vc', 'rgb', 'yuv-v3', 'unsaturated-final', 'sony-cxa2025as-us', 'pal', 'smooth-fbx', 'composite-direct-fbx', 'nes-classic-fbx-fs', 'raw'] },
+        { key: 'fceumm_ntsc_filter', label: 'NTSC Filter', values: ['disabled', 'composite', 'svideo', 'rgb', 'monochrome'] },
+        { key: 'fceumm_nospritelimit', label: 'No Sprite Limit', values: ['disabled', 'enabled'] },
+    ],
+    snes9x: [
+        { key: 'snes9x_region', label: 'Console Region', values: ['auto', 'ntsc', 'pal'], requiresReset: true },
+        { key: 'snes9x_blargg', label: 'Blargg NTSC Filter', values: ['disabled', 'monochrome', 'rf', 'composite', 's-video', 'rgb'] },
+        { key: 'snes9x_audio_interpolation', label: 'Audio Interpolation', values: ['gaussian', 'cubic', 'sinc', 'none', 'linear'] },
+        { key: 'snes9x_reduce_sprite_flicker', label: 'Reduce Flickering', values: ['disabled', 'enabled'] },
+        { key: 'snes9x_overclock_superfx', label: 'SuperFX Overclock', values: ['100%', '150%', '200%', '250%', '300%', '400%', '500%'] },
+    ],
+    mupen64plus_next: [
+        { key: 'mupen64plus-43screensize', label: 'Resolution (4:3)', values: ['640x480', '320x240', '960x720', '1280x960'] },
+        { key: 'mupen64plus-aspect', label: 'Aspect Ratio', values: ['4:3', '16:9 adjusted', '16:9'] },
+        { key: 'mupen64plus-BilinearMode', label: 'Bilinear Filtering', values: ['standard', '3point'] },
+        { key: 'mupen64plus-Framerate', label: 'Framerate', values: ['Original', 'Fullspeed'] },
+    ],
+    gambatte: [
+        { key: 'gambatte_gb_colorization', label: 'Game Boy Colorization', values: ['disabled', 'auto', 'GBC', 'SGB', 'internal'] },
+        { key: 'gambatte_gb_internal_palette', label: 'Internal Palette', values: ['GB - DMG', 'GB - Pocket', 'GB - Light', 'GBC - Blue', 'GBC - Brown', 'GBC - Dark Green', 'GBC - Grayscale', 'GBC - Green', 'GBC - Inverted', 'GBC - Orange', 'GBC - Red', 'GBC - Yellow'] },
+        { key: 'gambatte_gbc_color_correction', label: 'Color Correction', values: ['GBC only', 'always', 'disabled'] },
+        { key: 'gambatte_mix_frames', label: 'Interframe Blending', values: ['disabled', 'mix', 'lcd_ghosting', 'lcd_ghosting_fast'] },
+        { key: 'gambatte_gb_hwmode', label: 'Emulated Hardware', values: ['Auto', 'GB', 'GBC', 'GBA'], requiresReset: true },
+    ],
+    mgba: [
+        { key: 'mgba_color_correction', label: 'Color Correction', values: ['OFF', 'GBA', 'GBC', 'Auto'] },
+        { key: 'mgba_interframe_blending', label: 'Interframe Blending', values: ['OFF', 'mix', 'mix_smart', 'lcd_ghosting', 'lcd_ghosting_fast'] },
+        { key: 'mgba_idle_optimization', label: 'Idle Loop Removal', values: ['Remove Known', 'Detect and Remove', "Don't Remove"] },
+        { key: 'mgba_gb_model', label: 'Game Boy Model', values: ['Autodetect', 'Game Boy', 'Super Game Boy', 'Game Boy Color', 'Game Boy Advance'], requiresReset: true },
+        { key: 'mgba_skip_bios', label: 'Skip BIOS Intro', values: ['OFF', 'ON'], requiresReset: true },
+    ],
+    genesis_plus_gx: [
+        { key: 'genesis_plus_gx_region_detect', label: 'System Region', values: ['auto', 'ntsc-u', 'pal', 'ntsc-j'], requiresReset: true },
+        { key: 'genesis_plus_gx_blargg_ntsc_filter', label: 'Blargg NTSC Filter', values: ['disabled', 'monochrome', 'composite', 'svideo', 'rgb'] },
+        { key: 'genesis_plus_gx_overscan', label: 'Borders', values: ['disabled', 'top/bottom', 'left/right', 'full'] },
+        { key: 'genesis_plus_gx_no_sprite_limit', label: 'Remove Sprite Limit', values: ['disabled', 'enabled'] },
+    ],
+    pcsx_rearmed: [
+        { key: 'pcsx_rearmed_region', label: 'Region', values: ['auto', 'NTSC', 'PAL'], requiresReset: true },
+        { key: 'pcsx_rearmed_dithering', label: 'Dithering', values: ['enabled', 'disabled'] },
+        { key: 'pcsx_rearmed_frameskip_type', label: 'Frameskip', values: ['disabled', 'auto', 'auto_threshold', 'fixed_interval'] },
+        { key: 'pcsx_rearmed_show_bios_bootlogo', label: 'Show BIOS Boot Logo', values: ['disabled', 'enabled'], requiresReset: true },
+    ],
+    // Beetle PSX HW (core override for PS1)
+    mednafen_psx_hw: [
+        { key: 'beetle_psx_hw_renderer', label: 'Renderer', values: ['hardware', 'software'], requiresReset: true },
+        { key: 'beetle_psx_hw_internal_resolution', label: 'Internal GPU Resolution', values: ['1x(native)', '2x', '4x', '8x'] },
+        { key: 'beetle_psx_hw_dither_mode', label: 'Dithering Pattern', values: ['1x(native)', 'internal resolution', 'disabled'] },
+        { key: 'beetle_psx_hw_pgxp_mode', label: 'PGXP Operation Mode', values: ['disabled', 'memory only', 'memory + CPU'] },
+    ],
+};
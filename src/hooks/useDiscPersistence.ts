@@ -0,0 +1,97 @@
+'use client';
+
+import { useCallback, useRef } from 'react';
+import { KoinStorageAdapter } from '../lib/storage';
+
+const STORAGE_PREFIX = 'koin-discs-';
+
+/**
+ * Which disc of a multi-disc game is in: the last one inserted, and the
+ * one each save state was made on (a state only makes sense with its disc)
+ */
+interface DiscRecord {
+    current: number;
+    slots: Record<number, number>;
+}
+
+const EMPTY_RECORD: DiscRecord = { current: 0, slots: {} };
+
+/**
+ * Hook to persist the inserted disc of a multi-disc game per romId.
+ * Synchronizes with localStorage and an optional storage adapter.
+ */
+export function useDiscPersistence(romId?: string, storage?: KoinStorageAdapter) {
+    const key = `${STORAGE_PREFIX}${romId ?? ''}`;
+    // Cached per key - another game starts from its own record
+    const recordRef = useRef<{ key: string; record: DiscRecord } | null>(null);
+
+    const read = useCallback(async (): Promise<DiscRecord> => {
+        if (recordRef.current?.key === key) return recordRef.current.record;
+
+        let record: DiscRecord = EMPTY_RECORD;
+        try {
+            const stored = localStorage.getItem(key);
+            if (stored) record = { ...record, ...JSON.parse(stored) };
+        } catch (e) {
+            console.error('Failed to load disc state', e);
+        }
+
+        // Adapter takes precedence over the local copy
+        if (storage) {
+            try {
+                const stored = await storage.loadSettings<DiscRecord>(key);
+                if (stored) record = { ...record, ...stored };
+            } catch (e) {
+                console.error('Failed to load disc state from storage', e);
+            }
+        }
+
+        recordRef.current = { key, record };
+        return record;
+    }, [key, storage]);
+
+    const write = useCallback(async (update: (record: DiscRecord) => DiscRecord) => {
+        const next = update(await read());
+        recordRef.current = { key, record: next };
+
+        try {
+            localStorage.setItem(key, JSON.stringify(next));
+        } catch (e) {
+            console.error('Failed to save disc state', e);
+        }
+        storage?.saveSettings(key, next)
+            .catch(e => console.error('Failed to save disc state to storage', e));
+    }, [key, storage, read]);
+
+    /** Disc to boot from (the last one inserted) */
+    const loadDisc = useCallback(async (): Promise<number | null> => {
+        if (!romId) return null;
+        return (await read()).current;
+    }, [romId, read]);
+
+    const saveDisc = useCallback(async (disc: number) => {
+        if (!romId) return;
+        await write(record => ({ ...record, current: disc }));
+    }, [romId, write]);
+
+    /** Remember the disc a save state was made on */
+    const saveSlotDisc = useCallback(async (slot: number, disc: number) => {
+        if (!romId) return;
+        await write(record => ({ ...record, slots: { ...record.slots, [slot]: disc } }));
+    }, [romId, write]);
+
+    /** Disc a save state was made on, or null if unknown */
+    const loadSlotDisc = useCallback(async (slot: number): Promise<number | null> => {
+        if (!romId) return null;
+        return (await read()).slots[slot] ?? null;
+    }, [romId, read]);
+
+    return {
+        loadDisc,
+        saveDisc,
+        saveSlotDisc,
+        loadSlotDisc,
+    };
+}
+
+export type DiscPersistence = ReturnType<typeof useDiscPersistence>;
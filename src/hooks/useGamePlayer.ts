@@ -1,11 +1,61 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { GamePlayerProps } from '../components/types';
+import { RomIdentity } from '../lib/rom-identify';
+import { getCoreOptionDefinitions } from '../lib/systems';
+import { RetroArchConfig, RETROARCH_TUNING_SETTINGS, resolveRetroArchConfig } from '../lib/emulator';
 import { useGameUI } from './useGameUI';
 import { useGameSession } from './useGameSession';
 import { useGameSaves } from './useGameSaves';
 import { useGameCheats } from './useGameCheats';
 import { useGameRecording } from './useGameRecording';
+import { useInputMovie } from './useInputMovie';
+import { useNetplay } from './useNetplay';
+import { useStorageHandlers } from './useStorageHandlers';
+import { useDiscPersistence } from './useDiscPersistence';
+import { useGameSettingsPersistence } from './useGameSettingsPersistence';
+import { useKoinTranslation } from './useKoinTranslation';
+
+export function useGamePlayer(rawProps: GamePlayerProps) {
+    // ROM hashes and DAT match - read through a ref, since SRAM is loaded
+    // right after hashing, before React re-renders
+    const romIdentityRef = useRef<RomIdentity | null>(null);
+    const getRomIdentity = useCallback(() => romIdentityRef.current, []);
+    const { onRomIdentified } = rawProps;
+    const handleRomIdentified = useCallback((identity: RomIdentity) => {
+        romIdentityRef.current = identity;
+        onRomIdentified?.(identity);
+    }, [onRomIdentified]);
+    const identifyRom = !!(rawProps.romDatabase || rawProps.saveKeyFromHash || onRomIdentified);
+
+    // 0. Storage (bind `storage` adapter to save callbacks unless overridden)
+    const storageHandlers = useStorageHandlers(rawProps, getRomIdentity);
+    const props: GamePlayerProps = { ...rawProps, ...storageHandlers };
+    const t = useKoinTranslation();
+
+    // Inserted disc of multi-disc games (boot disc and per-slot disc)
+    const discPersistence = useDiscPersistence(props.romId, props.storage);
+
+    // Core options and RetroArch overrides the player picked for this game
+    // (over the `coreOptions` and `retroarchOverrides` props)
+    const coreOptionsStore = useGameSettingsPersistence<Record<string, string>>('koin-core-options-', props.romId, props.storage);
+    const retroarchStore = useGameSettingsPersistence<RetroArchConfig>('koin-retroarch-', props.romId, props.storage);
+    const [savedCoreOptions, setSavedCoreOptions] = useState<Record<string, string>>({});
+    const [savedRetroArch, setSavedRetroArch] = useState<RetroArchConfig>({});
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([coreOptionsStore.load(), retroarchStore.load()]).then(([coreOptions, retroarch]) => {
+            if (cancelled) return;
+            setSavedCoreOptions(coreOptions);
+            setSavedRetroArch(retroarch);
+        });
+        return () => { cancelled = true; };
+    }, [coreOptionsStore.load, retroarchStore.load]);
+
+    // Core reloads (settings, performance steps) would cut a video or input
+    // movie recording and desync netplay - set once those hooks have run
+    const coreReloadBlockedRef = useRef(false);
+    const isCoreReloadBlocked = useCallback(() => coreReloadBlockedRef.current, []);
 
-export function useGamePlayer(props: GamePlayerProps) {
     // 1. UI State (Toasts, Fullscreen, Refs)
     const {
         containerRef,
@@ -30,15 +80,25 @@ export function useGamePlayer(props: GamePlayerProps) {
         connectedCount,
         gamepadModalOpen,
         setGamepadModalOpen,
+        gamepadBindings,
+        reloadGamepadBindings,
         controlsModalOpen,
         setControlsModalOpen,
         hardcoreRestrictions,
     } = useGameSession({
         ...props,
         canvasRef,
+        loadDisc: discPersistence.loadDisc,
+        loadCoreOptions: coreOptionsStore.load,
+        loadRetroArchOverrides: retroarchStore.load,
+        onRomIdentified: identifyRom ? handleRomIdentified : undefined,
         showToast,
+        isCoreReloadBlocked,
     });
 
+    // DAT title when the host gives none
+    const title = props.title || nostalgist.romIdentity?.title;
+
     const {
         pause,
         resume,
@@ -56,19 +116,130 @@ export function useGamePlayer(props: GamePlayerProps) {
         handleLoad,
         handleSlotSelect,
         handleSlotDelete,
+        isTransferring,
+        handleExportSaves,
+        handleImportSaves,
+        saveToSlot,
+        loadFromSlot,
         autoSaveEnabled,
         autoSavePaused,
         autoSaveState,
         autoSaveProgress,
         handleAutoSaveToggle,
+        flushSram,
     } = useGameSaves({
         ...props,
+        title,
         nostalgist,
+        discPersistence,
         showToast,
         pause,
         resume,
     });
 
+    // Battery saves go to storage first: the core boots from the SRAM stored
+    // there, and a reload without progress would drop unflushed in-game saves
+    const reloadCore = async (keepProgress: boolean): Promise<boolean> => {
+        if (!await flushSram()) {
+            console.warn('[GamePlayer] Core reload aborted: could not save SRAM');
+            return false;
+        }
+        return nostalgist.reloadCore({ keepProgress });
+    };
+
+    // Core options of the active core, with their current values
+    const coreOptionDefinitions = useMemo(
+        () => getCoreOptionDefinitions(props.system, props.core),
+        [props.system, props.core]
+    );
+    const { coreOptions } = props;
+    // Host's values, else the core's defaults
+    const coreOptionDefaults = useMemo(() => {
+        const values: Record<string, string> = {};
+        for (const option of coreOptionDefinitions) {
+            values[option.key] = coreOptions?.[option.key] ?? option.values[0];
+        }
+        return values;
+    }, [coreOptionDefinitions, coreOptions]);
+    const coreOptionValues = useMemo(
+        () => ({ ...coreOptionDefaults, ...savedCoreOptions }),
+        [coreOptionDefaults, savedCoreOptions]
+    );
+
+    // Save the player's picks and reload the core so they take effect.
+    // Hardware options (region, model) restart the game - its state can't carry over.
+    const handleCoreOptionsChange = async (values: Record<string, string>) => {
+        const changed = coreOptionDefinitions.filter(option => values[option.key] !== coreOptionValues[option.key]);
+        if (changed.length === 0) return;
+
+        // Only keep what differs from the defaults
+        const picked: Record<string, string> = {};
+        for (const option of coreOptionDefinitions) {
+            const value = values[option.key];
+            if (value !== coreOptionDefaults[option.key]) picked[option.key] = value;
+        }
+        setSavedCoreOptions(picked);
+        await coreOptionsStore.save(picked);
+
+        if (nostalgist.status !== 'running' && nostalgist.status !== 'paused') return;
+        if (isCoreReloadBlocked()) {
+            showToast(t.notifications.coreOptionsSaved, 'info', { title: t.notifications.appliesOnRestart });
+            return;
+        }
+        const keepProgress = !hardcoreRestrictions.isHardcore && !changed.some(option => option.requiresReset);
+        if (await reloadCore(keepProgress)) {
+            showToast(keepProgress ? t.notifications.coreOptionsApplied : t.notifications.coreOptionsRestarted, 'success');
+        } else {
+            showToast(t.notifications.coreOptionsFailed, 'error');
+        }
+    };
+
+    // RetroArch tuning (Advanced settings): the host's layers, then the player's
+    const { retroarchOverrides } = props;
+    const retroarchDefaults = useMemo(() => {
+        const { config } = resolveRetroArchConfig(props.system, retroarchOverrides);
+        const values: RetroArchConfig = {};
+        for (const setting of RETROARCH_TUNING_SETTINGS) {
+            values[setting.key] = config[setting.key] ?? setting.values[0];
+        }
+        return values;
+    }, [props.system, retroarchOverrides]);
+    const retroarchValues = useMemo(
+        () => ({ ...retroarchDefaults, ...savedRetroArch }),
+        [retroarchDefaults, savedRetroArch]
+    );
+
+    // Save the player's layer and reload the core - RetroArch reads it at boot
+    const handleRetroArchOverridesChange = async (values: RetroArchConfig) => {
+        const picked: RetroArchConfig = {};
+        for (const setting of RETROARCH_TUNING_SETTINGS) {
+            const value = values[setting.key];
+            if (value !== retroarchDefaults[setting.key]) picked[setting.key] = value;
+        }
+        setSavedRetroArch(picked);
+        await retroarchStore.save(picked);
+
+        if (nostalgist.status !== 'running' && nostalgist.status !== 'paused') return;
+        if (isCoreReloadBlocked()) {
+            showToast(t.notifications.advancedSettingsSaved, 'info', { title: t.notifications.appliesOnRestart });
+            return;
+        }
+        const keepProgress = !hardcoreRestrictions.isHardcore;
+        if (await reloadCore(keepProgress)) {
+            showToast(t.notifications.advancedSettingsApplied, 'success');
+        } else {
+            showToast(t.notifications.advancedSettingsFailed, 'error');
+        }
+    };
+
+    // Disc swap (multi-disc games)
+    const handleDiscChange = async (disc: number): Promise<boolean> => {
+        if (!await nostalgist.setDisc(disc)) return false;
+        discPersistence.saveDisc(disc);
+        showToast(t.notifications.discInserted.replace('{{num}}', (disc + 1).toString()), 'info');
+        return true;
+    };
+
     // 4. Cheats State (Modal, Toggling)
     const {
         cheatsModalOpen,
@@ -97,15 +268,55 @@ export function useGamePlayer(props: GamePlayerProps) {
         getCanvasElement: () => canvasRef.current,
     });
 
+    // 6. Input Movies (Frame-exact input recording & replay)
+    const {
+        isMovieRecording,
+        isMoviePlaying,
+        movieFrame,
+        handleToggleMovieRecording,
+        handlePlayMovieFile,
+    } = useInputMovie({
+        nostalgist,
+        system: props.system,
+        romId: props.romId,
+        core: props.core,
+        keyboardControls: controls,
+        gamepadBindings,
+        title,
+        onInputMovieRecorded: props.onInputMovieRecorded,
+        showToast,
+    });
+
+    // 7. Netplay (Online two-player lockstep)
+    const {
+        netplayStatus,
+        netplayLatency,
+        netplayPressDown,
+        netplayPressUp,
+        leaveNetplay,
+    } = useNetplay({
+        nostalgist,
+        netplay: props.netplay,
+        containerRef,
+        keyboardControls: controls,
+        gamepadBindings,
+    });
+
+    coreReloadBlockedRef.current = isRecording || isMovieRecording || isMoviePlaying || !!props.netplay;
+
     return {
         // Refs
         containerRef,
         canvasRef,
 
+        // ROM
+        title,
+
         // State
         isMobile,
         isFullscreen,
         toasts,
+        showToast,
         dismissToast,
         raSidebarOpen,
         setRaSidebarOpen,
@@ -121,6 +332,7 @@ export function useGamePlayer(props: GamePlayerProps) {
         // Modals
         gamepadModalOpen,
         setGamepadModalOpen,
+        reloadGamepadBindings,
         controlsModalOpen,
         setControlsModalOpen,
         cheatsModalOpen,
@@ -135,11 +347,17 @@ export function useGamePlayer(props: GamePlayerProps) {
         actioningSlot,
         handleSlotSelect,
         handleSlotDelete,
+        isTransferring,
+        handleExportSaves,
+        handleImportSaves,
+        saveToSlot,
+        loadFromSlot,
         autoSaveEnabled,
         autoSavePaused,
         autoSaveState,
         autoSaveProgress,
         handleAutoSaveToggle,
+        flushSram,
 
         // Restrictions
         hardcoreRestrictions,
@@ -158,6 +376,18 @@ export function useGamePlayer(props: GamePlayerProps) {
         handleFullscreen,
         handleSave,
         handleLoad,
+        handleDiscChange,
+        handleCoreOptionsChange,
+
+        // Core Options
+        coreOptionDefinitions,
+        coreOptionValues,
+        coreOptionDefaults,
+
+        // Advanced (RetroArch overrides)
+        handleRetroArchOverridesChange,
+        retroarchValues,
+        retroarchDefaults,
 
         // Actions
         pause,
@@ -172,5 +402,19 @@ export function useGamePlayer(props: GamePlayerProps) {
         pauseRecording,
         resumeRecording,
         recordingSupported,
+
+        // Input Movies
+        isMovieRecording,
+        isMoviePlaying,
+        movieFrame,
+        handleToggleMovieRecording,
+        handlePlayMovieFile,
+
+        // Netplay
+        netplayStatus,
+        netplayLatency,
+        netplayPressDown,
+        netplayPressUp,
+        leaveNetplay,
     };
 }
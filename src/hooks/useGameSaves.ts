@@ -3,10 +3,23 @@ import { UseNostalgistReturn } from './useNostalgist';
 import { useKoinTranslation } from './useKoinTranslation';
 import { GamePlayerProps, SaveSlot } from '../components/types';
 import { SaveQueue } from '../lib/save-queue';
+import { AUTO_SAVE_SLOT } from '../lib/storage';
 import { useAutoSave } from './useAutoSave';
+import { useSramPersistence } from './useSramPersistence';
+import { DiscPersistence } from './useDiscPersistence';
+import { getCoreBuild } from '../lib/emulator';
+import {
+    SAVE_BUNDLE_EXTENSION,
+    SaveBundle,
+    SaveBundleSlot,
+    checkSaveBundleCompatibility,
+    parseSaveBundle,
+    serializeSaveBundle,
+} from '../lib/save-bundle';
 
 interface UseGameSavesProps extends Partial<GamePlayerProps> {
     nostalgist: UseNostalgistReturn | null;
+    discPersistence?: DiscPersistence;
     showToast: (message: string, type?: 'success' | 'error' | 'info' | 'warning', options?: any) => void;
     pause: () => void;
     resume: () => void;
@@ -14,16 +27,24 @@ interface UseGameSavesProps extends Partial<GamePlayerProps> {
 
 export function useGameSaves({
     nostalgist,
+    discPersistence,
     showToast,
     pause,
     resume,
+    romId = '',
+    system = '',
+    core,
+    resolvers,
     title,
+    maxSlots,
     onSaveState,
     onLoadState,
     onAutoSave,
     onGetSaveSlots,
     onDeleteSaveState,
     autoSaveInterval,
+    onSaveSram,
+    sramSaveInterval,
 }: UseGameSavesProps) {
     const t = useKoinTranslation();
     // Save Slot Modal state
@@ -32,10 +53,24 @@ export function useGameSaves({
     const [saveSlots, setSaveSlots] = useState<SaveSlot[]>([]);
     const [isSlotLoading, setIsSlotLoading] = useState(false);
     const [actioningSlot, setActioningSlot] = useState<number | null>(null);
+    const [isTransferring, setIsTransferring] = useState(false);
 
     // Save Queue to prevent race conditions
     const queueRef = useRef(new SaveQueue());
 
+    // A state of a multi-disc game only resumes correctly with its disc in
+    const rememberSlotDisc = useCallback((slot: number) => {
+        if (nostalgist && nostalgist.discCount > 1) {
+            discPersistence?.saveSlotDisc(slot, nostalgist.discIndex);
+        }
+    }, [nostalgist, discPersistence]);
+
+    const handleAutoSave = useCallback(async (blob: Blob, screenshot?: string) => {
+        if (!onAutoSave) return;
+        await onAutoSave(blob, screenshot);
+        rememberSlotDisc(AUTO_SAVE_SLOT);
+    }, [onAutoSave, rememberSlotDisc]);
+
     // Auto-save hook
     const {
         autoSaveEnabled,
@@ -45,11 +80,18 @@ export function useGameSaves({
         handleAutoSaveToggle,
     } = useAutoSave({
         nostalgist,
-        onAutoSave,
+        onAutoSave: onAutoSave ? handleAutoSave : undefined,
         queueRef,
         autoSaveInterval,
     });
 
+    // Battery save (SRAM) hook
+    const { sramEnabled, flushSram } = useSramPersistence({
+        nostalgist,
+        onSaveSram,
+        sramSaveInterval,
+    });
+
     // Fetch slots helper
     const refreshSlots = useCallback(async () => {
         if (!onGetSaveSlots) return;
@@ -142,6 +184,70 @@ export function useGameSaves({
         }
     };
 
+    // Save to a slot through onSaveState (with screenshot). Without a handler the
+    // state is only captured. Resolves with the state blob, or null on failure.
+    const saveToSlot = async (slot: number): Promise<Blob | null> => {
+        if (!nostalgist) return null;
+
+        try {
+            return await queueRef.current.add(async () => {
+                const result = await nostalgist.saveStateWithBlob();
+                if (!result) return null;
+                if (!onSaveState) return result.blob;
+
+                // Take screenshot
+                let screen: string | undefined;
+                try {
+                    const screenshotData = await nostalgist.screenshot();
+                    if (screenshotData) {
+                        screen = screenshotData;
+                    }
+                } catch (e) {
+                    console.warn('Screenshot failed', e);
+                }
+
+                await onSaveState(slot, result.blob, screen);
+                rememberSlotDisc(slot);
+                showToast(t.notifications.savedSlot.replace('{{num}}', slot.toString()), 'success', { title: t.overlays.toast.saved });
+                return result.blob;
+            });
+        } catch (err) {
+            console.error('Save failed:', err);
+            showToast(t.notifications.failedSave, 'error', { title: t.overlays.toast.error });
+            return null;
+        }
+    };
+
+    // Load a slot through onLoadState. Resolves true once the state is running.
+    const loadFromSlot = async (slot: number): Promise<boolean> => {
+        if (!nostalgist || !onLoadState) return false;
+
+        try {
+            const blob = await onLoadState(slot);
+            if (!blob) {
+                showToast(t.notifications.emptySlot, 'error', { title: t.overlays.toast.error });
+                return false;
+            }
+            const buffer = await blob.arrayBuffer();
+
+            // Put the state's disc in first
+            const disc = nostalgist.discCount > 1 ? await discPersistence?.loadSlotDisc(slot) : null;
+            if (disc != null && disc !== nostalgist.discIndex && await nostalgist.setDisc(disc)) {
+                discPersistence?.saveDisc(disc);
+            }
+
+            const loaded = await queueRef.current.add(() => nostalgist.loadState(new Uint8Array(buffer)));
+            if (loaded) {
+                showToast(t.notifications.loadedSlot.replace('{{num}}', slot.toString()), 'success', { title: t.overlays.toast.loaded });
+            }
+            return loaded;
+        } catch (err) {
+            console.error('Load failed:', err);
+            showToast(t.notifications.failedLoad, 'error', { title: t.overlays.toast.error });
+            return false;
+        }
+    };
+
     const handleSlotSelect = async (slot: number) => {
         if (!nostalgist) return;
 
@@ -149,29 +255,10 @@ export function useGameSaves({
             if (!onSaveState) return;
             setActioningSlot(slot);
             try {
-                await queueRef.current.add(async () => {
-                    const result = await nostalgist.saveStateWithBlob();
-                    if (result) {
-                        // Take screenshot
-                        let screen: string | undefined;
-                        try {
-                            const screenshotData = await nostalgist.screenshot();
-                            if (screenshotData) {
-                                screen = screenshotData;
-                            }
-                        } catch (e) {
-                            console.warn('Screenshot failed', e);
-                        }
-
-                        await onSaveState(slot, result.blob, screen);
-                        showToast(t.notifications.savedSlot.replace('{{num}}', slot.toString()), 'success', { title: t.overlays.toast.saved });
-                        setSaveModalOpen(false);
-                        resume();
-                    }
-                });
-            } catch (err) {
-                console.error('Save failed:', err);
-                showToast(t.notifications.failedSave, 'error', { title: t.overlays.toast.error });
+                if (await saveToSlot(slot)) {
+                    setSaveModalOpen(false);
+                    resume();
+                }
             } finally {
                 setActioningSlot(null);
             }
@@ -179,21 +266,10 @@ export function useGameSaves({
             if (!onLoadState) return;
             setActioningSlot(slot);
             try {
-                const blob = await onLoadState(slot);
-                if (blob) {
-                    const buffer = await blob.arrayBuffer();
-                    await queueRef.current.add(async () => {
-                        await nostalgist.loadState(new Uint8Array(buffer));
-                    });
-                    showToast(t.notifications.loadedSlot.replace('{{num}}', slot.toString()), 'success', { title: t.overlays.toast.loaded });
+                if (await loadFromSlot(slot)) {
                     setSaveModalOpen(false);
                     resume();
-                } else {
-                    showToast(t.notifications.emptySlot, 'error', { title: t.overlays.toast.error });
                 }
-            } catch (err) {
-                console.error('Load failed:', err);
-                showToast(t.notifications.failedLoad, 'error', { title: t.overlays.toast.error });
             } finally {
                 setActioningSlot(null);
             }
@@ -217,6 +293,128 @@ export function useGameSaves({
         }
     };
 
+    // Export every slot of this game as one bundle file
+    const handleExportSaves = async () => {
+        if (!onGetSaveSlots || !onLoadState) return;
+
+        setIsTransferring(true);
+        try {
+            const slots = await onGetSaveSlots();
+            const entries: SaveBundleSlot[] = [];
+            for (const slot of slots) {
+                const state = await onLoadState(slot.slot);
+                if (state) {
+                    entries.push({ slot: slot.slot, timestamp: slot.timestamp, state, screenshot: slot.screenshot ?? undefined });
+                }
+            }
+
+            if (entries.length === 0) {
+                showToast(t.notifications.noSavesToExport, 'info');
+                return;
+            }
+
+            const build = getCoreBuild(system, core, resolvers);
+            const blob = await serializeSaveBundle({
+                romId,
+                system,
+                core: build.name,
+                coreVersion: build.version,
+                title,
+                exportedAt: new Date().toISOString(),
+                slots: entries,
+            });
+
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `${title || 'game'}${SAVE_BUNDLE_EXTENSION}`;
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+            showToast(t.notifications.savesExported, 'success', { title: t.overlays.toast.saved });
+        } catch (err) {
+            console.error('Export failed:', err);
+            showToast(t.notifications.failedFetch, 'error', { title: t.overlays.toast.error });
+        } finally {
+            setIsTransferring(false);
+        }
+    };
+
+    // Import a bundle into the storage callbacks, after checking it targets this system and core
+    const importSaveBundle = async (file: Blob) => {
+        if (!onSaveState) return;
+
+        let bundle: SaveBundle;
+        try {
+            bundle = await parseSaveBundle(file);
+        } catch (err) {
+            console.error('Failed to read save bundle:', err);
+            showToast(t.notifications.saveBundleInvalid, 'error', { title: t.overlays.toast.error });
+            return;
+        }
+
+        const build = getCoreBuild(system, core, resolvers);
+        const mismatch = checkSaveBundleCompatibility(bundle, { system, core: build.name });
+        if (mismatch === 'system') {
+            showToast(
+                t.notifications.saveBundleWrongSystem.replace('{{system}}', bundle.system).replace('{{current}}', system),
+                'error',
+                { title: t.overlays.toast.error }
+            );
+            return;
+        }
+        if (mismatch === 'core') {
+            showToast(
+                t.notifications.saveBundleWrongCore.replace('{{core}}', bundle.core).replace('{{current}}', build.name),
+                'error',
+                { title: t.overlays.toast.error }
+            );
+            return;
+        }
+        if (bundle.coreVersion && bundle.coreVersion !== build.version) {
+            console.warn(`Save bundle was made with ${bundle.coreVersion}, running ${build.version}`);
+        }
+
+        // Respect tier limits (the auto-save slot is always available)
+        const isUnlimited = maxSlots === undefined || maxSlots === -1 || maxSlots >= AUTO_SAVE_SLOT;
+        const slots = bundle.slots.filter(s => isUnlimited || s.slot === AUTO_SAVE_SLOT || s.slot <= maxSlots);
+        if (slots.length === 0) {
+            showToast(t.notifications.noSaveFound, 'error', { title: t.overlays.toast.error });
+            return;
+        }
+
+        const overwrites = slots.some(s => saveSlots.some(existing => existing.slot === s.slot));
+        if (overwrites && !confirm(t.notifications.saveBundleOverwrite)) return;
+
+        setIsTransferring(true);
+        try {
+            for (const slot of slots) {
+                await onSaveState(slot.slot, slot.state, slot.screenshot);
+            }
+            showToast(t.notifications.savesImported.replace('{{count}}', slots.length.toString()), 'success', { title: t.overlays.toast.saved });
+        } catch (err) {
+            console.error('Import failed:', err);
+            showToast(t.notifications.failedSave, 'error', { title: t.overlays.toast.error });
+        } finally {
+            setIsTransferring(false);
+            refreshSlots();
+        }
+    };
+
+    const handleImportSaves = () => {
+        if (!onSaveState) return;
+
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = SAVE_BUNDLE_EXTENSION;
+        input.onchange = (e) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (file) importSaveBundle(file);
+        };
+        input.click();
+    };
+
     return {
         saveModalOpen,
         setSaveModalOpen,
@@ -228,11 +426,20 @@ export function useGameSaves({
         handleLoad,
         handleSlotSelect,
         handleSlotDelete,
+        isTransferring,
+        // Bundle transfer needs slot listing plus the matching read/write callback
+        handleExportSaves: onGetSaveSlots && onLoadState ? handleExportSaves : undefined,
+        handleImportSaves: onGetSaveSlots && onSaveState ? handleImportSaves : undefined,
+        saveToSlot,
+        loadFromSlot,
         // Auto-save exports
         autoSaveEnabled,
         autoSavePaused,
         autoSaveState,
         autoSaveProgress,
         handleAutoSaveToggle,
+        // SRAM exports
+        sramEnabled,
+        flushSram,
     };
 }
@@ -1,15 +1,21 @@
-import { useState, useMemo, useEffect, RefObject } from 'react';
+import { useState, useMemo, useEffect, useCallback, RefObject } from 'react';
 import { useNostalgist } from './useNostalgist';
 import { useKoinTranslation } from './useKoinTranslation';
 import { useGamepad } from './useGamepad';
 import { useVolume } from './useVolume';
 import { useControls } from './useControls';
 import { suppressEmulatorWarnings } from '../lib/game-player-utils';
+import { loadAllGamepadMappings } from '../lib/controls';
 import { GamePlayerProps } from '../components/types';
+import { RetroArchConfig } from '../lib/emulator';
 
 interface UseGameSessionProps extends GamePlayerProps {
     canvasRef: RefObject<HTMLCanvasElement>;
+    loadDisc?: () => Promise<number | null>;
+    loadCoreOptions?: () => Promise<Record<string, string> | null>;
+    loadRetroArchOverrides?: () => Promise<RetroArchConfig | null>;
     showToast: (message: string, type?: 'success' | 'error' | 'info' | 'warning' | 'gamepad', options?: any) => void;
+    isCoreReloadBlocked?: () => boolean; // Recording or netplay - a core reload would break it
 }
 
 export function useGameSession(props: UseGameSessionProps) {
@@ -17,10 +23,22 @@ export function useGameSession(props: UseGameSessionProps) {
         romUrl,
         romId,
         romFileName,
+        romFiles,
+        discs,
+        loadDisc,
+        coreOptions,
+        loadCoreOptions,
+        retroarchOverrides,
+        loadRetroArchOverrides,
         system,
         core,
+        resolvers,
         biosUrl,
+        biosFiles,
+        romDatabase,
+        onRomIdentified,
         initialSaveState,
+        onLoadSram,
         retroAchievementsConfig,
         onSessionStart,
         onSessionEnd,
@@ -28,6 +46,7 @@ export function useGameSession(props: UseGameSessionProps) {
         onError,
         canvasRef,
         showToast,
+        isCoreReloadBlocked,
     } = props;
 
     const t = useKoinTranslation();
@@ -67,12 +86,23 @@ export function useGameSession(props: UseGameSessionProps) {
         },
     });
 
-    // Load gamepad bindings
+    // Bumped when GamepadMapper saves, to re-read the stored mappings
+    const [gamepadMappingsVersion, setGamepadMappingsVersion] = useState(0);
+
+    // Gamepad bindings per player, keyed by the controller driving each slot.
+    // New bindings are applied to the running emulator without a restart.
     const gamepadBindings = useMemo(() => {
-        // We need to implement loadGamepadMapping in useControls or similar
-        // For now, passing empty array or implementing a simple loader
-        return [];
-    }, [gamepads.length]);
+        const gamepadIds: (string | undefined)[] = [];
+        gamepads.forEach(gamepad => {
+            gamepadIds[gamepad.index] = gamepad.id;
+        });
+        return loadAllGamepadMappings(4, gamepadIds);
+    }, [gamepads, gamepadMappingsVersion]);
+
+    const reloadGamepadBindings = useCallback(() => {
+        setGamepadMappingsVersion(v => v + 1);
+        showToast(t.notifications.controlsSaved, 'success');
+    }, [showToast, t]);
 
     // Emulator state
     const nostalgist = useNostalgist({
@@ -80,14 +110,56 @@ export function useGameSession(props: UseGameSessionProps) {
         romUrl,
         romId,
         romFileName,
+        romFiles,
+        discs,
+        loadDisc,
         core,
+        coreOptions,
+        loadCoreOptions,
+        retroarchOverrides,
+        loadRetroArchOverrides,
+        resolvers,
         biosUrl,
+        biosFiles,
+        romDatabase,
+        onRomIdentified,
         initialState: initialSaveState,
+        loadSram: onLoadSram,
         getCanvasElement: () => canvasRef.current,
         keyboardControls: controls,
-        gamepadBindings: gamepadBindings.length > 0 ? gamepadBindings : undefined,
+        gamepadBindings,
         retroAchievements: retroAchievementsConfig,
         shader: props.shader,
+        rewindMemoryBudgetMB: props.rewindMemoryBudgetMB,
+        rewindOnHeavySystems: props.rewindOnHeavySystems,
+        netplay: !!props.netplay,
+        adaptivePerformance: props.adaptivePerformance,
+        onPerformanceChange: (change) => {
+            const step = t.overlays.performance.steps[change.step];
+            if (change.step === 'rewind') {
+                showToast(
+                    (change.direction === 'down' ? t.notifications.performanceReduced : t.notifications.performanceRestored).replace('{{step}}', step),
+                    'info'
+                );
+            } else if (nostalgist.emulator.getState().performanceReloadPending) {
+                // Read at boot - offer the reload instead of interrupting the game
+                const message = (change.direction === 'down' ? t.notifications.performanceReducePending : t.notifications.performanceRestorePending).replace('{{step}}', step);
+                if (isCoreReloadBlocked?.()) {
+                    showToast(message, 'info', { title: t.notifications.appliesOnRestart });
+                } else {
+                    showToast(message, 'info', {
+                        duration: 8000,
+                        action: {
+                            label: t.notifications.performanceReload,
+                            onClick: () => {
+                                if (!isCoreReloadBlocked?.()) void nostalgist.applyPerformanceSteps();
+                            },
+                        },
+                    });
+                }
+            }
+            props.onPerformanceChange?.(change);
+        },
         onReady: () => {
             console.log('[GamePlayer] Emulator started');
             onSessionStart?.();
@@ -176,6 +248,8 @@ export function useGameSession(props: UseGameSessionProps) {
         connectedCount,
         gamepadModalOpen,
         setGamepadModalOpen,
+        gamepadBindings,
+        reloadGamepadBindings,
         controlsModalOpen,
         setControlsModalOpen,
         hardcoreRestrictions,
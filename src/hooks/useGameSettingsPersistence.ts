@@ -0,0 +1,66 @@
+'use client';
+
+import { useCallback, useRef } from 'react';
+import { KoinStorageAdapter } from '../lib/storage';
+
+/**
+ * Hook to persist per-game settings the player picked (core options,
+ * RetroArch overrides) under `prefix` + romId.
+ * Synchronizes with localStorage and an optional storage adapter.
+ */
+export function useGameSettingsPersistence<T extends Record<string, unknown>>(
+    prefix: string,
+    romId?: string,
+    storage?: KoinStorageAdapter
+) {
+    const key = `${prefix}${romId ?? ''}`;
+    // Cached per key - another game starts from its own settings
+    const valuesRef = useRef<{ key: string; values: T } | null>(null);
+
+    /** Saved settings (empty if none) */
+    const load = useCallback(async (): Promise<T> => {
+        if (!romId) return {} as T;
+        if (valuesRef.current?.key === key) return valuesRef.current.values;
+
+        let values = {} as T;
+        try {
+            const stored = localStorage.getItem(key);
+            if (stored) values = JSON.parse(stored);
+        } catch (e) {
+            console.error(`Failed to load ${key}`, e);
+        }
+
+        // Adapter takes precedence over the local copy
+        if (storage) {
+            try {
+                const stored = await storage.loadSettings<T>(key);
+                if (stored) values = stored;
+            } catch (e) {
+                console.error(`Failed to load ${key} from storage`, e);
+            }
+        }
+
+        valuesRef.current = { key, values };
+        return values;
+    }, [romId, key, storage]);
+
+    /** Replace the saved settings (an empty object resets to defaults) */
+    const save = useCallback(async (values: T) => {
+        if (!romId) return;
+        valuesRef.current = { key, values };
+
+        try {
+            if (Object.keys(values).length > 0) {
+                localStorage.setItem(key, JSON.stringify(values));
+            } else {
+                localStorage.removeItem(key);
+            }
+        } catch (e) {
+            console.error(`Failed to save ${key}`, e);
+        }
+        storage?.saveSettings(key, values)
+            .catch(e => console.error(`Failed to save ${key} to storage`, e));
+    }, [romId, key, storage]);
+
+    return { load, save };
+}
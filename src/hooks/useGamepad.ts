@@ -1,11 +1,12 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { GamepadInfo, ControllerBrand, STANDARD_GAMEPAD_BUTTONS } from '../lib/controls';
+import { GamepadInfo, ControllerBrand, STANDARD_GAMEPAD_BUTTONS, STANDARD_AXIS_MAP } from '../lib/controls';
+import type { StandardAxis } from '../lib/controls';
 
 // Re-export types for convenience
-export type { GamepadInfo, ControllerBrand };
-export { STANDARD_GAMEPAD_BUTTONS };
+export type { GamepadInfo, ControllerBrand, StandardAxis };
+export { STANDARD_GAMEPAD_BUTTONS, STANDARD_AXIS_MAP };
 
 /**
  * Get a clean display name from gamepad id
@@ -270,15 +271,3 @@ export function useGamepad(options?: UseGamepadOptions): UseGamepadReturn {
         refresh,
     };
 }
-
-/**
- * Standard gamepad axis indices
- */
-export const STANDARD_AXIS_MAP = {
-    leftStickX: 0,
-    leftStickY: 1,
-    rightStickX: 2,
-    rightStickY: 3,
-} as const;
-
-export type StandardAxis = keyof typeof STANDARD_AXIS_MAP;
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+    ALL_HOTKEYS,
+    HOLD_HOTKEYS,
+    DEFAULT_HOTKEYS,
+    HotkeyAction,
+    HotkeyConfig,
+    findKeyboardHotkey,
+    hotkeyKeyCode,
+    loadHotkeys,
+    saveHotkeys,
+} from '../lib/controls';
+import { isTextInput } from '../lib/common-utils';
+
+export type HotkeyHandlers = Partial<Record<HotkeyAction, () => void>>;
+
+export interface UseHotkeysOptions {
+    /** Fired when a hotkey is pressed */
+    onPress: HotkeyHandlers;
+    /** Fired when a hold hotkey (fast-forward, rewind) is released */
+    onRelease?: HotkeyHandlers;
+    /** Stop listening, e.g. while a hotkey is being rebound */
+    enabled?: boolean;
+}
+
+export interface UseHotkeysReturn {
+    hotkeys: HotkeyConfig;
+    saveHotkeys: (config: HotkeyConfig) => void;
+    resetHotkeys: () => void;
+}
+
+/**
+ * Hook for player hotkeys
+ * Loads/saves the hotkey config and dispatches keyboard and gamepad
+ * (hotkey enable + button) presses to the given handlers
+ */
+export function useHotkeys({ onPress, onRelease, enabled = true }: UseHotkeysOptions): UseHotkeysReturn {
+    const [hotkeys, setHotkeys] = useState<HotkeyConfig>(() => {
+        if (typeof window !== 'undefined') {
+            return loadHotkeys();
+        }
+        return DEFAULT_HOTKEYS;
+    });
+
+    // Handlers change every render - read them through refs
+    const onPressRef = useRef(onPress);
+    const onReleaseRef = useRef(onRelease);
+    onPressRef.current = onPress;
+    onReleaseRef.current = onRelease;
+
+    const press = useCallback((action: HotkeyAction) => {
+        onPressRef.current[action]?.();
+    }, []);
+
+    const release = useCallback((action: HotkeyAction) => {
+        if (HOLD_HOTKEYS.includes(action)) onReleaseRef.current?.[action]?.();
+    }, []);
+
+    // Keyboard
+    useEffect(() => {
+        if (!enabled) return;
+
+        const held = new Set<HotkeyAction>();
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (isTextInput(e.target)) return;
+            const action = findKeyboardHotkey(hotkeys, e);
+            if (!action) return;
+
+            e.preventDefault();
+            if (e.repeat || held.has(action)) return;
+            if (HOLD_HOTKEYS.includes(action)) held.add(action);
+            press(action);
+        };
+
+        // Modifiers may be let go first - a hold ends with its key
+        const handleKeyUp = (e: KeyboardEvent) => {
+            held.forEach(action => {
+                const binding = hotkeys.keyboard[action];
+                if (binding && hotkeyKeyCode(binding) === e.code) {
+                    held.delete(action);
+                    release(action);
+                }
+            });
+        };
+
+        const handleBlur = () => {
+            held.forEach(release);
+            held.clear();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', handleBlur);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', handleBlur);
+            handleBlur();
+        };
+    }, [hotkeys, enabled, press, release]);
+
+    // Gamepad: poll for hotkey enable + button on any connected pad
+    useEffect(() => {
+        if (!enabled || hotkeys.gamepadEnable === null) return;
+        if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') return;
+
+        const enableButton = hotkeys.gamepadEnable;
+        const bound = ALL_HOTKEYS.filter(action => hotkeys.gamepad[action] !== undefined);
+        let active = new Set<HotkeyAction>();
+        let rafId: number;
+
+        const poll = () => {
+            const next = new Set<HotkeyAction>();
+            for (const pad of navigator.getGamepads()) {
+                if (!pad?.connected || !pad.buttons[enableButton]?.pressed) continue;
+                for (const action of bound) {
+                    if (pad.buttons[hotkeys.gamepad[action]!]?.pressed) next.add(action);
+                }
+            }
+
+            next.forEach(action => {
+                if (!active.has(action)) press(action);
+            });
+            active.forEach(action => {
+                if (!next.has(action)) release(action);
+            });
+            active = next;
+
+            rafId = requestAnimationFrame(poll);
+        };
+
+        rafId = requestAnimationFrame(poll);
+        return () => {
+            cancelAnimationFrame(rafId);
+            active.forEach(release);
+        };
+    }, [hotkeys, enabled, press, release]);
+
+    const save = useCallback((config: HotkeyConfig) => {
+        setHotkeys(config);
+        saveHotkeys(config);
+    }, []);
+
+    const resetHotkeys = useCallback(() => {
+        save(DEFAULT_HOTKEYS);
+    }, [save]);
+
+    return {
+        hotkeys,
+        saveHotkeys: save,
+        resetHotkeys,
+    };
+}
@@ -0,0 +1,396 @@
+'use client';
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { UseNostalgistReturn } from './useNostalgist';
+import {
+    ButtonId,
+    ALL_BUTTONS,
+    KeyboardMapping,
+    GamepadMapping,
+    DEFAULT_GAMEPAD,
+} from '../lib/controls';
+import {
+    InputMovie,
+    InputMovieEvent,
+    INPUT_MOVIE_EXTENSION,
+    onEmulatorFrame,
+    parseInputMovie,
+    serializeInputMovie,
+} from '../lib/input-movie';
+import { isTextInput } from '../lib/common-utils';
+import { useKoinTranslation } from './useKoinTranslation';
+
+// Gamepads beyond this are ignored (RetroArch player limit in this player)
+const MAX_MOVIE_PLAYERS = 4;
+
+interface UseInputMovieProps {
+    nostalgist: UseNostalgistReturn | null;
+    system: string;
+    romId?: string;
+    core?: string;
+    keyboardControls?: KeyboardMapping;
+    gamepadBindings?: GamepadMapping[];
+    title?: string;
+    onInputMovieRecorded?: (movie: Blob) => void;
+    showToast: (message: string, type?: 'success' | 'error' | 'info' | 'warning', options?: any) => void;
+}
+
+interface UseInputMovieReturn {
+    isMovieRecording: boolean;
+    isMoviePlaying: boolean;
+    movieFrame: number;
+    startMovieRecording: () => Promise<boolean>;
+    stopMovieRecording: () => InputMovie | null;
+    playMovie: (movie: InputMovie) => Promise<boolean>;
+    stopMoviePlayback: () => void;
+    handleToggleMovieRecording: () => Promise<void>;
+    handlePlayMovieFile: () => void;
+}
+
+/**
+ * Input Movie Hook
+ * ----------------
+ * Records button transitions per emulated frame, anchored to a save state,
+ * and replays them frame-exactly.
+ *
+ * Captured sources:
+ * - Programmatic input (virtual controller, touch) via addInputListener
+ * - Keyboard, through the active keyboard mapping (player 1)
+ * - Gamepads, polled once per frame through each player's mapping
+ *
+ * Fast-forward and rewind are locked while a movie is active (GamePlayer
+ * ignores them), since they change the frames the core runs. During replay
+ * the mapped keyboard keys and the gamepads are held back from the core, so
+ * live presses can't mix with the recorded ones.
+ */
+export function useInputMovie({
+    nostalgist,
+    system,
+    romId,
+    core,
+    keyboardControls,
+    gamepadBindings,
+    title,
+    onInputMovieRecorded,
+    showToast,
+}: UseInputMovieProps): UseInputMovieReturn {
+    const t = useKoinTranslation();
+    const [isMovieRecording, setIsMovieRecording] = useState(false);
+    const [isMoviePlaying, setIsMoviePlaying] = useState(false);
+    const [movieFrame, setMovieFrame] = useState(0);
+
+    // Keep latest values in refs so frame callbacks never go stale
+    const nostalgistRef = useRef(nostalgist);
+    const keyboardControlsRef = useRef(keyboardControls);
+    const gamepadBindingsRef = useRef(gamepadBindings);
+    const onPlaybackFinishedRef = useRef<(() => void) | null>(null);
+
+    useEffect(() => {
+        nostalgistRef.current = nostalgist;
+        keyboardControlsRef.current = keyboardControls;
+        gamepadBindingsRef.current = gamepadBindings;
+    }, [nostalgist, keyboardControls, gamepadBindings]);
+
+    const frameRef = useRef(0);
+    const eventsRef = useRef<InputMovieEvent[]>([]);
+    const startStateRef = useRef<Uint8Array | null>(null);
+    const cleanupRef = useRef<(() => void) | null>(null);
+    const frameSyncRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+    const teardown = useCallback(() => {
+        cleanupRef.current?.();
+        cleanupRef.current = null;
+        if (frameSyncRef.current) {
+            clearInterval(frameSyncRef.current);
+            frameSyncRef.current = null;
+        }
+    }, []);
+
+    // Mirror the frame counter into state a few times per second (not every frame)
+    const startFrameSync = useCallback(() => {
+        setMovieFrame(0);
+        frameSyncRef.current = setInterval(() => setMovieFrame(frameRef.current), 250);
+    }, []);
+
+    const recordEvent = useCallback((button: ButtonId, pressed: boolean, player: number) => {
+        eventsRef.current.push({ frame: frameRef.current, button, player, pressed });
+    }, []);
+
+    const startMovieRecording = useCallback(async (): Promise<boolean> => {
+        const active = nostalgistRef.current;
+        const instance = active?.getNostalgistInstance();
+        if (!active || !instance || cleanupRef.current) return false;
+        if (active.status !== 'running' && active.status !== 'paused') return false;
+
+        if (active.isRewinding) active.stopRewind();
+        active.setSpeed(1);
+
+        // Anchor: snapshot and immediately reload so recording and playback start from the same load
+        const saved = await active.saveStateWithBlob();
+        if (!saved || !(await active.loadState(saved.data))) {
+            console.error('[InputMovie] Failed to capture start state');
+            return false;
+        }
+
+        startStateRef.current = saved.data;
+        eventsRef.current = [];
+        frameRef.current = 0;
+
+        const keyToButton = new Map<string, ButtonId>();
+        Object.entries(keyboardControlsRef.current ?? {}).forEach(([button, code]) => {
+            if (code) keyToButton.set(code, button as ButtonId);
+        });
+
+        const heldPads = new Map<string, boolean>();
+
+        const stopFrames = onEmulatorFrame(instance, () => {
+            // Poll gamepads before the core runs this frame
+            const pads = navigator.getGamepads?.() ?? [];
+            for (let i = 0; i < Math.min(pads.length, MAX_MOVIE_PLAYERS); i++) {
+                const pad = pads[i];
+                if (!pad) continue;
+                const mapping = gamepadBindingsRef.current?.[i] ?? DEFAULT_GAMEPAD;
+                for (const button of ALL_BUTTONS) {
+                    const index = mapping[button];
+                    if (index === undefined) continue;
+                    const pressed = !!pad.buttons[index]?.pressed;
+                    const key = `${i}:${button}`;
+                    if ((heldPads.get(key) ?? false) !== pressed) {
+                        heldPads.set(key, pressed);
+                        recordEvent(button, pressed, i + 1);
+                    }
+                }
+            }
+            frameRef.current++;
+        });
+
+        const stopProgrammatic = active.addInputListener((button, pressed, player) => {
+            recordEvent(button as ButtonId, pressed, player);
+        });
+
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.repeat) return;
+            const button = keyToButton.get(e.code);
+            if (button) {
+                recordEvent(button, e.type === 'keydown', 1);
+            }
+        };
+        window.addEventListener('keydown', handleKey);
+        window.addEventListener('keyup', handleKey);
+
+        cleanupRef.current = () => {
+            stopFrames();
+            stopProgrammatic();
+            window.removeEventListener('keydown', handleKey);
+            window.removeEventListener('keyup', handleKey);
+        };
+
+        startFrameSync();
+        setIsMovieRecording(true);
+        console.log('[InputMovie] Recording started');
+        return true;
+    }, [recordEvent, startFrameSync]);
+
+    const stopMovieRecording = useCallback((): InputMovie | null => {
+        if (!isMovieRecording || !startStateRef.current) return null;
+
+        teardown();
+        setIsMovieRecording(false);
+
+        const movie: InputMovie = {
+            romId: romId ?? '',
+            system,
+            core,
+            createdAt: new Date().toISOString(),
+            frameCount: frameRef.current,
+            startState: startStateRef.current,
+            events: eventsRef.current,
+        };
+
+        startStateRef.current = null;
+        eventsRef.current = [];
+        console.log('[InputMovie] Recording stopped', { frames: movie.frameCount, events: movie.events.length });
+        return movie;
+    }, [isMovieRecording, teardown, romId, system, core]);
+
+    const stopMoviePlayback = useCallback(() => {
+        if (!isMoviePlaying) return;
+        teardown();
+        setIsMoviePlaying(false);
+    }, [isMoviePlaying, teardown]);
+
+    const playMovie = useCallback(async (movie: InputMovie): Promise<boolean> => {
+        const active = nostalgistRef.current;
+        const instance = active?.getNostalgistInstance();
+        if (!active || !instance || cleanupRef.current) return false;
+
+        if (active.isRewinding) active.stopRewind();
+        active.setSpeed(1);
+
+        if (!(await active.loadState(movie.startState))) {
+            console.error('[InputMovie] Failed to load start state');
+            return false;
+        }
+
+        frameRef.current = 0;
+        let cursor = 0;
+        let finished = false;
+        const held = new Set<string>();
+
+        const releaseHeld = () => {
+            held.forEach(key => {
+                const [player, button] = key.split(':');
+                active.pressUp(button, Number(player));
+            });
+            held.clear();
+        };
+
+        const stopFrames = onEmulatorFrame(instance, () => {
+            if (finished) return;
+
+            // Apply every transition recorded up to this frame
+            while (cursor < movie.events.length && movie.events[cursor].frame <= frameRef.current) {
+                const { button, player, pressed } = movie.events[cursor++];
+                const key = `${player}:${button}`;
+                if (pressed) {
+                    active.pressDown(button, player);
+                    held.add(key);
+                } else {
+                    active.pressUp(button, player);
+                    held.delete(key);
+                }
+            }
+
+            if (frameRef.current >= movie.frameCount) {
+                finished = true;
+                releaseHeld();
+                // Defer teardown out of the frame callback
+                setTimeout(() => {
+                    teardown();
+                    setIsMoviePlaying(false);
+                    console.log('[InputMovie] Playback finished');
+                    onPlaybackFinishedRef.current?.();
+                }, 0);
+                return;
+            }
+            frameRef.current++;
+        });
+
+        // Hold back live keyboard input for the game (not typing on the host page)
+        const liveKeys = new Set(Object.values(keyboardControlsRef.current ?? {}).filter(Boolean));
+        const blockLiveKey = (e: KeyboardEvent) => {
+            if (liveKeys.has(e.code) && !isTextInput(e.target)) {
+                e.stopImmediatePropagation();
+            }
+        };
+        window.addEventListener('keydown', blockLiveKey, true);
+        window.addEventListener('keyup', blockLiveKey, true);
+
+        // Pads are sampled released meanwhile
+        if (!active.setGamepadInputBlocked(true)) {
+            console.warn('[InputMovie] Gamepad sampling not exposed, live gamepad input reaches the core during playback');
+        }
+
+        cleanupRef.current = () => {
+            stopFrames();
+            releaseHeld();
+            active.setGamepadInputBlocked(false);
+            window.removeEventListener('keydown', blockLiveKey, true);
+            window.removeEventListener('keyup', blockLiveKey, true);
+        };
+
+        startFrameSync();
+        setIsMoviePlaying(true);
+        console.log('[InputMovie] Playback started', { frames: movie.frameCount, events: movie.events.length });
+        return true;
+    }, [teardown, startFrameSync]);
+
+    // Read from the frame loop after playback ends, so always point at the latest toast/translations
+    onPlaybackFinishedRef.current = () => {
+        showToast(t.notifications.moviePlaybackFinished, 'info');
+    };
+
+    // Movie Toggle Handler (F6) - downloads unless the host handles the file
+    const handleToggleMovieRecording = useCallback(async () => {
+        if (isMoviePlaying) return;
+
+        if (!isMovieRecording) {
+            if (await startMovieRecording()) {
+                showToast(t.notifications.movieRecordingStarted, 'info');
+            }
+            return;
+        }
+
+        const movie = stopMovieRecording();
+        if (!movie) return;
+
+        const blob = serializeInputMovie(movie);
+        if (onInputMovieRecorded) {
+            onInputMovieRecorded(blob);
+        } else {
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `${title || 'game'}${INPUT_MOVIE_EXTENSION}`;
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        }
+        showToast(t.notifications.movieSaved, 'success', { title: t.overlays.toast.saved });
+    }, [isMovieRecording, isMoviePlaying, startMovieRecording, stopMovieRecording, onInputMovieRecorded, title, showToast, t]);
+
+    // Movie Playback Handler (Shift+F6) - pick a movie file and replay it
+    const handlePlayMovieFile = useCallback(() => {
+        if (isMovieRecording) return;
+
+        if (isMoviePlaying) {
+            stopMoviePlayback();
+            return;
+        }
+
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = INPUT_MOVIE_EXTENSION;
+        input.onchange = async (e) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (!file) return;
+
+            let movie: InputMovie;
+            try {
+                movie = await parseInputMovie(file);
+            } catch (err) {
+                console.error('[InputMovie] Failed to read movie:', err);
+                showToast(t.notifications.movieInvalid, 'error', { title: t.overlays.toast.error });
+                return;
+            }
+
+            if (movie.system.toUpperCase() !== system.toUpperCase() || (romId && movie.romId && movie.romId !== romId)) {
+                showToast(t.notifications.movieWrongGame, 'error', { title: t.overlays.toast.error });
+                return;
+            }
+
+            if (await playMovie(movie)) {
+                showToast(t.notifications.moviePlaybackStarted, 'info');
+            } else {
+                showToast(t.notifications.failedLoad, 'error', { title: t.overlays.toast.error });
+            }
+        };
+        input.click();
+    }, [isMovieRecording, isMoviePlaying, stopMoviePlayback, playMovie, system, romId, showToast, t]);
+
+    // Cleanup on unmount
+    useEffect(() => teardown, [teardown]);
+
+    return {
+        isMovieRecording,
+        isMoviePlaying,
+        movieFrame,
+        startMovieRecording,
+        stopMovieRecording,
+        playMovie,
+        stopMoviePlayback,
+        handleToggleMovieRecording,
+        handlePlayMovieFile,
+    };
+}
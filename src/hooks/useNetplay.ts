@@ -0,0 +1,313 @@
+'use client';
+
+import { useState, useRef, useCallback, useEffect, RefObject } from 'react';
+import { UseNostalgistReturn } from './useNostalgist';
+import {
+    ButtonId,
+    ALL_BUTTONS,
+    KeyboardMapping,
+    GamepadMapping,
+    DEFAULT_GAMEPAD,
+} from '../lib/controls';
+import {
+    NetplayConfig,
+    NetplayStatus,
+    NetplaySession,
+    NETPLAY_INJECTION_KEYS,
+    encodeButtons,
+} from '../lib/netplay';
+import { onEmulatorFrame } from '../lib/input-movie';
+import { isTextInput } from '../lib/common-utils';
+
+// Analog stick deflection treated as a D-pad press (RetroArch's own gamepad input is disabled)
+const STICK_THRESHOLD = 0.5;
+
+interface UseNetplayProps {
+    nostalgist: UseNostalgistReturn | null;
+    netplay?: NetplayConfig;
+    /** Player element - keyboard input is captured inside it only */
+    containerRef: RefObject<HTMLElement | null>;
+    keyboardControls?: KeyboardMapping;
+    gamepadBindings?: GamepadMapping[];
+}
+
+interface UseNetplayReturn {
+    netplayStatus: NetplayStatus;
+    netplayLatency: number | null;
+    /** Virtual controller handlers - route touch input through lockstep while active */
+    netplayPressDown: (button: string) => void;
+    netplayPressUp: (button: string) => void;
+    leaveNetplay: () => void;
+}
+
+/**
+ * Netplay Hook
+ * ------------
+ * Drives a NetplaySession from the emulator's frame loop.
+ *
+ * The host is player 1 and the guest player 2 on both machines. Local
+ * keyboard, gamepad and touch input is sampled once per frame and sent
+ * ahead by `inputDelay` frames; a frame only runs once the peer's input for
+ * it has arrived, and both players' buttons are injected on that frame.
+ */
+export function useNetplay({
+    nostalgist,
+    netplay,
+    containerRef,
+    keyboardControls,
+    gamepadBindings,
+}: UseNetplayProps): UseNetplayReturn {
+    const [netplayStatus, setNetplayStatus] = useState<NetplayStatus>('idle');
+    const [netplayLatency, setNetplayLatency] = useState<number | null>(null);
+
+    // Keep latest values in refs so the frame loop never goes stale
+    const nostalgistRef = useRef(nostalgist);
+    const keyboardControlsRef = useRef(keyboardControls);
+    const gamepadBindingsRef = useRef(gamepadBindings);
+    const netplayRef = useRef(netplay);
+
+    useEffect(() => {
+        nostalgistRef.current = nostalgist;
+        keyboardControlsRef.current = keyboardControls;
+        gamepadBindingsRef.current = gamepadBindings;
+        netplayRef.current = netplay;
+    }, [nostalgist, keyboardControls, gamepadBindings, netplay]);
+
+    const sessionRef = useRef<NetplaySession | null>(null);
+    const stopFramesRef = useRef<(() => void) | null>(null);
+    const startStateRef = useRef<Uint8Array | null>(null);
+    const heldKeysRef = useRef(new Set<ButtonId>());
+    const heldVirtualRef = useRef(new Set<ButtonId>());
+
+    const isActive = !!netplay;
+    // Hosts often pass the config inline - only a new room/role starts a new session
+    const sessionKey = netplay ? `${netplay.role}:${netplay.roomId}` : null;
+    const isRunning = nostalgist?.status === 'running' || nostalgist?.status === 'paused';
+
+    // Buttons currently held by the local player (keyboard + first gamepad + touch)
+    const sampleLocalInput = useCallback((): number => {
+        const pressed = new Set<ButtonId>([...heldKeysRef.current, ...heldVirtualRef.current]);
+
+        const pad = navigator.getGamepads?.().find(p => p !== null);
+        if (pad) {
+            const mapping = gamepadBindingsRef.current?.[0] ?? DEFAULT_GAMEPAD;
+            for (const button of ALL_BUTTONS) {
+                const index = mapping[button];
+                if (index !== undefined && pad.buttons[index]?.pressed) {
+                    pressed.add(button);
+                }
+            }
+            const [x = 0, y = 0] = pad.axes;
+            if (x < -STICK_THRESHOLD) pressed.add('left');
+            if (x > STICK_THRESHOLD) pressed.add('right');
+            if (y < -STICK_THRESHOLD) pressed.add('up');
+            if (y > STICK_THRESHOLD) pressed.add('down');
+        }
+
+        return encodeButtons(pressed);
+    }, []);
+
+    // Inject per-player bitmasks, pressing/releasing only buttons that changed
+    const createInjector = useCallback((active: UseNostalgistReturn) => {
+        const applied = [0, 0];
+        return (player: 1 | 2, bits: number) => {
+            const changed = bits ^ applied[player - 1];
+            if (!changed) return;
+            ALL_BUTTONS.forEach((button, index) => {
+                const bit = 1 << index;
+                if (!(changed & bit)) return;
+                if (bits & bit) {
+                    active.pressDown(button, player);
+                } else {
+                    active.pressUp(button, player);
+                }
+            });
+            applied[player - 1] = bits;
+        };
+    }, []);
+
+    // Run the lockstep loop from frame 0
+    const beginLockstep = useCallback(() => {
+        const session = sessionRef.current;
+        const active = nostalgistRef.current;
+        const instance = active?.getNostalgistInstance();
+        if (!session || !active || !instance) return;
+
+        stopFramesRef.current?.();
+        session.beginLockstep();
+
+        let frame = 0;
+        const apply = createInjector(active);
+
+        stopFramesRef.current = onEmulatorFrame(instance, () => {
+            session.pushLocalInput(frame + session.inputDelay, sampleLocalInput());
+
+            const inputs = session.takeInputs(frame);
+            if (!inputs) return false; // Stall until the peer catches up
+
+            const isHost = session.role === 'host';
+            apply(1, isHost ? inputs.local : inputs.remote);
+            apply(2, isHost ? inputs.remote : inputs.local);
+            frame++;
+        });
+    }, [sampleLocalInput, createInjector]);
+
+    // After leaving, keep the game playable offline: local input drives player 1 directly
+    const beginLocalPlay = useCallback(() => {
+        const active = nostalgistRef.current;
+        const instance = active?.getNostalgistInstance();
+        if (!active || !instance) return;
+
+        stopFramesRef.current?.();
+        const apply = createInjector(active);
+        stopFramesRef.current = onEmulatorFrame(instance, () => {
+            apply(1, sampleLocalInput());
+        });
+    }, [sampleLocalInput, createInjector]);
+
+    // Pause and load a state without resuming, so frame 0 is the first frame after resume()
+    const loadStatePaused = useCallback(async (state: Uint8Array): Promise<boolean> => {
+        const active = nostalgistRef.current;
+        const instance = active?.getNostalgistInstance();
+        if (!active || !instance) return false;
+
+        active.pause();
+        try {
+            await instance.loadState(new Blob([state as BlobPart]));
+            return true;
+        } catch (err) {
+            console.error('[Netplay] Failed to load start state:', err);
+            return false;
+        }
+    }, []);
+
+    // Connect once the emulator is running
+    useEffect(() => {
+        const config = netplayRef.current;
+        if (!config || !isRunning || sessionRef.current) return;
+
+        const session = new NetplaySession({
+            ...config,
+            onStatusChange: (status) => {
+                setNetplayStatus(status);
+                netplayRef.current?.onStatusChange?.(status);
+
+                // Host pushes its state as soon as the channel opens
+                if (status === 'syncing' && config.role === 'host' && !stopFramesRef.current) {
+                    const active = nostalgistRef.current;
+                    active?.pause();
+                    active?.saveStateWithBlob().then(result => {
+                        if (!result) return;
+                        startStateRef.current = result.data;
+                        session.sendState(result.data).catch(err => {
+                            console.warn('[Netplay] State transfer failed:', err);
+                        });
+                    });
+                }
+                if (status === 'disconnected' || status === 'error') {
+                    stopFramesRef.current?.();
+                    stopFramesRef.current = null;
+                    nostalgistRef.current?.pause();
+                }
+            },
+            onRemoteState: async (state) => {
+                if (!(await loadStatePaused(state))) return;
+                // Enter lockstep before acknowledging so no host input arrives first
+                beginLockstep();
+                session.sendReady();
+                nostalgistRef.current?.resume();
+            },
+            onPeerReady: async () => {
+                // Reload our own snapshot so both peers start from identical state
+                if (!startStateRef.current || !(await loadStatePaused(startStateRef.current))) return;
+                beginLockstep();
+                nostalgistRef.current?.resume();
+            },
+            onLatency: setNetplayLatency,
+        });
+
+        sessionRef.current = session;
+
+        // Hold the game in the lobby until the peer is in sync
+        nostalgistRef.current?.pause();
+        session.start().catch(() => {
+            // Status already reported by the session
+        });
+    }, [sessionKey, isRunning, beginLockstep, loadStatePaused]);
+
+    // Capture keyboard input for the local player (and keep physical keys away from the core).
+    // Only inside the player, and never from form fields, so the host page's inputs keep working.
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!isActive || !container) return;
+
+        const injectionCodes = new Set<string>(
+            NETPLAY_INJECTION_KEYS.flatMap(mapping => Object.values(mapping).filter((code): code is string => !!code))
+        );
+
+        const handleKey = (e: KeyboardEvent) => {
+            if (isTextInput(e.target)) return;
+            const mapping = keyboardControlsRef.current ?? {};
+            const button = (Object.keys(mapping) as ButtonId[]).find(key => mapping[key] === e.code);
+            if (button) {
+                if (e.type === 'keydown') {
+                    heldKeysRef.current.add(button);
+                } else {
+                    heldKeysRef.current.delete(button);
+                }
+            }
+            if (button || injectionCodes.has(e.code)) {
+                e.stopImmediatePropagation();
+            }
+        };
+
+        // Capture phase so this runs before the emulator's own listeners.
+        // Keys reach the player while it has focus - take it for the session.
+        container.addEventListener('keydown', handleKey, true);
+        container.addEventListener('keyup', handleKey, true);
+        if (!container.contains(document.activeElement)) {
+            container.focus({ preventScroll: true });
+        }
+        return () => {
+            container.removeEventListener('keydown', handleKey, true);
+            container.removeEventListener('keyup', handleKey, true);
+            heldKeysRef.current.clear();
+        };
+    }, [isActive, containerRef]);
+
+    const netplayPressDown = useCallback((button: string) => {
+        heldVirtualRef.current.add(button as ButtonId);
+    }, []);
+
+    const netplayPressUp = useCallback((button: string) => {
+        heldVirtualRef.current.delete(button as ButtonId);
+    }, []);
+
+    const leaveNetplay = useCallback(() => {
+        if (!sessionRef.current) return;
+        sessionRef.current.close();
+        sessionRef.current = null;
+        setNetplayLatency(null);
+        beginLocalPlay();
+        nostalgistRef.current?.resume();
+    }, [beginLocalPlay]);
+
+    // Leave on unmount or when the room changes
+    useEffect(() => {
+        if (!sessionKey) return;
+        return () => {
+            stopFramesRef.current?.();
+            stopFramesRef.current = null;
+            sessionRef.current?.close();
+            sessionRef.current = null;
+        };
+    }, [sessionKey]);
+
+    return {
+        netplayStatus,
+        netplayLatency,
+        netplayPressDown,
+        netplayPressUp,
+        leaveNetplay,
+    };
+}
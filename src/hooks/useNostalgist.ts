@@ -1,27 +1,52 @@
-import { useCallback, useMemo } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { Nostalgist } from 'nostalgist';
 import {
     KeyboardMapping,
     GamepadMapping,
 } from '../lib/controls';
-import { PERFORMANCE_TIER_2_SYSTEMS } from '../lib/systems';
-import { useEmulatorCore } from './emulator/useEmulatorCore';
-import { useEmulatorAudio } from './emulator/useEmulatorAudio';
-import { useEmulatorInput } from './emulator/useEmulatorInput';
-import { useEmulatorSaves } from './emulator/useEmulatorSaves';
-import { useEmulatorCheats } from './emulator/useEmulatorCheats';
-import { EmulatorStatus, SpeedMultiplier, RetroAchievementsConfig } from './emulator/types';
+import {
+    KoinEmulator,
+    EmulatorStatus,
+    SpeedMultiplier,
+    RetroAchievementsConfig,
+    EmulatorInputListener,
+    BiosSource,
+    AnalogStick,
+    DiscSource,
+    RomFileSource,
+    KoinResolvers,
+    RetroArchConfig,
+    RetroArchOverrides,
+    LayeredRetroArchConfig,
+    PerformanceChange,
+    PerformanceStep,
+    PerformanceStats,
+} from '../lib/emulator';
+import { BiosCheck, BiosFiles } from '../lib/bios';
+import { RomDatabaseSource, RomIdentity } from '../lib/rom-identify';
 
 // Re-export types
-export type { EmulatorStatus, SpeedMultiplier, RetroAchievementsConfig };
+export type { EmulatorStatus, SpeedMultiplier, RetroAchievementsConfig, EmulatorInputListener };
 
 interface UseNostalgistOptions {
     system: string;
     romUrl: string;
+    romFiles?: RomFileSource[]; // Files mounted next to the ROM (.bin tracks, parent romsets)
+    discs?: DiscSource[]; // Every disc of a multi-disc game
+    loadDisc?: () => Promise<number | null>; // Disc to boot a multi-disc game from
 
     core?: string; // Core override
-    biosUrl?: string | { url: string; name: string; location?: 'system' | 'rom_folder' }; // Custom BIOS URL
+    coreOptions?: Record<string, string>; // libretro core options
+    loadCoreOptions?: () => Promise<Record<string, string> | null>; // Saved core options, applied over coreOptions
+    retroarchOverrides?: RetroArchOverrides; // RetroArch settings over the system tier
+    loadRetroArchOverrides?: () => Promise<RetroArchConfig | null>; // Player's RetroArch overrides, applied last
+    resolvers?: KoinResolvers; // Self-hosted cores and shaders
+    biosUrl?: BiosSource; // Custom BIOS URL
+    biosFiles?: BiosFiles; // BIOS set by file name, verified before launch
+    romDatabase?: RomDatabaseSource; // DAT/JSON to identify the ROM by hash
+    onRomIdentified?: (identity: RomIdentity) => void; // ROM hashed (and looked up), before SRAM is loaded
     initialState?: Blob | Uint8Array; // Initial save state
+    loadSram?: () => Promise<Blob | null>; // Battery save to restore before boot
     getCanvasElement?: () => HTMLCanvasElement | null; // Function to get canvas element (must be in DOM before prepare)
     keyboardControls?: KeyboardMapping; // Custom keyboard mappings
     gamepadBindings?: GamepadMapping[]; // Custom gamepad mappings per player
@@ -33,6 +58,11 @@ interface UseNostalgistOptions {
     shader?: string; // CRT shader preset (e.g., 'crt/crt-lottes')
     romId?: string;
     activeCheats?: { code: string; desc?: string }[]; // Cheats to apply at launch
+    rewindMemoryBudgetMB?: number; // Memory budget for compressed rewind snapshots
+    rewindOnHeavySystems?: boolean; // Opt Tier 2 systems into rewind capture
+    netplay?: boolean; // Netplay session - input is injected by the lockstep loop, rewind is disabled
+    adaptivePerformance?: boolean; // Step quality down with measured frame pacing (default: true)
+    onPerformanceChange?: (change: PerformanceChange) => void;
 }
 
 export interface UseNostalgistReturn {
@@ -44,12 +74,22 @@ export interface UseNostalgistReturn {
     rewindBufferSize: number;
     volume: number; // 0-100
     isMuted: boolean;
+    discIndex: number; // Inserted disc (0-based)
+    discCount: number;
+    missingFiles: string[]; // Files the ROM set lacks (status 'error')
+    biosChecks: BiosCheck[]; // Verification of the BIOS set
+    romIdentity: RomIdentity | null; // Hashes and DAT match of the ROM
+    retroarchConfig: LayeredRetroArchConfig | null; // Effective RetroArch tuning and the layer of each key
+    performanceSteps: PerformanceStep[]; // Quality steps taken by the performance governor
+    performanceReloadPending: boolean; // Steps read at boot wait for applyPerformanceSteps()
 
     // Lifecycle
     prepare: () => Promise<void>;
     start: () => Promise<void>;
     stop: () => void;
     restart: () => Promise<void>;
+    reloadCore: (options?: { keepProgress?: boolean }) => Promise<boolean>; // Apply changed core options
+    applyPerformanceSteps: () => Promise<boolean>; // Reload the core for pending performance steps
 
     // Playback
     pause: () => void;
@@ -59,8 +99,12 @@ export interface UseNostalgistReturn {
     // Save/Load
     saveState: () => Promise<Uint8Array | null>;
     saveStateWithBlob: () => Promise<{ data: Uint8Array; blob: Blob } | null>;
+    saveSram: () => Promise<{ data: Uint8Array; blob: Blob } | null>;
     loadState: (state: Uint8Array) => Promise<boolean>;
 
+    // Discs
+    setDisc: (index: number) => Promise<boolean>;
+
     // Speed & Rewind
     setSpeed: (multiplier: SpeedMultiplier) => void;
     startRewind: () => void;
@@ -74,8 +118,11 @@ export interface UseNostalgistReturn {
     // Utils
     screenshot: () => Promise<string | null>;
     pressKey: (key: string) => void;
-    pressDown: (button: string) => void;
-    pressUp: (button: string) => void;
+    pressDown: (button: string, player?: number) => void;
+    pressUp: (button: string, player?: number) => void;
+    setAnalogStick: (stick: AnalogStick, x: number, y: number, player?: number) => void;
+    setGamepadInputBlocked: (blocked: boolean) => boolean;
+    addInputListener: (listener: EmulatorInputListener) => () => void;
     resize: (size: { width: number; height: number }) => void;
 
     // Cheats - low-level injection API
@@ -85,14 +132,37 @@ export interface UseNostalgistReturn {
     // RetroAchievements integration - get access to emulator internals
     getNostalgistInstance: () => Nostalgist | null;
     isPerformanceMode: boolean;
+    getPerformanceStats: () => PerformanceStats | null;
+
+    // Underlying framework-agnostic controller
+    emulator: KoinEmulator;
 }
 
+/**
+ * Nostalgist Hook
+ * ---------------
+ * Thin React binding over KoinEmulator: one controller per component,
+ * options synced on every render (picked up by the next prepare), state
+ * mirrored from its 'change' events.
+ */
 export const useNostalgist = ({
     system,
     romUrl,
+    romFiles,
+    discs,
+    loadDisc,
     core,
+    coreOptions,
+    loadCoreOptions,
+    retroarchOverrides,
+    loadRetroArchOverrides,
+    resolvers,
     biosUrl,
+    biosFiles,
+    romDatabase,
+    onRomIdentified,
     initialState,
+    loadSram,
     getCanvasElement,
     keyboardControls,
     gamepadBindings,
@@ -103,176 +173,143 @@ export const useNostalgist = ({
     romFileName,
     shader,
     romId,
+    rewindMemoryBudgetMB,
+    rewindOnHeavySystems = false,
+    netplay = false,
+    adaptivePerformance,
+    onPerformanceChange,
 }: UseNostalgistOptions): UseNostalgistReturn => {
-
-
-    // 0. System Analysis
-    // Check if system is heavy (Tier 2) to disable expensive features like manual rewind capture
-    const isHeavySystem = useMemo(() => {
-        return PERFORMANCE_TIER_2_SYSTEMS.has(system.toUpperCase());
-    }, [system]);
-
-    // 1. Core Emulator Logic (Lifecycle, Status, Canvas)
-    const {
-        status,
-        setStatus,
-        error,
-        isPaused,
-        setIsPaused,
-        speed,
-        nostalgistRef,
-        prepare,
-        start: coreStart,
-        stop: coreStop,
-        restart,
-        pause,
-        resume,
-        togglePause,
-        setSpeed,
-        screenshot,
-        resize,
-        getNostalgistInstance,
-        isPerformanceMode,
-    } = useEmulatorCore({
+    const options = {
         system,
         romUrl,
         romId,
+        romFileName,
+        romFiles,
+        discs,
+        loadDisc,
         core,
+        coreOptions,
+        loadCoreOptions,
+        retroarchOverrides,
+        loadRetroArchOverrides,
+        resolvers,
         biosUrl,
+        biosFiles,
+        romDatabase,
+        onRomIdentified,
         initialState,
-        getCanvasElement,
+        loadSram,
+        canvas: getCanvasElement,
         keyboardControls,
         gamepadBindings,
         retroAchievements,
         initialVolume,
-        romFileName,
         shader,
-        onReady,
-        onError,
-    });
-
-    // 2. Audio Logic (Volume, Mute)
-    const {
-        volume,
-        isMuted,
-        setVolume,
-        toggleMute,
-    } = useEmulatorAudio({
-        nostalgistRef,
-        initialVolume,
-    });
-
-    // 3. Input Logic (Press Key, Press Down/Up)
-    const {
-        pressKey,
-        pressDown,
-        pressUp,
-    } = useEmulatorInput({
-        nostalgistRef,
-    });
-
-    // 4. Saves Logic (Save/Load, Rewind)
-    const {
-        isRewinding,
-        rewindBufferSize,
-        saveState,
-        saveStateWithBlob,
-        loadState,
-        startRewind,
-        stopRewind,
-        startRewindCapture,
-        stopRewindCapture,
-    } = useEmulatorSaves({
-        nostalgistRef,
-        isPaused,
-        setIsPaused,
-        setStatus,
-        rewindEnabled: !isHeavySystem, // Disable manual rewind loop for heavy systems
-    });
-
-    // 5. Cheats Logic (stateless injector)
-    const {
-        injectCheats,
-        clearCheats,
-    } = useEmulatorCheats({
-        nostalgistRef,
-    });
-
-    // Wrapped Start - coordinates core start with rewind capture
-    const start = useCallback(async () => {
-        await coreStart();
-
-        // Start rewind capture after a delay if start was successful
-        // We check nostalgistRef.current to ensure it's running
-        setTimeout(() => {
-            if (nostalgistRef.current) {
-                startRewindCapture();
+        rewindMemoryBudgetMB,
+        rewindOnHeavySystems,
+        netplay,
+        adaptivePerformance,
+        onPerformanceChange,
+    };
+
+    const emulatorRef = useRef<KoinEmulator | null>(null);
+    if (!emulatorRef.current) {
+        emulatorRef.current = new KoinEmulator(options);
+    }
+    const emulator = emulatorRef.current;
+
+    // Cheap and idempotent - only read when the emulator (re)prepares
+    emulator.setOptions(options);
+
+    const [state, setState] = useState(() => emulator.getState());
+
+    // Keep latest callbacks without resubscribing
+    const onReadyRef = useRef(onReady);
+    const onErrorRef = useRef(onError);
+    useEffect(() => {
+        onReadyRef.current = onReady;
+        onErrorRef.current = onError;
+    }, [onReady, onError]);
+
+    useEffect(() => {
+        // Catch up on anything emitted between render and subscription
+        setState(emulator.getState());
+        const unsubscribers = [
+            emulator.on('change', setState),
+            emulator.on('ready', () => onReadyRef.current?.()),
+            emulator.on('error', (err) => onErrorRef.current?.(err)),
+        ];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [emulator]);
+
+    // Release the emulator on unmount (it can be prepared again, e.g. StrictMode remount)
+    useEffect(() => {
+        return () => {
+            if (emulator.getNostalgistInstance()) {
+                console.log('[Nostalgist] Cleaning up emulator on unmount');
             }
-        }, 2000);
-    }, [coreStart, startRewindCapture, nostalgistRef]);
-
-    // Wrapped Stop - coordinates core stop with rewind cleanup
-    const stop = useCallback(() => {
-        stopRewindCapture();
-        coreStop();
-    }, [stopRewindCapture, coreStop]);
+            emulator.destroy();
+        };
+    }, [emulator]);
+
+    // Stable method references bound to the controller
+    const methods = useMemo(() => ({
+        prepare: () => emulator.prepare(),
+        start: () => emulator.start(),
+        stop: () => emulator.stop(),
+        restart: () => emulator.restart(),
+        reloadCore: (options?: { keepProgress?: boolean }) => emulator.reloadCore(options),
+        applyPerformanceSteps: () => emulator.applyPerformanceSteps(),
+        pause: () => emulator.pause(),
+        resume: () => emulator.resume(),
+        togglePause: () => emulator.togglePause(),
+        saveState: () => emulator.saveState(),
+        saveStateWithBlob: () => emulator.saveStateWithBlob(),
+        saveSram: () => emulator.saveSram(),
+        loadState: (data: Uint8Array) => emulator.loadState(data),
+        setDisc: (index: number) => emulator.setDisc(index),
+        setSpeed: (multiplier: SpeedMultiplier) => emulator.setSpeed(multiplier),
+        startRewind: () => emulator.startRewind(),
+        stopRewind: () => emulator.stopRewind(),
+        setVolume: (volume: number) => emulator.setVolume(volume),
+        toggleMute: () => emulator.toggleMute(),
+        screenshot: () => emulator.screenshot(),
+        pressKey: (key: string) => emulator.pressKey(key),
+        pressDown: (button: string, player?: number) => emulator.pressDown(button, player),
+        pressUp: (button: string, player?: number) => emulator.pressUp(button, player),
+        setAnalogStick: (stick: AnalogStick, x: number, y: number, player?: number) => emulator.setAnalogStick(stick, x, y, player),
+        setGamepadInputBlocked: (blocked: boolean) => emulator.setGamepadInputBlocked(blocked),
+        addInputListener: (listener: EmulatorInputListener) => emulator.addInputListener(listener),
+        resize: (size: { width: number; height: number }) => emulator.resize(size),
+        injectCheats: (cheats: { code: string }[]) => emulator.injectCheats(cheats),
+        clearCheats: () => emulator.clearCheats(),
+        getNostalgistInstance: () => emulator.getNostalgistInstance(),
+        getPerformanceStats: () => emulator.getPerformanceStats(),
+    }), [emulator]);
+
+    const rewindEnabled = emulator.rewindEnabled;
 
     // Memoize the return object to prevent unnecessary re-renders in parents
-    const hookReturn = useMemo((): UseNostalgistReturn => ({
-        status,
-        error,
-        isPaused,
-        speed,
-        isRewinding,
-        rewindBufferSize,
-        volume,
-        isMuted,
-
-        prepare,
-        start,
-        stop,
-        restart,
-
-        pause,
-        resume,
-        togglePause,
-
-        saveState,
-        saveStateWithBlob,
-        loadState,
-
-        setSpeed,
-        startRewind,
-        stopRewind,
-        rewindEnabled: !isHeavySystem,
-
-        setVolume,
-        toggleMute,
-
-        screenshot,
-        pressKey,
-        pressDown,
-        pressUp,
-        resize,
-
-        injectCheats,
-        clearCheats,
-
-        getNostalgistInstance,
-        isPerformanceMode,
-    }), [
-        status, error, isPaused, speed, isRewinding, rewindBufferSize, volume, isMuted,
-        prepare, start, stop, restart,
-        pause, resume, togglePause,
-        saveState, saveStateWithBlob, loadState,
-        setSpeed, startRewind, stopRewind,
-        isHeavySystem,
-        setVolume, toggleMute,
-        screenshot, pressKey, pressDown, pressUp, resize,
-        injectCheats, clearCheats,
-        getNostalgistInstance,
-        isPerformanceMode
-    ]);
-
-    return hookReturn;
+    return useMemo((): UseNostalgistReturn => ({
+        status: state.status,
+        error: state.error,
+        isPaused: state.isPaused,
+        speed: state.speed,
+        isRewinding: state.isRewinding,
+        rewindBufferSize: state.rewindBufferSize,
+        volume: state.volume,
+        isMuted: state.isMuted,
+        discIndex: state.discIndex,
+        discCount: state.discCount,
+        missingFiles: state.missingFiles,
+        biosChecks: state.biosChecks,
+        romIdentity: state.romIdentity,
+        retroarchConfig: state.retroarchConfig,
+        performanceSteps: state.performanceSteps,
+        performanceReloadPending: state.performanceReloadPending,
+        isPerformanceMode: state.isPerformanceMode,
+        rewindEnabled,
+        ...methods,
+        emulator,
+    }), [state, rewindEnabled, methods, emulator]);
 };
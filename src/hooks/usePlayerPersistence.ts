@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { ShaderPresetId } from '../lib/shader-presets';
+import { KoinStorageAdapter } from '../lib/storage';
 
 const STORAGE_KEY = 'koin-player-settings';
 
@@ -25,10 +26,11 @@ const DEFAULT_SETTINGS: PlayerSettings = {
 
 /**
  * Hook to manage persistent player settings (Volume, Shader, Overlays)
- * Synchronizes with localStorage and optional external callback.
+ * Synchronizes with localStorage, an optional storage adapter and optional external callback.
  */
 export function usePlayerPersistence(
-    onSettingsChange?: (settings: PlayerSettings) => void
+    onSettingsChange?: (settings: PlayerSettings) => void,
+    storage?: KoinStorageAdapter
 ) {
     // Initialize state function to avoid hydration mismatch if possible, 
     // but for localStorage we usually need useEffect or a specific strategy.
@@ -47,8 +49,29 @@ export function usePlayerPersistence(
         } catch (e) {
             console.error('Failed to load player settings', e);
         }
-        setIsLoaded(true);
-    }, []);
+
+        if (!storage) {
+            setIsLoaded(true);
+            return;
+        }
+
+        // Adapter settings take precedence over the local copy
+        let cancelled = false;
+        storage.loadSettings<Partial<PlayerSettings>>(STORAGE_KEY)
+            .then(stored => {
+                if (!cancelled && stored) {
+                    setSettings(prev => ({ ...prev, ...stored }));
+                }
+            })
+            .catch(e => console.error('Failed to load player settings from storage', e))
+            .finally(() => {
+                if (!cancelled) setIsLoaded(true);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [storage]);
 
     // Save to storage whenever settings change
     const updateSettings = useCallback((updates: Partial<PlayerSettings>) => {
@@ -61,6 +84,8 @@ export function usePlayerPersistence(
             } catch (e) {
                 console.error('Failed to save player settings', e);
             }
+            storage?.saveSettings(STORAGE_KEY, next)
+                .catch(e => console.error('Failed to save player settings to storage', e));
 
             // Schedule callback AFTER state update completes
             if (onSettingsChange) {
@@ -69,7 +94,7 @@ export function usePlayerPersistence(
 
             return next;
         });
-    }, [onSettingsChange]);
+    }, [onSettingsChange, storage]);
 
     return {
         settings,
@@ -0,0 +1,25 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+
+// null = document.body
+const PortalContainerContext = createContext<HTMLElement | null>(null);
+
+/**
+ * Overrides where menus and tooltips are portaled to.
+ * The web component points this inside its shadow root so portaled UI
+ * picks up the shadow-scoped styles.
+ */
+export const PortalContainerProvider = PortalContainerContext.Provider;
+
+/**
+ * Portal Container Hook
+ * ---------------------
+ * Target element for createPortal (document.body unless overridden).
+ * Null during SSR.
+ */
+export function usePortalContainer(): HTMLElement | null {
+    const container = useContext(PortalContainerContext);
+    if (container) return container;
+    return typeof document !== 'undefined' ? document.body : null;
+}
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { UseNostalgistReturn } from './useNostalgist';
+
+interface UseSramPersistenceProps {
+    nostalgist: UseNostalgistReturn | null;
+    onSaveSram?: (blob: Blob) => Promise<void>;
+    sramSaveInterval?: number; // Defaults to 30000ms
+}
+
+/**
+ * Check whether two SRAM dumps are byte-identical
+ * Most games only touch SRAM when the player saves in-game, so this skips redundant uploads
+ */
+function isSameSram(a: Uint8Array | null, b: Uint8Array): boolean {
+    if (!a || a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return false;
+    }
+    return true;
+}
+
+/**
+ * Battery save (SRAM) persistence
+ *
+ * Extracts the core's .srm file through the save scheduler on a fixed interval,
+ * whenever the game is paused, and on tab hide/close. Restoring happens in
+ * KoinEmulator via `loadSram` before the ROM boots.
+ */
+export function useSramPersistence({
+    nostalgist,
+    onSaveSram,
+    sramSaveInterval = 30000,
+}: UseSramPersistenceProps) {
+    // Keep latest values in refs so timers don't restart on every render
+    const onSaveSramRef = useRef(onSaveSram);
+    const nostalgistRef = useRef(nostalgist);
+    const lastSramRef = useRef<Uint8Array | null>(null);
+    const flushingRef = useRef<Promise<boolean> | null>(null);
+    const queuedFlushRef = useRef<Promise<boolean> | null>(null);
+
+    useEffect(() => {
+        onSaveSramRef.current = onSaveSram;
+        nostalgistRef.current = nostalgist;
+    }, [onSaveSram, nostalgist]);
+
+    // Save SRAM to the host if it changed since the last flush.
+    // False only when a save was needed and failed.
+    const runFlush = useCallback(async (): Promise<boolean> => {
+        const activeNostalgist = nostalgistRef.current;
+        const activeOnSaveSram = onSaveSramRef.current;
+
+        if (!activeNostalgist || !activeOnSaveSram) return true;
+        if (activeNostalgist.status !== 'running' && activeNostalgist.status !== 'paused') return true;
+
+        try {
+            const result = await activeNostalgist.saveSram();
+            if (!result) {
+                console.error('[GamePlayer] SRAM save failed: could not read the battery save');
+                return false;
+            }
+            // Cores without battery saves produce an empty file
+            if (result.data.length === 0) return true;
+            if (isSameSram(lastSramRef.current, result.data)) return true;
+
+            await activeOnSaveSram(result.blob);
+            lastSramRef.current = result.data;
+            console.log('[GamePlayer] SRAM saved', { size: result.data.length });
+            return true;
+        } catch (err) {
+            console.error('[GamePlayer] SRAM save failed', err);
+            return false;
+        }
+    }, []);
+
+    /**
+     * Flush SRAM. Resolves once it is saved, so callers can await it before
+     * exiting or rebooting the core - false if the save failed. A flush in
+     * flight may have read SRAM before the latest write: callers arriving
+     * meanwhile share one follow-up flush after it.
+     */
+    const flushSram = useCallback((): Promise<boolean> => {
+        const start = (): Promise<boolean> => {
+            const flush = runFlush().finally(() => {
+                flushingRef.current = null;
+            });
+            flushingRef.current = flush;
+            return flush;
+        };
+
+        const inFlight = flushingRef.current;
+        if (!inFlight) return start();
+        if (!queuedFlushRef.current) {
+            queuedFlushRef.current = inFlight.then(() => {
+                queuedFlushRef.current = null;
+                return start();
+            });
+        }
+        return queuedFlushRef.current;
+    }, [runFlush]);
+
+    // Periodic flush while running
+    useEffect(() => {
+        if (!onSaveSram || nostalgist?.status !== 'running') return;
+
+        const intervalId = setInterval(() => {
+            flushSram();
+        }, sramSaveInterval);
+
+        return () => clearInterval(intervalId);
+    }, [nostalgist?.status, !!onSaveSram, sramSaveInterval, flushSram]);
+
+    // Flush on pause
+    useEffect(() => {
+        if (onSaveSram && nostalgist?.status === 'paused') {
+            flushSram();
+        }
+    }, [nostalgist?.status, !!onSaveSram, flushSram]);
+
+    // Emergency flush (Visibility Change & Unload)
+    useEffect(() => {
+        if (!onSaveSram) return;
+
+        const handleVisibilityChange = () => {
+            if (document.hidden) {
+                flushSram();
+            }
+        };
+
+        const handleBeforeUnload = (_e: BeforeUnloadEvent) => {
+            if (!document.hidden) {
+                flushSram();
+            }
+        };
+
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        window.addEventListener('beforeunload', handleBeforeUnload);
+
+        return () => {
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            window.removeEventListener('beforeunload', handleBeforeUnload);
+        };
+    }, [!!onSaveSram, flushSram]);
+
+    return {
+        sramEnabled: !!onSaveSram,
+        flushSram,
+    };
+}
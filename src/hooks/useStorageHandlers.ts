@@ -0,0 +1,88 @@
+import { useMemo } from 'react';
+import { GamePlayerProps } from '../components/types';
+import { AUTO_SAVE_SLOT } from '../lib/storage';
+import { RomIdentity, getRomSaveKey } from '../lib/rom-identify';
+
+type StorageHandlers = Pick<
+    GamePlayerProps,
+    'onSaveState' | 'onLoadState' | 'onAutoSave' | 'onGetSaveSlots' | 'onDeleteSaveState' | 'onSaveSram' | 'onLoadSram'
+>;
+
+// Handlers are resolved on every render - warn once
+let warnedHashKeyWithoutStorage = false;
+
+/**
+ * Resolve the save/load callbacks GamePlayer should use.
+ *
+ * When a `storage` adapter is provided, each callback is bound to it for the
+ * current romId. Explicitly passed callback props always win, so hosts can
+ * override individual operations (e.g. upload auto-saves to the cloud).
+ *
+ * With `saveKeyFromHash`, saves are keyed by the ROM's hash instead. The key
+ * is read on every call, since the ROM is only hashed once it has loaded.
+ * It only applies to the callbacks bound to `storage`: the host's own
+ * callbacks are called as they are, and can key by getRomSaveKey() of the
+ * identity from onRomIdentified.
+ */
+export function resolveStorageHandlers({
+    storage,
+    romId,
+    saveKeyFromHash,
+    onSaveState,
+    onLoadState,
+    onAutoSave,
+    onGetSaveSlots,
+    onDeleteSaveState,
+    onSaveSram,
+    onLoadSram,
+}: Partial<GamePlayerProps>, getRomIdentity?: () => RomIdentity | null): StorageHandlers {
+    const byHash = saveKeyFromHash && getRomIdentity;
+    if (saveKeyFromHash && !storage && !warnedHashKeyWithoutStorage) {
+        warnedHashKeyWithoutStorage = true;
+        console.warn('[GamePlayer] saveKeyFromHash only keys saves made through `storage` - key your own save callbacks with getRomSaveKey()');
+    }
+    if (!storage || (romId === undefined && !byHash)) {
+        return { onSaveState, onLoadState, onAutoSave, onGetSaveSlots, onDeleteSaveState, onSaveSram, onLoadSram };
+    }
+
+    const key = async (): Promise<string> => {
+        if (!byHash) return romId!;
+        const identity = byHash();
+        if (!identity) throw new Error('ROM has not been hashed yet');
+        return getRomSaveKey(identity);
+    };
+
+    return {
+        onSaveState: onSaveState ?? (async (slot, blob, screenshot) => storage.saveState(await key(), slot, blob, screenshot)),
+        onLoadState: onLoadState ?? (async (slot) => storage.loadState(await key(), slot)),
+        onAutoSave: onAutoSave ?? (async (blob, screenshot) => storage.saveState(await key(), AUTO_SAVE_SLOT, blob, screenshot)),
+        onGetSaveSlots: onGetSaveSlots ?? (async () => storage.listSlots(await key())),
+        onDeleteSaveState: onDeleteSaveState ?? (async (slot) => storage.deleteState(await key(), slot)),
+        onSaveSram: onSaveSram ?? (async (blob) => storage.saveSram(await key(), blob)),
+        onLoadSram: onLoadSram ?? (async () => storage.loadSram(await key())),
+    };
+}
+
+/**
+ * Memoized resolveStorageHandlers for GamePlayer
+ */
+export function useStorageHandlers({
+    storage,
+    romId,
+    saveKeyFromHash,
+    onSaveState,
+    onLoadState,
+    onAutoSave,
+    onGetSaveSlots,
+    onDeleteSaveState,
+    onSaveSram,
+    onLoadSram,
+}: GamePlayerProps, getRomIdentity?: () => RomIdentity | null): StorageHandlers {
+    return useMemo(
+        () => resolveStorageHandlers(
+            { storage, romId, saveKeyFromHash, onSaveState, onLoadState, onAutoSave, onGetSaveSlots, onDeleteSaveState, onSaveSram, onLoadSram },
+            getRomIdentity
+        ),
+        [storage, romId, saveKeyFromHash, getRomIdentity, onSaveState, onLoadState, onAutoSave, onGetSaveSlots, onDeleteSaveState, onSaveSram, onLoadSram]
+    );
+}
@@ -13,6 +13,13 @@ export { SHADER_PRESETS, type ShaderPresetId } from './lib/shader-presets';
 export { default as ShortcutsReference } from './components/UI/ShortcutsReference';
 export * from './hooks/useGameRecording';
 export * from './lib/rom-cache';
+export * from './lib/storage';
+export * from './lib/input-movie';
+export * from './lib/save-bundle';
+export * from './lib/bios';
+export * from './lib/rom-identify';
+export * from './lib/netplay';
+export * from './lib/emulator';
 
 // i18n exports
 export { en, es, fr } from './locales';
@@ -0,0 +1,141 @@
+/**
+ * BIOS Verification
+ *
+ * Checks the BIOS files a host provides against the known-good dumps in
+ * bios-data.ts, so a bad or misnamed dump shows up as a warning instead of
+ * a black screen. Regional BIOSes are matched to the ROM's region (from its
+ * No-Intro/Redump file name tags).
+ */
+
+import { KNOWN_BIOS, KnownBios, BiosRegion } from '../data/bios-data';
+import { getSystem } from './systems';
+import { hashBlob } from './hash';
+
+export type { KnownBios, BiosRegion };
+
+/**
+ * BIOS files by the name the core looks for → URL
+ */
+export type BiosFiles = Record<string, string>;
+
+export type BiosStatus =
+    | 'ok'       // Matches a known-good dump
+    | 'badHash'  // Named like a known BIOS, but the dump differs
+    | 'missing'  // Needed for this ROM, but not provided (or failed to download)
+    | 'unknown'; // No reference hash for this file
+
+export interface BiosCheck {
+    fileName: string;
+    status: BiosStatus;
+    /** Known dump the file was checked against */
+    description?: string;
+    /** Other names the file is mounted under (correct name of a misnamed dump, stand-in for the ROM region's BIOS) */
+    mountedAs?: string[];
+}
+
+export interface BiosFile {
+    fileName: string;
+    fileContent: Blob;
+}
+
+/**
+ * Known-good dumps for a system (empty if it has no BIOS table)
+ */
+export function getKnownBios(system: string): KnownBios[] {
+    const key = getSystem(system)?.key ?? system;
+    return KNOWN_BIOS[key] ?? [];
+}
+
+const REGION_TAGS: Record<string, BiosRegion> = {
+    usa: 'us', us: 'us', u: 'us',
+    europe: 'eu', eu: 'eu', e: 'eu', pal: 'eu',
+    uk: 'eu', germany: 'eu', france: 'eu', spain: 'eu', italy: 'eu', australia: 'eu',
+    japan: 'jp', jp: 'jp', j: 'jp',
+};
+
+/**
+ * Region from a ROM file name's tags ('Game (USA, Europe).cue' → 'us'), or null
+ */
+export function detectRomRegion(fileName?: string): BiosRegion | null {
+    if (!fileName) return null;
+    for (const [, group] of fileName.matchAll(/[([]([^)\]]+)[)\]]/g)) {
+        for (const tag of group.split(/\s*,\s*/)) {
+            const region = REGION_TAGS[tag.toLowerCase()];
+            if (region) return region;
+        }
+    }
+    return null;
+}
+
+/**
+ * Check one BIOS file against the system's known dumps
+ */
+export async function verifyBios(system: string, file: BiosFile): Promise<BiosCheck> {
+    const known = getKnownBios(system);
+    if (known.length === 0) return { fileName: file.fileName, status: 'unknown' };
+
+    const named = known.find(bios => bios.fileName.toLowerCase() === file.fileName.toLowerCase());
+    const { md5, crc32 } = await hashBlob(file.fileContent);
+    const match = known.find(bios => bios.md5 === md5 || bios.crc32 === crc32);
+
+    if (match) {
+        return {
+            fileName: file.fileName,
+            status: 'ok',
+            description: match.description,
+            // A good dump under another name still has to be found by the core
+            mountedAs: match.fileName !== file.fileName ? [match.fileName] : undefined,
+        };
+    }
+    if (named) {
+        console.warn(`[BIOS] ${file.fileName} does not match the known dump (md5 ${md5})`);
+        return { fileName: file.fileName, status: 'badHash', description: named.description };
+    }
+    return { fileName: file.fileName, status: 'unknown' };
+}
+
+/**
+ * Verify a BIOS set and lay it out for mounting. Each file is mounted under
+ * its own name and the known name it hashes to. If the BIOS for the ROM's
+ * region is absent, a verified BIOS of another region stands in under its
+ * name, and the absent one is reported as missing.
+ */
+export async function resolveBiosSet(
+    system: string,
+    files: BiosFile[],
+    romFileName?: string
+): Promise<{ files: BiosFile[]; checks: BiosCheck[] }> {
+    const checks = await Promise.all(files.map(file => verifyBios(system, file)));
+    const mountedNames = () => new Set(checks.flatMap(check => [check.fileName, ...(check.mountedAs ?? [])]));
+
+    const known = getKnownBios(system);
+    const regional = known.filter(bios => bios.region);
+    const region = detectRomRegion(romFileName);
+
+    if (regional.length > 0) {
+        // Any regional BIOS will do if the ROM's region is unknown
+        const wanted = region ? regional.filter(bios => bios.region === region) : regional;
+        const names = mountedNames();
+        if (wanted.length > 0 && !wanted.some(bios => names.has(bios.fileName))) {
+            const standIn = checks.find(check => check.status === 'ok');
+            if (standIn) {
+                standIn.mountedAs = [...(standIn.mountedAs ?? []), wanted[0].fileName];
+                console.log(`[BIOS] No ${region} BIOS, using ${standIn.fileName} as ${wanted[0].fileName}`);
+            }
+            checks.push({ fileName: wanted[0].fileName, status: 'missing', description: wanted[0].description });
+        }
+    } else {
+        const names = mountedNames();
+        for (const bios of known) {
+            if (!names.has(bios.fileName)) {
+                checks.push({ fileName: bios.fileName, status: 'missing', description: bios.description });
+            }
+        }
+    }
+
+    const mounted = files.flatMap((file, i) => [
+        file,
+        ...(checks[i].mountedAs ?? []).map(fileName => ({ fileName, fileContent: file.fileContent })),
+    ]);
+    return { files: mounted, checks };
+}
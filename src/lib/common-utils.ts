@@ -22,3 +22,11 @@ export function deepMerge<T>(target: T, source: any): T {
 
     return output;
 }
+
+/**
+ * Whether a key event targets a form field (typing there is never game input)
+ */
+export function isTextInput(target: EventTarget | null): boolean {
+    const el = target as HTMLElement | null;
+    return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable);
+}
@@ -4,7 +4,7 @@
  * Single source of truth for all default button mappings.
  */
 
-import { ButtonId, KeyboardMapping, GamepadMapping } from './types';
+import { ButtonId, KeyboardMapping, GamepadMapping, AnalogMapping } from './types';
 
 /**
  * Standard W3C Gamepad API button indices
@@ -78,6 +78,33 @@ export const DEFAULT_KEYBOARD: KeyboardMapping = {
  */
 export const DEFAULT_GAMEPAD: GamepadMapping = { ...STANDARD_GAMEPAD_BUTTONS };
 
+/**
+ * Standard W3C Gamepad API axis indices
+ */
+export const STANDARD_AXIS_MAP = {
+    leftStickX: 0,
+    leftStickY: 1,
+    rightStickX: 2,
+    rightStickY: 3,
+} as const;
+
+export type StandardAxis = keyof typeof STANDARD_AXIS_MAP;
+
+/**
+ * Default analog bindings (standard axes).
+ * Standard-mapped pads report L2/R2 as buttons, so triggers have no axis.
+ */
+export const DEFAULT_ANALOG: AnalogMapping = {
+    axes: {
+        leftX: { axis: STANDARD_AXIS_MAP.leftStickX },
+        leftY: { axis: STANDARD_AXIS_MAP.leftStickY },
+        rightX: { axis: STANDARD_AXIS_MAP.rightStickX },
+        rightY: { axis: STANDARD_AXIS_MAP.rightStickY },
+    },
+    deadzone: 0.15,
+    sensitivity: 1,
+};
+
 /**
  * Get a complete keyboard mapping with all buttons filled in
  * Uses defaults for any missing buttons
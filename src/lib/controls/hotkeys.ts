@@ -0,0 +1,176 @@
+/**
+ * Player Hotkeys
+ *
+ * Player features (save states, fast-forward, recording...) bound to keys and
+ * to gamepad combos. Keyboard hotkeys are `KeyboardEvent.code` strings with
+ * optional modifiers ('F1', 'Shift+F6'). Gamepad hotkeys are standard button
+ * indices that fire while the "hotkey enable" button is held, like
+ * RetroArch's Select+X.
+ */
+
+import { formatKeyCode, formatGamepadButton } from './labels';
+
+export type HotkeyAction =
+    | 'save'
+    | 'load'
+    | 'nextSlot'
+    | 'prevSlot'
+    | 'fastForward'
+    | 'rewind'
+    | 'screenshot'
+    | 'record'
+    | 'pause'
+    | 'fullscreen'
+    | 'mute'
+    | 'shaderCycle'
+    | 'help'
+    | 'perfOverlay'
+    | 'inputDisplay'
+    | 'movieRecord'
+    | 'moviePlay';
+
+export interface HotkeyConfig {
+    keyboard: Partial<Record<HotkeyAction, string>>;
+    gamepad: Partial<Record<HotkeyAction, number>>;
+    /** Button that must be held for gamepad hotkeys (null = gamepad hotkeys off) */
+    gamepadEnable: number | null;
+}
+
+export const ALL_HOTKEYS: HotkeyAction[] = [
+    'save', 'load', 'nextSlot', 'prevSlot',
+    'fastForward', 'rewind', 'pause',
+    'screenshot', 'record', 'movieRecord', 'moviePlay',
+    'fullscreen', 'mute', 'shaderCycle',
+    'help', 'perfOverlay', 'inputDisplay',
+];
+
+/** Active while held, everything else fires once per press */
+export const HOLD_HOTKEYS: HotkeyAction[] = ['fastForward', 'rewind'];
+
+export type HotkeyGroupId = 'states' | 'playback' | 'capture' | 'display' | 'overlays';
+
+/**
+ * Hotkey groups for UI organization
+ */
+export const HOTKEY_GROUPS: { id: HotkeyGroupId; actions: HotkeyAction[] }[] = [
+    { id: 'states', actions: ['save', 'load', 'nextSlot', 'prevSlot'] },
+    { id: 'playback', actions: ['fastForward', 'rewind', 'pause'] },
+    { id: 'capture', actions: ['screenshot', 'record', 'movieRecord', 'moviePlay'] },
+    { id: 'display', actions: ['fullscreen', 'mute', 'shaderCycle'] },
+    { id: 'overlays', actions: ['help', 'perfOverlay', 'inputDisplay'] },
+];
+
+/**
+ * Default (English) action names
+ */
+export const HOTKEY_LABELS: Record<HotkeyAction, string> = {
+    save: 'Save State',
+    load: 'Load State',
+    nextSlot: 'Next Slot',
+    prevSlot: 'Previous Slot',
+    fastForward: 'Fast Forward (hold)',
+    rewind: 'Rewind (hold)',
+    screenshot: 'Screenshot',
+    record: 'Record',
+    pause: 'Pause',
+    fullscreen: 'Fullscreen',
+    mute: 'Mute',
+    shaderCycle: 'Next Shader',
+    help: 'Help',
+    perfOverlay: 'FPS Overlay',
+    inputDisplay: 'Input Display',
+    movieRecord: 'Input Movie',
+    moviePlay: 'Play Input Movie',
+};
+
+export const DEFAULT_HOTKEYS: HotkeyConfig = {
+    // F-keys (plus mGBA-style Tab / ` holds) stay clear of game controls
+    keyboard: {
+        help: 'F1',
+        save: 'F2',
+        load: 'Shift+F2',
+        perfOverlay: 'F3',
+        inputDisplay: 'F4',
+        record: 'F5',
+        movieRecord: 'F6',
+        moviePlay: 'Shift+F6',
+        nextSlot: 'F7',
+        prevSlot: 'Shift+F7',
+        screenshot: 'F8',
+        shaderCycle: 'Shift+F8',
+        mute: 'F9',
+        pause: 'F10',
+        fullscreen: 'F11',
+        fastForward: 'Tab',
+        rewind: 'Backquote',
+    },
+    // Standard mapping indices, with Select held
+    gamepad: {
+        save: 5,        // R1
+        load: 4,        // L1
+        nextSlot: 15,   // D-Right
+        prevSlot: 14,   // D-Left
+        fastForward: 7, // R2
+        rewind: 6,      // L2
+        pause: 9,       // Start
+        screenshot: 2,  // X / Square
+    },
+    gamepadEnable: 8,
+};
+
+const MODIFIER_CODES = [
+    'ShiftLeft', 'ShiftRight',
+    'ControlLeft', 'ControlRight',
+    'AltLeft', 'AltRight',
+    'MetaLeft', 'MetaRight',
+];
+
+/**
+ * Hotkey string for a key event ('Ctrl+Shift+KeyS'), or null for a lone modifier
+ */
+export function eventToHotkey(e: KeyboardEvent): string | null {
+    if (MODIFIER_CODES.includes(e.code) || !e.code) return null;
+
+    const parts: string[] = [];
+    if (e.ctrlKey) parts.push('Ctrl');
+    if (e.altKey) parts.push('Alt');
+    if (e.shiftKey) parts.push('Shift');
+    if (e.metaKey) parts.push('Meta');
+    parts.push(e.code);
+    return parts.join('+');
+}
+
+/**
+ * Key code a hotkey string ends with ('Shift+F6' -> 'F6')
+ */
+export function hotkeyKeyCode(hotkey: string): string {
+    return hotkey.slice(hotkey.lastIndexOf('+') + 1);
+}
+
+/**
+ * Format a keyboard hotkey for display
+ */
+export function formatHotkey(hotkey: string | undefined): string {
+    if (!hotkey) return '—';
+    const code = hotkeyKeyCode(hotkey);
+    const modifiers = hotkey.slice(0, hotkey.length - code.length);
+    return modifiers + (code === 'Backquote' ? '`' : formatKeyCode(code));
+}
+
+/**
+ * Format a gamepad hotkey for display ('Back / Share + RB / R1')
+ */
+export function formatGamepadHotkey(config: HotkeyConfig, action: HotkeyAction): string {
+    const button = config.gamepad[action];
+    if (button === undefined || config.gamepadEnable === null) return '—';
+    return `${formatGamepadButton(config.gamepadEnable)} + ${formatGamepadButton(button)}`;
+}
+
+/**
+ * Action bound to a key event, if any
+ */
+export function findKeyboardHotkey(config: HotkeyConfig, e: KeyboardEvent): HotkeyAction | null {
+    const hotkey = eventToHotkey(e);
+    if (!hotkey) return null;
+    return ALL_HOTKEYS.find(action => config.keyboard[action] === hotkey) ?? null;
+}
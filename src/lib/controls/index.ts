@@ -8,6 +8,9 @@
 // Types
 export type {
     ButtonId,
+    AnalogInputId,
+    AxisBinding,
+    AnalogMapping,
     KeyboardMapping,
     GamepadMapping,
     ConsoleCapabilities,
@@ -25,13 +28,19 @@ export {
     STICK_BUTTONS,
     SYSTEM_BUTTONS,
     ALL_BUTTONS,
+    STICK_AXES,
+    ANALOG_TRIGGERS,
+    ALL_ANALOG_INPUTS,
 } from './types';
 
 // Defaults
+export type { StandardAxis } from './defaults';
 export {
     STANDARD_GAMEPAD_BUTTONS,
+    STANDARD_AXIS_MAP,
     DEFAULT_KEYBOARD,
     DEFAULT_GAMEPAD,
+    DEFAULT_ANALOG,
     getFullKeyboardMapping,
     getFullGamepadMapping,
 } from './defaults';
@@ -40,6 +49,8 @@ export {
 export {
     BUTTON_LABELS,
     BUTTON_GROUPS,
+    ANALOG_LABELS,
+    formatAxisBinding,
     formatKeyCode,
     formatGamepadButton,
 } from './labels';
@@ -50,6 +61,7 @@ export {
     CONSOLE_KEYBOARD_OVERRIDES,
     getConsoleCapabilities,
     getConsoleButtons,
+    getConsoleAnalogInputs,
     getConsoleKeyboardDefaults,
     consoleHasButton,
 } from './presets';
@@ -61,12 +73,31 @@ export {
     loadGamepadMapping,
     saveGamepadMapping,
     loadAllGamepadMappings,
+    getControllerKey,
+    loadHotkeys,
+    saveHotkeys,
     clearAllControls,
 } from './storage';
 
+// Hotkeys
+export type { HotkeyAction, HotkeyConfig, HotkeyGroupId } from './hotkeys';
+export {
+    ALL_HOTKEYS,
+    HOLD_HOTKEYS,
+    HOTKEY_GROUPS,
+    HOTKEY_LABELS,
+    DEFAULT_HOTKEYS,
+    eventToHotkey,
+    hotkeyKeyCode,
+    formatHotkey,
+    formatGamepadHotkey,
+    findKeyboardHotkey,
+} from './hotkeys';
+
 // RetroArch
 export {
     keyboardToRetroArchConfig,
     gamepadToRetroArchConfig,
+    analogToRetroArchConfig,
     buildRetroArchConfig,
 } from './retroarch';
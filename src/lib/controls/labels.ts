@@ -4,7 +4,7 @@
  * Single source of truth for button display names.
  */
 
-import { ButtonId } from './types';
+import { ButtonId, AnalogInputId, AxisBinding } from './types';
 
 /**
  * Human-readable labels for each button
@@ -39,6 +39,18 @@ export const BUTTON_LABELS: Record<ButtonId, string> = {
     select: 'Select',
 };
 
+/**
+ * Human-readable labels for each analog input (arrow = positive direction)
+ */
+export const ANALOG_LABELS: Record<AnalogInputId, string> = {
+    leftX: 'Left Stick →',
+    leftY: 'Left Stick ↓',
+    rightX: 'Right Stick →',
+    rightY: 'Right Stick ↓',
+    leftTrigger: 'L Trigger (Analog)',
+    rightTrigger: 'R Trigger (Analog)',
+};
+
 /**
  * Button groups for organized UI display
  */
@@ -98,3 +110,11 @@ export function formatGamepadButton(index: number | undefined): string {
 
     return names[index] ?? `Btn ${index}`;
 }
+
+/**
+ * Get human-readable name for an axis binding
+ */
+export function formatAxisBinding(binding: AxisBinding | undefined): string {
+    if (!binding) return '—';
+    return `Axis ${binding.axis}${binding.inverted ? ' (inv)' : ''}`;
+}
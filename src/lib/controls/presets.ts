@@ -5,7 +5,7 @@
  * console-specific default keyboard layouts.
  */
 
-import { ButtonId, KeyboardMapping, ConsoleCapabilities, DPAD_BUTTONS } from './types';
+import { ButtonId, AnalogInputId, KeyboardMapping, ConsoleCapabilities, DPAD_BUTTONS, STICK_AXES } from './types';
 import { DEFAULT_KEYBOARD } from './defaults';
 
 /**
@@ -24,6 +24,7 @@ export const CONSOLE_CAPABILITIES: Record<string, ConsoleCapabilities> = {
     N64: {
         console: 'N64',
         buttons: [...DPAD_BUTTONS, 'a', 'b', 'l', 'r', 'start'], // No select, has Z trigger (mapped to l2)
+        analog: ['leftX', 'leftY'], // Control stick
     },
     GB: {
         console: 'GB',
@@ -60,6 +61,7 @@ export const CONSOLE_CAPABILITIES: Record<string, ConsoleCapabilities> = {
     PS1: {
         console: 'PS1',
         buttons: [...DPAD_BUTTONS, 'a', 'b', 'x', 'y', 'l', 'r', 'l2', 'r2', 'l3', 'r3', 'start', 'select'],
+        analog: STICK_AXES, // DualShock
     },
 
     // ============ NEC ============
@@ -150,6 +152,13 @@ export function getConsoleButtons(system: string): ButtonId[] {
     return getConsoleCapabilities(system).buttons;
 }
 
+/**
+ * Get the analog inputs a console supports (empty for digital-only consoles)
+ */
+export function getConsoleAnalogInputs(system: string): AnalogInputId[] {
+    return getConsoleCapabilities(system).analog ?? [];
+}
+
 /**
  * Get default keyboard mapping for a console
  * Merges console-specific overrides with defaults
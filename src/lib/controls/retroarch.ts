@@ -4,7 +4,7 @@
  * Converts our control mappings to RetroArch config format.
  */
 
-import { ButtonId, KeyboardMapping, GamepadMapping, ControlConfig } from './types';
+import { ButtonId, AnalogInputId, AnalogMapping, KeyboardMapping, GamepadMapping, ControlConfig, ALL_BUTTONS } from './types';
 
 /**
  * Map JavaScript KeyboardEvent.code to RetroArch key names
@@ -76,6 +76,19 @@ const BUTTON_TO_RETROARCH: Record<ButtonId, string> = {
     select: 'select',
 };
 
+/**
+ * Map analog inputs to RetroArch axis bind names: [positive, negative].
+ * Triggers only have one direction.
+ */
+const ANALOG_TO_RETROARCH: Record<AnalogInputId, [string, string?]> = {
+    leftX: ['l_x_plus', 'l_x_minus'],
+    leftY: ['l_y_plus', 'l_y_minus'],
+    rightX: ['r_x_plus', 'r_x_minus'],
+    rightY: ['r_y_plus', 'r_y_minus'],
+    leftTrigger: ['l2'],
+    rightTrigger: ['r2'],
+};
+
 /**
  * Convert a JS key code to RetroArch key name
  */
@@ -113,12 +126,38 @@ export function gamepadToRetroArchConfig(
 ): Record<string, number | string> {
     const config: Record<string, number | string> = {};
 
-    for (const [button, buttonIndex] of Object.entries(mapping)) {
+    for (const button of ALL_BUTTONS) {
+        const buttonIndex = mapping[button];
         if (buttonIndex === undefined) continue;
+        config[`input_player${playerIndex}_${BUTTON_TO_RETROARCH[button]}_btn`] = buttonIndex;
+    }
 
-        const raButton = BUTTON_TO_RETROARCH[button as ButtonId];
-        if (raButton) {
-            config[`input_player${playerIndex}_${raButton}_btn`] = buttonIndex;
+    if (mapping.analog) {
+        Object.assign(config, analogToRetroArchConfig(mapping.analog, playerIndex));
+    }
+
+    return config;
+}
+
+/**
+ * Convert analog bindings to RetroArch axis config for a player
+ * Axes are written as "+N"/"-N"; inversion swaps the signs
+ */
+export function analogToRetroArchConfig(
+    analog: AnalogMapping,
+    playerIndex: number = 1
+): Record<string, string> {
+    const config: Record<string, string> = {};
+
+    for (const [input, binding] of Object.entries(analog.axes)) {
+        const names = ANALOG_TO_RETROARCH[input as AnalogInputId];
+        if (!names || !binding) continue;
+
+        const [plus, minus] = names;
+        const [plusSign, minusSign] = binding.inverted ? ['-', '+'] : ['+', '-'];
+        config[`input_player${playerIndex}_${plus}_axis`] = `${plusSign}${binding.axis}`;
+        if (minus) {
+            config[`input_player${playerIndex}_${minus}_axis`] = `${minusSign}${binding.axis}`;
         }
     }
 
@@ -145,11 +184,19 @@ export function buildRetroArchConfig(config: ControlConfig): Record<string, unkn
         });
     }
 
-    // Enable analog stick → D-pad for all players
-    raConfig.input_player1_analog_dpad_mode = 1;
-    raConfig.input_player2_analog_dpad_mode = 1;
-    raConfig.input_player3_analog_dpad_mode = 1;
-    raConfig.input_player4_analog_dpad_mode = 1;
+    // Deadzone/sensitivity are global in RetroArch - the first tuned pad wins
+    const tuning = config.gamepads?.find(mapping => mapping?.analog)?.analog;
+    if (tuning) {
+        raConfig.input_analog_deadzone = tuning.deadzone.toFixed(6);
+        raConfig.input_analog_sensitivity = tuning.sensitivity.toFixed(6);
+    }
+
+    // Analog stick → D-pad for digital consoles; analog consoles keep real sticks
+    const analogDpadMode = config.analogSticks ? 0 : 1;
+    raConfig.input_player1_analog_dpad_mode = analogDpadMode;
+    raConfig.input_player2_analog_dpad_mode = analogDpadMode;
+    raConfig.input_player3_analog_dpad_mode = analogDpadMode;
+    raConfig.input_player4_analog_dpad_mode = analogDpadMode;
 
     return raConfig;
 }
@@ -7,10 +7,12 @@
 import { KeyboardMapping, GamepadMapping, PlayerIndex } from './types';
 import { DEFAULT_KEYBOARD, DEFAULT_GAMEPAD } from './defaults';
 import { getConsoleKeyboardDefaults } from './presets';
+import { HotkeyConfig, DEFAULT_HOTKEYS } from './hotkeys';
 
 // Storage key prefixes
 const KEYBOARD_KEY_PREFIX = 'retrosaga-controls';
 const GAMEPAD_KEY_PREFIX = 'retrosaga-gamepad';
+const HOTKEYS_KEY = 'retrosaga-hotkeys';
 
 /**
  * Get localStorage key for keyboard controls
@@ -31,6 +33,30 @@ function getGamepadStorageKey(playerIndex: PlayerIndex): string {
     return `${GAMEPAD_KEY_PREFIX}-p${playerIndex}`;
 }
 
+/**
+ * Stable identity for a controller model from its Gamepad API id, so two
+ * different pads on one machine keep separate bindings.
+ *
+ * Chrome: "DualSense Wireless Controller (STANDARD GAMEPAD Vendor: 054c Product: 0ce6)"
+ * Firefox: "054c-0ce6-DualSense Wireless Controller"
+ */
+export function getControllerKey(gamepadId: string): string {
+    const chrome = gamepadId.match(/Vendor:\s*([0-9a-f]+)\s*Product:\s*([0-9a-f]+)/i);
+    const firefox = gamepadId.match(/^([0-9a-f]{1,4})-([0-9a-f]{1,4})-/i);
+    const ids = chrome ?? firefox;
+    if (ids) {
+        return `${ids[1].padStart(4, '0')}-${ids[2].padStart(4, '0')}`.toLowerCase();
+    }
+    return gamepadId.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Per-controller storage: retrosaga-gamepad-054c-0ce6, etc.
+ */
+function getControllerStorageKey(gamepadId: string): string {
+    return `${GAMEPAD_KEY_PREFIX}-${getControllerKey(gamepadId)}`;
+}
+
 /**
  * Load keyboard mapping from localStorage
  * Falls back to console-specific defaults if not found
@@ -83,19 +109,25 @@ export function saveKeyboardMapping(mapping: KeyboardMapping, system?: string):
 
 /**
  * Load gamepad mapping from localStorage
- * Falls back to standard defaults if not found
+ * Prefers the mapping saved for the controller model (when `gamepadId` is
+ * given), then the player's mapping, then standard defaults
  */
-export function loadGamepadMapping(playerIndex: PlayerIndex = 1): GamepadMapping {
+export function loadGamepadMapping(playerIndex: PlayerIndex = 1, gamepadId?: string): GamepadMapping {
     if (typeof window === 'undefined' || !window.localStorage) {
         return { ...DEFAULT_GAMEPAD };
     }
 
-    const storageKey = getGamepadStorageKey(playerIndex);
+    const storageKeys = [getGamepadStorageKey(playerIndex)];
+    if (gamepadId) {
+        storageKeys.unshift(getControllerStorageKey(gamepadId));
+    }
 
     try {
-        const stored = localStorage.getItem(storageKey);
-        if (stored) {
-            return JSON.parse(stored) as GamepadMapping;
+        for (const storageKey of storageKeys) {
+            const stored = localStorage.getItem(storageKey);
+            if (stored) {
+                return JSON.parse(stored) as GamepadMapping;
+            }
         }
     } catch (e) {
         console.error('[Controls] Failed to load gamepad mapping:', e);
@@ -106,14 +138,15 @@ export function loadGamepadMapping(playerIndex: PlayerIndex = 1): GamepadMapping
 
 /**
  * Save gamepad mapping to localStorage
+ * Stored per controller model when `gamepadId` is given, per player otherwise
  */
-export function saveGamepadMapping(mapping: GamepadMapping, playerIndex: PlayerIndex = 1): void {
+export function saveGamepadMapping(mapping: GamepadMapping, playerIndex: PlayerIndex = 1, gamepadId?: string): void {
     if (typeof window === 'undefined' || !window.localStorage) {
         console.warn('[Controls] localStorage not available');
         return;
     }
 
-    const storageKey = getGamepadStorageKey(playerIndex);
+    const storageKey = gamepadId ? getControllerStorageKey(gamepadId) : getGamepadStorageKey(playerIndex);
 
     try {
         localStorage.setItem(storageKey, JSON.stringify(mapping));
@@ -124,17 +157,55 @@ export function saveGamepadMapping(mapping: GamepadMapping, playerIndex: PlayerI
 
 /**
  * Load all gamepad mappings for connected players
+ * @param gamepadIds - Gamepad API id of the pad driving each player (index 0 = player 1)
  */
-export function loadAllGamepadMappings(playerCount: number): GamepadMapping[] {
+export function loadAllGamepadMappings(playerCount: number, gamepadIds: (string | undefined)[] = []): GamepadMapping[] {
     const mappings: GamepadMapping[] = [];
     for (let i = 1; i <= Math.min(playerCount, 4); i++) {
-        mappings.push(loadGamepadMapping(i as PlayerIndex));
+        mappings.push(loadGamepadMapping(i as PlayerIndex, gamepadIds[i - 1]));
     }
     return mappings;
 }
 
 /**
- * Clear all saved controls (keyboard and gamepad)
+ * Load player hotkeys from localStorage
+ * Global (not per system) - falls back to defaults if not found
+ */
+export function loadHotkeys(): HotkeyConfig {
+    if (typeof window === 'undefined' || !window.localStorage) {
+        return { ...DEFAULT_HOTKEYS };
+    }
+
+    try {
+        const stored = localStorage.getItem(HOTKEYS_KEY);
+        if (stored) {
+            return { ...DEFAULT_HOTKEYS, ...JSON.parse(stored) } as HotkeyConfig;
+        }
+    } catch (e) {
+        console.error('[Controls] Failed to load hotkeys:', e);
+    }
+
+    return { ...DEFAULT_HOTKEYS };
+}
+
+/**
+ * Save player hotkeys to localStorage
+ */
+export function saveHotkeys(config: HotkeyConfig): void {
+    if (typeof window === 'undefined' || !window.localStorage) {
+        console.warn('[Controls] localStorage not available');
+        return;
+    }
+
+    try {
+        localStorage.setItem(HOTKEYS_KEY, JSON.stringify(config));
+    } catch (e) {
+        console.error('[Controls] Failed to save hotkeys:', e);
+    }
+}
+
+/**
+ * Clear all saved controls (keyboard, gamepad and hotkeys)
  */
 export function clearAllControls(): void {
     if (typeof window === 'undefined' || !window.localStorage) return;
@@ -148,4 +219,5 @@ export function clearAllControls(): void {
         }
     }
     keysToRemove.forEach(key => localStorage.removeItem(key));
+    localStorage.removeItem(HOTKEYS_KEY);
 }
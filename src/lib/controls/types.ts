@@ -57,6 +57,49 @@ export const ALL_BUTTONS: ButtonId[] = [
     ...SYSTEM_BUTTONS,
 ];
 
+/**
+ * Analog inputs of the RetroPad: one entry per stick axis, plus analog triggers
+ */
+export type AnalogInputId =
+    | 'leftX' | 'leftY'                  // Left stick
+    | 'rightX' | 'rightY'                // Right stick
+    | 'leftTrigger' | 'rightTrigger';    // Analog L2/R2
+
+/**
+ * Stick axes
+ */
+export const STICK_AXES: AnalogInputId[] = ['leftX', 'leftY', 'rightX', 'rightY'];
+
+/**
+ * Analog triggers
+ */
+export const ANALOG_TRIGGERS: AnalogInputId[] = ['leftTrigger', 'rightTrigger'];
+
+/**
+ * All analog inputs in display order
+ */
+export const ALL_ANALOG_INPUTS: AnalogInputId[] = [...STICK_AXES, ...ANALOG_TRIGGERS];
+
+/**
+ * Analog input → physical axis index (W3C Gamepad API)
+ */
+export interface AxisBinding {
+    axis: number;
+    /** Flip the axis direction (e.g. inverted Y) */
+    inverted?: boolean;
+}
+
+/**
+ * Analog bindings and response tuning for one gamepad
+ */
+export interface AnalogMapping {
+    axes: Partial<Record<AnalogInputId, AxisBinding>>;
+    /** Stick travel ignored around the center (0-1) */
+    deadzone: number;
+    /** Multiplier applied to stick travel */
+    sensitivity: number;
+}
+
 /**
  * Keyboard mapping: button → JavaScript KeyboardEvent.code
  * Partial because not all consoles have all buttons
@@ -67,9 +110,12 @@ export type ControlMapping = KeyboardMapping;
 
 /**
  * Gamepad mapping: button → physical button index (W3C Gamepad API)
- * Partial because users may not map all buttons
+ * Partial because users may not map all buttons. `analog` is only present
+ * once sticks/triggers have been configured.
  */
-export type GamepadMapping = Partial<Record<ButtonId, number>>;
+export type GamepadMapping = Partial<Record<ButtonId, number>> & {
+    analog?: AnalogMapping;
+};
 
 /**
  * Which buttons a console actually has
@@ -79,6 +125,8 @@ export interface ConsoleCapabilities {
     console: string;
     /** List of buttons this console supports */
     buttons: ButtonId[];
+    /** Analog inputs the console supports (none = digital only) */
+    analog?: AnalogInputId[];
 }
 
 /**
@@ -119,4 +167,6 @@ export interface ControlConfig {
     keyboard?: KeyboardMapping;
     /** Gamepad controls per player */
     gamepads?: GamepadMapping[];
+    /** Console has analog sticks: keep them analog instead of driving the D-pad */
+    analogSticks?: boolean;
 }
@@ -0,0 +1,93 @@
+/**
+ * Emulator Audio
+ *
+ * Volume control by intercepting the Web Audio graph: AudioNode.connect is
+ * monkey-patched so anything connecting to a context's destination (speakers)
+ * goes through an injected GainNode instead.
+ */
+
+export class AudioGainController {
+    private gainNode: GainNode | null = null;
+    private volume: number;
+    private originalConnect: AudioNode['connect'] | null = null;
+
+    constructor(initialVolume = 100) {
+        this.volume = initialVolume;
+    }
+
+    /**
+     * Patch AudioNode.connect. Must run before the core creates its AudioContext.
+     */
+    install(): void {
+        if (this.originalConnect || typeof AudioNode === 'undefined') return;
+
+        const originalConnect = AudioNode.prototype.connect;
+        this.originalConnect = originalConnect;
+
+        // WeakMap to store GainNodes for each AudioContext to avoid creating duplicates
+        const contextGainMap = new WeakMap<BaseAudioContext, GainNode>();
+        const controller = this;
+
+        (AudioNode.prototype as any).connect = function (this: AudioNode, destination: AudioNode | AudioParam, output?: number, input?: number) {
+            // Check if we are connecting to the destination (speakers)
+            if (destination instanceof AudioNode && destination === this.context.destination) {
+                try {
+                    // Get or create GainNode for this context
+                    let gainNode = contextGainMap.get(this.context);
+                    if (!gainNode) {
+                        gainNode = this.context.createGain();
+                        gainNode.gain.value = controller.volume / 100;
+                        (originalConnect as Function).apply(gainNode, [destination]);
+                        contextGainMap.set(this.context, gainNode);
+
+                        // Latest context is the emulator's (heuristic)
+                        controller.gainNode = gainNode;
+                        console.log('[Nostalgist] AudioContext intercepted and GainNode injected');
+                    }
+
+                    // Connect this node to the GainNode instead of destination
+                    return (originalConnect as Function).call(this, gainNode, output, input);
+                } catch (err) {
+                    console.error('[Nostalgist] Audio interception error:', err);
+                    return (originalConnect as Function).apply(this, [destination, output, input]);
+                }
+            }
+
+            // Default behavior for other connections
+            return (originalConnect as Function).apply(this, [destination, output, input]);
+        };
+    }
+
+    /**
+     * Restore the original AudioNode.connect
+     */
+    uninstall(): void {
+        if (!this.originalConnect) return;
+        AudioNode.prototype.connect = this.originalConnect;
+        this.originalConnect = null;
+        this.gainNode = null;
+    }
+
+    /**
+     * Set volume (0-100, clamped). Returns the applied value.
+     */
+    setVolume(newVolume: number): number {
+        const clampedVolume = Math.max(0, Math.min(100, newVolume));
+        const volumeValue = clampedVolume / 100; // Convert to 0.0-1.0
+
+        if (this.gainNode) {
+            // Smooth transition to avoid clicks
+            this.gainNode.gain.setValueAtTime(volumeValue, this.gainNode.context.currentTime);
+        } else if (typeof document !== 'undefined') {
+            // Fallback: Try to find audio elements (for some cores that might use them)
+            document.querySelectorAll('audio, video').forEach((element) => {
+                if (element instanceof HTMLMediaElement) {
+                    element.volume = volumeValue;
+                }
+            });
+        }
+
+        this.volume = clampedVolume;
+        return clampedVolume;
+    }
+}
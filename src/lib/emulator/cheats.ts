@@ -0,0 +1,67 @@
+/**
+ * Cheat Injector
+ *
+ * Stateless "executor" that calls Emscripten/RetroArch internal commands
+ * (_cmd_cheat_*) to inject cheats into memory. Which cheats are active is
+ * tracked by the caller (see useGameCheats).
+ */
+
+import type { Nostalgist } from 'nostalgist';
+
+export class CheatInjector {
+    // Track allocated string pointers to free them later
+    private allocatedPointers: number[] = [];
+
+    /**
+     * Inject a list of cheat codes, replacing any previously active cheats
+     */
+    inject(nostalgist: Nostalgist, cheats: { code: string }[]): void {
+        const module = nostalgist.getEmscriptenModule() as any;
+        if (!module) return;
+
+        // 1. Free previous pointers
+        if (module._free && this.allocatedPointers.length > 0) {
+            this.allocatedPointers.forEach(ptr => {
+                try { module._free(ptr); } catch (e) { /* ignore */ }
+            });
+            this.allocatedPointers = [];
+        }
+
+        // 2. Reallocate cheat slots
+        if (module._cmd_cheat_realloc) {
+            module._cmd_cheat_realloc(0); // Clear first
+            if (cheats.length > 0) {
+                module._cmd_cheat_realloc(cheats.length);
+            }
+        }
+
+        // 3. Inject new cheats
+        if (cheats.length > 0 && module.stringToNewUTF8 && module._cmd_cheat_set_code) {
+            cheats.forEach((cheat, index) => {
+                try {
+                    const ptr = module.stringToNewUTF8(cheat.code);
+                    this.allocatedPointers.push(ptr);
+                    module._cmd_cheat_set_code(index, ptr);
+
+                    if (module._cmd_cheat_toggle_index) {
+                        module._cmd_cheat_toggle_index(index, true); // Enable
+                    }
+                } catch (err) {
+                    console.error('[Cheats] Failed to inject cheat:', index, err);
+                }
+            });
+        }
+
+        // 4. Apply changes
+        if (module._cmd_cheat_apply_cheats) {
+            module._cmd_cheat_apply_cheats();
+        }
+    }
+
+    /**
+     * Forget pointers owned by an exited instance (its heap is gone)
+     */
+    reset(): void {
+        this.allocatedPointers = [];
+    }
+}
@@ -0,0 +1,263 @@
+/**
+ * Emulator Configuration
+ *
+ * Builds the core descriptor and RetroArch config handed to Nostalgist.prepare().
+ *
+ * Tuning settings (run-ahead, threaded video, audio latency...) are layered:
+ * defaults → system tier → system → game → user → performance. Each layer
+ * overrides the keys it sets; the host supplies the system and game layers
+ * through `retroarchOverrides`, the player the user layer in Settings →
+ * Advanced, and the performance governor the last one when the device
+ * can't keep up.
+ */
+
+import { getCore } from '../emulator-cores';
+import { getSystem, PERFORMANCE_TIER_1_SYSTEMS, PERFORMANCE_TIER_2_SYSTEMS } from '../systems';
+import { buildRetroArchConfig, getConsoleAnalogInputs } from '../controls';
+import { getNetplayRetroArchConfig } from '../netplay';
+import { KoinEmulatorOptions } from './types';
+import { KoinResolvers, resolveCoreFiles } from './resolvers';
+
+export type CoreOption = string | { name: string; js: string; wasm: string };
+
+export type RetroArchConfig = Record<string, unknown>;
+
+export type RetroArchConfigLayer = 'defaults' | 'tier' | 'system' | 'game' | 'user' | 'performance';
+
+export interface RetroArchOverrides {
+    /** By system key ('PS1'), for every game of the system */
+    systems?: Record<string, RetroArchConfig>;
+    /** This game only */
+    game?: RetroArchConfig;
+}
+
+/**
+ * Merged tuning config, with the layer each key came from
+ */
+export interface LayeredRetroArchConfig {
+    config: RetroArchConfig;
+    sources: Record<string, RetroArchConfigLayer>;
+    layers: Record<RetroArchConfigLayer, RetroArchConfig>;
+}
+
+// Balanced settings for systems in neither tier
+const DEFAULT_CONFIG: RetroArchConfig = {
+    run_ahead_enabled: false,
+    video_threaded: true,
+    audio_latency: 64,
+};
+
+/**
+ * Performance Optimization Strategy
+ * ==================================
+ * RetroArch settings are tuned based on system complexity to balance
+ * input latency vs stability. Two tiers:
+ *
+ * TIER 1 ("Zero Lag") - Lightweight 8-bit/16-bit systems
+ *   - Run-Ahead: Predicts next frame to eliminate ~1 frame of input lag
+ *   - Single thread video: Keeps everything synchronized for tighter feel
+ *   - Small audio buffer: Minimizes audio latency
+ *   - Rewind: Enabled (low memory overhead)
+ *
+ * TIER 2 ("Max Smoothness") - Heavy 32-bit+ and arcade systems
+ *   - No Run-Ahead: Too CPU-intensive for complex emulation
+ *   - Threaded video: Prevents UI freezes during heavy rendering
+ *   - Larger audio buffer: Prevents crackling on demanding games
+ *   - Rewind: Disabled (saves significant RAM/CPU)
+ *
+ * @param sysKey - System identifier (e.g., 'NES', 'PS1')
+ * @returns RetroArch config overrides for optimal performance
+ */
+export function getOptimizedConfig(sysKey: string): RetroArchConfig {
+    return { ...DEFAULT_CONFIG, ...getTierConfig(sysKey) };
+}
+
+/**
+ * Tier layer of a system (see getOptimizedConfig), empty if in neither tier
+ */
+function getTierConfig(sysKey: string): RetroArchConfig {
+    const sys = sysKey.toUpperCase();
+
+    // TIER 1: Lightweight systems - optimize for minimal input lag
+    // These systems have low CPU requirements, so we can afford Run-Ahead
+    if (PERFORMANCE_TIER_1_SYSTEMS.has(sys)) {
+        return {
+            run_ahead_enabled: true,      // Predict next frame to cut 1 frame of lag
+            run_ahead_frames: 1,          // Only 1 frame - more would increase CPU load
+            run_ahead_secondary_instance: false, // Single instance for WASM (dual is too heavy)
+            video_threaded: false,        // Keep on main thread for tightest sync
+            audio_latency: 64,            // 64ms buffer - good balance of latency vs stability
+        };
+    }
+
+    // TIER 2: Heavy systems - optimize for smooth, stutter-free gameplay
+    // These systems push the CPU hard, so we prioritize stability over latency
+    if (PERFORMANCE_TIER_2_SYSTEMS.has(sys)) {
+        // Check if environment supports SharedArrayBuffer (required for threading)
+        const supportsThreading = typeof window !== 'undefined' && window.crossOriginIsolated;
+
+        if (supportsThreading) {
+            return {
+                run_ahead_enabled: false,     // Too expensive for N64/PS1 in WASM
+                video_threaded: true,         // Offload to prevent UI blocking
+                audio_latency: 96,            // Larger buffer prevents audio crackle
+                rewind_enable: false,         // Save RAM - savestate buffer is expensive
+            };
+        } else {
+            console.warn('[Nostalgist] SharedArrayBuffer not available. Falling back to main-thread rendering for heavy system.');
+            return {
+                run_ahead_enabled: false,
+                video_threaded: false,        // Fallback: Main thread (might stutter)
+                audio_latency: 128,           // Increase latency further to handle main thread blocking
+                rewind_enable: false,
+            };
+        }
+    }
+
+    // DEFAULT: Unknown systems get balanced settings
+    return {};
+}
+
+/**
+ * Tuning settings the player can override in Settings → Advanced, and the
+ * values offered for each
+ */
+export const RETROARCH_TUNING_SETTINGS: { key: string; values: (boolean | number)[] }[] = [
+    { key: 'run_ahead_enabled', values: [false, true] },
+    { key: 'run_ahead_frames', values: [1, 2, 3, 4] },
+    { key: 'video_threaded', values: [false, true] },  // Needs SharedArrayBuffer (cross-origin isolation)
+    { key: 'audio_latency', values: [32, 64, 96, 128, 192, 256] },
+];
+
+/**
+ * Merge the tuning layers for a system. `user` is the player's own layer,
+ * on top of the host's `overrides`; `performance` is the governor's.
+ */
+export function resolveRetroArchConfig(
+    system: string,
+    overrides: RetroArchOverrides = {},
+    user: RetroArchConfig = {},
+    performance: RetroArchConfig = {}
+): LayeredRetroArchConfig {
+    const sysKey = getSystem(system)?.key ?? system.toUpperCase();
+    const layers: Record<RetroArchConfigLayer, RetroArchConfig> = {
+        defaults: DEFAULT_CONFIG,
+        tier: getTierConfig(sysKey),
+        system: overrides.systems?.[sysKey] ?? {},
+        game: overrides.game ?? {},
+        user,
+        performance,
+    };
+
+    const config: RetroArchConfig = {};
+    const sources: Record<string, RetroArchConfigLayer> = {};
+    for (const layer of Object.keys(layers) as RetroArchConfigLayer[]) {
+        for (const [key, value] of Object.entries(layers[layer])) {
+            config[key] = value;
+            sources[key] = layer;
+        }
+    }
+    return { config, sources, layers };
+}
+
+/**
+ * Resolve the core name, or a { name, js, wasm } descriptor for self-hosted
+ * cores (see resolvers.ts) and systems whose cores aren't in Nostalgist's
+ * default CDN
+ */
+export function resolveCoreOption(system: string, coreOverride?: string, resolvers?: KoinResolvers): CoreOption {
+    const core = coreOverride || getCore(system);
+    const sysConfig = getSystem(system);
+
+    const selfHosted = resolveCoreFiles(core, resolvers);
+    if (selfHosted) {
+        return { name: core, js: selfHosted.js, wasm: selfHosted.wasm };
+    }
+
+    if (sysConfig?.coreSource === 'linuxserver') {
+        // linuxserver/libretro-cores via jsDelivr - verified working (2025-12-22)
+        const baseUrl = `https://cdn.jsdelivr.net/gh/linuxserver/libretro-cores@master/data/${core}_libretro`;
+        // Nostalgist expects { name, js, wasm } format for custom core URLs
+        return {
+            name: core,
+            js: `${baseUrl}.js`,
+            wasm: `${baseUrl}.wasm`,
+        };
+    }
+
+    return core;
+}
+
+// Core builds Nostalgist downloads by default (keep in sync with the installed version)
+const NOSTALGIST_CORE_BUILD = 'retroarch-emscripten-build@v1.22.2';
+const LINUXSERVER_CORE_BUILD = 'libretro-cores@master';
+const SELF_HOSTED_CORE_BUILD = 'self-hosted';
+
+/**
+ * Identify the core build a session runs on, so save states can be checked
+ * for compatibility before loading
+ */
+export function getCoreBuild(system: string, coreOverride?: string, resolvers?: KoinResolvers): { name: string; version: string } {
+    const name = coreOverride || getCore(system);
+    const selfHosted = resolveCoreFiles(name, resolvers);
+    if (selfHosted) return { name, version: selfHosted.version ?? SELF_HOSTED_CORE_BUILD };
+
+    const version = getSystem(system)?.coreSource === 'linuxserver'
+        ? LINUXSERVER_CORE_BUILD
+        : NOSTALGIST_CORE_BUILD;
+    return { name, version };
+}
+
+/**
+ * Full RetroArch config for a session: base settings, input bindings,
+ * tuning layers, netplay overrides and RetroAchievements
+ */
+export function buildSessionRetroArchConfig(
+    options: KoinEmulatorOptions,
+    specificConfig: RetroArchConfig = resolveRetroArchConfig(options.system, options.retroarchOverrides).config
+): RetroArchConfig {
+    const { keyboardControls, gamepadBindings, initialVolume = 100, netplay, retroAchievements } = options;
+
+    // Build input configuration from custom controls
+    const inputConfig = buildRetroArchConfig({
+        keyboard: keyboardControls,
+        gamepads: gamepadBindings,
+        analogSticks: getConsoleAnalogInputs(options.system).length > 0,
+    });
+
+    // Convert volume percentage (0-100) to RetroArch dB format
+    // RetroArch audio_volume: 0.0 dB = 100%, -20 dB ≈ 10%, -40 dB ≈ 1%
+    // Formula: dB = 20 * Math.log10(volume / 100)
+    const volumeDb = initialVolume === 0 ? -80 : 20 * Math.log10(initialVolume / 100);
+
+    return {
+        menu_driver: 'null',
+        rgui_show_start_screen: false,
+        video_font_enable: false,
+        input_menu_toggle_gamepad_combo: 0,
+        rewind_enable: true, // Default, can be overridden by optimizedConfig
+        rewind_granularity: 1,
+        rewind_buffer_size: 100,
+        fast_forward_ratio: 2.0,
+        fast_forward_frameskip: 0,
+        audio_volume: volumeDb.toFixed(2),
+        input_volume_up: 'add',
+        input_volume_down: 'subtract',
+        input_audio_mute: 'f9',
+        // Cheat hotkeys
+        quick_menu_show_cheats: true,
+        input_cheat_index_plus: 'y',
+        input_cheat_index_minus: 't',
+        input_cheat_toggle: 'u',
+        ...inputConfig,
+        ...specificConfig, // Apply the tuning layers
+        ...(netplay ? getNetplayRetroArchConfig() : {}),
+        ...(retroAchievements ? {
+            cheevos_enable: true,
+            cheevos_username: retroAchievements.username,
+            cheevos_token: retroAchievements.token,
+            cheevos_hardcore_mode_enable: retroAchievements.hardcore ?? false,
+            cheevos_verbose_enable: true,
+        } : {}),
+    };
+}
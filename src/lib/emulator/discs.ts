@@ -0,0 +1,133 @@
+/**
+ * Multi-Disc Content
+ *
+ * Games spread over several discs are launched from a generated .m3u
+ * playlist with every disc image next to it, so the core's disk control
+ * interface knows all of them. Swapping then goes through RetroArch's
+ * commands: open the tray, step to the wanted image, close the tray.
+ *
+ * The disc to boot is listed first in the playlist, so playlist positions
+ * can differ from disc numbers (see DiscChanger).
+ */
+
+import type { Nostalgist } from 'nostalgist';
+import type { RomFileSource } from './rom-files';
+
+/**
+ * A disc image: its URL, or the URL plus the file name to mount it as
+ */
+export type DiscSource = RomFileSource;
+
+// RetroArch polls commands once per frame - leave a few frames between steps
+const DISC_COMMAND_DELAY = 100;
+
+// The drive needs a moment with the tray open before the new disc goes in
+const DISC_TRAY_DELAY = 500;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether a ROM URL or file name is an .m3u playlist
+ */
+export function isPlaylist(nameOrUrl: string): boolean {
+    return /\.m3u8?(\?|#|$)/i.test(nameOrUrl);
+}
+
+/**
+ * Disc entries of an .m3u playlist. Relative entries resolve against the
+ * playlist's URL. Comments (#...) and RetroArch's "file|label" suffixes
+ * are dropped.
+ */
+export function parseM3u(text: string, baseUrl?: string): string[] {
+    return text
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(line => line.split('|')[0].trim())
+        .map(entry => {
+            if (!baseUrl) return entry;
+            try {
+                return new URL(entry, baseUrl).href;
+            } catch {
+                return entry;
+            }
+        });
+}
+
+/**
+ * Playlist order when booting from `firstDisc`: that disc, then the rest in order
+ */
+export function getPlaylistOrder(discCount: number, firstDisc: number): number[] {
+    const order = Array.from({ length: discCount }, (_, i) => i);
+    if (firstDisc <= 0 || firstDisc >= discCount) return order;
+    return [firstDisc, ...order.filter(i => i !== firstDisc)];
+}
+
+/**
+ * .m3u text listing the discs' file names in playlist order
+ */
+export function buildM3u(fileNames: string[], order: number[]): string {
+    return order.map(i => fileNames[i]).join('\n') + '\n';
+}
+
+/**
+ * Drives the core's disk control interface. Tracks which disc is inserted,
+ * since RetroArch can't be asked.
+ */
+export class DiscChanger {
+    private order: number[] = [];
+    private current = 0;
+    private swapping: Promise<boolean> | null = null;
+
+    /**
+     * Start tracking a session launched with the given playlist order
+     */
+    reset(order: number[]): void {
+        this.order = order;
+        this.current = order[0] ?? 0;
+        this.swapping = null;
+    }
+
+    get discCount(): number {
+        return this.order.length;
+    }
+
+    get discIndex(): number {
+        return this.current;
+    }
+
+    /**
+     * Eject, step to `disc` and insert it. Concurrent calls wait for the
+     * swap in progress first.
+     * @returns false if there is nothing to swap to
+     */
+    async swap(nostalgist: Nostalgist, disc: number): Promise<boolean> {
+        while (this.swapping) await this.swapping;
+        if (disc < 0 || disc >= this.order.length || disc === this.current) return false;
+
+        this.swapping = (async () => {
+            const from = this.order.indexOf(this.current);
+            const to = this.order.indexOf(disc);
+
+            nostalgist.sendCommand('DISK_EJECT_TOGGLE');
+            await wait(DISC_COMMAND_DELAY);
+            const step = to > from ? 'DISK_NEXT' : 'DISK_PREV';
+            for (let i = 0; i < Math.abs(to - from); i++) {
+                nostalgist.sendCommand(step);
+                await wait(DISC_COMMAND_DELAY);
+            }
+            await wait(DISC_TRAY_DELAY);
+            nostalgist.sendCommand('DISK_EJECT_TOGGLE');
+            await wait(DISC_COMMAND_DELAY);
+
+            this.current = disc;
+            return true;
+        })();
+
+        try {
+            return await this.swapping;
+        } finally {
+            this.swapping = null;
+        }
+    }
+}
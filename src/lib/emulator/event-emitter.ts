@@ -0,0 +1,64 @@
+/**
+ * Typed Event Emitter
+ *
+ * Minimal emitter for the framework-agnostic controllers. Listener errors
+ * are logged instead of thrown so one bad subscriber can't break the rest.
+ */
+
+export type EventHandler<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+    private handlers = new Map<keyof Events, Set<EventHandler<any>>>();
+
+    /**
+     * Subscribe to an event. Returns an unsubscribe function.
+     */
+    on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+        let set = this.handlers.get(event);
+        if (!set) {
+            set = new Set();
+            this.handlers.set(event, set);
+        }
+        set.add(handler);
+        return () => this.off(event, handler);
+    }
+
+    /**
+     * Subscribe for a single emission
+     */
+    once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+        const off = this.on(event, (payload) => {
+            off();
+            handler(payload);
+        });
+        return off;
+    }
+
+    off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+        this.handlers.get(event)?.delete(handler);
+    }
+
+    /**
+     * Remove every listener (or every listener of one event)
+     */
+    removeAllListeners(event?: keyof Events): void {
+        if (event) {
+            this.handlers.delete(event);
+        } else {
+            this.handlers.clear();
+        }
+    }
+
+    protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const set = this.handlers.get(event);
+        if (!set) return;
+        // Copy so handlers can unsubscribe while we iterate
+        for (const handler of [...set]) {
+            try {
+                handler(payload);
+            } catch (err) {
+                console.error(`[KoinEmulator] '${String(event)}' listener error:`, err);
+            }
+        }
+    }
+}
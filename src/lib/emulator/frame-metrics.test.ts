@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { Nostalgist } from 'nostalgist';
+import { FrameMetrics } from './frame-metrics';
+
+// ============ Fixtures ============
+
+/**
+ * Core with a main loop and a GL context: `iterate` runs one main loop
+ * iteration that draws `draws` times to the screen
+ */
+function fakeCore() {
+    const gl = {
+        READ_FRAMEBUFFER: 0x8ca8,
+        FRAMEBUFFER: 0x8d40,
+        bindFramebuffer(_target: number, _framebuffer: object | null) {},
+        drawArrays(_mode: number, _first: number, _count: number) {},
+        drawElements(_mode: number, _count: number, _type: number, _offset: number) {},
+    };
+    const original = { ...gl };
+    const module: { ctx: typeof gl | null; preMainLoop?: () => unknown } = { ctx: gl };
+    const nostalgist = {
+        getEmscriptenModule: () => module,
+        getEmscripten: () => ({ Browser: { mainLoop: {} } }),
+        getEmscriptenAL: () => null,
+    } as unknown as Nostalgist;
+
+    const iterate = (draws: number, { shaderPass = false } = {}) => {
+        module.preMainLoop?.();
+        if (shaderPass) {
+            gl.bindFramebuffer(gl.FRAMEBUFFER, {});
+            gl.drawArrays(5, 0, 4);
+            gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        }
+        for (let i = 0; i < draws; i++) gl.drawArrays(5, 0, 4);
+    };
+
+    return { gl, original, module, nostalgist, iterate };
+}
+
+const stats = (metrics: FrameMetrics) => metrics.getStats(64);
+
+// ============ Tests ============
+
+describe('FrameMetrics', () => {
+    it('counts main loop iterations in which the core drew to the screen', () => {
+        const { nostalgist, iterate } = fakeCore();
+        const metrics = new FrameMetrics({ isMeasurable: () => true });
+        metrics.attach(nostalgist, 60);
+
+        iterate(1);
+        iterate(3); // Overlays draw more than once per frame
+        iterate(0); // The core didn't run this iteration
+        iterate(1, { shaderPass: true });
+
+        expect(stats(metrics).framesRun).toBe(3);
+        expect(stats(metrics).source).toBe('core');
+        expect(stats(metrics).targetFps).toBe(60);
+    });
+
+    it('ignores draws into framebuffers', () => {
+        const { gl, nostalgist, iterate } = fakeCore();
+        const metrics = new FrameMetrics({ isMeasurable: () => true });
+        metrics.attach(nostalgist, 60);
+
+        iterate(0);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, {});
+        gl.drawArrays(5, 0, 4);
+        // Binding a read framebuffer keeps drawing where it was
+        gl.bindFramebuffer(gl.READ_FRAMEBUFFER, null);
+        gl.drawArrays(5, 0, 4);
+
+        expect(stats(metrics).framesRun).toBe(0);
+    });
+
+    it('restores the GL context once the last listener detaches', () => {
+        const { gl, original, nostalgist, iterate } = fakeCore();
+        const first = new FrameMetrics({ isMeasurable: () => true });
+        const second = new FrameMetrics({ isMeasurable: () => true });
+        first.attach(nostalgist, 60);
+        second.attach(nostalgist, 60);
+        expect(gl.drawArrays).not.toBe(original.drawArrays);
+
+        first.detach();
+        iterate(1);
+        expect(stats(second).framesRun).toBe(1);
+        expect(gl.drawArrays).not.toBe(original.drawArrays);
+
+        second.detach();
+        expect(gl.bindFramebuffer).toBe(original.bindFramebuffer);
+        expect(gl.drawArrays).toBe(original.drawArrays);
+        expect(gl.drawElements).toBe(original.drawElements);
+    });
+
+    it('counts main loop iterations when the GL context is not exposed', () => {
+        const { module, nostalgist, iterate } = fakeCore();
+        module.ctx = null;
+        const metrics = new FrameMetrics({ isMeasurable: () => true });
+        metrics.attach(nostalgist, 50);
+
+        iterate(0);
+        iterate(0);
+
+        expect(stats(metrics).framesRun).toBe(2);
+        expect(stats(metrics).source).toBe('mainLoop');
+    });
+});
@@ -0,0 +1,292 @@
+/**
+ * Frame Metrics
+ *
+ * Counts the frames the core actually runs. RetroArch's main loop is driven
+ * by requestAnimationFrame, so it iterates at the display rate (144 times a
+ * second on a 144 Hz screen) whether or not the core ran a frame. A frame
+ * only counts when the core's video reaches the canvas: the first draw to
+ * the screen in a main loop iteration. Alongside frame times it reads how
+ * much audio the core has queued in OpenAL, so a draining buffer shows up
+ * before it crackles.
+ *
+ * Rates are normalized against the system's native rate. A frame that took
+ * N frame budgets counts N - 1 skipped frames. Frames are only judged
+ * against the target rate while running at normal speed.
+ */
+
+import { Nostalgist } from 'nostalgist';
+import { onEmulatorFrame } from '../input-movie';
+
+export interface PerformanceStats {
+    fps: number;                   // Frames run in the last second
+    targetFps: number;             // Native rate of the system (PAL/NTSC aware)
+    speed: number;                 // fps / targetFps (1 = full speed)
+    frameTime: number;             // Average over the last second (ms)
+    framesRun: number;             // Since the core started
+    framesSkipped: number;         // Frame budgets missed since the core started
+    audioBufferMs: number | null;  // Audio queued for playback (null = not readable)
+    audioBufferFill: number | null; // audioBufferMs / audio_latency
+    audioUnderruns: number;        // Times the audio queue ran dry
+    frameTimes: number[];          // Recent frame times, oldest first (ms)
+    source: FrameSource;           // What a counted frame is
+}
+
+/**
+ * - `core`: frames the core drew to the screen
+ * - `mainLoop`: main loop iterations (the core's WebGL context isn't exposed)
+ * - `animationFrame`: animation frames (the main loop isn't exposed either)
+ */
+export type FrameSource = 'core' | 'mainLoop' | 'animationFrame';
+
+/**
+ * One frame, as handed to onFrame
+ */
+export interface EmulatorFrame {
+    time: number;
+    delta: number;              // Since the previous frame (ms)
+    budget: number;             // 1000 / targetFps
+    underrun: boolean | null;   // Audio ran dry since the last frame (null = not readable)
+}
+
+export interface FrameMetricsOptions {
+    /** Frames only count as skipped while running at normal speed */
+    isMeasurable: () => boolean;
+    onFrame?: (frame: EmulatorFrame) => void;
+}
+
+const FRAME_HISTORY = 120;
+
+// Longer gaps are a background tab or a debugger, not the game (ms)
+const IGNORED_GAP = 1000;
+
+// Less audio than this queued counts as dry (ms)
+const DRY_AUDIO_BUFFER = 1;
+
+// What onScreenDraw wraps on the core's GL context
+type DrawMethod = 'bindFramebuffer' | 'drawArrays' | 'drawElements';
+
+interface CoreGLContext extends Pick<WebGLRenderingContext, DrawMethod> {
+    READ_FRAMEBUFFER?: number; // WebGL 2 only
+}
+
+// Emscripten points Module.ctx at the current GL context
+interface GLModule {
+    ctx?: CoreGLContext | null;
+}
+
+interface DrawHook {
+    listeners: Set<() => void>;
+    restore: () => void;
+}
+
+// Hooks per context, shared by every FrameMetrics counting the same core
+const drawHooks = new WeakMap<CoreGLContext, DrawHook>();
+
+/**
+ * Wrap the context's draw calls, calling `listeners` on each one that
+ * renders to the screen (not into a framebuffer, as shader passes do)
+ */
+function hookDraws(gl: CoreGLContext): DrawHook {
+    const listeners = new Set<() => void>();
+    const { bindFramebuffer, drawArrays, drawElements } = gl;
+    let onScreen = true;
+
+    gl.bindFramebuffer = function (target, framebuffer) {
+        // Binding a read framebuffer (WebGL 2) doesn't move the draws
+        if (target !== gl.READ_FRAMEBUFFER) onScreen = framebuffer === null;
+        return bindFramebuffer.call(this, target, framebuffer);
+    };
+    gl.drawArrays = function (...args) {
+        if (onScreen) listeners.forEach(listener => listener());
+        return drawArrays.apply(this, args);
+    };
+    gl.drawElements = function (...args) {
+        if (onScreen) listeners.forEach(listener => listener());
+        return drawElements.apply(this, args);
+    };
+
+    return {
+        listeners,
+        restore: () => {
+            gl.bindFramebuffer = bindFramebuffer;
+            gl.drawArrays = drawArrays;
+            gl.drawElements = drawElements;
+        },
+    };
+}
+
+/**
+ * Call `callback` on every draw call that renders to the screen. Returns
+ * null when the core's WebGL context isn't exposed. The context is patched
+ * while anything listens, and restored once the last listener leaves.
+ */
+function onScreenDraw(nostalgist: Nostalgist, callback: () => void): (() => void) | null {
+    const gl = (nostalgist.getEmscriptenModule() as GLModule | undefined)?.ctx;
+    if (!gl || typeof gl.drawArrays !== 'function') return null;
+
+    let hook = drawHooks.get(gl);
+    if (!hook) {
+        hook = hookDraws(gl);
+        drawHooks.set(gl, hook);
+    }
+    const { listeners, restore } = hook;
+    listeners.add(callback);
+
+    return () => {
+        listeners.delete(callback);
+        if (listeners.size === 0 && drawHooks.get(gl) === hook) {
+            restore();
+            drawHooks.delete(gl);
+        }
+    };
+}
+
+/**
+ * Audio queued in the core's OpenAL sources (ms), or null if it can't be read
+ */
+function getQueuedAudio(nostalgist: Nostalgist): number | null {
+    let sources: Record<string, any> | undefined;
+    try {
+        sources = nostalgist.getEmscriptenAL()?.currentCtx?.sources;
+    } catch {
+        return null;
+    }
+    if (!sources) return null;
+
+    let seconds = 0;
+    let found = false;
+    for (const source of Object.values(sources)) {
+        if (!source?.bufQueue) continue;
+        found = true;
+        for (let i = source.bufsProcessed ?? 0; i < source.bufQueue.length; i++) {
+            seconds += source.bufQueue[i]?.audioBuf?.duration ?? 0;
+        }
+    }
+    return found ? seconds * 1000 : null;
+}
+
+export class FrameMetrics {
+    private options: FrameMetricsOptions;
+    private nostalgist: Nostalgist | null = null;
+    private unsubscribe: (() => void) | null = null;
+    private source: FrameSource = 'core';
+    private drawn = false; // The core drew to the screen this main loop iteration
+    private targetFps = 60;
+
+    private times: number[] = [];
+    private framesRun = 0;
+    private framesSkipped = 0;
+    private audioBufferMs: number | null = null;
+    private audioUnderruns = 0;
+
+    constructor(options: FrameMetricsOptions) {
+        this.options = options;
+    }
+
+    get attached(): boolean {
+        return this.nostalgist !== null;
+    }
+
+    /**
+     * Start counting the frames of a started core. Counters start from zero.
+     */
+    attach(nostalgist: Nostalgist, targetFps: number): void {
+        this.detach();
+        this.nostalgist = nostalgist;
+        this.targetFps = targetFps;
+        this.times = [];
+        this.framesRun = 0;
+        this.framesSkipped = 0;
+        this.audioBufferMs = null;
+        this.audioUnderruns = 0;
+        this.drawn = false;
+
+        const stopDraws = onScreenDraw(nostalgist, this.onDraw);
+        const stopIterations = onEmulatorFrame(nostalgist, this.onIteration);
+        if (stopDraws) {
+            this.source = 'core';
+        } else {
+            this.source = nostalgist.getEmscripten()?.Browser?.mainLoop ? 'mainLoop' : 'animationFrame';
+        }
+        this.unsubscribe = () => {
+            stopDraws?.();
+            stopIterations();
+        };
+    }
+
+    detach(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.nostalgist = null;
+    }
+
+    /**
+     * Snapshot of the counters. `audioLatency` (ms) is what the buffer fill is measured against.
+     */
+    getStats(audioLatency: number): PerformanceStats {
+        const now = performance.now();
+        const frameTimes = this.times.slice(1).map((time, i) => time - this.times[i]);
+
+        // Frames in the last second (or since the first one, early on)
+        const windowStart = Math.max(now - 1000, this.times[0] ?? now);
+        const recent = this.times.filter(time => time > windowStart);
+        const span = now - windowStart;
+        const recentTimes = recent.length > 0 ? frameTimes.slice(-recent.length) : [];
+
+        const fps = span > 0 ? recent.length * 1000 / span : 0;
+
+        return {
+            fps,
+            targetFps: this.targetFps,
+            speed: this.targetFps > 0 ? fps / this.targetFps : 0,
+            frameTime: recentTimes.length > 0 ? recentTimes.reduce((sum, time) => sum + time, 0) / recentTimes.length : 0,
+            framesRun: this.framesRun,
+            framesSkipped: this.framesSkipped,
+            audioBufferMs: this.audioBufferMs,
+            audioBufferFill: this.audioBufferMs !== null && audioLatency > 0 ? this.audioBufferMs / audioLatency : null,
+            audioUnderruns: this.audioUnderruns,
+            frameTimes,
+            source: this.source,
+        };
+    }
+
+    private onIteration = (): void => {
+        if (this.source !== 'core') {
+            this.recordFrame();
+        }
+        this.drawn = false;
+    };
+
+    private onDraw = (): void => {
+        // Shader passes and overlays draw more than once per frame
+        if (this.drawn) return;
+        this.drawn = true;
+        this.recordFrame();
+    };
+
+    private recordFrame(): void {
+        if (!this.nostalgist) return;
+        const time = performance.now();
+        const previous = this.times[this.times.length - 1];
+        this.times.push(time);
+        if (this.times.length > FRAME_HISTORY + 1) this.times.shift();
+        this.framesRun++;
+
+        const wasBuffered = this.audioBufferMs !== null && this.audioBufferMs >= DRY_AUDIO_BUFFER;
+        this.audioBufferMs = getQueuedAudio(this.nostalgist);
+        if (previous === undefined) return;
+
+        const delta = time - previous;
+        const budget = 1000 / this.targetFps;
+        const measurable = this.options.isMeasurable() && delta < IGNORED_GAP;
+        const underrun = this.audioBufferMs === null
+            ? null
+            : wasBuffered && this.audioBufferMs < DRY_AUDIO_BUFFER;
+
+        if (measurable) {
+            this.framesSkipped += Math.max(0, Math.round(delta / budget) - 1);
+            if (underrun) this.audioUnderruns++;
+        }
+        this.options.onFrame?.({ time, delta, budget, underrun });
+    }
+}
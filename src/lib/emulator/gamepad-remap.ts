@@ -0,0 +1,270 @@
+/**
+ * Gamepad Remapper
+ *
+ * RetroArch reads its joypad binds once, at launch. To apply new bindings to
+ * a running session, the pad snapshots Emscripten samples for the core
+ * (JSEvents.lastGamepadState) are rewritten: each button/axis index RetroArch
+ * was launched with is fed from the physical button/axis the new mapping
+ * names (axis inversion included). Only this emulator instance sees the
+ * remapped pads. Analog deadzone and sensitivity are RetroArch globals and
+ * still apply from the next launch.
+ *
+ * The same hook feeds the touch controller's virtual sticks: their values are
+ * written onto the axes RetroArch was launched with, on a synthetic pad when
+ * no physical one sits in that player's slot.
+ *
+ * While blocked (input movie playback), every pad is sampled released, so
+ * live input can't mix with the replayed one.
+ */
+
+import type { Nostalgist } from 'nostalgist';
+import { ALL_BUTTONS, ALL_ANALOG_INPUTS, DEFAULT_ANALOG, GamepadMapping } from '../controls';
+
+const MAX_PLAYERS = 4;
+
+const RELEASED_BUTTON = { pressed: false, touched: false, value: 0 };
+
+// Standard mapping pad shape (17 buttons, 4 axes)
+const STANDARD_BUTTON_COUNT = 17;
+const STANDARD_AXIS_COUNT = 4;
+
+export type AnalogStick = 'left' | 'right';
+
+interface StickValue {
+    x: number;
+    y: number;
+}
+
+// Launch index -> physical index, per pad (-1 = unbound now)
+interface PadRoute {
+    buttons: Map<number, number>;
+    axes: Map<number, { axis: number; flip: boolean }>;
+}
+
+function buildRoute(launch: GamepadMapping, current: GamepadMapping): PadRoute | null {
+    const route: PadRoute = { buttons: new Map(), axes: new Map() };
+    let identity = true;
+
+    for (const button of ALL_BUTTONS) {
+        const from = launch[button];
+        if (from === undefined) continue;
+        const to = current[button];
+        // Unbound now: keep the launch slot released
+        route.buttons.set(from, to ?? -1);
+        if (to !== from) identity = false;
+    }
+
+    // Without analog config RetroArch was launched on the standard axes
+    const launchAxes = launch.analog?.axes ?? DEFAULT_ANALOG.axes;
+    const currentAxes = current.analog?.axes ?? DEFAULT_ANALOG.axes;
+    for (const input of ALL_ANALOG_INPUTS) {
+        const from = launchAxes[input];
+        if (!from) continue;
+        const to = currentAxes[input];
+        const flip = !!to && !!to.inverted !== !!from.inverted;
+        route.axes.set(from.axis, { axis: to?.axis ?? -1, flip });
+        if (to?.axis !== from.axis || flip) identity = false;
+    }
+
+    return identity ? null : route;
+}
+
+function remapPad(pad: Gamepad, route: PadRoute): Gamepad {
+    const buttons = Array.from(pad.buttons);
+    route.buttons.forEach((physical, slot) => {
+        buttons[slot] = pad.buttons[physical] ?? RELEASED_BUTTON;
+    });
+    const axes = Array.from(pad.axes);
+    route.axes.forEach(({ axis, flip }, slot) => {
+        const value = pad.axes[axis] ?? 0;
+        axes[slot] = flip ? -value : value;
+    });
+    // Emscripten copies these fields into the core's gamepad struct
+    return {
+        id: pad.id,
+        index: pad.index,
+        connected: pad.connected,
+        mapping: pad.mapping,
+        timestamp: pad.timestamp,
+        axes,
+        buttons,
+    } as unknown as Gamepad;
+}
+
+function createVirtualPad(index: number): Gamepad {
+    return {
+        id: 'Koin Virtual Controller (STANDARD GAMEPAD)',
+        index,
+        connected: true,
+        mapping: 'standard',
+        timestamp: performance.now(),
+        axes: new Array(STANDARD_AXIS_COUNT).fill(0),
+        buttons: new Array(STANDARD_BUTTON_COUNT).fill(RELEASED_BUTTON),
+    } as unknown as Gamepad;
+}
+
+function applySticks(pad: Gamepad | null, index: number, sticks: Partial<Record<AnalogStick, StickValue>>, launch?: GamepadMapping): Gamepad {
+    const base = pad ?? createVirtualPad(index);
+    const axes = Array.from(base.axes);
+    const launchAxes = launch?.analog?.axes ?? DEFAULT_ANALOG.axes;
+
+    const write = (input: keyof typeof launchAxes, value: number) => {
+        const binding = launchAxes[input];
+        if (!binding) return;
+        const current = axes[binding.axis] ?? 0;
+        const signed = binding.inverted ? -value : value;
+        // A physical stick pushed further than the virtual one wins
+        axes[binding.axis] = Math.abs(current) > Math.abs(signed) ? current : signed;
+    };
+
+    for (const [stick, value] of Object.entries(sticks) as [AnalogStick, StickValue][]) {
+        write(stick === 'left' ? 'leftX' : 'rightX', value.x);
+        write(stick === 'left' ? 'leftY' : 'rightY', value.y);
+    }
+
+    return {
+        id: base.id,
+        index: base.index,
+        connected: base.connected,
+        mapping: base.mapping,
+        timestamp: base.timestamp,
+        axes,
+        buttons: Array.from(base.buttons),
+    } as unknown as Gamepad;
+}
+
+// Still connected, so the core keeps the pad in its slot
+function releasePad(pad: Gamepad): Gamepad {
+    return {
+        id: pad.id,
+        index: pad.index,
+        connected: pad.connected,
+        mapping: pad.mapping,
+        timestamp: pad.timestamp,
+        axes: new Array(pad.axes.length).fill(0),
+        buttons: new Array(pad.buttons.length).fill(RELEASED_BUTTON),
+    } as unknown as Gamepad;
+}
+
+export class GamepadRemapper {
+    private jsEvents: any = null;
+    private launchBindings: (GamepadMapping | undefined)[] = [];
+    private routes: (PadRoute | null)[] = [];
+    private sticks: (Partial<Record<AnalogStick, StickValue>> | undefined)[] = [];
+    private blocked = false;
+
+    /**
+     * Hook the instance's gamepad sampling. `launchBindings` must be the
+     * bindings RetroArch was configured with.
+     */
+    install(nostalgist: Nostalgist, launchBindings: GamepadMapping[] = []): void {
+        if (this.jsEvents) return;
+
+        const jsEvents = nostalgist.getEmscripten()?.JSEvents as any;
+        if (!jsEvents) {
+            console.warn('[Nostalgist] JSEvents not exposed, gamepad bindings apply on restart only');
+            return;
+        }
+
+        this.jsEvents = jsEvents;
+        this.launchBindings = launchBindings;
+        this.routes = [];
+        this.sticks = [];
+        this.blocked = false;
+
+        let sampled = jsEvents.lastGamepadState;
+        Object.defineProperty(jsEvents, 'lastGamepadState', {
+            configurable: true,
+            get: () => sampled,
+            set: (pads: (Gamepad | null)[] | undefined) => {
+                sampled = this.transform(pads);
+            },
+        });
+    }
+
+    private transform(pads: (Gamepad | null)[] | undefined): (Gamepad | null)[] | undefined {
+        if (this.blocked) return pads?.map(pad => pad && releasePad(pad));
+
+        const hasRoutes = this.routes.some(Boolean);
+        const hasSticks = this.sticks.some(Boolean);
+        if (!hasRoutes && !hasSticks) return pads;
+
+        const result = pads ? Array.from(pads) : [];
+        if (hasRoutes) {
+            for (let i = 0; i < result.length; i++) {
+                const pad = result[i];
+                if (pad && this.routes[i]) result[i] = remapPad(pad, this.routes[i]!);
+            }
+        }
+        if (hasSticks) {
+            this.sticks.forEach((sticks, i) => {
+                if (!sticks) return;
+                while (result.length <= i) result.push(null);
+                result[i] = applySticks(result[i], i, sticks, this.launchBindings[i]);
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Restore plain sampling (the instance is gone or about to be)
+     */
+    uninstall(): void {
+        if (!this.jsEvents) return;
+        const current = this.jsEvents.lastGamepadState;
+        delete this.jsEvents.lastGamepadState;
+        this.jsEvents.lastGamepadState = current;
+        this.jsEvents = null;
+        this.routes = [];
+        this.sticks = [];
+        this.blocked = false;
+    }
+
+    /**
+     * Apply new per-player bindings (index 0 = player 1) to the running session
+     */
+    setBindings(bindings: GamepadMapping[] = []): void {
+        if (!this.jsEvents) return;
+
+        this.routes = [];
+        for (let i = 0; i < MAX_PLAYERS; i++) {
+            const launch = this.launchBindings[i];
+            const current = bindings[i];
+            if (!current) continue;
+            if (!launch) {
+                // RetroArch autoconfig owns this pad - its binds are unknown here
+                console.warn(`[Nostalgist] Player ${i + 1} had no launch bindings, new mapping applies on restart`);
+                continue;
+            }
+            this.routes[i] = buildRoute(launch, current);
+        }
+    }
+
+    /**
+     * Drive a stick of a player's pad from a virtual (touch) stick.
+     * Values range -1..1 (y down is positive); x = y = 0 releases the stick.
+     * @returns false when the instance's gamepad sampling isn't hooked
+     */
+    setStick(stick: AnalogStick, x: number, y: number, playerIndex: number = 0): boolean {
+        if (!this.jsEvents) return false;
+
+        const sticks = { ...this.sticks[playerIndex] };
+        if (x === 0 && y === 0) {
+            delete sticks[stick];
+        } else {
+            sticks[stick] = { x: Math.max(-1, Math.min(1, x)), y: Math.max(-1, Math.min(1, y)) };
+        }
+        this.sticks[playerIndex] = Object.keys(sticks).length > 0 ? sticks : undefined;
+        return true;
+    }
+
+    /**
+     * Sample every pad released (true) or as pressed again (false)
+     * @returns false when the instance's gamepad sampling isn't hooked
+     */
+    setBlocked(blocked: boolean): boolean {
+        if (!this.jsEvents) return false;
+        this.blocked = blocked;
+        return true;
+    }
+}
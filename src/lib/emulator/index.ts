@@ -0,0 +1,56 @@
+/**
+ * Emulator
+ *
+ * Single entry point for the framework-agnostic emulator controller.
+ * Import from here instead of individual files.
+ */
+
+// Types
+export type {
+    EmulatorStatus,
+    SpeedMultiplier,
+    RetroAchievementsConfig,
+    BiosSource,
+    EmulatorInputListener,
+    KoinEmulatorOptions,
+    KoinEmulatorState,
+    KoinEmulatorEvents,
+} from './types';
+
+// Controller
+export { KoinEmulator } from './koin-emulator';
+export { TypedEventEmitter } from './event-emitter';
+export type { EventHandler } from './event-emitter';
+
+// Building blocks
+export { SaveScheduler } from './save-scheduler';
+export { GamepadRemapper } from './gamepad-remap';
+export type { AnalogStick } from './gamepad-remap';
+export { DiscChanger, isPlaylist, parseM3u } from './discs';
+export type { DiscSource } from './discs';
+export {
+    MissingRomFilesError,
+    getSheetReferences,
+    isChd,
+    validateRomSet,
+    unpackRomArchive,
+} from './rom-files';
+export type { RomFile, RomFileSource } from './rom-files';
+export { resolveRomFile, resolveRomSet, loadRomFile } from './rom-resolution';
+export type { PrepareOptions, RomInput, RomOption } from './rom-resolution';
+export {
+    MissingAssetsError,
+    configureResolvers,
+    resolveCoreFiles,
+    resolveShaderFiles,
+    validateCoreDirectory,
+} from './resolvers';
+export type { CoreFiles, KoinResolvers } from './resolvers';
+export type { SavePriority, SaveKind, SaveResult } from './save-scheduler';
+export { getOptimizedConfig, resolveRetroArchConfig, RETROARCH_TUNING_SETTINGS, resolveCoreOption, getCoreBuild, buildSessionRetroArchConfig } from './config';
+export type { RetroArchConfig, RetroArchConfigLayer, RetroArchOverrides, LayeredRetroArchConfig } from './config';
+export { PerformanceGovernor, PERFORMANCE_STEPS } from './performance-governor';
+export type { PerformanceStep, PerformanceSample, PerformanceChange } from './performance-governor';
+export { FrameMetrics } from './frame-metrics';
+export type { PerformanceStats, EmulatorFrame, FrameSource } from './frame-metrics';
+export { SessionPerformance } from './session-performance';
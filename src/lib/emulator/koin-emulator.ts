@@ -0,0 +1,1082 @@
+/**
+ * KoinEmulator
+ *
+ * Framework-agnostic controller around a Nostalgist instance: lifecycle,
+ * pause/speed, save states and SRAM, rewind, cheats, volume, input and
+ * disc swapping.
+ * State changes are published through events, so it can drive React (see
+ * useNostalgist), a web component or plain DOM code.
+ *
+ * @example
+ * const emulator = new KoinEmulator({ system: 'NES', romUrl, canvas });
+ * emulator.on('change', state => render(state));
+ * await emulator.start();
+ */
+
+import { Nostalgist } from 'nostalgist';
+import { PERFORMANCE_TIER_2_SYSTEMS, getSystem, getTargetFrameRate } from '../systems';
+import { detectRomRegion } from '../bios';
+import { RewindBuffer } from '../rewind-buffer';
+import { GamepadMapping } from '../controls';
+import { TypedEventEmitter } from './event-emitter';
+import { SaveScheduler, SaveResult } from './save-scheduler';
+import { AudioGainController } from './audio';
+import { CheatInjector } from './cheats';
+import { GamepadRemapper, AnalogStick } from './gamepad-remap';
+import { DiscChanger, DiscSource, getPlaylistOrder } from './discs';
+import { MissingRomFilesError, getRomFileName, getRomFileUrl } from './rom-files';
+import {
+    PrepareOptions,
+    RomInput,
+    getLaunchFileName,
+    identifyRomSet,
+    resolveBiosFiles,
+    resolveDiscFiles,
+    resolveDiscs,
+    resolveRomFile,
+    resolveRomSet,
+    toBiosInput,
+} from './rom-resolution';
+import { loadSramFile } from './sram';
+import { resolveRetroArchConfig, resolveCoreOption, buildSessionRetroArchConfig, RetroArchConfig } from './config';
+import { MissingAssetsError, findMissingFiles, resolveCoreFiles, resolveShaderFiles } from './resolvers';
+import { PerformanceChange, getPerformanceConfig, getPerformanceShader } from './performance-governor';
+import { PerformanceStats } from './frame-metrics';
+import { SessionPerformance } from './session-performance';
+import {
+    EmulatorInputListener,
+    KoinEmulatorEvents,
+    KoinEmulatorOptions,
+    KoinEmulatorState,
+    SpeedMultiplier,
+} from './types';
+
+// Default memory budget for compressed rewind snapshots
+const DEFAULT_REWIND_BUDGET_MB = 32;
+
+// Never keep more than this much history, even if the budget would allow it
+const MAX_REWIND_SECONDS = 300;
+
+// Let the game boot before the first rewind capture (ms)
+const REWIND_CAPTURE_START_DELAY = 2000;
+
+// FS needs time to settle after rapid state loads before capturing again (ms)
+const REWIND_CAPTURE_RESUME_DELAY = 1000;
+
+// How often a state is loaded while rewinding (ms)
+const REWIND_STEP_INTERVAL = 200;
+
+export class KoinEmulator extends TypedEventEmitter<KoinEmulatorEvents> {
+    private options: KoinEmulatorOptions;
+    private state: KoinEmulatorState;
+    private nostalgist: Nostalgist | null = null;
+
+    private preparing: Promise<void> | null = null;
+    private isStarting = false; // Prevent double start
+    private isFastForwardOn = false;
+    private destroyed = false;
+
+    private audio: AudioGainController;
+    private cheats = new CheatInjector();
+    private gamepadRemapper = new GamepadRemapper();
+    private discs = new DiscChanger();
+    private scheduler = new SaveScheduler(() => this.nostalgist);
+    private performance = new SessionPerformance({
+        getOptions: () => this.options,
+        getState: () => this.state,
+        isRewindAllowed: () => this.rewindAllowed,
+        onChange: change => this.applyPerformanceChange(change),
+    });
+
+    private rewindBuffer = new RewindBuffer(); // Manual rewind buffer using compressed savestates
+    private rewindIndex = -1; // Position of the state currently shown while rewinding
+    private rewindTimer: ReturnType<typeof setInterval> | null = null;
+    private rewindCaptureTimer: ReturnType<typeof setInterval> | null = null;
+    private rewindCaptureDelay: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(options: KoinEmulatorOptions) {
+        super();
+        this.options = options;
+        this.audio = new AudioGainController(options.initialVolume ?? 100);
+        this.state = {
+            status: 'idle',
+            error: null,
+            isPaused: false,
+            speed: 1,
+            isRewinding: false,
+            rewindBufferSize: 0,
+            volume: options.initialVolume ?? 100,
+            isMuted: false,
+            isPerformanceMode: false,
+            discIndex: 0,
+            discCount: 1,
+            missingFiles: [],
+            biosChecks: [],
+            romIdentity: null,
+            retroarchConfig: null,
+            performanceSteps: [],
+            performanceReloadPending: false,
+        };
+    }
+
+    // ============ Options & State ============
+
+    /**
+     * Replace the options. Takes effect on the next prepare(), except
+     * gamepad bindings which are applied to the running session.
+     */
+    setOptions(options: KoinEmulatorOptions): void {
+        const bindingsChanged = options.gamepadBindings !== this.options.gamepadBindings;
+        this.options = options;
+        if (bindingsChanged) {
+            this.gamepadRemapper.setBindings(options.gamepadBindings);
+        }
+    }
+
+    /**
+     * Change per-player gamepad bindings (index 0 = player 1) without restarting
+     */
+    setGamepadBindings(gamepadBindings: GamepadMapping[]): void {
+        this.setOptions({ ...this.options, gamepadBindings });
+    }
+
+    getOptions(): KoinEmulatorOptions {
+        return this.options;
+    }
+
+    getState(): KoinEmulatorState {
+        return this.state;
+    }
+
+    /**
+     * Whether the manual rewind buffer is captured for this session.
+     * Heavy systems only rewind when opted in; netplay never does (a state
+     * load on one peer would desync the other).
+     */
+    get rewindEnabled(): boolean {
+        return this.rewindAllowed && !this.performance.has('rewind');
+    }
+
+    // Rewind before the performance governor has a say
+    private get rewindAllowed(): boolean {
+        const { rewindOnHeavySystems = false, netplay = false } = this.options;
+        return (!this.isHeavySystem || rewindOnHeavySystems) && !netplay;
+    }
+
+    /**
+     * Raw Nostalgist instance (RetroAchievements, netplay, advanced usage)
+     */
+    getNostalgistInstance(): Nostalgist | null {
+        return this.nostalgist;
+    }
+
+    private get isHeavySystem(): boolean {
+        return PERFORMANCE_TIER_2_SYSTEMS.has(this.options.system.toUpperCase());
+    }
+
+    // Heavy systems capture at half the rate
+    private get rewindCaptureInterval(): number {
+        return this.isHeavySystem ? 1000 : 500;
+    }
+
+    private setState(partial: Partial<KoinEmulatorState>): void {
+        const previous = this.state;
+        const changed = (Object.keys(partial) as (keyof KoinEmulatorState)[])
+            .some(key => partial[key] !== previous[key]);
+        if (!changed) return;
+
+        this.state = { ...previous, ...partial };
+        this.emit('change', this.state);
+        if (this.state.status !== previous.status) {
+            this.emit('status', this.state.status);
+        }
+    }
+
+    private fail(err: unknown, fallbackMessage: string): void {
+        const error = err instanceof Error ? err : new Error(fallbackMessage);
+        const missingFiles = err instanceof MissingRomFilesError ? err.missing : [];
+        this.setState({ error: error.message, missingFiles, status: 'error' });
+        this.emit('error', error);
+    }
+
+    // ============ Lifecycle ============
+
+    /**
+     * Load core, ROM, BIOS and saves without starting
+     */
+    prepare(): Promise<void> {
+        this.destroyed = false;
+        if (this.nostalgist) return Promise.resolve();
+        // Concurrent callers share the in-flight prepare
+        if (!this.preparing) {
+            this.preparing = this.doPrepare().finally(() => {
+                this.preparing = null;
+            });
+        }
+        return this.preparing;
+    }
+
+    private async doPrepare(): Promise<void> {
+        const options = this.options;
+        const { system, romUrl, romId, romFileName, discs: discOption, biosUrl, initialState } = options;
+        const steps = this.performance.takeBootSteps();
+        const shader = getPerformanceShader(steps, options.shader);
+
+        if ((!romUrl && !discOption?.length) || !system) {
+            console.warn('[Nostalgist] Missing romUrl or system');
+            return;
+        }
+
+        try {
+            this.setState({ status: 'loading', error: null, missingFiles: [], romIdentity: null, performanceReloadPending: false });
+
+            // Volume interception must be in place before the core creates its AudioContext
+            this.audio.install();
+
+            const discs = await resolveDiscs(options);
+            let files: RomInput[];
+            if (discs.length > 1) {
+                files = await resolveDiscFiles(discs, await this.resolveDiscOrder(discs, options), options);
+            } else {
+                files = [await resolveRomFile(
+                    discs.length === 1 ? getRomFileUrl(discs[0]) : romUrl,
+                    romId,
+                    discs.length === 1 ? getRomFileName(discs[0], 0) : romFileName
+                )];
+                this.discs.reset([0]);
+                this.setState({ discIndex: 0, discCount: 1 });
+            }
+
+            // Some cores look for the BIOS next to the ROM instead of in /system
+            const { files: biosSet, checks: biosChecks } = await resolveBiosFiles(options);
+            this.setState({ biosChecks });
+            const romFolderBios = getSystem(system)?.biosLocation === 'rom_folder';
+            const bios: RomInput[] = biosUrl ? [toBiosInput(biosUrl), ...biosSet] : biosSet;
+            const romFolderFiles = romFolderBios
+                ? bios
+                : (typeof biosUrl === 'object' && biosUrl.location === 'rom_folder' ? bios.slice(0, 1) : []);
+            let rom = await resolveRomSet([...files, ...romFolderFiles], options);
+            if (options.romDatabase || options.onRomIdentified) {
+                const identified = await identifyRomSet(rom, options);
+                rom = identified.rom;
+                if (identified.identity) {
+                    this.setState({ romIdentity: identified.identity });
+                    options.onRomIdentified?.(identified.identity);
+                }
+            }
+            const systemBios = bios.filter(file => !romFolderFiles.includes(file));
+
+            // Tuning config: system tier, then the host's and the player's overrides,
+            // then whatever the performance governor stepped down
+            const userConfig = await this.loadUserRetroArchConfig(options);
+            const tuned = resolveRetroArchConfig(system, options.retroarchOverrides, userConfig);
+            const retroarchConfig = steps.length > 0
+                ? resolveRetroArchConfig(system, options.retroarchOverrides, userConfig, getPerformanceConfig(steps, tuned.config))
+                : tuned;
+
+            // Performance mode = threaded video
+            this.setState({ isPerformanceMode: !!retroarchConfig.config.video_threaded, retroarchConfig });
+
+            const core = resolveCoreOption(system, options.core, options.resolvers);
+            const shaderFiles = shader ? resolveShaderFiles(shader, options.resolvers) : undefined;
+            const shaderAvailable = await this.checkSelfHostedAssets(core, shaderFiles, options);
+
+            // PAL games run slower - the frame metrics measure against the right rate
+            const coreOptions = await this.resolveCoreOptions(options);
+            this.performance.setTargetFrameRate(getTargetFrameRate(system, {
+                coreOptions,
+                region: this.state.romIdentity?.region ?? detectRomRegion(getLaunchFileName(options)),
+            }));
+
+            const prepareOptions: PrepareOptions = {
+                core,
+                rom,
+                // Resolve canvas at prepare time (it must be in the DOM by now)
+                element: this.resolveCanvas() || '',
+                retroarchConfig: buildSessionRetroArchConfig(options, retroarchConfig.config),
+                retroarchCoreConfig: coreOptions,
+            };
+
+            // Handle BIOS - mounted in /system
+            if (systemBios.length > 0) {
+                prepareOptions.bios = systemBios;
+            }
+
+            // Handle initial state
+            if (initialState) {
+                prepareOptions.state = initialState instanceof Blob
+                    ? initialState
+                    : new Blob([initialState.slice()]);
+            }
+
+            // Handle battery save (SRAM) - must be mounted before the core boots the ROM
+            const sram = await loadSramFile(options);
+            if (sram) {
+                prepareOptions.sram = sram;
+            }
+
+            // Handle shader (CRT effects)
+            if (shader && shaderAvailable) {
+                prepareOptions.shader = shader;
+                if (shaderFiles) {
+                    prepareOptions.resolveShader = () => shaderFiles;
+                }
+            }
+
+            const nostalgist = await Nostalgist.prepare(prepareOptions);
+
+            // Destroyed while loading - don't leak the instance
+            if (this.destroyed) {
+                nostalgist.exit();
+                return;
+            }
+
+            this.nostalgist = nostalgist;
+            this.gamepadRemapper.install(nostalgist, options.gamepadBindings);
+            // Options may have changed while the core was loading
+            if (this.options.gamepadBindings !== options.gamepadBindings) {
+                this.gamepadRemapper.setBindings(this.options.gamepadBindings);
+            }
+            this.setState({ status: 'ready' });
+        } catch (err) {
+            console.error('[Nostalgist] Prepare error:', err);
+            this.fail(err, 'Failed to prepare emulator');
+        }
+    }
+
+    /**
+     * Playlist order of a multi-disc game, starting from the disc `loadDisc` picks
+     */
+    private async resolveDiscOrder(discs: DiscSource[], { loadDisc }: KoinEmulatorOptions): Promise<number[]> {
+        let firstDisc = 0;
+        if (loadDisc) {
+            try {
+                firstDisc = (await loadDisc()) ?? 0;
+            } catch (err) {
+                console.warn('[Nostalgist] Failed to load disc index, booting disc 1:', err);
+            }
+        }
+
+        const order = getPlaylistOrder(discs.length, firstDisc);
+        this.discs.reset(order);
+        this.setState({ discIndex: this.discs.discIndex, discCount: discs.length });
+        console.log(`[Nostalgist] Multi-disc game: ${discs.length} discs, booting disc ${this.discs.discIndex + 1}`);
+        return order;
+    }
+
+    /**
+     * `coreOptions` with the saved ones from `loadCoreOptions` on top
+     */
+    private async resolveCoreOptions(options: KoinEmulatorOptions): Promise<Record<string, string>> {
+        const { coreOptions = {}, loadCoreOptions } = options;
+        if (!loadCoreOptions) return coreOptions;
+        try {
+            return { ...coreOptions, ...(await loadCoreOptions()) };
+        } catch (err) {
+            console.warn('[Nostalgist] Failed to load core options, using defaults:', err);
+            return coreOptions;
+        }
+    }
+
+    /**
+     * The player's RetroArch overrides from `loadRetroArchOverrides`
+     */
+    private async loadUserRetroArchConfig(options: KoinEmulatorOptions): Promise<RetroArchConfig> {
+        if (!options.loadRetroArchOverrides) return {};
+        try {
+            return (await options.loadRetroArchOverrides()) ?? {};
+        } catch (err) {
+            console.warn('[Nostalgist] Failed to load RetroArch overrides, ignoring them:', err);
+            return {};
+        }
+    }
+
+    /**
+     * Check that self-hosted core and shader files exist before the core
+     * boots. A missing shader only drops the filter; resolves whether the
+     * shader can be used.
+     * @throws MissingAssetsError
+     */
+    private async checkSelfHostedAssets(
+        core: string | { name: string },
+        shaderFiles: string[] | undefined,
+        options: KoinEmulatorOptions
+    ): Promise<boolean> {
+        const coreFiles = typeof core === 'string' ? undefined : resolveCoreFiles(core.name, options.resolvers);
+        const [missingCore, missingShader] = await Promise.all([
+            coreFiles ? findMissingFiles([coreFiles.js, coreFiles.wasm]) : [],
+            shaderFiles ? findMissingFiles(shaderFiles) : [],
+        ]);
+        if (missingCore.length > 0) throw new MissingAssetsError(missingCore);
+        if (missingShader.length > 0) {
+            console.warn(`[Nostalgist] ${new MissingAssetsError(missingShader).message} - starting without the shader`);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Start the emulator (prepares first if needed). Browsers require a
+     * user gesture for audio, so call this from a click handler.
+     */
+    async start(): Promise<void> {
+        if (this.isStarting) {
+            console.log('[Nostalgist] Already starting');
+            return;
+        }
+
+        // Wait for prepare if needed
+        if (!this.nostalgist) {
+            await this.prepare();
+        }
+
+        // Still no instance? Prepare failed or was cleaned up
+        if (!this.nostalgist) {
+            console.warn('[Nostalgist] No emulator instance available');
+            return;
+        }
+
+        this.isStarting = true;
+
+        try {
+            this.setState({ status: 'loading' });
+            this.audio.install();
+
+            await this.nostalgist.start();
+
+            // Verify instance still exists after await
+            if (!this.nostalgist) return;
+
+            this.setState({ status: 'running', isPaused: false });
+            this.performance.attach(this.nostalgist);
+            this.emit('ready', undefined);
+
+            // Start rewind capture and frame pacing checks once the game has booted
+            this.rewindCaptureDelay = setTimeout(() => {
+                this.rewindCaptureDelay = null;
+                if (this.nostalgist) {
+                    this.startRewindCapture();
+                    this.performance.startGovernor();
+                }
+            }, REWIND_CAPTURE_START_DELAY);
+        } catch (err) {
+            console.error('[Nostalgist] Start error:', err);
+            this.fail(err, 'Failed to start emulator');
+        } finally {
+            this.isStarting = false;
+        }
+    }
+
+    /**
+     * Exit the emulator. The controller can be prepared again afterwards.
+     */
+    stop(): void {
+        this.exitCore();
+        this.clearRewindHistory();
+    }
+
+    /**
+     * Exit the core, keeping the rewind history (for reloads that carry the game over)
+     */
+    private exitCore(): void {
+        this.stopRewindCapture();
+        this.performance.stop();
+        if (this.rewindCaptureDelay) {
+            clearTimeout(this.rewindCaptureDelay);
+            this.rewindCaptureDelay = null;
+        }
+        if (this.rewindTimer) {
+            clearInterval(this.rewindTimer);
+            this.rewindTimer = null;
+        }
+
+        if (!this.nostalgist) return;
+
+        try {
+            this.nostalgist.exit();
+        } catch (err) {
+            console.error('[Nostalgist] Exit error:', err);
+        }
+        this.nostalgist = null;
+        this.isStarting = false;
+        this.isFastForwardOn = false;
+        this.cheats.reset();
+        this.gamepadRemapper.uninstall();
+        this.setState({ status: 'idle', isPaused: false, isRewinding: false, speed: 1 });
+    }
+
+    /**
+     * Full restart with fresh config (re-reads options, e.g. for new cheats)
+     */
+    async restart(): Promise<void> {
+        if (!this.nostalgist) return;
+
+        try {
+            console.log('[Nostalgist] Full restart - stopping, re-preparing with fresh config, starting');
+            this.stop();
+            await this.prepare();
+            await this.start();
+        } catch (err) {
+            console.error('[Nostalgist] Restart error:', err);
+        }
+    }
+
+    /**
+     * Restart the core so changed core options or RetroArch settings take
+     * effect - both are only read at boot. The game's progress is carried over in a save state,
+     * unless `keepProgress` is false: options that change the emulated
+     * hardware (region, model) can't load a state from before.
+     * @returns false without restarting if the progress couldn't be saved
+     */
+    async reloadCore({ keepProgress = true }: { keepProgress?: boolean } = {}): Promise<boolean> {
+        if (!this.nostalgist) return false;
+
+        const wasPaused = this.state.isPaused;
+        let state: Uint8Array | undefined;
+        if (keepProgress) {
+            // High priority: never dropped behind rewind captures
+            const snapshot = await this.saveStateWithBlob();
+            if (!snapshot || !this.nostalgist) {
+                console.warn('[Nostalgist] Core reload aborted: could not save progress');
+                return false;
+            }
+            state = snapshot.data;
+        }
+        console.log(`[Nostalgist] Reloading core ${state ? 'with' : 'without'} progress`);
+        // Without progress, the history is from before the game restarted, maybe on other hardware
+        if (state) {
+            this.exitCore();
+        } else {
+            this.stop();
+        }
+
+        // Boot from the snapshot (or from scratch) instead of the host's initial
+        // state; prepare reads the options synchronously, so the override is undone right away
+        const { initialState } = this.options;
+        this.options = { ...this.options, initialState: state };
+        const preparing = this.prepare();
+        this.options = { ...this.options, initialState };
+
+        try {
+            await preparing;
+            await this.start();
+            if (wasPaused) this.pause();
+            return this.state.status === 'running' || this.state.status === 'paused';
+        } catch (err) {
+            console.error('[Nostalgist] Core reload error:', err);
+            return false;
+        }
+    }
+
+    // ============ Performance ============
+
+    /**
+     * Frame and audio counters of the running core, or null when nothing is running.
+     * Counters restart with the core (including reloads).
+     */
+    getPerformanceStats(): PerformanceStats | null {
+        if (!this.nostalgist) return null;
+        return this.performance.getStats();
+    }
+
+    /**
+     * Rewind changes at once. The other steps are read at boot and wait for
+     * the next core reload: applyPerformanceSteps(), a restart, or a reload
+     * for changed options. The core is never reloaded behind the player's back.
+     */
+    private applyPerformanceChange(change: PerformanceChange): void {
+        const { direction, step, steps } = change;
+        console.log(`[Nostalgist] Performance ${direction === 'down' ? 'reduced' : 'restored'}: ${step} (${change.sample.lateFrames}/${change.sample.frames} late frames)`);
+        this.setState({ performanceSteps: steps, performanceReloadPending: this.performance.reloadPending });
+        this.options.onPerformanceChange?.(change);
+
+        if (step !== 'rewind') return;
+        if (direction === 'down') {
+            // Free the history too - memory pressure is part of the problem
+            this.stopRewindCapture();
+            this.clearRewindHistory();
+        } else {
+            this.startRewindCapture();
+        }
+    }
+
+    /**
+     * Reload the core (keeping progress) so performance steps waiting for a
+     * boot take effect. Not in netplay, where both peers must run the same settings.
+     * @returns false if nothing is pending or the reload failed
+     */
+    async applyPerformanceSteps(): Promise<boolean> {
+        if (!this.state.performanceReloadPending || this.options.netplay) return false;
+        return this.reloadCore();
+    }
+
+    /**
+     * Stop the emulator and release everything it holds (timers, queued
+     * saves, rewind history, audio patch). Event listeners are kept.
+     */
+    destroy(): void {
+        this.destroyed = true;
+        this.stop();
+        this.performance.reset();
+        this.scheduler.clearQueue();
+        this.audio.uninstall();
+    }
+
+    // ============ Playback ============
+
+    pause(): void {
+        const { isPaused, status } = this.state;
+        if (!this.nostalgist || isPaused || status !== 'running') return;
+
+        try {
+            this.nostalgist.pause();
+            this.setState({ isPaused: true, status: 'paused' });
+        } catch (err) {
+            console.error('[Nostalgist] Pause error:', err);
+        }
+    }
+
+    /**
+     * Always attempts to resume - the emulator ignores it if already running
+     */
+    resume(): void {
+        if (!this.nostalgist) return;
+
+        try {
+            this.nostalgist.resume();
+            // Only transition to running if we were paused
+            // This prevents 'ready' state from being overwritten if called prematurely
+            this.setState({
+                isPaused: false,
+                ...(this.state.status === 'paused' ? { status: 'running' as const } : {}),
+            });
+        } catch (err) {
+            console.error('[Nostalgist] Resume error:', err);
+        }
+    }
+
+    togglePause(): void {
+        if (this.state.isPaused) {
+            this.resume();
+        } else {
+            this.pause();
+        }
+    }
+
+    setSpeed(multiplier: SpeedMultiplier): void {
+        const nostalgist = this.nostalgist;
+        if (!nostalgist) return;
+
+        try {
+            if (typeof nostalgist.sendCommand !== 'function') {
+                console.warn('[Nostalgist] sendCommand not available');
+                return;
+            }
+
+            // FAST_FORWARD is a toggle: only 1x and 2x supported
+            if ((multiplier === 2) !== this.isFastForwardOn) {
+                nostalgist.sendCommand('FAST_FORWARD');
+                this.isFastForwardOn = multiplier === 2;
+            }
+
+            this.setState({ speed: multiplier });
+        } catch (err) {
+            console.error('[Nostalgist] Set speed error:', err);
+        }
+    }
+
+    // ============ Saves ============
+
+    /**
+     * Low-priority state capture (used by the rewind buffer)
+     */
+    async saveState(): Promise<Uint8Array | null> {
+        if (!this.nostalgist) return null;
+        const result = await this.scheduler.queueRewindCapture();
+        return result?.data ?? null;
+    }
+
+    /**
+     * High-priority save returning both data and blob (manual and auto-save)
+     */
+    saveStateWithBlob(): Promise<SaveResult | null> {
+        if (!this.nostalgist) return Promise.resolve(null);
+        return this.scheduler.save();
+    }
+
+    /**
+     * Extract the battery save (.srm), serialized with state saves and rewind captures
+     */
+    saveSram(): Promise<SaveResult | null> {
+        if (!this.nostalgist) return Promise.resolve(null);
+        return this.scheduler.saveSram();
+    }
+
+    /**
+     * Load a state and resume the emulator
+     */
+    async loadState(state: Uint8Array): Promise<boolean> {
+        if (!this.nostalgist) {
+            console.warn('[Nostalgist] Cannot load state: emulator not running');
+            return false;
+        }
+
+        try {
+            // Copy into a fresh buffer (the view may cover part of a larger one)
+            const stateBlob = new Blob([state.slice()], { type: 'application/octet-stream' });
+
+            await this.nostalgist.loadState(stateBlob);
+
+            // Small delay to let the emulator process the state load before resuming
+            await new Promise(resolve => setTimeout(resolve, 50));
+            if (!this.nostalgist) return false;
+
+            this.nostalgist.resume();
+            this.setState({ isPaused: false, status: 'running' });
+            return true;
+        } catch (err) {
+            console.error('[Nostalgist] Load state error:', err);
+            return false;
+        }
+    }
+
+    // ============ Discs ============
+
+    /**
+     * Insert another disc of a multi-disc game (0-based index)
+     * @returns false if single-disc, not prepared, or that disc is already in
+     */
+    async setDisc(index: number): Promise<boolean> {
+        if (!this.nostalgist || this.state.discCount < 2) return false;
+
+        try {
+            const swapped = await this.discs.swap(this.nostalgist, index);
+            if (swapped) {
+                console.log(`[Nostalgist] Inserted disc ${index + 1}/${this.state.discCount}`);
+                this.setState({ discIndex: index });
+            }
+            return swapped;
+        } catch (err) {
+            console.error('[Nostalgist] Disc swap error:', err);
+            return false;
+        }
+    }
+
+    // ============ Rewind ============
+
+    /**
+     * Start capturing states into the rewind buffer. Called automatically
+     * after start(); a no-op when rewind is disabled for the session.
+     */
+    startRewindCapture(): void {
+        if (!this.rewindEnabled || this.rewindCaptureTimer || !this.nostalgist) return;
+
+        const interval = this.rewindCaptureInterval;
+
+        // Size a fresh buffer from the current budget (an existing history is kept across capture restarts)
+        if (this.rewindBuffer.length === 0) {
+            this.rewindBuffer = new RewindBuffer({
+                memoryBudgetBytes: (this.options.rewindMemoryBudgetMB ?? DEFAULT_REWIND_BUDGET_MB) * 1024 * 1024,
+                maxEntries: Math.ceil((MAX_REWIND_SECONDS * 1000) / interval),
+            });
+        }
+
+        let successfulCaptures = 0;
+
+        this.rewindCaptureTimer = setInterval(async () => {
+            if (!this.nostalgist || this.state.isPaused) return;
+
+            // Scheduler handles all FS serialization; null means dropped (backpressure) or failed
+            const state = await this.saveState();
+            if (!state) return;
+
+            const buffer = this.rewindBuffer;
+            // Buffer compresses and evicts oldest groups to stay within the memory budget
+            await buffer.push(state);
+            successfulCaptures++;
+            this.setState({ rewindBufferSize: buffer.length });
+
+            // Log progress every 50 captures (less verbose)
+            if (successfulCaptures % 50 === 0) {
+                console.log(`[Nostalgist] 📹 Rewind buffer: ${buffer.length} states, ${(buffer.byteSize / 1024 / 1024).toFixed(1)}MB`);
+            }
+        }, interval);
+    }
+
+    /**
+     * Drop the rewind history (and its size): its states would jump back
+     * into the previous run
+     */
+    private clearRewindHistory(): void {
+        void this.rewindBuffer.clear();
+        this.rewindIndex = -1;
+        this.setState({ rewindBufferSize: 0 });
+    }
+
+    stopRewindCapture(): void {
+        if (this.rewindCaptureTimer) {
+            clearInterval(this.rewindCaptureTimer);
+            this.rewindCaptureTimer = null;
+        }
+    }
+
+    /**
+     * Step backwards through the rewind buffer until stopRewind() (hold to rewind)
+     */
+    startRewind(): void {
+        if (!this.nostalgist || this.state.isRewinding || this.rewindBuffer.length === 0) return;
+
+        this.setState({ isRewinding: true });
+        // Stop capturing while rewinding
+        this.stopRewindCapture();
+
+        let index = this.rewindBuffer.length - 1;
+        let isLoadingState = false; // Prevent overlapping loads
+
+        this.rewindTimer = setInterval(async () => {
+            if (index < 0) {
+                // Reached beginning of buffer, auto-stop
+                this.stopRewind();
+                return;
+            }
+            if (isLoadingState || !this.nostalgist) return;
+
+            isLoadingState = true;
+            try {
+                const state = await this.rewindBuffer.get(index);
+                if (!state) {
+                    this.stopRewind();
+                    return;
+                }
+                await this.loadState(state);
+                this.rewindIndex = index;
+                index--;
+            } catch {
+                // Silently handle errors (likely FS issues when switching states fast)
+            } finally {
+                isLoadingState = false;
+            }
+        }, REWIND_STEP_INTERVAL);
+    }
+
+    /**
+     * Release rewind: keep history up to the shown state and resume capturing
+     */
+    stopRewind(): void {
+        if (!this.state.isRewinding) return;
+
+        if (this.rewindTimer) {
+            clearInterval(this.rewindTimer);
+            this.rewindTimer = null;
+        }
+
+        // Discard the "future" past the point we rewound to, keep the history before it
+        if (this.rewindIndex >= 0) {
+            void this.rewindBuffer.truncate(this.rewindIndex + 1).then(() => {
+                this.setState({ rewindBufferSize: this.rewindBuffer.length });
+            });
+            this.rewindIndex = -1;
+        }
+        this.setState({ isRewinding: false });
+
+        setTimeout(() => {
+            if (this.nostalgist) {
+                this.startRewindCapture();
+            }
+        }, REWIND_CAPTURE_RESUME_DELAY);
+    }
+
+    // ============ Audio ============
+
+    /**
+     * Set volume (0-100)
+     */
+    setVolume(volume: number): void {
+        try {
+            this.setState({ volume: this.audio.setVolume(volume) });
+        } catch (err) {
+            console.error('[Nostalgist] Volume change error:', err);
+        }
+    }
+
+    /**
+     * Toggle RetroArch's mute (simulated F9 hotkey)
+     */
+    toggleMute(): void {
+        const nostalgist = this.nostalgist;
+        if (!nostalgist) return;
+
+        try {
+            // Fire keyboard event directly to Emscripten's event handlers
+            const emscripten = nostalgist.getEmscripten();
+            if (emscripten?.JSEvents) {
+                const canvas = nostalgist.getCanvas?.();
+                const createFakeEvent = (code: string) => ({
+                    code,
+                    target: canvas,
+                    preventDefault: () => { },
+                    stopPropagation: () => { },
+                    stopImmediatePropagation: () => { },
+                });
+
+                for (const handler of emscripten.JSEvents.eventHandlers) {
+                    if (handler.eventTypeString === 'keydown') {
+                        handler.eventListenerFunc(createFakeEvent('F9'));
+                    }
+                }
+                setTimeout(() => {
+                    for (const handler of emscripten.JSEvents.eventHandlers) {
+                        if (handler.eventTypeString === 'keyup') {
+                            handler.eventListenerFunc(createFakeEvent('F9'));
+                        }
+                    }
+                }, 50);
+            }
+            this.setState({ isMuted: !this.state.isMuted });
+        } catch (err) {
+            console.error('[Nostalgist] Mute error:', err);
+        }
+    }
+
+    // ============ Input ============
+
+    /**
+     * Press and release a key
+     */
+    pressKey(key: string): void {
+        if (!this.nostalgist) return;
+
+        try {
+            this.nostalgist.press(key);
+        } catch (err) {
+            console.error('[Nostalgist] Press key error:', err);
+        }
+    }
+
+    /**
+     * Press and hold a button
+     */
+    pressDown(button: string, player: number = 1): void {
+        if (!this.nostalgist) return;
+
+        try {
+            this.nostalgist.pressDown({ button, player });
+            this.emit('input', { button, pressed: true, player });
+        } catch (err) {
+            console.error('[Nostalgist] Press down error:', err);
+        }
+    }
+
+    /**
+     * Release a button
+     */
+    pressUp(button: string, player: number = 1): void {
+        if (!this.nostalgist) return;
+
+        try {
+            this.nostalgist.pressUp({ button, player });
+            this.emit('input', { button, pressed: false, player });
+        } catch (err) {
+            console.error('[Nostalgist] Press up error:', err);
+        }
+    }
+
+    /**
+     * Move an analog stick (-1..1 per axis, y down is positive).
+     * Pass 0, 0 to release it.
+     */
+    setAnalogStick(stick: AnalogStick, x: number, y: number, player: number = 1): void {
+        if (!this.nostalgist) return;
+        this.gamepadRemapper.setStick(stick, x, y, player - 1);
+    }
+
+    /**
+     * Hold back live gamepad input from the core (input movie playback).
+     * Pads stay connected, with every button released.
+     * @returns false when gamepad sampling can't be hooked
+     */
+    setGamepadInputBlocked(blocked: boolean): boolean {
+        if (!this.nostalgist) return false;
+        return this.gamepadRemapper.setBlocked(blocked);
+    }
+
+    /**
+     * Subscribe to programmatic input (used by input movie recording)
+     */
+    addInputListener(listener: EmulatorInputListener): () => void {
+        return this.on('input', ({ button, pressed, player }) => listener(button, pressed, player));
+    }
+
+    // ============ Cheats ============
+
+    /**
+     * Inject cheat codes into the running core, replacing any active cheats
+     */
+    injectCheats(cheats: { code: string }[]): void {
+        if (!this.nostalgist) return;
+        this.cheats.inject(this.nostalgist, cheats);
+    }
+
+    clearCheats(): void {
+        this.injectCheats([]);
+    }
+
+    // ============ Utils ============
+
+    /**
+     * Capture the current frame as a PNG data URL
+     */
+    async screenshot(): Promise<string | null> {
+        const nostalgist = this.nostalgist;
+        if (!nostalgist) return null;
+
+        try {
+            // Primary method: Use Nostalgist's official screenshot() API
+            const screenshotBlob = await nostalgist.screenshot();
+
+            if (screenshotBlob instanceof Blob) {
+                return await new Promise<string>((resolve, reject) => {
+                    const reader = new FileReader();
+                    reader.onloadend = () => {
+                        if (reader.result) {
+                            resolve(reader.result as string);
+                        } else {
+                            reject(new Error('FileReader result is null'));
+                        }
+                    };
+                    reader.onerror = () => reject(new Error('FileReader error'));
+                    reader.readAsDataURL(screenshotBlob);
+                });
+            }
+
+            // Fallback: Try to get canvas directly
+            const canvas =
+                nostalgist.getCanvas?.() ||
+                this.resolveCanvas() ||
+                document.querySelector('.game-canvas-container canvas') as HTMLCanvasElement ||
+                document.querySelector('canvas') as HTMLCanvasElement;
+
+            return canvas ? canvas.toDataURL('image/png') : null;
+        } catch (err) {
+            console.error('[Nostalgist] Screenshot error:', err);
+            return null;
+        }
+    }
+
+    resize(size: { width: number; height: number }): void {
+        if (!this.nostalgist) {
+            console.warn('[Nostalgist] Cannot resize: emulator not ready');
+            return;
+        }
+        try {
+            this.nostalgist.resize(size);
+        } catch (err) {
+            console.error('[Nostalgist] Resize error:', err);
+        }
+    }
+
+    private resolveCanvas(): HTMLCanvasElement | null {
+        const { canvas } = this.options;
+        return (typeof canvas === 'function' ? canvas() : canvas) ?? null;
+    }
+}
@@ -0,0 +1,229 @@
+/**
+ * Performance Governor
+ *
+ * Watches frame pacing during play and steps the session down when the
+ * device can't keep up, or back up once it has been smooth for a while.
+ * Steps, in the order they are taken:
+ * - rewind: stop capturing rewind states (applied at runtime)
+ * - runAhead: disable run-ahead
+ * - audioLatency: raise audio_latency
+ * - shader: swap the shader for a cheap one
+ * All but rewind are read at boot, so they wait for the next core reload
+ * (see KoinEmulator.applyPerformanceSteps).
+ *
+ * Frames are fed in by FrameMetrics: frames the core drew, not display refreshes.
+ * Underruns are the audio queue running dry; where OpenAL can't be read, a
+ * gap longer than the audio buffer counts as one instead.
+ */
+
+import type { RetroArchConfig } from './config';
+import type { EmulatorFrame } from './frame-metrics';
+
+export type PerformanceStep = 'rewind' | 'runAhead' | 'audioLatency' | 'shader';
+
+export const PERFORMANCE_STEPS: PerformanceStep[] = ['rewind', 'runAhead', 'audioLatency', 'shader'];
+
+export interface PerformanceSample {
+    frames: number;
+    lateFrames: number;       // Over 1.5 frame budgets
+    underruns: number;        // Times the audio buffer ran dry
+    averageFrameTime: number; // ms
+}
+
+export interface PerformanceChange {
+    direction: 'down' | 'up';
+    step: PerformanceStep;      // Step just taken or undone
+    steps: PerformanceStep[];   // Every step now in effect
+    sample: PerformanceSample;  // Measurement that triggered the change
+}
+
+export interface PerformanceGovernorOptions {
+    /** Whether taking a step would change anything (no 'shader' step without a shader) */
+    isApplicable: (step: PerformanceStep) => boolean;
+    /** Frames only count while running at normal speed */
+    isMeasurable: () => boolean;
+    getAudioLatency: () => number;
+    onChange: (change: PerformanceChange) => void;
+}
+
+// A frame this many budgets long is late
+const LATE_FRAME = 1.5;
+
+// Longer gaps are a background tab or a debugger, not the game (ms)
+const IGNORED_GAP = 1000;
+
+const SAMPLE_WINDOW = 5000;
+
+// Step down when a window is this bad...
+const STEP_DOWN_LATE_RATIO = 0.2;
+const STEP_DOWN_UNDERRUNS = 3;
+
+// ...and back up after this many smooth windows in a row (doubled each time a step up didn't hold)
+const STEP_UP_LATE_RATIO = 0.02;
+const STEP_UP_WINDOWS = 12;
+const MAX_STEP_UP_WINDOWS = 120;
+
+const MAX_AUDIO_LATENCY = 256;
+
+// Cheapest presets - anything else is swapped for CHEAP_SHADER
+const CHEAP_SHADER = 'crt/zfast-crt';
+const CHEAP_SHADERS = [CHEAP_SHADER, 'crt/crt-potato-cool', 'scanlines'];
+
+/**
+ * RetroArch settings for the steps in effect (the 'performance' config layer)
+ */
+export function getPerformanceConfig(steps: PerformanceStep[], config: RetroArchConfig): RetroArchConfig {
+    const layer: RetroArchConfig = {};
+    if (steps.includes('runAhead')) {
+        layer.run_ahead_enabled = false;
+    }
+    if (steps.includes('audioLatency')) {
+        const latency = Number(config.audio_latency ?? 64);
+        layer.audio_latency = Math.min(Math.max(latency * 2, 128), MAX_AUDIO_LATENCY);
+    }
+    return layer;
+}
+
+/**
+ * Shader to boot with: a cheap one once the 'shader' step is taken
+ */
+export function getPerformanceShader(steps: PerformanceStep[], shader?: string): string | undefined {
+    if (!shader || !steps.includes('shader') || CHEAP_SHADERS.includes(shader)) return shader;
+    return CHEAP_SHADER;
+}
+
+/**
+ * Whether the 'shader' step would change the shader
+ */
+export function canCheapenShader(shader?: string): boolean {
+    return !!shader && !CHEAP_SHADERS.includes(shader);
+}
+
+/**
+ * Whether the 'audioLatency' step would raise the latency
+ */
+export function canRaiseAudioLatency(config: RetroArchConfig): boolean {
+    return Number(config.audio_latency ?? 64) < MAX_AUDIO_LATENCY;
+}
+
+export class PerformanceGovernor {
+    private options: PerformanceGovernorOptions;
+    private steps: PerformanceStep[] = [];
+    private running = false;
+
+    private windowStart = 0;
+    private frames = 0;
+    private lateFrames = 0;
+    private underruns = 0;
+    private frameTimeTotal = 0;
+
+    private smoothWindows = 0;
+    private stepUpWindows = STEP_UP_WINDOWS;
+    private steppedUp = false; // Last change was a step up - if it doesn't hold, wait longer next time
+
+    constructor(options: PerformanceGovernorOptions) {
+        this.options = options;
+    }
+
+    get activeSteps(): PerformanceStep[] {
+        return this.steps;
+    }
+
+    has(step: PerformanceStep): boolean {
+        return this.steps.includes(step);
+    }
+
+    /**
+     * Start sampling frames. Steps taken earlier stay in effect.
+     */
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        this.resetWindow(performance.now());
+        this.smoothWindows = 0;
+    }
+
+    stop(): void {
+        this.running = false;
+    }
+
+    /**
+     * Stop and forget every step (full quality on the next boot)
+     */
+    reset(): void {
+        this.stop();
+        this.steps = [];
+        this.stepUpWindows = STEP_UP_WINDOWS;
+        this.steppedUp = false;
+    }
+
+    /**
+     * Count a frame the core ran
+     */
+    recordFrame(frame: EmulatorFrame): void {
+        if (!this.running) return;
+        const { time, delta, budget, underrun } = frame;
+
+        if (!this.options.isMeasurable()) {
+            // Paused or fast-forwarding: drop the window
+            this.resetWindow(time);
+        } else if (delta < IGNORED_GAP) {
+            this.frames++;
+            this.frameTimeTotal += delta;
+            if (delta > budget * LATE_FRAME) this.lateFrames++;
+            if (underrun ?? delta > this.options.getAudioLatency()) this.underruns++;
+        }
+
+        if (time - this.windowStart >= SAMPLE_WINDOW) {
+            this.evaluate();
+            this.resetWindow(time);
+        }
+    }
+
+    private resetWindow(now: number): void {
+        this.windowStart = now;
+        this.frames = 0;
+        this.lateFrames = 0;
+        this.underruns = 0;
+        this.frameTimeTotal = 0;
+    }
+
+    private evaluate(): void {
+        if (this.frames === 0) return;
+        const sample: PerformanceSample = {
+            frames: this.frames,
+            lateFrames: this.lateFrames,
+            underruns: this.underruns,
+            averageFrameTime: this.frameTimeTotal / this.frames,
+        };
+        const lateRatio = sample.lateFrames / sample.frames;
+
+        if (lateRatio > STEP_DOWN_LATE_RATIO || sample.underruns >= STEP_DOWN_UNDERRUNS) {
+            this.smoothWindows = 0;
+            const step = PERFORMANCE_STEPS.find(s => !this.steps.includes(s) && this.options.isApplicable(s));
+            if (!step) return;
+
+            if (this.steppedUp) {
+                this.stepUpWindows = Math.min(this.stepUpWindows * 2, MAX_STEP_UP_WINDOWS);
+            }
+            this.steppedUp = false;
+            this.steps = [...this.steps, step];
+            this.options.onChange({ direction: 'down', step, steps: this.steps, sample });
+            return;
+        }
+
+        if (lateRatio > STEP_UP_LATE_RATIO || sample.underruns > 0) {
+            this.smoothWindows = 0;
+            return;
+        }
+
+        this.smoothWindows++;
+        if (this.steps.length === 0 || this.smoothWindows < this.stepUpWindows) return;
+
+        const step = this.steps[this.steps.length - 1];
+        this.steps = this.steps.slice(0, -1);
+        this.smoothWindows = 0;
+        this.steppedUp = true;
+        this.options.onChange({ direction: 'up', step, steps: this.steps, sample });
+    }
+}
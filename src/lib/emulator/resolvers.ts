@@ -0,0 +1,129 @@
+/**
+ * Asset Resolvers
+ *
+ * Where cores and shaders are downloaded from. By default cores come from
+ * Nostalgist's CDN (or jsDelivr for linuxserver builds) and shaders from
+ * libretro's glsl-shaders repo. Offline and intranet deployments map them to
+ * their own server instead - per prop, or once for the page through
+ * configureResolvers().
+ *
+ * Self-hosted files are checked before the core boots, so a missing file
+ * fails with its name instead of a network error deep inside the core.
+ */
+
+import { SYSTEMS } from '../systems';
+
+export interface CoreFiles {
+    js: string;
+    wasm: string;
+    version?: string; // Build identifier, stored with save states (default: 'self-hosted')
+}
+
+export interface KoinResolvers {
+    /** Core name → files, or a function returning them (undefined = not self-hosted) */
+    cores?: Record<string, CoreFiles> | ((core: string) => CoreFiles | undefined);
+    /** Directory holding `<core>_libretro.js` and `.wasm`, for cores not in `cores` */
+    coreBaseUrl?: string;
+    /** Shader id ('crt/crt-lottes') → its .glslp preset and .glsl files */
+    shaders?: Record<string, string[]> | ((shader: string) => string[] | undefined);
+    /** Mirror of the libretro/glsl-shaders layout, for shaders not in `shaders` */
+    shaderBaseUrl?: string;
+}
+
+/**
+ * Self-hosted files that can't be found
+ */
+export class MissingAssetsError extends Error {
+    constructor(public readonly missing: string[]) {
+        super(`Missing emulator files: ${missing.join(', ')}`);
+        this.name = 'MissingAssetsError';
+    }
+}
+
+let globalResolvers: KoinResolvers = {};
+
+/**
+ * Set page-wide resolvers. Per-player `resolvers` take precedence, entry by entry.
+ */
+export function configureResolvers(resolvers: KoinResolvers): void {
+    globalResolvers = resolvers;
+}
+
+function lookup<T>(map: Record<string, T> | ((key: string) => T | undefined) | undefined, key: string): T | undefined {
+    if (!map) return undefined;
+    return typeof map === 'function' ? map(key) : map[key];
+}
+
+function joinUrl(base: string, path: string): string {
+    return `${base.replace(/\/+$/, '')}/${path}`;
+}
+
+/**
+ * Self-hosted files of a core, or undefined to use the default source
+ */
+export function resolveCoreFiles(core: string, resolvers?: KoinResolvers): CoreFiles | undefined {
+    for (const source of [resolvers, globalResolvers]) {
+        const files = lookup(source?.cores, core);
+        if (files) return files;
+        if (source?.coreBaseUrl) {
+            return {
+                js: joinUrl(source.coreBaseUrl, `${core}_libretro.js`),
+                wasm: joinUrl(source.coreBaseUrl, `${core}_libretro.wasm`),
+            };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Self-hosted files of a shader preset, or undefined to use libretro's repo.
+ * A base URL yields the preset and its shader, as Nostalgist lays them out.
+ */
+export function resolveShaderFiles(shader: string, resolvers?: KoinResolvers): string[] | undefined {
+    for (const source of [resolvers, globalResolvers]) {
+        const files = lookup(source?.shaders, shader);
+        if (files) return files;
+        if (source?.shaderBaseUrl) {
+            const segments = shader.split('/');
+            segments.splice(-1, 0, 'shaders');
+            return [
+                joinUrl(source.shaderBaseUrl, `${shader}.glslp`),
+                joinUrl(source.shaderBaseUrl, `${segments.join('/')}.glsl`),
+            ];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * URLs that don't answer a HEAD request with success
+ */
+export async function findMissingFiles(urls: string[]): Promise<string[]> {
+    const results = await Promise.all(urls.map(async url => {
+        try {
+            const response = await fetch(url, { method: 'HEAD' });
+            return response.ok ? null : url;
+        } catch {
+            return url;
+        }
+    }));
+    return results.filter((url): url is string => !!url);
+}
+
+/**
+ * Check a self-hosted core directory before deploying it. Looks for the
+ * `.js` and `.wasm` of every core the package uses (or just `cores`), and
+ * resolves with the files that are missing.
+ *
+ * @example
+ * const missing = await validateCoreDirectory('/emulator/cores');
+ * if (missing.length) console.error('Copy these cores:', missing);
+ */
+export async function validateCoreDirectory(baseUrl: string, cores?: string[]): Promise<string[]> {
+    const names = cores ?? [...new Set(SYSTEMS.map(system => system.core))];
+    const files = names.flatMap(core => [
+        joinUrl(baseUrl, `${core}_libretro.js`),
+        joinUrl(baseUrl, `${core}_libretro.wasm`),
+    ]);
+    return findMissingFiles(files);
+}
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    MissingRomFilesError,
+    RomFile,
+    getSheetReferences,
+    orderForLaunch,
+    unpackRomArchive,
+    validateRomSet,
+} from './rom-files';
+
+// ============ Fixtures ============
+
+function file(fileName: string, content: string = fileName): RomFile {
+    return { fileName, fileContent: new Blob([content]) };
+}
+
+const CUE = [
+    'FILE "Track 01.bin" BINARY',
+    '  TRACK 01 MODE2/2352',
+    '    INDEX 01 00:00:00',
+    'FILE "tracks\\Track 02.bin" BINARY',
+    '  TRACK 02 AUDIO',
+    '    INDEX 01 00:00:00',
+].join('\r\n');
+
+/**
+ * Zip archive with stored (uncompressed) entries
+ */
+function zip(entries: { name: string; content: string }[]): Blob {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const data = encoder.encode(entry.content);
+
+        const local = new Uint8Array(30 + name.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        localView.setUint32(18, data.length, true);
+        localView.setUint32(22, data.length, true);
+        localView.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const record = new Uint8Array(46 + name.length);
+        const recordView = new DataView(record.buffer);
+        recordView.setUint32(0, 0x02014b50, true);
+        recordView.setUint32(20, data.length, true);
+        recordView.setUint32(24, data.length, true);
+        recordView.setUint16(28, name.length, true);
+        recordView.setUint32(42, offset, true);
+        record.set(name, 46);
+
+        parts.push(local, data);
+        central.push(record);
+        offset += local.length + data.length;
+    }
+
+    const directorySize = central.reduce((sum, record) => sum + record.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, directorySize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, end] as BlobPart[]);
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+// ============ Tests ============
+
+describe('getSheetReferences', () => {
+    it('resolves cue FILE entries relative to the sheet', () => {
+        expect(getSheetReferences('game.cue', CUE)).toEqual(['Track 01.bin', 'tracks/Track 02.bin']);
+        expect(getSheetReferences('Game/game.cue', CUE)).toEqual(['Game/Track 01.bin', 'Game/tracks/Track 02.bin']);
+        expect(getSheetReferences('disc/game.cue', 'FILE "../shared/track.bin" BINARY')).toEqual(['shared/track.bin']);
+    });
+
+    it('reads the track files of a gdi sheet', () => {
+        const gdi = '2\n1 0 4 2352 track01.bin 0\n2 600 0 2352 "track 02.raw" 0\n';
+        expect(getSheetReferences('game.gdi', gdi)).toEqual(['track01.bin', 'track 02.raw']);
+    });
+});
+
+describe('validateRomSet', () => {
+    it('renames tracks to the path and case the sheet uses', async () => {
+        const set = await validateRomSet([file('game.cue', CUE), file('track 01.bin'), file('Track 02.bin')]);
+        expect(set.map(f => f.fileName)).toEqual(['game.cue', 'Track 01.bin', 'tracks/Track 02.bin']);
+    });
+
+    it('reports the tracks a sheet misses', async () => {
+        const result = validateRomSet([file('game.cue', CUE), file('Track 01.bin')]);
+        await expect(result).rejects.toBeInstanceOf(MissingRomFilesError);
+        await expect(result).rejects.toMatchObject({ missing: ['tracks/Track 02.bin'] });
+    });
+
+    it('warns about a CHD without the CHD signature', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        await validateRomSet([file('game.chd', 'MComprHD\0\0\0\x7c'), file('other.chd', 'not a disc')]);
+        expect(console.warn).toHaveBeenCalledTimes(1);
+        expect(console.warn).toHaveBeenCalledWith('[Nostalgist] other.chd is not a CHD image');
+    });
+});
+
+describe('unpackRomArchive', () => {
+    it('keeps folders below the one every file is in', async () => {
+        const archive = zip([
+            { name: 'Game (USA)/game.cue', content: CUE },
+            { name: 'Game (USA)/Track 01.bin', content: 'data' },
+            { name: 'Game (USA)/tracks/Track 02.bin', content: 'audio' },
+        ]);
+        const files = await unpackRomArchive({ fileName: 'game.zip', fileContent: archive });
+
+        expect(files?.map(f => f.fileName)).toEqual(['game.cue', 'Track 01.bin', 'tracks/Track 02.bin']);
+        expect(await files![2].fileContent.text()).toBe('audio');
+        expect(await validateRomSet(files!)).toEqual(files);
+    });
+
+    it('unpacks a zipped CHD and passes other archives through', async () => {
+        const chd = zip([{ name: 'game.chd', content: 'MComprHD' }]);
+        const romset = zip([{ name: 'maincpu.bin', content: 'code' }]);
+
+        expect((await unpackRomArchive({ fileName: 'game.zip', fileContent: chd }))?.map(f => f.fileName)).toEqual(['game.chd']);
+        expect(await unpackRomArchive({ fileName: 'sf2.zip', fileContent: romset })).toBeNull();
+    });
+});
+
+describe('orderForLaunch', () => {
+    it('launches a playlist, then a sheet, then a CHD', () => {
+        const names = (files: RomFile[]) => orderForLaunch(files).map(f => f.fileName);
+
+        expect(names([file('track.bin'), file('game.cue'), file('game.m3u')])[0]).toBe('game.m3u');
+        expect(names([file('track.bin'), file('game.cue')])[0]).toBe('game.cue');
+        expect(names([file('readme.txt'), file('game.chd')])[0]).toBe('game.chd');
+        expect(names([file('a.bin'), file('b.bin')])).toEqual(['a.bin', 'b.bin']);
+    });
+});
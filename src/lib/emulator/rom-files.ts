@@ -0,0 +1,206 @@
+/**
+ * Multi-File ROM Sets
+ *
+ * Content that spans several files: .cue/.gdi sheets with their track files,
+ * arcade clones next to their parent romsets, or a zipped disc image. Every
+ * file is mounted in the content folder under its own name (folders
+ * included), so references between them resolve like they would on disk.
+ * CHD images are single-file discs the cores read directly.
+ *
+ * Sheets are checked before the core boots - a missing track otherwise
+ * fails deep inside the core with nothing useful to show.
+ */
+
+import { readZip, isZip } from '../zip';
+
+/**
+ * A file of a ROM set: its URL, or the URL plus the file name to mount it as
+ */
+export type RomFileSource = string | { url: string; fileName?: string };
+
+export interface RomFile {
+    fileName: string;
+    fileContent: Blob;
+}
+
+/**
+ * A sheet references files the ROM set doesn't contain
+ */
+export class MissingRomFilesError extends Error {
+    constructor(public readonly sheet: string, public readonly missing: string[]) {
+        super(`${sheet} references missing files: ${missing.join(', ')}`);
+        this.name = 'MissingRomFilesError';
+    }
+}
+
+// Launched ahead of the files they reference
+const SHEET_EXTENSIONS = ['.m3u', '.cue', '.gdi', '.ccd'];
+
+// Sheets whose references are checked (a .ccd's .img/.sub share its name)
+const CHECKED_SHEET_EXTENSIONS = ['.cue', '.gdi'];
+
+// Compressed disc images (tracks and sheet in one file)
+const CHD_EXTENSION = '.chd';
+const CHD_MAGIC = 'MComprHD';
+
+function getExtension(name: string): string {
+    const dot = name.lastIndexOf('.');
+    return dot < 0 ? '' : name.slice(dot).toLowerCase();
+}
+
+function getBaseName(path: string): string {
+    return path.slice(path.replace(/\\/g, '/').lastIndexOf('/') + 1);
+}
+
+function getDirectory(path: string): string {
+    return path.slice(0, path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Path of a file a sheet references, relative to the content folder
+ * ('tracks\\track02.bin' next to 'game/game.cue' → 'game/tracks/track02.bin')
+ */
+function resolveReference(sheetName: string, reference: string): string {
+    const parts: string[] = [];
+    for (const part of (getDirectory(sheetName) + reference.replace(/\\/g, '/')).split('/')) {
+        if (part === '..') parts.pop();
+        else if (part && part !== '.') parts.push(part);
+    }
+    return parts.join('/');
+}
+
+/**
+ * Whether a file is a CHD disc image (passed to the core as is)
+ */
+export function isChd(fileName: string): boolean {
+    return getExtension(fileName) === CHD_EXTENSION;
+}
+
+/**
+ * Whether a file lists the other files of the set (.cue, .gdi, .ccd, .m3u)
+ */
+export function isSheet(fileName: string): boolean {
+    return SHEET_EXTENSIONS.includes(getExtension(fileName));
+}
+
+/**
+ * File name a ROM file is mounted as (its URL's last path segment if not given)
+ */
+export function getRomFileName(file: RomFileSource, index: number): string {
+    if (typeof file !== 'string' && file.fileName) return file.fileName;
+    const url = getRomFileUrl(file);
+    try {
+        const name = decodeURIComponent(getBaseName(new URL(url, 'http://localhost').pathname));
+        if (name) return name;
+    } catch {
+        // Fall through to a generic name
+    }
+    return `file${index + 1}.bin`;
+}
+
+export function getRomFileUrl(file: RomFileSource): string {
+    return typeof file === 'string' ? file : file.url;
+}
+
+/**
+ * Files a sheet references, as paths relative to the content folder (they
+ * are relative to the sheet). .cue lists them in FILE lines, .gdi as the
+ * fifth field of each track line. Other sheets return nothing.
+ */
+export function getSheetReferences(fileName: string, text: string): string[] {
+    const lines = text.split(/\r?\n/);
+    let matches: RegExpMatchArray[];
+    switch (getExtension(fileName)) {
+        case '.cue':
+            matches = lines
+                .map(line => line.match(/^\s*FILE\s+(?:"([^"]+)"|(\S+))/i))
+                .filter((match): match is RegExpMatchArray => !!match);
+            break;
+        case '.gdi':
+            // First line is the track count
+            matches = lines.slice(1)
+                .map(line => line.match(/^\s*\d+\s+\d+\s+\d+\s+\d+\s+(?:"([^"]+)"|(\S+))/))
+                .filter((match): match is RegExpMatchArray => !!match);
+            break;
+        default:
+            return [];
+    }
+    return matches.map(match => resolveReference(fileName, match[1] ?? match[2]));
+}
+
+/**
+ * Check that every file the set's sheets reference is present. Files whose
+ * name only differs in case, or that sit in another folder than the sheet
+ * says (e.g. tracks given flat for 'tracks/track02.bin'), are renamed to the
+ * sheet's path, since the core's file system is case-sensitive. CHD images
+ * without the CHD signature are reported, as the core would fail on them.
+ * @throws MissingRomFilesError
+ */
+export async function validateRomSet(files: RomFile[]): Promise<RomFile[]> {
+    let result = files;
+
+    for (const file of files) {
+        if (!isChd(file.fileName)) continue;
+        const magic = await file.fileContent.slice(0, CHD_MAGIC.length).text();
+        if (magic !== CHD_MAGIC) console.warn(`[Nostalgist] ${file.fileName} is not a CHD image`);
+    }
+
+    for (const sheet of files) {
+        if (!CHECKED_SHEET_EXTENSIONS.includes(getExtension(sheet.fileName))) continue;
+        const references = getSheetReferences(sheet.fileName, await sheet.fileContent.text());
+        const missing: string[] = [];
+
+        for (const reference of references) {
+            if (result.some(file => file.fileName === reference)) continue;
+            const lower = reference.toLowerCase();
+            const baseName = getBaseName(lower);
+            const match = result.find(file => file.fileName.toLowerCase() === lower)
+                ?? result.find(file => file.fileName.toLowerCase() === baseName && !references.includes(file.fileName));
+            if (match) {
+                result = result.map(file => file === match ? { ...file, fileName: reference } : file);
+            } else {
+                missing.push(reference);
+            }
+        }
+
+        if (missing.length > 0) throw new MissingRomFilesError(sheet.fileName, missing);
+    }
+
+    return result;
+}
+
+/**
+ * Files of a zipped disc image (a sheet with its tracks, or a CHD), or null
+ * if the archive is content the core reads itself (e.g. an arcade romset).
+ * Folders inside the archive are kept, minus the one every file is in, so
+ * sheets find tracks in their subfolders.
+ */
+export async function unpackRomArchive(archive: RomFile): Promise<RomFile[] | null> {
+    if (!isZip(archive.fileName)) return null;
+
+    const entries = (await readZip(archive.fileContent))
+        .map(entry => ({ ...entry, name: entry.name.replace(/\\/g, '/') }));
+    if (!entries.some(entry => isSheet(entry.name) || isChd(entry.name))) return null;
+
+    let root = getDirectory(entries[0]?.name ?? '');
+    while (root && !entries.every(entry => entry.name.startsWith(root))) {
+        root = getDirectory(root.slice(0, -1));
+    }
+
+    return Promise.all(entries.map(async entry => ({
+        fileName: entry.name.slice(root.length),
+        fileContent: await entry.read(),
+    })));
+}
+
+/**
+ * Move the file to launch to the front: a playlist, else a sheet, else a
+ * CHD, else the first file as given
+ */
+export function orderForLaunch(files: RomFile[]): RomFile[] {
+    const launch = [...SHEET_EXTENSIONS, CHD_EXTENSION]
+        .map(ext => files.find(file => getExtension(file.fileName) === ext))
+        .find(file => !!file);
+    if (!launch) return files;
+    return [launch, ...files.filter(file => file !== launch)];
+}
@@ -0,0 +1,235 @@
+/**
+ * ROM Resolution
+ *
+ * Turns the ROM options of a KoinEmulator (URL, ROM cache id, .m3u playlist,
+ * discs, companion files, BIOS set) into the `rom` and `bios` Nostalgist
+ * boots with. Files are only read into memory when something has to look
+ * inside them: a zip to unpack, a sheet to check or a ROM to hash.
+ */
+
+import type { Nostalgist } from 'nostalgist';
+import { getSystem, systemsMatch } from '../systems';
+import { getCachedRom, fetchAndCacheRom } from '../rom-cache';
+import { isZip } from '../zip';
+import { BiosCheck, BiosFile, resolveBiosSet } from '../bios';
+import { RomIdentity, identifyRom, loadRomDatabase } from '../rom-identify';
+import { DiscSource, buildM3u, isPlaylist, parseM3u } from './discs';
+import {
+    RomFile,
+    getRomFileName,
+    getRomFileUrl,
+    isSheet,
+    orderForLaunch,
+    unpackRomArchive,
+    validateRomSet,
+} from './rom-files';
+import type { BiosSource, KoinEmulatorOptions } from './types';
+
+/**
+ * Options Nostalgist.prepare() takes
+ */
+export type PrepareOptions = Parameters<typeof Nostalgist.prepare>[0];
+
+/**
+ * A ROM file as handed to Nostalgist: a URL it fetches itself, or a file
+ * mounted under `fileName` (fetched from a URL or already in memory)
+ */
+export type RomInput = string | { fileName: string; fileContent: string | Blob };
+
+/**
+ * The `rom` option: one file, or a set Nostalgist mounts side by side (launching the first)
+ */
+export type RomOption = RomInput | RomInput[];
+
+/**
+ * Name of the file the game boots from - it carries the ROM's region
+ */
+export function getLaunchFileName({ romUrl, romFileName, discs }: KoinEmulatorOptions): string {
+    return romFileName || (discs?.length ? getRomFileName(discs[0], 0) : getRomFileName(romUrl, 0));
+}
+
+/**
+ * ROM option for Nostalgist, read through the ROM cache when `cacheId` is set
+ */
+export async function resolveRomFile(url: string, cacheId?: string, fileName?: string): Promise<RomInput> {
+    // Nostalgist fetches URLs itself
+    const fallback = fileName ? { fileName, fileContent: url } : url;
+    if (!cacheId) return fallback;
+
+    try {
+        let blob = await getCachedRom(cacheId, url);
+
+        if (!blob) {
+            console.log(`[Nostalgist] Fetching and caching ROM ${cacheId}`);
+            blob = await fetchAndCacheRom(cacheId, url);
+        } else {
+            console.log(`[Nostalgist] Loaded ROM ${cacheId} from cache`);
+        }
+
+        if (blob) {
+            return { fileName: fileName || 'rom.bin', fileContent: blob };
+        }
+    } catch (err) {
+        console.error('[Nostalgist] Cache/Fetch error, falling back to direct URL:', err);
+    }
+    return fallback;
+}
+
+/**
+ * Fetch a ROM option into memory, so its contents can be read
+ */
+export async function loadRomFile(file: RomInput, index: number): Promise<RomFile> {
+    const fileName = typeof file === 'string' ? getRomFileName(file, index) : file.fileName;
+    const content = typeof file === 'string' ? file : file.fileContent;
+    if (content instanceof Blob) return { fileName, fileContent: content };
+
+    const response = await fetch(content);
+    if (!response.ok) throw new Error(`Failed to fetch ${fileName}: ${response.statusText}`);
+    return { fileName, fileContent: await response.blob() };
+}
+
+/**
+ * Discs of a multi-disc game: the `discs` option, or the entries of an .m3u `romUrl`
+ */
+export async function resolveDiscs(options: KoinEmulatorOptions): Promise<DiscSource[]> {
+    if (options.discs && options.discs.length > 0) return options.discs;
+    if (!isPlaylist(options.romFileName || options.romUrl)) return [];
+
+    const response = await fetch(options.romUrl);
+    if (!response.ok) throw new Error(`Failed to fetch playlist: ${response.statusText}`);
+    const baseUrl = typeof location !== 'undefined' ? new URL(options.romUrl, location.href).href : options.romUrl;
+    const discs = parseM3u(await response.text(), baseUrl);
+    if (discs.length === 0) throw new Error('Playlist lists no discs');
+    return discs;
+}
+
+/**
+ * Generated playlist (listing the discs in `order`) followed by every disc
+ */
+export async function resolveDiscFiles(
+    discs: DiscSource[],
+    order: number[],
+    { romId, romFileName }: KoinEmulatorOptions
+): Promise<RomInput[]> {
+    const fileNames = discs.map(getRomFileName);
+    const files = await Promise.all(discs.map((disc, i) =>
+        resolveRomFile(getRomFileUrl(disc), romId && `${romId}-disc${i + 1}`, fileNames[i])
+    ));
+
+    const playlist = {
+        fileName: romFileName && isPlaylist(romFileName) ? romFileName : `${romId || 'game'}.m3u`,
+        fileContent: new Blob([buildM3u(fileNames, order)], { type: 'audio/x-mpegurl' }),
+    };
+    // Nostalgist launches the first file
+    return [playlist, ...files];
+}
+
+/**
+ * Mount the `romFiles` next to the ROM, unpack a zipped disc image and
+ * check that .cue/.gdi sheets find their tracks. Single-file content
+ * passes through untouched.
+ * @throws MissingRomFilesError
+ */
+export async function resolveRomSet(files: RomInput[], options: KoinEmulatorOptions): Promise<RomOption> {
+    const { romId, romFiles = [], system } = options;
+
+    const companions = await Promise.all(romFiles.map((file, i) =>
+        resolveRomFile(getRomFileUrl(file), romId && `${romId}-file${i + 1}`, getRomFileName(file, i))
+    ));
+    const all = [...files, ...companions];
+
+    // Arcade romsets are zips the core reads itself
+    const launchName = typeof files[0] === 'string' ? getRomFileName(files[0], 0) : files[0].fileName;
+    const unpack = isZip(launchName) && !getSystem(system)?.archiveContent;
+    if (all.length === 1 && !unpack && !isSheet(launchName)) return files[0];
+
+    let set = await Promise.all(all.map(loadRomFile));
+
+    if (unpack) {
+        const unpacked = await unpackRomArchive(set[0]);
+        if (unpacked) {
+            console.log(`[Nostalgist] Unpacked ${launchName} (${unpacked.length} files)`);
+            set = [...orderForLaunch(unpacked), ...set.slice(1)];
+        }
+    }
+
+    set = await validateRomSet(set);
+    if (set.length === 1) return set[0];
+
+    console.log(`[Nostalgist] Mounting ROM set: ${set.map(file => file.fileName).join(', ')}`);
+    // Nostalgist launches the first file and writes the rest next to it
+    return set;
+}
+
+/**
+ * Hash the ROM and look it up in `romDatabase`. The ROM has to be read
+ * into memory for it, so the loaded copy is returned to be mounted instead
+ * of letting Nostalgist fetch it again. Identification never fails the
+ * launch (`identity` is null then).
+ */
+export async function identifyRomSet(
+    rom: RomOption,
+    { system, romDatabase }: KoinEmulatorOptions
+): Promise<{ rom: RomOption; identity: RomIdentity | null }> {
+    const set = await Promise.all((Array.isArray(rom) ? rom : [rom]).map(loadRomFile));
+    const loaded = Array.isArray(rom) ? set : set[0];
+
+    try {
+        const database = romDatabase ? await loadRomDatabase(romDatabase) : [];
+        const identity = await identifyRom(set, database, system);
+        if (identity?.matched) {
+            console.log(`[Nostalgist] Identified ${identity.fileName} as ${identity.name}`);
+            if (identity.system && !systemsMatch(identity.system, system)) {
+                console.warn(`[Nostalgist] ROM is listed for ${identity.system}, but is launched as ${system}`);
+            }
+        } else if (identity && romDatabase) {
+            console.log(`[Nostalgist] ${identity.fileName} is not in the ROM database (sha1 ${identity.hashes.sha1})`);
+        }
+        return { rom: loaded, identity };
+    } catch (err) {
+        console.warn('[Nostalgist] ROM identification failed:', err);
+        return { rom: loaded, identity: null };
+    }
+}
+
+/**
+ * The `biosUrl` option as a file: a plain URL keeps its own name, a named one is mounted under `name`
+ */
+export function toBiosInput(source: BiosSource): RomInput {
+    return typeof source === 'string' ? source : { fileName: source.name, fileContent: source.url };
+}
+
+/**
+ * Download and verify the `biosFiles` set. Files that fail to download
+ * are reported missing rather than failing the launch.
+ */
+export async function resolveBiosFiles(options: KoinEmulatorOptions): Promise<{ files: BiosFile[]; checks: BiosCheck[] }> {
+    const { system, biosFiles = {} } = options;
+    const entries = Object.entries(biosFiles);
+    if (entries.length === 0) return { files: [], checks: [] };
+
+    const downloaded = await Promise.all(entries.map(async ([fileName, url]) => {
+        try {
+            const response = await fetch(url);
+            if (!response.ok) throw new Error(response.statusText);
+            return { fileName, fileContent: await response.blob() };
+        } catch (err) {
+            console.warn(`[Nostalgist] Failed to fetch BIOS ${fileName}:`, err);
+            return null;
+        }
+    }));
+
+    // The ROM's name carries its region
+    const { files, checks } = await resolveBiosSet(
+        system,
+        downloaded.filter((file): file is BiosFile => !!file),
+        getLaunchFileName(options)
+    );
+    entries.forEach(([fileName], i) => {
+        if (!downloaded[i] && !checks.some(check => check.fileName === fileName)) {
+            checks.push({ fileName, status: 'missing' });
+        }
+    });
+
+    return { files, checks };
+}
@@ -0,0 +1,173 @@
+/**
+ * Save Scheduler
+ *
+ * All emulator FS operations (manual/auto saves, SRAM extraction, rewind
+ * captures) go through one priority queue so they never overlap:
+ * - High priority: manual save, auto-save, SRAM
+ * - Low priority: rewind captures (dropped under backpressure)
+ */
+
+import type { Nostalgist } from 'nostalgist';
+
+export type SavePriority = 'low' | 'high';
+
+// What the queued item extracts from the emulator: a full save state or the core's battery save (.srm)
+export type SaveKind = 'state' | 'sram';
+
+export interface SaveResult {
+    data: Uint8Array;
+    blob: Blob;
+}
+
+interface QueuedSave {
+    priority: SavePriority;
+    kind: SaveKind;
+    resolve: (result: SaveResult | null) => void;
+    timestamp: number;
+}
+
+// Minimum delay between saves to let FS settle (ms)
+const MIN_SAVE_INTERVAL = 100;
+
+// How long to wait for a queued save before timing out (ms)
+const SAVE_TIMEOUT = 5000;
+
+// Pending rewind captures beyond this are dropped
+const MAX_LOW_PRIORITY_QUEUED = 3;
+
+export class SaveScheduler {
+    private queue: QueuedSave[] = [];
+    private saving = false;
+    private lastSaveTime = 0;
+    private getNostalgist: () => Nostalgist | null;
+
+    constructor(getNostalgist: () => Nostalgist | null) {
+        this.getNostalgist = getNostalgist;
+    }
+
+    /**
+     * Queue a high-priority save (auto-save, manual save)
+     */
+    save(): Promise<SaveResult | null> {
+        return this.enqueue('high', 'state');
+    }
+
+    /**
+     * Queue a high-priority battery save (SRAM) extraction.
+     * Shares the queue with state saves so it never touches the FS mid-rewind capture.
+     */
+    saveSram(): Promise<SaveResult | null> {
+        return this.enqueue('high', 'sram');
+    }
+
+    /**
+     * Queue a low-priority save (rewind buffer)
+     */
+    queueRewindCapture(): Promise<SaveResult | null> {
+        // Drop if queue has too many low-priority items (backpressure)
+        const lowPriorityCount = this.queue.filter(q => q.priority === 'low').length;
+        if (lowPriorityCount >= MAX_LOW_PRIORITY_QUEUED) {
+            return Promise.resolve(null);
+        }
+        return this.enqueue('low', 'state');
+    }
+
+    isSaving(): boolean {
+        return this.saving;
+    }
+
+    getQueueLength(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Resolve every pending save with null (on stop/destroy)
+     */
+    clearQueue(): void {
+        this.queue.forEach(item => item.resolve(null));
+        this.queue = [];
+    }
+
+    private enqueue(priority: SavePriority, kind: SaveKind): Promise<SaveResult | null> {
+        return new Promise((resolve) => {
+            this.queue.push({ priority, kind, resolve, timestamp: Date.now() });
+            this.processQueue();
+        });
+    }
+
+    private async processQueue(): Promise<void> {
+        // Already processing or empty queue
+        if (this.saving || this.queue.length === 0) {
+            return;
+        }
+
+        // Sort by priority (high first) then by timestamp (oldest first)
+        this.queue.sort((a, b) => {
+            if (a.priority !== b.priority) {
+                return a.priority === 'high' ? -1 : 1;
+            }
+            return a.timestamp - b.timestamp;
+        });
+
+        const item = this.queue.shift();
+        if (!item) return;
+
+        // Check if timed out
+        if (Date.now() - item.timestamp > SAVE_TIMEOUT) {
+            item.resolve(null);
+            setTimeout(() => this.processQueue(), 0);
+            return;
+        }
+
+        this.saving = true;
+
+        try {
+            // Ensure minimum interval between saves
+            const timeSinceLastSave = Date.now() - this.lastSaveTime;
+            if (timeSinceLastSave < MIN_SAVE_INTERVAL) {
+                await new Promise(resolve => setTimeout(resolve, MIN_SAVE_INTERVAL - timeSinceLastSave));
+            }
+
+            const nostalgist = this.getNostalgist();
+            if (!nostalgist) {
+                console.warn('[SaveScheduler] Nostalgist instance not available');
+                item.resolve(null);
+                return;
+            }
+
+            // Only log for high-priority saves (manual/auto/emergency), not rewind captures
+            const isHighPriority = item.priority === 'high';
+            if (isHighPriority) {
+                console.log('[SaveScheduler] Processing high-priority save...');
+            }
+
+            // SRAM is read straight from the core's .srm file, states go through RetroArch's SAVE_STATE
+            const stateBlob: Blob | undefined = item.kind === 'sram'
+                ? await nostalgist.saveSRAM()
+                : (await nostalgist.saveState())?.state;
+
+            if (!stateBlob) {
+                console.warn('[SaveScheduler] Save returned no blob', { kind: item.kind, priority: item.priority });
+                item.resolve(null);
+                return;
+            }
+
+            const stateData = new Uint8Array(await stateBlob.arrayBuffer());
+
+            if (isHighPriority) {
+                console.log('[SaveScheduler] Save successful', { size: stateData.length, kind: item.kind, priority: item.priority });
+            }
+
+            this.lastSaveTime = Date.now();
+            item.resolve({ data: stateData, blob: stateBlob });
+        } catch (err) {
+            console.error('[SaveScheduler] Save failed with error:', err);
+            item.resolve(null);
+        } finally {
+            this.saving = false;
+
+            // Process next item after a brief delay
+            setTimeout(() => this.processQueue(), MIN_SAVE_INTERVAL);
+        }
+    }
+}
@@ -0,0 +1,143 @@
+/**
+ * Session Performance
+ *
+ * Wires the frame metrics of a running core into the performance governor
+ * and decides which governor steps mean anything for the session. The
+ * emulator applies the steps (see KoinEmulator's applyPerformanceChange).
+ */
+
+import type { Nostalgist } from 'nostalgist';
+import {
+    PerformanceChange,
+    PerformanceGovernor,
+    PerformanceStep,
+    canCheapenShader,
+    canRaiseAudioLatency,
+} from './performance-governor';
+import { FrameMetrics, PerformanceStats } from './frame-metrics';
+import type { KoinEmulatorOptions, KoinEmulatorState } from './types';
+
+export interface SessionPerformanceOptions {
+    getOptions: () => KoinEmulatorOptions;
+    getState: () => KoinEmulatorState;
+    /** Rewind capture before the governor has a say */
+    isRewindAllowed: () => boolean;
+    onChange: (change: PerformanceChange) => void;
+}
+
+export class SessionPerformance {
+    private options: SessionPerformanceOptions;
+    private governor: PerformanceGovernor;
+    private metrics: FrameMetrics;
+    private targetFrameRate = 60; // Of the prepared session
+    private bootSteps: PerformanceStep[] = []; // Steps the session was prepared with
+
+    constructor(options: SessionPerformanceOptions) {
+        this.options = options;
+        this.governor = new PerformanceGovernor({
+            isApplicable: step => this.canTakeStep(step),
+            isMeasurable: () => this.isAtNormalSpeed,
+            getAudioLatency: () => this.audioLatency,
+            onChange: change => this.options.onChange(change),
+        });
+        this.metrics = new FrameMetrics({
+            isMeasurable: () => this.isAtNormalSpeed,
+            onFrame: frame => this.governor.recordFrame(frame),
+        });
+    }
+
+    has(step: PerformanceStep): boolean {
+        return this.governor.has(step);
+    }
+
+    /**
+     * Steps to prepare a boot with. They count as applied from then on.
+     */
+    takeBootSteps(): PerformanceStep[] {
+        this.bootSteps = this.governor.activeSteps;
+        return this.bootSteps;
+    }
+
+    /**
+     * Whether steps read at boot changed since the session was prepared
+     * (they wait for the next core reload)
+     */
+    get reloadPending(): boolean {
+        const readAtBoot = (steps: PerformanceStep[]) => steps.filter(step => step !== 'rewind').join();
+        return readAtBoot(this.governor.activeSteps) !== readAtBoot(this.bootSteps);
+    }
+
+    /**
+     * Native rate of the prepared session (PAL/NTSC aware), measured against once it runs
+     */
+    setTargetFrameRate(fps: number): void {
+        this.targetFrameRate = fps;
+    }
+
+    /**
+     * Start counting the frames of a started core
+     */
+    attach(nostalgist: Nostalgist): void {
+        this.metrics.attach(nostalgist, this.targetFrameRate);
+    }
+
+    /**
+     * Let the governor step quality - not with `adaptivePerformance: false`
+     * or in netplay (both peers must run the same settings)
+     */
+    startGovernor(): void {
+        const { adaptivePerformance, netplay } = this.options.getOptions();
+        if (adaptivePerformance !== false && !netplay) {
+            this.governor.start();
+        }
+    }
+
+    stop(): void {
+        this.governor.stop();
+        this.metrics.detach();
+    }
+
+    /**
+     * Stop and forget every step (full quality on the next boot)
+     */
+    reset(): void {
+        this.stop();
+        this.governor.reset();
+        this.bootSteps = [];
+    }
+
+    /**
+     * Frame and audio counters of the running core, or null before it runs
+     */
+    getStats(): PerformanceStats | null {
+        if (!this.metrics.attached) return null;
+        return this.metrics.getStats(this.audioLatency);
+    }
+
+    private get isAtNormalSpeed(): boolean {
+        const { status, speed, isRewinding } = this.options.getState();
+        return status === 'running' && speed === 1 && !isRewinding;
+    }
+
+    private get audioLatency(): number {
+        return Number(this.options.getState().retroarchConfig?.config.audio_latency ?? 64);
+    }
+
+    /**
+     * Whether a step would change anything this session. Steps read at boot
+     * need a core reload that loads a state - not in hardcore mode, and one
+     * at a time: the next waits until the pending one has been applied.
+     */
+    private canTakeStep(step: PerformanceStep): boolean {
+        if (step === 'rewind') return this.options.isRewindAllowed();
+        const options = this.options.getOptions();
+        if (options.retroAchievements?.hardcore || this.reloadPending) return false;
+
+        const config = this.options.getState().retroarchConfig?.config ?? {};
+        switch (step) {
+            case 'runAhead': return !!config.run_ahead_enabled;
+            case 'audioLatency': return canRaiseAudioLatency(config);
+            case 'shader': return canCheapenShader(options.shader);
+        }
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * Battery Saves
+ *
+ * SRAM is mounted before the core boots the ROM (the core only reads it
+ * then), so it is loaded while preparing. Saving goes through the
+ * SaveScheduler, serialized with state saves and rewind captures.
+ */
+
+import type { KoinEmulatorOptions } from './types';
+
+/**
+ * Battery save to mount from `loadSram`, or undefined to boot without one.
+ * A loader that fails never fails the launch.
+ */
+export async function loadSramFile({ loadSram }: KoinEmulatorOptions): Promise<Blob | undefined> {
+    if (!loadSram) return undefined;
+    try {
+        const sram = await loadSram();
+        if (!sram || sram.size === 0) return undefined;
+        console.log(`[Nostalgist] Restoring SRAM (${sram.size} bytes)`);
+        return sram;
+    } catch (err) {
+        console.warn('[Nostalgist] Failed to load SRAM, booting without it:', err);
+        return undefined;
+    }
+}
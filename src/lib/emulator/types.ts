@@ -0,0 +1,109 @@
+/**
+ * Emulator Types
+ *
+ * Shared by the KoinEmulator controller and the React hooks built on it.
+ */
+
+import { KeyboardMapping, GamepadMapping } from '../controls';
+import { DiscSource } from './discs';
+import { RomFileSource } from './rom-files';
+import { BiosCheck, BiosFiles } from '../bios';
+import { RomDatabaseSource, RomIdentity } from '../rom-identify';
+import { KoinResolvers } from './resolvers';
+import { RetroArchConfig, RetroArchOverrides, LayeredRetroArchConfig } from './config';
+import { PerformanceChange, PerformanceStep } from './performance-governor';
+
+export type EmulatorStatus = 'idle' | 'loading' | 'ready' | 'running' | 'paused' | 'error';
+export type SpeedMultiplier = 1 | 2; // Only 1x (normal) and 2x (fast forward) work reliably in browser
+
+export interface RetroAchievementsConfig {
+    username: string;
+    token: string;
+    hardcore?: boolean;
+}
+
+export type BiosSource = string | { url: string; name: string; location?: 'system' | 'rom_folder' };
+
+/**
+ * Called for every programmatic button transition (virtual controller, movie playback, etc.)
+ */
+export type EmulatorInputListener = (button: string, pressed: boolean, player: number) => void;
+
+export interface KoinEmulatorOptions {
+    system: string;
+    romUrl: string;
+    romId?: string; // Enables the IndexedDB ROM cache
+    romFileName?: string;
+    /** Files mounted next to the ROM: tracks of a .cue/.gdi sheet, parent romsets of an arcade clone */
+    romFiles?: RomFileSource[];
+    /** Every disc of a multi-disc game (an .m3u `romUrl` is expanded into this) */
+    discs?: DiscSource[];
+    loadDisc?: () => Promise<number | null>; // Resolves the disc (0-based) to boot a multi-disc game from
+    core?: string; // Core override
+    /** libretro core options by key (see CORE_OPTIONS for the ones the player edits) */
+    coreOptions?: Record<string, string>;
+    loadCoreOptions?: () => Promise<Record<string, string> | null>; // Resolves saved core options, applied over `coreOptions`
+    /** RetroArch settings layered over the system tier (see resolveRetroArchConfig) */
+    retroarchOverrides?: RetroArchOverrides;
+    loadRetroArchOverrides?: () => Promise<RetroArchConfig | null>; // Resolves the player's own layer, applied last
+    /** Self-hosted cores and shaders (merged over configureResolvers()) */
+    resolvers?: KoinResolvers;
+    biosUrl?: BiosSource;
+    /** BIOS set by file name → URL; verified against known dumps (see lib/bios) */
+    biosFiles?: BiosFiles;
+    /** No-Intro/Redump DAT or JSON to identify the ROM by hash (see lib/rom-identify) */
+    romDatabase?: RomDatabaseSource;
+    /** Called with the ROM's hashes (and DAT match) before SRAM is loaded; setting it enables hashing without a database */
+    onRomIdentified?: (identity: RomIdentity) => void;
+    initialState?: Blob | Uint8Array; // Initial save state
+    loadSram?: () => Promise<Blob | null>; // Resolves the battery save to mount before the ROM boots
+    /** Canvas to render into, or a getter resolved at prepare time (must be in the DOM) */
+    canvas?: HTMLCanvasElement | (() => HTMLCanvasElement | null);
+    keyboardControls?: KeyboardMapping;
+    /** Per-player gamepad bindings (index 0 = player 1); changes apply live */
+    gamepadBindings?: GamepadMapping[];
+    retroAchievements?: RetroAchievementsConfig;
+    initialVolume?: number; // 0-100
+    shader?: string; // CRT shader preset name (e.g., 'crt/crt-lottes')
+    rewindMemoryBudgetMB?: number; // Memory budget for compressed rewind snapshots (default: 32)
+    rewindOnHeavySystems?: boolean; // Opt Tier 2 systems into rewind capture
+    netplay?: boolean; // Input is injected by the netplay lockstep loop, rewind is disabled
+    /** Step quality down (and back up) with measured frame pacing (default: true, never in netplay) */
+    adaptivePerformance?: boolean;
+    onPerformanceChange?: (change: PerformanceChange) => void;
+}
+
+/**
+ * Observable emulator state. Replaced (never mutated) on every change,
+ * so it can be compared by reference.
+ */
+export interface KoinEmulatorState {
+    status: EmulatorStatus;
+    error: string | null;
+    isPaused: boolean;
+    speed: SpeedMultiplier;
+    isRewinding: boolean;
+    rewindBufferSize: number;
+    volume: number; // 0-100
+    isMuted: boolean;
+    isPerformanceMode: boolean; // Threaded video active (Tier 2 systems)
+    discIndex: number; // Inserted disc (0-based)
+    discCount: number; // 1 unless the game has several discs
+    missingFiles: string[]; // Files a .cue/.gdi sheet references but the ROM set lacks (status 'error')
+    biosChecks: BiosCheck[]; // Verification of the `biosFiles` set
+    romIdentity: RomIdentity | null; // Hashes and DAT match of the ROM (with `romDatabase`/`onRomIdentified`)
+    retroarchConfig: LayeredRetroArchConfig | null; // Tuning layers of the running session, for debugging
+    performanceSteps: PerformanceStep[]; // Quality steps the performance governor took
+    performanceReloadPending: boolean; // Steps read at boot wait for a core reload (see applyPerformanceSteps)
+}
+
+export interface KoinEmulatorEvents {
+    /** Any field of the state changed */
+    change: KoinEmulatorState;
+    status: EmulatorStatus;
+    /** Emulator started and is running */
+    ready: void;
+    error: Error;
+    /** Programmatic button transition (see pressDown/pressUp) */
+    input: { button: string; pressed: boolean; player: number };
+}
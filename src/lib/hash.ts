@@ -0,0 +1,279 @@
+/**
+ * File Hashes
+ *
+ * MD5, SHA1 and CRC32 for identifying dumps (BIOS files, ROMs) against
+ * known-good tables. WebCrypto has no MD5, and CRC32 isn't a digest it offers
+ * at all; its SHA1 can't be fed in chunks, so all three are implemented here.
+ * Large files never have to be in memory at once.
+ */
+
+// ============ MD5 ============
+
+// Per-round shift amounts
+const S = [
+    7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+    5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+    4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+    6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+// floor(abs(sin(i + 1)) * 2^32)
+const K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0);
+
+export class Md5 {
+    private state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+    private buffer = new Uint8Array(64);
+    private buffered = 0;
+    private length = 0; // Total bytes fed
+
+    update(data: Uint8Array): this {
+        let offset = 0;
+        this.length += data.length;
+
+        // Top up a partial block first
+        if (this.buffered > 0) {
+            const take = Math.min(64 - this.buffered, data.length);
+            this.buffer.set(data.subarray(0, take), this.buffered);
+            this.buffered += take;
+            offset = take;
+            if (this.buffered < 64) return this;
+            this.block(this.buffer, 0);
+            this.buffered = 0;
+        }
+
+        for (; offset + 64 <= data.length; offset += 64) {
+            this.block(data, offset);
+        }
+
+        this.buffer.set(data.subarray(offset), 0);
+        this.buffered = data.length - offset;
+        return this;
+    }
+
+    /**
+     * Finish and return the lower-case hex digest
+     */
+    digest(): string {
+        const bits = this.length * 8;
+        const padding = new Uint8Array((this.buffered < 56 ? 56 : 120) - this.buffered + 8);
+        padding[0] = 0x80;
+        const view = new DataView(padding.buffer);
+        view.setUint32(padding.length - 8, bits >>> 0, true);
+        view.setUint32(padding.length - 4, Math.floor(bits / 0x100000000), true);
+        this.update(padding);
+
+        const out = new DataView(new ArrayBuffer(16));
+        this.state.forEach((word, i) => out.setUint32(i * 4, word, true));
+        return toHex(new Uint8Array(out.buffer));
+    }
+
+    private block(data: Uint8Array, offset: number): void {
+        const m = new Uint32Array(16);
+        for (let i = 0; i < 16; i++) {
+            const j = offset + i * 4;
+            m[i] = data[j] | (data[j + 1] << 8) | (data[j + 2] << 16) | (data[j + 3] << 24);
+        }
+
+        let [a, b, c, d] = this.state;
+        for (let i = 0; i < 64; i++) {
+            let f: number;
+            let g: number;
+            if (i < 16) {
+                f = (b & c) | (~b & d);
+                g = i;
+            } else if (i < 32) {
+                f = (d & b) | (~d & c);
+                g = (5 * i + 1) % 16;
+            } else if (i < 48) {
+                f = b ^ c ^ d;
+                g = (3 * i + 5) % 16;
+            } else {
+                f = c ^ (b | ~d);
+                g = (7 * i) % 16;
+            }
+            const sum = (a + f + K[i] + m[g]) >>> 0;
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((sum << S[i]) | (sum >>> (32 - S[i])))) >>> 0;
+        }
+
+        this.state[0] += a;
+        this.state[1] += b;
+        this.state[2] += c;
+        this.state[3] += d;
+    }
+}
+
+// ============ SHA1 ============
+
+export class Sha1 {
+    private state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+    private buffer = new Uint8Array(64);
+    private buffered = 0;
+    private length = 0; // Total bytes fed
+    private w = new Uint32Array(80);
+
+    update(data: Uint8Array): this {
+        let offset = 0;
+        this.length += data.length;
+
+        // Top up a partial block first
+        if (this.buffered > 0) {
+            const take = Math.min(64 - this.buffered, data.length);
+            this.buffer.set(data.subarray(0, take), this.buffered);
+            this.buffered += take;
+            offset = take;
+            if (this.buffered < 64) return this;
+            this.block(this.buffer, 0);
+            this.buffered = 0;
+        }
+
+        for (; offset + 64 <= data.length; offset += 64) {
+            this.block(data, offset);
+        }
+
+        this.buffer.set(data.subarray(offset), 0);
+        this.buffered = data.length - offset;
+        return this;
+    }
+
+    /**
+     * Finish and return the lower-case hex digest
+     */
+    digest(): string {
+        const bits = this.length * 8;
+        const padding = new Uint8Array((this.buffered < 56 ? 56 : 120) - this.buffered + 8);
+        padding[0] = 0x80;
+        const view = new DataView(padding.buffer);
+        // Big-endian length, unlike MD5
+        view.setUint32(padding.length - 8, Math.floor(bits / 0x100000000));
+        view.setUint32(padding.length - 4, bits >>> 0);
+        this.update(padding);
+
+        const out = new DataView(new ArrayBuffer(20));
+        this.state.forEach((word, i) => out.setUint32(i * 4, word));
+        return toHex(new Uint8Array(out.buffer));
+    }
+
+    private block(data: Uint8Array, offset: number): void {
+        const w = this.w;
+        for (let i = 0; i < 16; i++) {
+            const j = offset + i * 4;
+            w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+        }
+        for (let i = 16; i < 80; i++) {
+            const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+            w[i] = (x << 1) | (x >>> 31);
+        }
+
+        let [a, b, c, d, e] = this.state;
+        for (let i = 0; i < 80; i++) {
+            let f: number;
+            let k: number;
+            if (i < 20) {
+                f = (b & c) | (~b & d);
+                k = 0x5a827999;
+            } else if (i < 40) {
+                f = b ^ c ^ d;
+                k = 0x6ed9eba1;
+            } else if (i < 60) {
+                f = (b & c) | (b & d) | (c & d);
+                k = 0x8f1bbcdc;
+            } else {
+                f = b ^ c ^ d;
+                k = 0xca62c1d6;
+            }
+            const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) >>> 0;
+            e = d;
+            d = c;
+            c = (b << 30) | (b >>> 2);
+            b = a;
+            a = temp;
+        }
+
+        this.state[0] += a;
+        this.state[1] += b;
+        this.state[2] += c;
+        this.state[3] += d;
+        this.state[4] += e;
+    }
+}
+
+// ============ CRC32 ============
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export class Crc32 {
+    private crc = 0xffffffff;
+
+    update(data: Uint8Array): this {
+        let crc = this.crc;
+        for (let i = 0; i < data.length; i++) {
+            crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+        }
+        this.crc = crc;
+        return this;
+    }
+
+    /**
+     * Lower-case hex, 8 digits
+     */
+    digest(): string {
+        return ((this.crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+    }
+}
+
+// ============ Helpers ============
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Read size for hashing Blobs
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+export interface BlobHashes {
+    md5: string;
+    crc32: string;
+    sha1?: string;
+}
+
+/**
+ * MD5 and CRC32 of a Blob, read in chunks. SHA1 is only computed when asked
+ * for - BIOS tables don't need it, ROM DATs usually prefer it.
+ */
+export async function hashBlob(blob: Blob, { sha1 = false }: { sha1?: boolean } = {}): Promise<BlobHashes> {
+    const md5 = new Md5();
+    const crc = new Crc32();
+    const sha = sha1 ? new Sha1() : null;
+    for (let offset = 0; offset < blob.size; offset += CHUNK_SIZE) {
+        const chunk = new Uint8Array(await blob.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+        md5.update(chunk);
+        crc.update(chunk);
+        sha?.update(chunk);
+    }
+    return { md5: md5.digest(), crc32: crc.digest(), sha1: sha?.digest() };
+}
+
+export function md5(data: Uint8Array | string): string {
+    return new Md5().update(typeof data === 'string' ? new TextEncoder().encode(data) : data).digest();
+}
+
+export function sha1(data: Uint8Array | string): string {
+    return new Sha1().update(typeof data === 'string' ? new TextEncoder().encode(data) : data).digest();
+}
+
+export function crc32(data: Uint8Array | string): string {
+    return new Crc32().update(typeof data === 'string' ? new TextEncoder().encode(data) : data).digest();
+}
@@ -0,0 +1,160 @@
+/**
+ * Input Movies (TAS-style recordings)
+ *
+ * A movie is a starting save state plus a list of button transitions keyed
+ * by emulated frame. Replaying loads the state and re-applies each transition
+ * on the same frame, so runs are shareable and verifiable instead of video.
+ */
+
+import { Nostalgist } from 'nostalgist';
+import { ButtonId } from './controls';
+
+export const INPUT_MOVIE_FORMAT = 'koin-input-movie';
+export const INPUT_MOVIE_VERSION = 1;
+export const INPUT_MOVIE_EXTENSION = '.koinmovie';
+
+export interface InputMovieEvent {
+    /** Frame offset from the start state */
+    frame: number;
+    button: ButtonId;
+    /** Player index (1-4) */
+    player: number;
+    pressed: boolean;
+}
+
+export interface InputMovie {
+    romId: string;
+    system: string;
+    core?: string;
+    createdAt: string;
+    /** Total frames recorded (playback ends here) */
+    frameCount: number;
+    /** Save state the movie is anchored to */
+    startState: Uint8Array;
+    /** Button transitions, ordered by frame */
+    events: InputMovieEvent[];
+}
+
+// On-disk representation (state is base64 so the file is plain JSON)
+interface SerializedInputMovie extends Omit<InputMovie, 'startState'> {
+    format: typeof INPUT_MOVIE_FORMAT;
+    version: number;
+    startState: string;
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * Encode a movie as a downloadable JSON blob
+ */
+export function serializeInputMovie(movie: InputMovie): Blob {
+    const serialized: SerializedInputMovie = {
+        format: INPUT_MOVIE_FORMAT,
+        version: INPUT_MOVIE_VERSION,
+        ...movie,
+        startState: toBase64(movie.startState),
+    };
+    return new Blob([JSON.stringify(serialized)], { type: 'application/json' });
+}
+
+/**
+ * Decode a movie file
+ * @throws Error if the file is not a supported movie
+ */
+export async function parseInputMovie(file: Blob): Promise<InputMovie> {
+    let parsed: Partial<SerializedInputMovie>;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new Error('Invalid input movie file');
+    }
+
+    if (parsed.format !== INPUT_MOVIE_FORMAT) {
+        throw new Error('Invalid input movie file');
+    }
+    if (parsed.version !== INPUT_MOVIE_VERSION) {
+        throw new Error(`Unsupported input movie version: ${parsed.version}`);
+    }
+    if (!parsed.startState || !Array.isArray(parsed.events) || typeof parsed.frameCount !== 'number') {
+        throw new Error('Input movie file is incomplete');
+    }
+
+    return {
+        romId: parsed.romId ?? '',
+        system: parsed.system ?? '',
+        core: parsed.core,
+        createdAt: parsed.createdAt ?? new Date().toISOString(),
+        frameCount: parsed.frameCount,
+        startState: fromBase64(parsed.startState),
+        events: [...parsed.events].sort((a, b) => a.frame - b.frame),
+    };
+}
+
+// Listeners registered per Emscripten module
+const FRAME_LISTENERS_KEY = '__koinFrameListeners';
+
+/**
+ * Called before each emulated frame. Returning `false` skips the frame
+ * (used by netplay to stall until remote input arrives).
+ */
+export type EmulatorFrameCallback = () => boolean | void;
+
+/**
+ * Run `callback` once before every emulated frame.
+ *
+ * Hooks Emscripten's `Module.preMainLoop`, which runs in lockstep with the
+ * core's main loop (so inputs land on exact frames). Falls back to
+ * requestAnimationFrame when the core doesn't expose its main loop.
+ *
+ * @returns Unsubscribe function
+ */
+export function onEmulatorFrame(nostalgist: Nostalgist, callback: EmulatorFrameCallback): () => void {
+    const module = nostalgist.getEmscriptenModule() as any;
+    const browser = nostalgist.getEmscripten()?.Browser;
+
+    if (module && browser?.mainLoop) {
+        let listeners: Set<EmulatorFrameCallback> | undefined = module[FRAME_LISTENERS_KEY];
+        if (!listeners) {
+            const registered = new Set<EmulatorFrameCallback>();
+            listeners = registered;
+            module[FRAME_LISTENERS_KEY] = registered;
+            const previous = module.preMainLoop;
+            module.preMainLoop = () => {
+                let skip = false;
+                registered.forEach(listener => {
+                    if (listener() === false) skip = true;
+                });
+                // Emscripten skips the iteration when preMainLoop returns false
+                if (skip) return false;
+                return previous?.();
+            };
+        }
+        listeners.add(callback);
+        return () => {
+            listeners!.delete(callback);
+        };
+    }
+
+    console.warn('[InputMovie] Emulator main loop not exposed, falling back to animation frames');
+    let rafId = requestAnimationFrame(function tick() {
+        callback();
+        rafId = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(rafId);
+}
@@ -0,0 +1,25 @@
+/**
+ * Netplay
+ *
+ * Single entry point for online two-player sessions.
+ * Import from here instead of individual files.
+ */
+
+// Types
+export type {
+    NetplayRole,
+    NetplayStatus,
+    NetplaySignalMessage,
+    NetplaySignaling,
+    NetplayConfig,
+} from './types';
+
+// Session
+export { NetplaySession, encodeButtons, decodeButtons } from './session';
+export type { NetplaySessionOptions } from './session';
+
+// Signaling transports
+export { MemorySignalingServer, createWebSocketSignaling } from './signaling';
+
+// RetroArch config
+export { NETPLAY_INJECTION_KEYS, getNetplayRetroArchConfig } from './retroarch';
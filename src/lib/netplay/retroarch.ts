@@ -0,0 +1,67 @@
+/**
+ * Netplay RetroArch Configuration
+ *
+ * During netplay no physical input may reach the core directly - every
+ * button change is injected by the lockstep loop so both peers apply it on
+ * the same frame. Both players are therefore bound to injection-only keys,
+ * leaving the user's own keyboard layout and gamepads unbound in RetroArch.
+ */
+
+import { KeyboardMapping, keyboardToRetroArchConfig } from '../controls';
+
+/**
+ * Injection keys for players 1 and 2.
+ * Picked to round-trip through Nostalgist's key lookup while avoiding the
+ * default layout, cheat hotkeys (T/Y/U) and volume/mute hotkeys.
+ */
+export const NETPLAY_INJECTION_KEYS: [KeyboardMapping, KeyboardMapping] = [
+    {
+        up: 'Comma',
+        down: 'Period',
+        left: 'Slash',
+        right: 'Semicolon',
+        a: 'BracketLeft',
+        b: 'BracketRight',
+        x: 'Minus',
+        y: 'Equal',
+        l: 'Backquote',
+        r: 'Insert',
+        l2: 'Delete',
+        r2: 'Home',
+        l3: 'End',
+        r3: 'PageUp',
+        start: 'PageDown',
+        select: 'Backspace',
+    },
+    {
+        up: 'KeyI',
+        down: 'KeyK',
+        left: 'KeyJ',
+        right: 'KeyL',
+        a: 'KeyM',
+        b: 'KeyN',
+        x: 'KeyH',
+        y: 'KeyG',
+        l: 'KeyV',
+        r: 'KeyB',
+        l2: 'KeyC',
+        r2: 'KeyD',
+        l3: 'KeyF',
+        r3: 'KeyP',
+        start: 'KeyO',
+        select: 'F10',
+    },
+];
+
+/**
+ * RetroArch overrides applied when a session uses netplay
+ */
+export function getNetplayRetroArchConfig(): Record<string, unknown> {
+    return {
+        ...keyboardToRetroArchConfig(NETPLAY_INJECTION_KEYS[0], 1),
+        ...keyboardToRetroArchConfig(NETPLAY_INJECTION_KEYS[1], 2),
+        input_joypad_driver: 'null', // Gamepads are polled by the lockstep loop instead
+        run_ahead_enabled: false,    // Run-ahead re-runs frames outside the lockstep loop
+        rewind_enable: false,
+    };
+}
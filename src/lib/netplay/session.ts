@@ -0,0 +1,419 @@
+/**
+ * Netplay Session
+ *
+ * Delay-based lockstep over a reliable RTCDataChannel:
+ * - The host sends its save state once the channel opens; both peers start from frame 0
+ * - Each peer sends its input for frame N + inputDelay while running frame N
+ * - A frame only runs once both inputs for it are known, so peers never diverge
+ *
+ * Inputs are button bitmasks (see encodeButtons). Framework-agnostic - the
+ * useNetplay hook drives it from the emulator's frame loop.
+ */
+
+import { ALL_BUTTONS, ButtonId } from '../controls';
+import { NetplayConfig, NetplaySignalMessage, NetplayStatus } from './types';
+
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+const DEFAULT_INPUT_DELAY = 2;
+
+const CHANNEL_LABEL = 'koin-netplay';
+const STATE_CHUNK_SIZE = 16 * 1024;
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+const HELLO_RETRY_MS = 1000;
+const PING_INTERVAL_MS = 1000;
+// Consecutive stalled frames before reporting 'waiting' (avoids flicker on jitter)
+const WAITING_THRESHOLD_FRAMES = 30;
+
+// Control messages (JSON). State bytes follow a 'state' message as binary chunks.
+type ChannelMessage =
+    | { type: 'input'; frame: number; buttons: number }
+    | { type: 'state'; size: number }
+    | { type: 'ready' }
+    | { type: 'ping'; time: number }
+    | { type: 'pong'; time: number };
+
+export interface NetplaySessionOptions extends Omit<NetplayConfig, 'onStatusChange'> {
+    onStatusChange?: (status: NetplayStatus) => void;
+    /** Guest: host's save state arrived */
+    onRemoteState?: (state: Uint8Array) => void;
+    /** Host: guest has loaded the state and is ready for frame 0 */
+    onPeerReady?: () => void;
+    /** Round-trip time in ms, updated every second */
+    onLatency?: (ms: number) => void;
+}
+
+/**
+ * Pack pressed buttons into a bitmask (bit order = ALL_BUTTONS)
+ */
+export function encodeButtons(pressed: Iterable<ButtonId>): number {
+    let bits = 0;
+    for (const button of pressed) {
+        const index = ALL_BUTTONS.indexOf(button);
+        if (index >= 0) bits |= 1 << index;
+    }
+    return bits;
+}
+
+/**
+ * Unpack a bitmask produced by encodeButtons
+ */
+export function decodeButtons(bits: number): ButtonId[] {
+    return ALL_BUTTONS.filter((_, index) => (bits & (1 << index)) !== 0);
+}
+
+function createPeerId(): string {
+    return Math.random().toString(36).slice(2, 10);
+}
+
+export class NetplaySession {
+    readonly peerId = createPeerId();
+    readonly inputDelay: number;
+
+    private options: NetplaySessionOptions;
+    private status: NetplayStatus = 'idle';
+    private pc: RTCPeerConnection | null = null;
+    private channel: RTCDataChannel | null = null;
+    private unsubscribeSignaling: (() => void) | null = null;
+    private helloTimer: ReturnType<typeof setInterval> | null = null;
+    private pingTimer: ReturnType<typeof setInterval> | null = null;
+    private remotePeerId: string | null = null;
+
+    // Signals are handled one at a time, in arrival order; ICE candidates
+    // wait until the connection has the remote description
+    private signals: Promise<void> = Promise.resolve();
+    private pendingCandidates: RTCIceCandidateInit[] = [];
+
+    private localInputs = new Map<number, number>();
+    private remoteInputs = new Map<number, number>();
+    private stalledFrames = 0;
+
+    // Incoming state transfer (guest)
+    private incomingState: { size: number; received: number; chunks: Uint8Array[] } | null = null;
+
+    constructor(options: NetplaySessionOptions) {
+        this.options = options;
+        this.inputDelay = Math.max(0, options.inputDelay ?? DEFAULT_INPUT_DELAY);
+    }
+
+    get role() {
+        return this.options.role;
+    }
+
+    getStatus(): NetplayStatus {
+        return this.status;
+    }
+
+    /**
+     * Join the signaling room and start negotiating with the other peer
+     */
+    async start(): Promise<void> {
+        const { signaling, roomId, role } = this.options;
+        this.setStatus('connecting');
+
+        try {
+            this.unsubscribeSignaling = signaling.onMessage(message => {
+                if (message.from !== this.peerId) {
+                    this.signals = this.signals
+                        .then(() => this.handleSignal(message))
+                        .catch(err => {
+                            console.error('[Netplay] Signaling error:', err);
+                            this.setStatus('error');
+                        });
+                }
+            });
+            await signaling.join(roomId, this.peerId);
+        } catch (err) {
+            console.error('[Netplay] Failed to join room:', err);
+            this.setStatus('error');
+            throw err;
+        }
+
+        // Guest announces itself until the host answers with an offer
+        if (role === 'guest') {
+            const hello = () => signaling.send({ type: 'hello', from: this.peerId });
+            hello();
+            this.helloTimer = setInterval(hello, HELLO_RETRY_MS);
+        }
+    }
+
+    /**
+     * Host: send the starting save state (chunked, with backpressure)
+     * @throws if the channel closes before the state is sent
+     */
+    async sendState(state: Uint8Array): Promise<void> {
+        const channel = this.channel;
+        if (!channel || channel.readyState !== 'open') return;
+
+        this.setStatus('syncing');
+        this.sendMessage({ type: 'state', size: state.length });
+
+        for (let offset = 0; offset < state.length; offset += STATE_CHUNK_SIZE) {
+            if (channel.bufferedAmount > MAX_BUFFERED_BYTES) {
+                await new Promise<void>((resolve, reject) => {
+                    // A channel that closes meanwhile never drains
+                    const stop = () => {
+                        channel.onbufferedamountlow = null;
+                        channel.removeEventListener('close', fail);
+                        channel.removeEventListener('error', fail);
+                    };
+                    const fail = () => {
+                        stop();
+                        reject(new Error('Channel closed during state transfer'));
+                    };
+                    channel.onbufferedamountlow = () => {
+                        stop();
+                        resolve();
+                    };
+                    channel.addEventListener('close', fail);
+                    channel.addEventListener('error', fail);
+                });
+            }
+            channel.send(state.slice(offset, offset + STATE_CHUNK_SIZE));
+        }
+    }
+
+    /**
+     * Guest: tell the host the state is loaded
+     */
+    sendReady(): void {
+        this.sendMessage({ type: 'ready' });
+    }
+
+    /**
+     * Clear input history and enter lockstep at frame 0.
+     * The first `inputDelay` frames run with no input on either side.
+     */
+    beginLockstep(): void {
+        this.localInputs.clear();
+        this.remoteInputs.clear();
+        this.stalledFrames = 0;
+        for (let frame = 0; frame < this.inputDelay; frame++) {
+            this.localInputs.set(frame, 0);
+            this.remoteInputs.set(frame, 0);
+        }
+        this.setStatus('playing');
+    }
+
+    /**
+     * Record and send local input for `frame` (normally current frame + inputDelay)
+     */
+    pushLocalInput(frame: number, buttons: number): void {
+        if (this.localInputs.has(frame)) return;
+        this.localInputs.set(frame, buttons);
+        this.sendMessage({ type: 'input', frame, buttons });
+    }
+
+    /**
+     * Both inputs for `frame`, or null if the remote input hasn't arrived yet.
+     * Consumed entries are discarded.
+     */
+    takeInputs(frame: number): { local: number; remote: number } | null {
+        const local = this.localInputs.get(frame);
+        const remote = this.remoteInputs.get(frame);
+        if (local === undefined || remote === undefined) {
+            if (++this.stalledFrames >= WAITING_THRESHOLD_FRAMES && this.status === 'playing') {
+                this.setStatus('waiting');
+            }
+            return null;
+        }
+
+        this.localInputs.delete(frame);
+        this.remoteInputs.delete(frame);
+        this.stalledFrames = 0;
+        if (this.status === 'waiting') this.setStatus('playing');
+        return { local, remote };
+    }
+
+    /**
+     * Leave the room and close the peer connection
+     */
+    close(): void {
+        this.options.signaling.send({ type: 'bye', from: this.peerId });
+        this.teardown();
+        this.options.signaling.leave();
+        this.setStatus('idle');
+    }
+
+    private teardown(): void {
+        if (this.helloTimer) clearInterval(this.helloTimer);
+        if (this.pingTimer) clearInterval(this.pingTimer);
+        this.helloTimer = null;
+        this.pingTimer = null;
+        this.unsubscribeSignaling?.();
+        this.unsubscribeSignaling = null;
+        this.channel?.close();
+        this.pc?.close();
+        this.channel = null;
+        this.pc = null;
+        this.pendingCandidates = [];
+        this.incomingState = null;
+    }
+
+    private setStatus(status: NetplayStatus): void {
+        if (this.status === status) return;
+        this.status = status;
+        this.options.onStatusChange?.(status);
+    }
+
+    private createPeerConnection(): RTCPeerConnection {
+        this.pc?.close();
+        this.pendingCandidates = [];
+
+        const pc = new RTCPeerConnection({ iceServers: this.options.iceServers ?? DEFAULT_ICE_SERVERS });
+        pc.onicecandidate = (event) => {
+            if (event.candidate) {
+                this.options.signaling.send({ type: 'candidate', from: this.peerId, payload: event.candidate.toJSON() });
+            }
+        };
+        pc.onconnectionstatechange = () => {
+            if (pc.connectionState === 'failed' || pc.connectionState === 'disconnected') {
+                this.setStatus('disconnected');
+            }
+        };
+        pc.ondatachannel = (event) => this.attachChannel(event.channel);
+
+        this.pc = pc;
+        return pc;
+    }
+
+    private async handleSignal(message: NetplaySignalMessage): Promise<void> {
+        const { signaling, role } = this.options;
+
+        // Only hello/offer may come from a peer we haven't paired with yet
+        if (message.type !== 'hello' && message.type !== 'offer' && message.from !== this.remotePeerId) return;
+
+        switch (message.type) {
+            case 'hello': {
+                if (role !== 'host') return;
+                // Guests repeat hello until they get an offer - only renegotiate for a new or lost peer
+                if (this.pc && message.from === this.remotePeerId && this.status !== 'disconnected') return;
+                this.remotePeerId = message.from;
+                const pc = this.createPeerConnection();
+                this.attachChannel(pc.createDataChannel(CHANNEL_LABEL, { ordered: true }));
+                await pc.setLocalDescription(await pc.createOffer());
+                signaling.send({ type: 'offer', from: this.peerId, payload: pc.localDescription?.toJSON() });
+                break;
+            }
+            case 'offer': {
+                if (role !== 'guest') return;
+                if (this.helloTimer) {
+                    clearInterval(this.helloTimer);
+                    this.helloTimer = null;
+                }
+                this.remotePeerId = message.from;
+                const pc = this.createPeerConnection();
+                await pc.setRemoteDescription(message.payload as RTCSessionDescriptionInit);
+                await this.addPendingCandidates(pc);
+                await pc.setLocalDescription(await pc.createAnswer());
+                signaling.send({ type: 'answer', from: this.peerId, payload: pc.localDescription?.toJSON() });
+                break;
+            }
+            case 'answer': {
+                const pc = this.pc;
+                if (!pc) return;
+                await pc.setRemoteDescription(message.payload as RTCSessionDescriptionInit);
+                await this.addPendingCandidates(pc);
+                break;
+            }
+            case 'candidate':
+                // Candidates can overtake the offer/answer they belong to
+                if (this.pc?.remoteDescription) {
+                    await this.pc.addIceCandidate(message.payload as RTCIceCandidateInit);
+                } else {
+                    this.pendingCandidates.push(message.payload as RTCIceCandidateInit);
+                }
+                break;
+            case 'bye':
+                this.setStatus('disconnected');
+                break;
+        }
+    }
+
+    private async addPendingCandidates(pc: RTCPeerConnection): Promise<void> {
+        const candidates = this.pendingCandidates;
+        this.pendingCandidates = [];
+        for (const candidate of candidates) {
+            await pc.addIceCandidate(candidate);
+        }
+    }
+
+    private attachChannel(channel: RTCDataChannel): void {
+        channel.binaryType = 'arraybuffer';
+        channel.bufferedAmountLowThreshold = MAX_BUFFERED_BYTES / 4;
+
+        channel.onopen = () => {
+            console.log('[Netplay] Peer connected');
+            this.setStatus('syncing');
+            // A renegotiated channel opens again
+            if (this.pingTimer) clearInterval(this.pingTimer);
+            this.pingTimer = setInterval(() => {
+                this.sendMessage({ type: 'ping', time: performance.now() });
+            }, PING_INTERVAL_MS);
+        };
+        channel.onclose = () => {
+            if (this.status !== 'idle') this.setStatus('disconnected');
+        };
+        channel.onmessage = (event) => this.handleChannelMessage(event.data);
+
+        this.channel = channel;
+    }
+
+    private handleChannelMessage(data: string | ArrayBuffer): void {
+        // Binary frames are always state chunks
+        if (typeof data !== 'string') {
+            this.receiveStateChunk(new Uint8Array(data));
+            return;
+        }
+
+        let message: ChannelMessage;
+        try {
+            message = JSON.parse(data);
+        } catch {
+            console.warn('[Netplay] Ignoring malformed message');
+            return;
+        }
+
+        switch (message.type) {
+            case 'input':
+                this.remoteInputs.set(message.frame, message.buttons);
+                break;
+            case 'state':
+                this.incomingState = { size: message.size, received: 0, chunks: [] };
+                this.setStatus('syncing');
+                break;
+            case 'ready':
+                this.options.onPeerReady?.();
+                break;
+            case 'ping':
+                this.sendMessage({ type: 'pong', time: message.time });
+                break;
+            case 'pong':
+                this.options.onLatency?.(Math.round(performance.now() - message.time));
+                break;
+        }
+    }
+
+    private receiveStateChunk(chunk: Uint8Array): void {
+        const incoming = this.incomingState;
+        if (!incoming) return;
+
+        incoming.chunks.push(chunk);
+        incoming.received += chunk.length;
+        if (incoming.received < incoming.size) return;
+
+        const state = new Uint8Array(incoming.size);
+        let offset = 0;
+        for (const part of incoming.chunks) {
+            state.set(part, offset);
+            offset += part.length;
+        }
+        this.incomingState = null;
+        this.options.onRemoteState?.(state);
+    }
+
+    private sendMessage(message: ChannelMessage): void {
+        if (this.channel?.readyState === 'open') {
+            this.channel.send(JSON.stringify(message));
+        }
+    }
+}
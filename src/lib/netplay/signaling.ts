@@ -0,0 +1,101 @@
+/**
+ * Netplay Signaling Transports
+ *
+ * Signaling only carries the WebRTC handshake (a handful of small messages);
+ * gameplay traffic never goes through it.
+ */
+
+import { NetplaySignaling, NetplaySignalMessage } from './types';
+
+type Handler = (message: NetplaySignalMessage) => void;
+
+/**
+ * In-process signaling server.
+ *
+ * Stand-in for a real server in tests, demos and same-page setups: every
+ * client created from one server instance can reach the others in its room.
+ */
+export class MemorySignalingServer {
+    private rooms = new Map<string, Set<{ peerId: string; handlers: Set<Handler> }>>();
+
+    createClient(): NetplaySignaling {
+        const handlers = new Set<Handler>();
+        let member: { peerId: string; handlers: Set<Handler> } | null = null;
+        let room: Set<{ peerId: string; handlers: Set<Handler> }> | null = null;
+
+        return {
+            join: async (roomId, peerId) => {
+                room = this.rooms.get(roomId) ?? new Set();
+                this.rooms.set(roomId, room);
+                member = { peerId, handlers };
+                room.add(member);
+            },
+            send: (message) => {
+                if (!room) return;
+                room.forEach(other => {
+                    if (other === member) return;
+                    // Deliver asynchronously, like a network hop
+                    queueMicrotask(() => other.handlers.forEach(handler => handler(message)));
+                });
+            },
+            onMessage: (handler) => {
+                handlers.add(handler);
+                return () => {
+                    handlers.delete(handler);
+                };
+            },
+            leave: () => {
+                if (room && member) room.delete(member);
+                handlers.clear();
+                room = null;
+                member = null;
+            },
+        };
+    }
+}
+
+/**
+ * WebSocket signaling client.
+ *
+ * Expects a relay server that, after receiving `{ type: 'join', roomId, peerId }`,
+ * forwards every later JSON message from a socket to the other sockets in its room.
+ */
+export function createWebSocketSignaling(url: string): NetplaySignaling {
+    const handlers = new Set<Handler>();
+    let socket: WebSocket | null = null;
+
+    return {
+        join: (roomId, peerId) => new Promise<void>((resolve, reject) => {
+            socket = new WebSocket(url);
+            socket.onopen = () => {
+                socket!.send(JSON.stringify({ type: 'join', roomId, peerId }));
+                resolve();
+            };
+            socket.onerror = () => reject(new Error('Netplay signaling connection failed'));
+            socket.onmessage = (event) => {
+                try {
+                    const message = JSON.parse(event.data) as NetplaySignalMessage;
+                    handlers.forEach(handler => handler(message));
+                } catch (err) {
+                    console.warn('[Netplay] Ignoring malformed signaling message:', err);
+                }
+            };
+        }),
+        send: (message) => {
+            if (socket?.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify(message));
+            }
+        },
+        onMessage: (handler) => {
+            handlers.add(handler);
+            return () => {
+                handlers.delete(handler);
+            };
+        },
+        leave: () => {
+            socket?.close();
+            socket = null;
+            handlers.clear();
+        },
+    };
+}
@@ -0,0 +1,57 @@
+/**
+ * Netplay Types
+ *
+ * Two-player online sessions. Peers connect directly over an RTCDataChannel;
+ * the signaling transport that exchanges the WebRTC offer/answer is pluggable.
+ */
+
+export type NetplayRole = 'host' | 'guest';
+
+export type NetplayStatus =
+    | 'idle'
+    | 'connecting'   // Joined the room, negotiating the peer connection
+    | 'syncing'      // Channel open, transferring the host's save state
+    | 'playing'      // Lockstep running
+    | 'waiting'      // Stalled on remote input (high latency or packet loss)
+    | 'disconnected'
+    | 'error';
+
+/**
+ * Message relayed between peers in the same room by the signaling transport
+ */
+export interface NetplaySignalMessage {
+    type: 'hello' | 'offer' | 'answer' | 'candidate' | 'bye';
+    /** Sender's peer id */
+    from: string;
+    payload?: unknown;
+}
+
+/**
+ * Pluggable signaling transport.
+ * Must relay every message sent by one peer to the other peers in the same room.
+ */
+export interface NetplaySignaling {
+    /** Join a room (resolves once messages can be sent) */
+    join(roomId: string, peerId: string): Promise<void>;
+    /** Relay a message to the other peers in the room */
+    send(message: NetplaySignalMessage): void;
+    /** Subscribe to messages from other peers */
+    onMessage(handler: (message: NetplaySignalMessage) => void): () => void;
+    /** Leave the room and release the transport */
+    leave(): void;
+}
+
+/**
+ * GamePlayer `netplay` prop
+ */
+export interface NetplayConfig {
+    role: NetplayRole;
+    /** Shared room code both peers join */
+    roomId: string;
+    signaling: NetplaySignaling;
+    /** STUN/TURN servers (default: Google public STUN) */
+    iceServers?: RTCIceServer[];
+    /** Frames of input delay used to hide latency (default: 2) */
+    inputDelay?: number;
+    onStatusChange?: (status: NetplayStatus) => void;
+}
@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest';
+import { computeRAHash } from './retroachievements';
+import { md5 } from './hash';
+
+// ============ Fixtures ============
+// Small synthetic dumps: just the structures the hashing rules read
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+function bytes(length: number, seed = 1): Uint8Array {
+    return Uint8Array.from({ length }, (_, i) => (i * 31 + seed * 7) & 0xff);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+function writeUint32LE(target: Uint8Array, offset: number, value: number): void {
+    new DataView(target.buffer, target.byteOffset).setUint32(offset, value, true);
+}
+
+// N64 dumps in .z64 (big-endian), .v64 (16-bit swapped) and .n64 (32-bit little-endian) order
+function n64Dumps(): { z64: Uint8Array; v64: Uint8Array; n64: Uint8Array } {
+    const z64 = concat(Uint8Array.of(0x80, 0x37, 0x12, 0x40), bytes(252));
+    const v64 = new Uint8Array(z64.length);
+    const n64 = new Uint8Array(z64.length);
+    for (let i = 0; i < z64.length; i += 4) {
+        v64.set([z64[i + 1], z64[i], z64[i + 3], z64[i + 2]], i);
+        n64.set([z64[i + 3], z64[i + 2], z64[i + 1], z64[i]], i);
+    }
+    return { z64, v64, n64 };
+}
+
+// NDS cart: header pointing at ARM9, ARM7 and icon blocks, with filler around them
+const NDS_ARM9 = { offset: 0x200, size: 0x100 };
+const NDS_ARM7 = { offset: 0x400, size: 0x80 };
+const NDS_ICON = 0x800;
+
+function ndsRom(): Uint8Array {
+    const rom = bytes(0x2000, 3);
+    writeUint32LE(rom, 0x20, NDS_ARM9.offset);
+    writeUint32LE(rom, 0x2c, NDS_ARM9.size);
+    writeUint32LE(rom, 0x30, NDS_ARM7.offset);
+    writeUint32LE(rom, 0x3c, NDS_ARM7.size);
+    writeUint32LE(rom, 0x68, NDS_ICON);
+    return rom;
+}
+
+const SECTOR = 2048;
+
+interface IsoFile {
+    name: string;
+    data: Uint8Array;
+}
+
+/**
+ * ISO 9660 image with the given files in its root directory
+ */
+function iso(files: IsoFile[]): Uint8Array {
+    const rootSector = 18;
+    let nextSector = rootSector + 1;
+    const entries = files.map(file => {
+        const entry = { ...file, sector: nextSector };
+        nextSector += Math.max(1, Math.ceil(file.data.length / SECTOR));
+        return entry;
+    });
+    const image = new Uint8Array(nextSector * SECTOR);
+
+    // Primary volume descriptor, with the root directory record embedded
+    const pvd = 16 * SECTOR;
+    image[pvd] = 1;
+    image.set(ascii('CD001'), pvd + 1);
+    writeUint32LE(image, pvd + 158, rootSector);
+    writeUint32LE(image, pvd + 166, SECTOR);
+
+    let offset = rootSector * SECTOR;
+    for (const { name, sector, data } of entries) {
+        const identifier = ascii(`${name};1`);
+        const length = 33 + identifier.length + (identifier.length % 2 === 0 ? 1 : 0);
+        image[offset] = length;
+        writeUint32LE(image, offset + 2, sector);
+        writeUint32LE(image, offset + 10, data.length);
+        image[offset + 32] = identifier.length;
+        image.set(identifier, offset + 33);
+        offset += length;
+        image.set(data, sector * SECTOR);
+    }
+    return image;
+}
+
+/**
+ * Raw BIN track (2352-byte sectors) of an ISO image
+ */
+function bin(image: Uint8Array, mode: 1 | 2): Uint8Array {
+    const sectors = image.length / SECTOR;
+    const out = new Uint8Array(sectors * 2352);
+    const dataOffset = mode === 2 ? 24 : 16;
+    for (let sector = 0; sector < sectors; sector++) {
+        const start = sector * 2352;
+        out.fill(0xff, start + 1, start + 11);
+        out[start + 15] = mode;
+        out.set(image.subarray(sector * SECTOR, (sector + 1) * SECTOR), start + dataOffset);
+    }
+    return out;
+}
+
+// PlayStation disc booting SLUS_000.01 through SYSTEM.CNF
+const PS1_EXE_NAME = 'SLUS_000.01';
+
+function ps1Exe(): Uint8Array {
+    const exe = bytes(SECTOR * 3, 5);
+    exe.set(ascii('PS-X EXE'), 0);
+    writeUint32LE(exe, 28, SECTOR); // Text size - the executable is the header sector plus one more
+    return exe;
+}
+
+function ps1Disc(): Uint8Array {
+    return iso([
+        { name: 'SYSTEM.CNF', data: ascii(`BOOT = cdrom:\\${PS1_EXE_NAME};1\r\nTCB = 4\r\n`) },
+        { name: PS1_EXE_NAME, data: ps1Exe() },
+    ]);
+}
+
+function segaDisc(magic: string): Uint8Array {
+    const image = bytes(SECTOR * 4, 9);
+    image.set(ascii(magic), 0);
+    return image;
+}
+
+// ============ Tests ============
+
+describe('computeRAHash', () => {
+    it('hashes NES ROMs without the iNES header', async () => {
+        const prg = bytes(1024);
+        const header = concat(ascii('NES\x1a'), Uint8Array.of(1, 1, 0, 0), new Uint8Array(8));
+
+        expect(await computeRAHash('NES', concat(header, prg))).toBe(md5(prg));
+        expect(await computeRAHash('NES', prg)).toBe(md5(prg));
+    });
+
+    it('drops a 512-byte SNES copier header', async () => {
+        const rom = bytes(0x4000);
+
+        expect(await computeRAHash('SNES', concat(new Uint8Array(512), rom))).toBe(md5(rom));
+        expect(await computeRAHash('SNES', rom)).toBe(md5(rom));
+    });
+
+    it('hashes N64 dumps in big-endian order', async () => {
+        const { z64, v64, n64 } = n64Dumps();
+        const hash = md5(z64);
+
+        expect(await computeRAHash('N64', z64)).toBe(hash);
+        expect(await computeRAHash('N64', v64)).toBe(hash);
+        expect(await computeRAHash('N64', n64)).toBe(hash);
+        expect(await computeRAHash('N64', bytes(256))).toBeNull();
+    });
+
+    it('hashes the NDS header, code blocks and icon only', async () => {
+        const rom = ndsRom();
+        const hash = md5(concat(
+            rom.subarray(0, 0x160),
+            rom.subarray(NDS_ARM9.offset, NDS_ARM9.offset + NDS_ARM9.size),
+            rom.subarray(NDS_ARM7.offset, NDS_ARM7.offset + NDS_ARM7.size),
+            rom.subarray(NDS_ICON, NDS_ICON + 0xa00),
+        ));
+        expect(await computeRAHash('NDS', rom)).toBe(hash);
+
+        // Data outside the hashed blocks doesn't matter
+        const changed = rom.slice();
+        changed[0x1f00] ^= 0xff;
+        expect(await computeRAHash('NDS', changed)).toBe(hash);
+    });
+
+    it('hashes the PlayStation executable named in SYSTEM.CNF', async () => {
+        const hash = md5(concat(ascii(PS1_EXE_NAME), ps1Exe().subarray(0, SECTOR * 2)));
+        const disc = ps1Disc();
+
+        expect(await computeRAHash('PS1', disc)).toBe(hash);
+        expect(await computeRAHash('PS1', bin(disc, 2))).toBe(hash);
+    });
+
+    it('returns null for a PlayStation disc without a boot executable', async () => {
+        const disc = iso([{ name: 'SYSTEM.CNF', data: ascii('BOOT = cdrom:\\MISSING.EXE;1\r\n') }]);
+        expect(await computeRAHash('PS1', disc)).toBeNull();
+    });
+
+    it('hashes the Sega CD and Saturn disc header', async () => {
+        const segaCd = segaDisc('SEGADISCSYSTEM  ');
+        const saturn = segaDisc('SEGA SEGASATURN ');
+
+        expect(await computeRAHash('GENESIS', segaCd)).toBe(md5(segaCd.subarray(0, 512)));
+        expect(await computeRAHash('GENESIS', bin(segaCd, 1))).toBe(md5(segaCd.subarray(0, 512)));
+        expect(await computeRAHash('SATURN', saturn)).toBe(md5(saturn.subarray(0, 512)));
+        expect(await computeRAHash('SATURN', bin(saturn, 1))).toBe(md5(saturn.subarray(0, 512)));
+    });
+
+    it('hashes Genesis cartridges whole and rejects non-Saturn data', async () => {
+        const cart = bytes(0x1000);
+
+        expect(await computeRAHash('GENESIS', cart)).toBe(md5(cart));
+        expect(await computeRAHash('SATURN', cart)).toBeNull();
+    });
+
+    it('reads only the sectors it needs from a Blob', async () => {
+        // A disc image padded far beyond the sectors the rules read
+        const disc = concat(ps1Disc(), new Uint8Array(SECTOR * 512));
+        const blob = new Blob([disc as BlobPart]);
+        let bytesRead = 0;
+        const slice = blob.slice.bind(blob);
+        blob.slice = (start?: number, end?: number) => {
+            const part = slice(start, end);
+            bytesRead += part.size;
+            return part;
+        };
+
+        expect(await computeRAHash('PS1', blob)).toBe(await computeRAHash('PS1', disc));
+        expect(bytesRead).toBeLessThan(SECTOR * 16);
+    });
+
+    it('uses the md5 of the hashed bytes', () => {
+        // RFC 1321 test vector, so the expectations above hash what they claim to
+        expect(md5(ascii('abc'))).toBe('900150983cd24fb0d6963f7d28e17f72');
+    });
+});
@@ -1,6 +1,9 @@
 // RetroAchievements Types & Helpers
 // Extracted from main app for package use
 
+import { md5 } from './hash';
+import { getSystem } from './systems';
+
 export const RA_MEDIA_BASE = 'https://media.retroachievements.org';
 
 // ==================== Types ====================
@@ -90,3 +93,303 @@ export function getAchievementBadgeUrl(badgeName: string, locked = false): strin
 export function getUserAvatarUrl(userPic: string): string {
     return `${RA_MEDIA_BASE}/UserPic/${userPic}.png`;
 }
+
+// ==================== Game Hashes ====================
+// Offline versions of the rcheevos hashing rules (rc_hash), so a game can be
+// looked up by hash without uploading the ROM.
+
+function startsWith(bytes: Uint8Array, magic: string, offset = 0): boolean {
+    for (let i = 0; i < magic.length; i++) {
+        if (bytes[offset + i] !== magic.charCodeAt(i)) return false;
+    }
+    return true;
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+    return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+/**
+ * A ROM's bytes: in memory, or a file read in slices (disc images only have
+ * a few sectors read)
+ */
+interface RomData {
+    size: number;
+    read(start: number, end: number): Promise<Uint8Array>;
+}
+
+function toRomData(rom: Uint8Array | Blob): RomData {
+    if (rom instanceof Uint8Array) {
+        return { size: rom.length, read: async (start, end) => rom.subarray(start, Math.min(end, rom.length)) };
+    }
+    return { size: rom.size, read: async (start, end) => new Uint8Array(await rom.slice(start, end).arrayBuffer()) };
+}
+
+/**
+ * Reads 2048-byte data sectors from an ISO (2048 bytes per sector) or a raw
+ * BIN track (2352 bytes per sector, with sync and header in front of the data)
+ */
+class DiscReader {
+    private sectorSize = 2048;
+    private dataOffset = 0;
+
+    private constructor(private data: RomData, head: Uint8Array) {
+        const sync = head[0] === 0 && head[11] === 0 && head.subarray(1, 11).every(byte => byte === 0xff);
+        if (sync) {
+            this.sectorSize = 2352;
+            this.dataOffset = head[15] === 2 ? 24 : 16; // Mode 2 has an 8-byte subheader
+        }
+    }
+
+    static async open(data: RomData): Promise<DiscReader> {
+        return new DiscReader(data, await data.read(0, 16));
+    }
+
+    readSector(sector: number, length = 2048): Promise<Uint8Array> {
+        const start = sector * this.sectorSize + this.dataOffset;
+        return this.data.read(start, start + length);
+    }
+
+    /**
+     * `length` bytes starting at `sector`, reading across sector boundaries
+     */
+    async readData(sector: number, length: number): Promise<Uint8Array> {
+        const sectors = Math.ceil(length / 2048);
+        const raw = await this.data.read(sector * this.sectorSize, (sector + sectors) * this.sectorSize);
+        const parts: Uint8Array[] = [];
+        for (let i = 0, remaining = length; remaining > 0 && i < sectors; i++) {
+            const start = i * this.sectorSize + this.dataOffset;
+            const part = raw.subarray(start, Math.min(start + Math.min(remaining, 2048), raw.length));
+            if (part.length === 0) break;
+            parts.push(part);
+            remaining -= part.length;
+        }
+        return concat(parts);
+    }
+
+    /**
+     * Sector and size of an ISO 9660 file ('SYSTEM.CNF', 'EXE\\MAIN.EXE'), or null
+     */
+    async findFile(path: string): Promise<{ sector: number; size: number } | null> {
+        const pvd = await this.readSector(16);
+        if (!startsWith(pvd, 'CD001', 1)) return null;
+
+        // Root directory record is embedded in the volume descriptor
+        let dir = { sector: readUint32LE(pvd, 158), size: readUint32LE(pvd, 166) };
+        const parts = path.split(/[\\/]/).filter(Boolean);
+
+        for (const [i, part] of parts.entries()) {
+            const entry = await this.findInDirectory(dir, part.toUpperCase());
+            if (!entry) return null;
+            if (i === parts.length - 1) return entry;
+            dir = entry;
+        }
+        return null;
+    }
+
+    private async findInDirectory(dir: { sector: number; size: number }, name: string): Promise<{ sector: number; size: number } | null> {
+        const records = await this.readData(dir.sector, dir.size);
+        for (let offset = 0; offset < records.length;) {
+            const length = records[offset];
+            if (length === 0) {
+                // Records never straddle a sector - skip to the next one
+                offset = (Math.floor(offset / 2048) + 1) * 2048;
+                continue;
+            }
+            const nameLength = records[offset + 32];
+            const recordName = String.fromCharCode(...records.subarray(offset + 33, offset + 33 + nameLength))
+                .replace(/;\d+$/, '')
+                .toUpperCase();
+            if (recordName === name) {
+                return { sector: readUint32LE(records, offset + 2), size: readUint32LE(records, offset + 10) };
+            }
+            offset += length;
+        }
+        return null;
+    }
+}
+
+// NES/FDS: the 16-byte iNES/fwNES header is not part of the game
+function hashNes(rom: Uint8Array): string {
+    return md5(startsWith(rom, 'NES\x1a') || startsWith(rom, 'FDS\x1a') ? rom.subarray(16) : rom);
+}
+
+// SNES: drop a 512-byte copier header
+function hashSnes(rom: Uint8Array): string {
+    return md5(rom.length % 0x2000 === 512 ? rom.subarray(512) : rom);
+}
+
+// N64: hash the big-endian (.z64) byte order, whatever the dump's order
+function hashN64(rom: Uint8Array): string | null {
+    if (rom[0] === 0x80) return md5(rom);
+    const swapped = new Uint8Array(rom.length);
+    if (rom[0] === 0x37) {
+        // .v64 - 16-bit byte-swapped
+        for (let i = 0; i + 1 < rom.length; i += 2) {
+            swapped[i] = rom[i + 1];
+            swapped[i + 1] = rom[i];
+        }
+    } else if (rom[0] === 0x40) {
+        // .n64 - 32-bit little-endian
+        for (let i = 0; i + 3 < rom.length; i += 4) {
+            swapped[i] = rom[i + 3];
+            swapped[i + 1] = rom[i + 2];
+            swapped[i + 2] = rom[i + 1];
+            swapped[i + 3] = rom[i];
+        }
+    } else {
+        return null;
+    }
+    return md5(swapped);
+}
+
+// NDS: header, ARM9 and ARM7 code and the icon/title block - not the whole cart
+function hashNds(rom: Uint8Array): string | null {
+    // SuperCard dumps carry an extra 512-byte header
+    const superCard = rom[0] === 0x2e && rom[1] === 0x00 && rom[2] === 0x00 && rom[3] === 0xea
+        && rom[0xb0] === 0x44 && rom[0xb1] === 0x46 && rom[0xb2] === 0x96 && rom[0xb3] === 0x24;
+    const base = superCard ? 0x200 : 0;
+    const header = rom.subarray(base, base + 0x160);
+    if (header.length < 0x160) return null;
+
+    const arm9Offset = readUint32LE(header, 0x20);
+    const arm9Size = readUint32LE(header, 0x2c);
+    const arm7Offset = readUint32LE(header, 0x30);
+    const arm7Size = readUint32LE(header, 0x3c);
+    const iconOffset = readUint32LE(header, 0x68);
+    if (arm9Size + arm7Size > 16 * 1024 * 1024) return null; // Not a valid header
+
+    return md5(concat([
+        header,
+        rom.subarray(base + arm9Offset, base + arm9Offset + arm9Size),
+        rom.subarray(base + arm7Offset, base + arm7Offset + arm7Size),
+        rom.subarray(base + iconOffset, base + iconOffset + 0xa00),
+    ]));
+}
+
+// Lynx and Atari 7800: drop the emulator header
+function hashLynx(rom: Uint8Array): string {
+    return md5(startsWith(rom, 'LYNX\0') ? rom.subarray(64) : rom);
+}
+
+function hashAtari7800(rom: Uint8Array): string {
+    return md5(startsWith(rom, 'ATARI7800', 1) ? rom.subarray(128) : rom);
+}
+
+// PC Engine CD: the boot program named in sector 1 (null for a HuCard)
+async function hashPcEngineCd(disc: DiscReader): Promise<string | null> {
+    const boot = await disc.readSector(1, 128);
+    if (!startsWith(boot, 'PC Engine CD-ROM SYSTEM', 32)) return null;
+    const sector = (boot[0] << 16) | (boot[1] << 8) | boot[2];
+    const count = boot[3];
+    // Title, then the program sectors
+    return md5(concat([boot.subarray(106, 128), await disc.readData(sector, count * 2048)]));
+}
+
+// PC Engine HuCard: drop a 512-byte header
+function hashPcEngine(rom: Uint8Array): string {
+    return md5(rom.length % 0x20000 === 512 ? rom.subarray(512) : rom);
+}
+
+// Sega CD and Saturn: the 512-byte disc header in sector 0
+async function hashSegaDisc(disc: DiscReader): Promise<string | null> {
+    const header = await disc.readSector(0, 512);
+    if (!startsWith(header, 'SEGADISCSYSTEM  ') && !startsWith(header, 'SEGA SEGASATURN ')) return null;
+    return md5(header);
+}
+
+// PlayStation: the boot executable's path and contents, found through SYSTEM.CNF
+async function hashPlayStation(disc: DiscReader): Promise<string | null> {
+    let exeName = 'PSX.EXE';
+
+    const cnf = await disc.findFile('SYSTEM.CNF');
+    if (cnf) {
+        const text = new TextDecoder('latin1').decode(await disc.readData(cnf.sector, cnf.size));
+        const boot = text.match(/^\s*BOOT\s*=\s*(?:cdrom:)?\\*([^;\s]+)/im);
+        if (!boot) return null;
+        exeName = boot[1];
+    }
+
+    const exe = await disc.findFile(exeName);
+    if (!exe) return null;
+
+    // The PS-X EXE header knows the real size (the directory size may be padded)
+    const first = await disc.readSector(exe.sector);
+    const size = startsWith(first, 'PS-X EXE') ? readUint32LE(first, 28) + 2048 : exe.size;
+    return md5(concat([new TextEncoder().encode(exeName), await disc.readData(exe.sector, size)]));
+}
+
+// Arcade: the romset's name, not its contents
+function hashArcade(fileName?: string): string | null {
+    const name = fileName?.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '');
+    return name ? md5(name) : null;
+}
+
+/**
+ * RetroAchievements game hash of a ROM, following the per-console rules of
+ * rcheevos: emulator headers are dropped (NES, SNES, Lynx, 7800, PC Engine),
+ * N64 dumps are normalised to big-endian, NDS hashes its code blocks, and
+ * discs (PlayStation, Sega CD, Saturn, PC Engine CD) hash their boot files.
+ * Discs are the ISO or the BIN of the data track; passed as a Blob, only
+ * the sectors the rules need are read.
+ *
+ * Arcade and Neo Geo hash the romset's file name, so pass `fileName` there.
+ * Resolves null if the system has no RetroAchievements support or the data
+ * isn't a valid ROM for it.
+ */
+export async function computeRAHash(system: string, rom: Uint8Array | Blob, fileName?: string): Promise<string | null> {
+    const data = toRomData(rom);
+    const whole = () => data.read(0, data.size);
+
+    switch (getSystem(system)?.key) {
+        case 'NES':
+            return hashNes(await whole());
+        case 'SNES':
+            return hashSnes(await whole());
+        case 'N64':
+            return hashN64(await whole());
+        case 'NDS':
+            return hashNds(await whole());
+        case 'LYNX':
+            return hashLynx(await whole());
+        case 'ATARI_7800':
+            return hashAtari7800(await whole());
+        case 'PC_ENGINE':
+            return await hashPcEngineCd(await DiscReader.open(data)) ?? hashPcEngine(await whole());
+        case 'GENESIS':
+            // Sega CD images share the system
+            return await hashSegaDisc(await DiscReader.open(data)) ?? md5(await whole());
+        case 'SATURN':
+            return hashSegaDisc(await DiscReader.open(data));
+        case 'PS1':
+            return hashPlayStation(await DiscReader.open(data));
+        case 'ARCADE':
+        case 'NEOGEO':
+            return hashArcade(fileName);
+        case 'GB':
+        case 'GBC':
+        case 'GBA':
+        case 'VIRTUAL_BOY':
+        case 'MASTER_SYSTEM':
+        case 'GAME_GEAR':
+        case 'NEOGEO_POCKET':
+        case 'NEOGEO_POCKET_COLOR':
+        case 'WONDERSWAN':
+        case 'WONDERSWAN_COLOR':
+        case 'ATARI_2600':
+        case 'ATARI_5200':
+            return md5(await whole());
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RewindBuffer } from './rewind-buffer';
+
+// Save states of one game: same length, a few bytes apart
+function state(step: number): Uint8Array {
+    const data = new Uint8Array(256);
+    data[0] = step;
+    data[128] = step * 3;
+    return data;
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('RewindBuffer', () => {
+    it('returns the snapshots it was given', async () => {
+        const buffer = new RewindBuffer();
+        for (let step = 0; step < 40; step++) {
+            void buffer.push(state(step));
+        }
+
+        expect(await buffer.get(0)).toEqual(state(0));
+        expect(await buffer.get(35)).toEqual(state(35)); // Delta in the second group
+        expect(buffer.length).toBe(40);
+        expect(await buffer.get(40)).toBeNull();
+    });
+
+    it('truncates and clears behind pending appends', async () => {
+        const buffer = new RewindBuffer();
+        void buffer.push(state(1));
+        void buffer.push(state(2));
+        void buffer.push(state(3));
+        await buffer.truncate(1);
+
+        expect(buffer.length).toBe(1);
+        expect(await buffer.get(0)).toEqual(state(1));
+
+        void buffer.push(state(4));
+        await buffer.clear();
+        expect(buffer.length).toBe(0);
+        expect(buffer.byteSize).toBe(0);
+    });
+
+    it('keeps working after a task fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const buffer = new RewindBuffer();
+        await buffer.push(state(1));
+
+        // Fail the next write of the decoded keyframe cache (clear resets it)
+        let cache: unknown = null;
+        let fail = true;
+        Object.defineProperty(buffer, 'decodedKeyframe', {
+            configurable: true,
+            get: () => cache,
+            set: (value) => {
+                if (fail) {
+                    fail = false;
+                    throw new Error('clear failed');
+                }
+                cache = value;
+            },
+        });
+
+        await expect(buffer.clear()).resolves.toBeUndefined();
+        expect(console.warn).toHaveBeenCalledWith('[Rewind] Failed to clear:', expect.any(Error));
+
+        await buffer.push(state(2));
+        expect(await buffer.get(buffer.length - 1)).toEqual(state(2));
+    });
+
+    it('evicts the oldest groups to stay within maxEntries', async () => {
+        const buffer = new RewindBuffer({ maxEntries: 40 });
+        for (let step = 0; step < 70; step++) {
+            void buffer.push(state(step));
+        }
+
+        // Whole groups of 30 go: 70 -> 40
+        expect(await buffer.get(0)).toEqual(state(30));
+        expect(buffer.length).toBe(40);
+    });
+});
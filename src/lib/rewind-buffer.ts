@@ -0,0 +1,204 @@
+/**
+ * Compressed rewind buffer
+ *
+ * Snapshots are stored in groups: one full keyframe followed by XOR deltas
+ * against that keyframe. Consecutive save states differ in only a few bytes,
+ * so the deltas are almost entirely zeros and compress extremely well.
+ * Eviction always drops the oldest whole group so every delta keeps its keyframe.
+ */
+
+// Snapshots per group (1 keyframe + N-1 deltas)
+const KEYFRAME_INTERVAL = 30;
+
+const COMPRESSION_FORMAT: CompressionFormat = 'deflate-raw';
+
+interface RewindEntry {
+    data: Uint8Array;       // Stored bytes (compressed if `compressed`)
+    compressed: boolean;
+    rawLength: number;      // Length of the decoded state
+    keyframe: RewindEntry | null; // null = this entry is a keyframe
+}
+
+export interface RewindBufferOptions {
+    /** Maximum bytes kept in memory (default: 32MB) */
+    memoryBudgetBytes?: number;
+    /** Maximum number of snapshots regardless of budget */
+    maxEntries?: number;
+}
+
+function supportsCompression(): boolean {
+    return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const response = new Response(new Blob([data as BlobPart]).stream().pipeThrough(stream));
+    return new Uint8Array(await response.arrayBuffer());
+}
+
+function xor(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const out = new Uint8Array(a.length);
+    for (let i = 0; i < a.length; i++) {
+        out[i] = a[i] ^ b[i];
+    }
+    return out;
+}
+
+export class RewindBuffer {
+    private entries: RewindEntry[] = [];
+    private bytes = 0;
+    private memoryBudgetBytes: number;
+    private maxEntries: number;
+    private canCompress = supportsCompression();
+
+    // Serializes appends, truncation and clearing, so a snapshot still being
+    // compressed can't be stored against a keyframe that was removed meanwhile
+    private pending: Promise<void> = Promise.resolve();
+
+    // Last decoded keyframe - rewinding walks one group backwards, so this is hit almost every time
+    private decodedKeyframe: { entry: RewindEntry; data: Uint8Array } | null = null;
+
+    constructor({ memoryBudgetBytes = 32 * 1024 * 1024, maxEntries = Infinity }: RewindBufferOptions = {}) {
+        this.memoryBudgetBytes = memoryBudgetBytes;
+        this.maxEntries = maxEntries;
+    }
+
+    /**
+     * Number of snapshots currently stored
+     */
+    get length(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Approximate memory used by stored snapshots
+     */
+    get byteSize(): number {
+        return this.bytes;
+    }
+
+    /**
+     * Append a snapshot (resolves once it has been encoded and stored)
+     */
+    push(state: Uint8Array): Promise<void> {
+        return this.enqueue(() => this.append(state), 'Failed to store snapshot');
+    }
+
+    // A failed task is logged, so the chain keeps running for the ones after it
+    private enqueue(task: () => void | Promise<void>, failure: string): Promise<void> {
+        this.pending = this.pending
+            .then(task)
+            .catch(err => console.warn(`[Rewind] ${failure}:`, err));
+        return this.pending;
+    }
+
+    /**
+     * Decode the snapshot at `index` (0 = oldest)
+     */
+    async get(index: number): Promise<Uint8Array | null> {
+        await this.pending;
+
+        const entry = this.entries[index];
+        if (!entry) return null;
+
+        if (!entry.keyframe) {
+            return this.decode(entry);
+        }
+
+        const keyframe = await this.decodeKeyframe(entry.keyframe);
+        return xor(await this.decode(entry), keyframe);
+    }
+
+    /**
+     * Drop every snapshot after the first `length` (discard the "future" after a rewind).
+     * Runs after the appends queued before it.
+     */
+    truncate(length: number): Promise<void> {
+        return this.enqueue(() => {
+            while (this.entries.length > Math.max(0, length)) {
+                const removed = this.entries.pop()!;
+                this.bytes -= removed.data.length;
+                if (this.decodedKeyframe?.entry === removed) {
+                    this.decodedKeyframe = null;
+                }
+            }
+        }, 'Failed to truncate');
+    }
+
+    /**
+     * Drop every snapshot. Runs after the appends queued before it.
+     */
+    clear(): Promise<void> {
+        return this.enqueue(() => {
+            this.entries = [];
+            this.bytes = 0;
+            this.decodedKeyframe = null;
+        }, 'Failed to clear');
+    }
+
+    private async append(state: Uint8Array): Promise<void> {
+        const last = this.entries[this.entries.length - 1];
+        const currentKeyframe = last ? (last.keyframe ?? last) : null;
+        const groupSize = currentKeyframe ? this.entries.length - this.entries.indexOf(currentKeyframe) : 0;
+
+        // Start a new group on schedule, or when the state size changes (deltas need equal lengths)
+        const needsKeyframe = !currentKeyframe
+            || groupSize >= KEYFRAME_INTERVAL
+            || currentKeyframe.rawLength !== state.length;
+
+        let entry: RewindEntry;
+        if (needsKeyframe) {
+            entry = { ...(await this.encode(state)), rawLength: state.length, keyframe: null };
+            this.decodedKeyframe = { entry, data: state };
+        } else {
+            const keyframe = await this.decodeKeyframe(currentKeyframe!);
+            entry = { ...(await this.encode(xor(state, keyframe))), rawLength: state.length, keyframe: currentKeyframe };
+        }
+
+        this.entries.push(entry);
+        this.bytes += entry.data.length;
+        this.evict();
+    }
+
+    // Drop oldest groups until within budget, always keeping the newest group
+    private evict(): void {
+        while (this.bytes > this.memoryBudgetBytes || this.entries.length > this.maxEntries) {
+            const nextKeyframeIndex = this.entries.findIndex((e, i) => i > 0 && !e.keyframe);
+            if (nextKeyframeIndex === -1) break;
+
+            const removed = this.entries.splice(0, nextKeyframeIndex);
+            for (const entry of removed) {
+                this.bytes -= entry.data.length;
+                if (this.decodedKeyframe?.entry === entry) {
+                    this.decodedKeyframe = null;
+                }
+            }
+        }
+    }
+
+    private async decodeKeyframe(keyframe: RewindEntry): Promise<Uint8Array> {
+        if (this.decodedKeyframe?.entry === keyframe) {
+            return this.decodedKeyframe.data;
+        }
+        const data = await this.decode(keyframe);
+        this.decodedKeyframe = { entry: keyframe, data };
+        return data;
+    }
+
+    private async encode(data: Uint8Array): Promise<{ data: Uint8Array; compressed: boolean }> {
+        if (!this.canCompress) {
+            return { data, compressed: false };
+        }
+        try {
+            return { data: await transform(data, new CompressionStream(COMPRESSION_FORMAT)), compressed: true };
+        } catch (err) {
+            console.warn('[Rewind] Compression unavailable, storing raw snapshots:', err);
+            this.canCompress = false;
+            return { data, compressed: false };
+        }
+    }
+
+    private async decode(entry: RewindEntry): Promise<Uint8Array> {
+        if (!entry.compressed) return entry.data;
+        return transform(entry.data, new DecompressionStream(COMPRESSION_FORMAT));
+    }
+}
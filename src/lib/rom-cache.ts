@@ -1,24 +1,240 @@
-const CACHE_NAME = 'koin-rom-cache-v1';
+/**
+ * ROM Cache
+ *
+ * Keeps downloaded ROMs in the Cache API so repeat sessions start instantly.
+ * An index stored alongside the ROMs tracks size, source URL/ETag and last
+ * access, which drives LRU eviction under a byte budget and lets entries be
+ * revalidated against the server before they are used.
+ */
+
+const CACHE_NAME = 'koin-rom-cache-v2';
+// v1 had no index, so its entries can't be accounted for - drop it on first use
+const LEGACY_CACHE_NAMES = ['koin-rom-cache-v1'];
+const INDEX_KEY = '__koin-rom-index__';
+
+const DEFAULT_MAX_BYTES = 1024 * 1024 * 1024; // 1 GB when the quota is unknown
+const DEFAULT_QUOTA_FRACTION = 0.5;
+
+export interface CachedRomInfo {
+    romId: string;
+    /** URL the ROM was downloaded from */
+    url: string;
+    size: number;
+    etag?: string;
+    cachedAt: number;
+    lastAccessed: number;
+}
+
+export interface RomCacheUsage {
+    /** Bytes used by cached ROMs */
+    used: number;
+    count: number;
+    /** Bytes the cache may grow to before evicting */
+    budget: number;
+    /** Origin quota reported by navigator.storage.estimate(), if available */
+    quota?: number;
+}
+
+export interface RomCacheOptions {
+    /** Hard cap for cached ROMs in bytes */
+    maxBytes?: number;
+    /** Share of the origin's free quota the cache may use (0-1) */
+    quotaFraction?: number;
+}
+
+type RomIndex = Record<string, CachedRomInfo>;
+
+let cacheOptions: RomCacheOptions = {};
+
+/**
+ * Configure the cache budget. The effective budget is the smaller of
+ * `maxBytes` and `quotaFraction` of the storage available to the cache.
+ */
+export function configureRomCache(options: RomCacheOptions): void {
+    cacheOptions = { ...cacheOptions, ...options };
+}
+
+function isCacheAvailable(): boolean {
+    return typeof caches !== 'undefined';
+}
+
+let openPromise: Promise<Cache> | null = null;
+
+function openCache(): Promise<Cache> {
+    if (!openPromise) {
+        openPromise = (async () => {
+            await Promise.all(LEGACY_CACHE_NAMES.map(name => caches.delete(name).catch(() => false)));
+            return caches.open(CACHE_NAME);
+        })();
+        openPromise.catch(() => { openPromise = null; });
+    }
+    return openPromise;
+}
+
+async function readIndex(cache: Cache): Promise<RomIndex> {
+    try {
+        const response = await cache.match(INDEX_KEY);
+        return response ? await response.json() : {};
+    } catch {
+        return {};
+    }
+}
+
+// Index updates are read-modify-write, so run them one at a time
+let indexLock: Promise<unknown> = Promise.resolve();
+
+function updateIndex<T>(update: (cache: Cache, index: RomIndex) => Promise<T>): Promise<T> {
+    const run = indexLock.then(async () => {
+        const cache = await openCache();
+        const index = await readIndex(cache);
+        const result = await update(cache, index);
+        await cache.put(INDEX_KEY, new Response(JSON.stringify(index), {
+            headers: { 'Content-Type': 'application/json' },
+        }));
+        return result;
+    });
+    indexLock = run.catch(() => undefined);
+    return run;
+}
+
+function totalSize(index: RomIndex): number {
+    return Object.values(index).reduce((sum, entry) => sum + entry.size, 0);
+}
+
+async function estimateStorage(): Promise<{ usage: number; quota: number } | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    try {
+        const { usage, quota } = await navigator.storage.estimate();
+        return quota ? { usage: usage ?? 0, quota } : null;
+    } catch {
+        return null;
+    }
+}
+
+async function computeBudget(cacheUsed: number): Promise<{ budget: number; quota?: number }> {
+    const maxBytes = cacheOptions.maxBytes ?? DEFAULT_MAX_BYTES;
+    const estimate = await estimateStorage();
+    if (!estimate) return { budget: maxBytes };
+
+    // Space other data leaves for us, our own entries included
+    const otherUsage = Math.max(0, estimate.usage - cacheUsed);
+    const available = Math.max(0, estimate.quota - otherUsage);
+    const fraction = cacheOptions.quotaFraction ?? DEFAULT_QUOTA_FRACTION;
+    return {
+        budget: Math.min(maxBytes, Math.floor(available * fraction)),
+        quota: estimate.quota,
+    };
+}
+
+// Size/ETag of the remote file from response headers. Content-Length is only
+// comparable to the stored size when the body isn't content-encoded.
+function readRemoteInfo(response: Response): { etag?: string; size?: number } {
+    const etag = response.headers.get('ETag') ?? undefined;
+    const length = response.headers.get('Content-Length');
+    const size = length && !response.headers.get('Content-Encoding') ? Number(length) : undefined;
+    return { etag, size: Number.isFinite(size) ? size : undefined };
+}
+
+/**
+ * Check a cached entry against its URL with a conditional HEAD request.
+ * Returns false only when the server proves the file changed.
+ */
+async function isStillValid(entry: CachedRomInfo, url: string): Promise<boolean> {
+    try {
+        // Skip the HTTP cache, which would answer with the headers we cached
+        // the ROM with rather than what the server serves now
+        const response = await fetch(url, {
+            method: 'HEAD',
+            cache: 'no-store',
+            headers: entry.etag ? { 'If-None-Match': entry.etag } : undefined,
+        });
+        // 304 Not Modified: the ETag still matches
+        if (response.status === 304 || !response.ok) return true;
+        const remote = readRemoteInfo(response);
+        if (remote.etag && entry.etag) return remote.etag === entry.etag;
+        if (remote.size !== undefined) return remote.size === entry.size;
+    } catch {
+        // HEAD not allowed (CORS, signed URLs) - can't tell, keep the entry
+    }
+    return true;
+}
 
 /**
- * Get a ROM blob from the browser cache
+ * Get a ROM blob from the browser cache.
+ *
+ * Pass the current `url` to revalidate the entry: if the file served there
+ * no longer matches the cached ETag/size, whether at the URL it was cached
+ * from or a new one, the stale entry is evicted and null is returned.
  */
-export async function getCachedRom(romId: string): Promise<Blob | null> {
-    if (typeof caches === 'undefined') return null;
+export async function getCachedRom(romId: string, url?: string): Promise<Blob | null> {
+    if (!isCacheAvailable()) return null;
 
     try {
-        const cache = await caches.open(CACHE_NAME);
-        const response = await cache.match(romId);
-        if (response) {
-            console.log(`[Cache] Hit for ROM ${romId}`);
-            return await response.blob();
+        const cache = await openCache();
+        const entry = (await readIndex(cache))[romId];
+        const response = entry ? await cache.match(romId) : undefined;
+        if (!entry || !response) {
+            if (entry) await evictRom(romId);
+            return null;
+        }
+
+        if (url && !(await isStillValid(entry, url))) {
+            console.log(`[Cache] ROM ${romId} changed at source, invalidating`);
+            await evictRom(romId);
+            return null;
         }
+
+        const blob = await response.blob();
+        if (blob.size !== entry.size) {
+            console.warn(`[Cache] Size mismatch for ROM ${romId}, invalidating`);
+            await evictRom(romId);
+            return null;
+        }
+
+        await updateIndex(async (_cache, index) => {
+            if (!index[romId]) return;
+            index[romId].lastAccessed = Date.now();
+            if (url) index[romId].url = url;
+        });
+
+        console.log(`[Cache] Hit for ROM ${romId}`);
+        return blob;
     } catch (e) {
         console.warn('[Cache] Read failed:', e);
     }
     return null;
 }
 
+/**
+ * Store a ROM, evicting least recently used entries until it fits the budget.
+ * ROMs larger than the whole budget are not cached.
+ */
+async function storeRom(romId: string, url: string, blob: Blob, etag?: string): Promise<void> {
+    const { budget } = await computeBudget(totalSize(await readIndex(await openCache())));
+    if (blob.size > budget) {
+        console.warn(`[Cache] ROM ${romId} (${blob.size} bytes) exceeds cache budget, not caching`);
+        return;
+    }
+
+    await updateIndex(async (cache, index) => {
+        delete index[romId];
+        const byAge = Object.values(index).sort((a, b) => a.lastAccessed - b.lastAccessed);
+        let used = totalSize(index);
+        for (const entry of byAge) {
+            if (used + blob.size <= budget) break;
+            await cache.delete(entry.romId);
+            delete index[entry.romId];
+            used -= entry.size;
+            console.log(`[Cache] Evicted ROM ${entry.romId} (LRU)`);
+        }
+
+        await cache.put(romId, new Response(blob));
+        const now = Date.now();
+        index[romId] = { romId, url, size: blob.size, etag, cachedAt: now, lastAccessed: now };
+    });
+    console.log(`[Cache] Cached ROM ${romId}`);
+}
+
 /**
  * Fetch a ROM from a URL and cache it
  */
@@ -36,21 +252,20 @@ export async function fetchAndCacheRom(romId: string, url: string): Promise<Blob
     const fetchPromise = (async () => {
         try {
             // Check cache first (in case another tab/session just cached it)
-            const cached = await getCachedRom(romId);
+            const cached = await getCachedRom(romId, url);
             if (cached) return cached;
 
             console.log(`[Cache] Fetching ROM ${romId}...`);
             const response = await fetch(url);
             if (!response.ok) throw new Error(`Failed to fetch ROM: ${response.statusText}`);
 
+            const { etag } = readRemoteInfo(response);
             const blob = await response.blob();
 
             // Cache it
-            if (typeof caches !== 'undefined') {
+            if (isCacheAvailable()) {
                 try {
-                    const cache = await caches.open(CACHE_NAME);
-                    await cache.put(romId, new Response(blob));
-                    console.log(`[Cache] Cached ROM ${romId}`);
+                    await storeRom(romId, url, blob, etag);
                 } catch (e) {
                     console.warn('[Cache] Write failed:', e);
                 }
@@ -65,3 +280,50 @@ export async function fetchAndCacheRom(romId: string, url: string): Promise<Blob
     pendingFetches.set(romId, fetchPromise);
     return fetchPromise;
 }
+
+/**
+ * List cached ROMs, most recently used first
+ */
+export async function listCachedRoms(): Promise<CachedRomInfo[]> {
+    if (!isCacheAvailable()) return [];
+    const index = await readIndex(await openCache());
+    return Object.values(index).sort((a, b) => b.lastAccessed - a.lastAccessed);
+}
+
+/**
+ * Bytes used by cached ROMs and the budget they are held to
+ */
+export async function getCacheUsage(): Promise<RomCacheUsage> {
+    if (!isCacheAvailable()) return { used: 0, count: 0, budget: 0 };
+    const index = await readIndex(await openCache());
+    const used = totalSize(index);
+    return { used, count: Object.keys(index).length, ...(await computeBudget(used)) };
+}
+
+/**
+ * Remove one ROM from the cache
+ * @returns true if the ROM was cached
+ */
+export async function evictRom(romId: string): Promise<boolean> {
+    if (!isCacheAvailable()) return false;
+    return updateIndex(async (cache, index) => {
+        const existed = await cache.delete(romId);
+        const indexed = romId in index;
+        delete index[romId];
+        return existed || indexed;
+    });
+}
+
+/**
+ * Remove every cached ROM
+ */
+export async function clearRomCache(): Promise<void> {
+    if (!isCacheAvailable()) return;
+    const run = indexLock.then(async () => {
+        // Dropping the whole cache also removes entries an interrupted write left unindexed
+        await caches.delete(CACHE_NAME);
+        openPromise = null;
+    });
+    indexLock = run.catch(() => undefined);
+    await run;
+}
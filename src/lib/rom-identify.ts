@@ -0,0 +1,247 @@
+/**
+ * ROM Identification
+ *
+ * A file extension can't tell a Mega Drive .bin from a PlayStation one, or
+ * say what's inside a .zip. Hashing the ROM and looking it up in a
+ * No-Intro/Redump DAT gives its canonical title, region and system instead.
+ * DATs aren't shipped with the package - the host supplies one.
+ *
+ * Copier headers (iNES, Lynx, Atari 7800, SNES/PC Engine copiers) are
+ * skipped before hashing, since the DATs list headerless dumps.
+ */
+
+import { BiosRegion } from '../data/bios-data';
+import { detectRomRegion } from './bios';
+import { hashBlob } from './hash';
+import { computeRAHash } from './retroachievements';
+import { getSystem, getSystemByDbName } from './systems';
+import { RomFile, isSheet } from './emulator/rom-files';
+
+export interface RomDatabaseEntry {
+    name: string;     // Full DAT name, e.g. 'Super Mario Bros. (World)'
+    system?: string;  // System key or DAT system name ('Nintendo - Game Boy')
+    size?: number;    // Headerless size in bytes
+    crc32?: string;
+    md5?: string;
+    sha1?: string;
+}
+
+/**
+ * URL of a Logiqx XML DAT (No-Intro, Redump) or JSON file, or parsed entries
+ */
+export type RomDatabaseSource = string | RomDatabaseEntry[];
+
+export interface RomHashes {
+    crc32: string;
+    md5: string;
+    sha1: string;
+    headerSize: number; // Bytes skipped before hashing
+}
+
+export interface RomIdentity {
+    fileName: string;          // File that was hashed
+    hashes: RomHashes;
+    matched: boolean;          // Found in the database
+    name?: string;             // Full DAT name
+    title?: string;            // Name without tags, e.g. 'Super Mario Bros.'
+    region?: BiosRegion | null;
+    system?: string;           // System key, if the DAT names a known system
+    raHash?: string | null;    // RetroAchievements game hash (see computeRAHash)
+}
+
+// ============ Headers ============
+
+function startsWith(bytes: Uint8Array, magic: string, offset = 0): boolean {
+    for (let i = 0; i < magic.length; i++) {
+        if (bytes[offset + i] !== magic.charCodeAt(i)) return false;
+    }
+    return true;
+}
+
+// Copier headers are a 512-byte prefix on an otherwise 1KB-aligned dump
+const COPIER_HEADER_SYSTEMS = ['SNES', 'PC_ENGINE'];
+
+/**
+ * Size of the header to skip, from the file's first bytes and total size
+ */
+export function getRomHeaderSize(head: Uint8Array, size: number, system?: string): number {
+    if (startsWith(head, 'NES\x1a') || startsWith(head, 'FDS\x1a')) return 16;
+    if (startsWith(head, 'LYNX\0')) return 64;
+    if (startsWith(head, 'ATARI7800', 1)) return 128;
+
+    const key = system ? getSystem(system)?.key : undefined;
+    if (key && COPIER_HEADER_SYSTEMS.includes(key) && size % 1024 === 512) return 512;
+    return 0;
+}
+
+/**
+ * CRC32, MD5 and SHA1 of a ROM, without its header
+ */
+export async function hashRom(blob: Blob, system?: string): Promise<RomHashes> {
+    const head = new Uint8Array(await blob.slice(0, 16).arrayBuffer());
+    const headerSize = getRomHeaderSize(head, blob.size, system);
+    const { crc32, md5, sha1 } = await hashBlob(blob.slice(headerSize), { sha1: true });
+    return { crc32, md5, sha1: sha1!, headerSize };
+}
+
+// ============ Database ============
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+    return text.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity) => XML_ENTITIES[entity]);
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const [, key, value] of tag.matchAll(/([\w-]+)="([^"]*)"/g)) {
+        attributes[key] = decodeXml(value);
+    }
+    return attributes;
+}
+
+/**
+ * Entries of a Logiqx XML DAT. Every <rom> of a game becomes an entry, so a
+ * disc is found by any of its tracks.
+ */
+function parseDat(text: string): RomDatabaseEntry[] {
+    const system = text.match(/<header>[\s\S]*?<name>([^<]*)<\/name>/)?.[1];
+    const entries: RomDatabaseEntry[] = [];
+
+    for (const [, gameTag, body] of text.matchAll(/<(?:game|machine)\s([^>]*)>([\s\S]*?)<\/(?:game|machine)>/g)) {
+        const name = parseAttributes(gameTag).name;
+        if (!name) continue;
+        for (const [, romTag] of body.matchAll(/<rom\s([^>]*?)\/?>/g)) {
+            const rom = parseAttributes(romTag);
+            entries.push({
+                name,
+                system: system && decodeXml(system),
+                size: rom.size ? Number(rom.size) : undefined,
+                crc32: rom.crc?.toLowerCase(),
+                md5: rom.md5?.toLowerCase(),
+                sha1: rom.sha1?.toLowerCase(),
+            });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Parse a ROM database: a Logiqx XML DAT, a JSON array of entries, or
+ * `{ system, games: entries }` in JSON
+ */
+export function parseRomDatabase(text: string): RomDatabaseEntry[] {
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith('<')) return parseDat(trimmed);
+
+    const json = JSON.parse(trimmed);
+    const games: RomDatabaseEntry[] = Array.isArray(json) ? json : json.games ?? [];
+    return games.map(entry => ({
+        ...entry,
+        system: entry.system ?? json.system,
+        crc32: entry.crc32?.toLowerCase(),
+        md5: entry.md5?.toLowerCase(),
+        sha1: entry.sha1?.toLowerCase(),
+    }));
+}
+
+// Parsed databases by URL (DATs run to several MB)
+const databaseCache = new Map<string, Promise<RomDatabaseEntry[]>>();
+
+/**
+ * Fetch and parse a ROM database, once per URL
+ */
+export function loadRomDatabase(source: RomDatabaseSource): Promise<RomDatabaseEntry[]> {
+    if (typeof source !== 'string') return Promise.resolve(source);
+
+    let database = databaseCache.get(source);
+    if (!database) {
+        database = fetch(source).then(async response => {
+            if (!response.ok) throw new Error(`Failed to fetch ROM database: ${response.statusText}`);
+            return parseRomDatabase(await response.text());
+        });
+        // Let a failed download be retried
+        database.catch(() => databaseCache.delete(source));
+        databaseCache.set(source, database);
+    }
+    return database;
+}
+
+/**
+ * Database entry for a ROM's hashes: SHA1 first, then MD5, then CRC32 (plus
+ * size, since CRC32 collides)
+ */
+export function findRom(database: RomDatabaseEntry[], hashes: RomHashes, size?: number): RomDatabaseEntry | undefined {
+    return database.find(entry => entry.sha1 === hashes.sha1)
+        ?? database.find(entry => entry.md5 === hashes.md5)
+        ?? database.find(entry => entry.crc32 === hashes.crc32 && (entry.size === undefined || size === undefined || entry.size === size));
+}
+
+// ============ Identity ============
+
+/**
+ * Title without No-Intro/Redump tags ('Sonic (USA, Europe) (Rev 1)' → 'Sonic')
+ */
+export function getRomTitle(name: string): string {
+    return name.replace(/\s*[([][^)\]]*[)\]]/g, '').trim() || name;
+}
+
+/**
+ * System key for a DAT system name ('Sega - Mega Drive - Genesis' → 'GENESIS')
+ */
+export function getSystemFromDatName(datName: string): string | undefined {
+    const direct = getSystem(datName) ?? getSystemByDbName(datName);
+    if (direct) return direct.key;
+
+    // 'Company - System - Alias' (tags like '(Headerless)' dropped)
+    const parts = getRomTitle(datName).split(/\s+-\s+/);
+    const [company, ...names] = parts;
+    const candidates = [parts.join(' '), ...names.map(name => `${company} ${name}`), ...names];
+    for (const candidate of candidates) {
+        const system = getSystemByDbName(candidate) ?? getSystem(candidate);
+        if (system) return system.key;
+    }
+    return undefined;
+}
+
+/**
+ * Hash a ROM set and look it up. The first file that isn't a sheet or
+ * playlist is hashed (the data track of a disc, disc 1 of a playlist).
+ */
+export async function identifyRom(
+    files: RomFile[],
+    database: RomDatabaseEntry[] = [],
+    system?: string
+): Promise<RomIdentity | null> {
+    const file = files.find(f => !isSheet(f.fileName)) ?? files[0];
+    if (!file) return null;
+
+    const hashes = await hashRom(file.fileContent, system);
+    let entry = findRom(database, hashes, file.fileContent.size - hashes.headerSize);
+    // Headered DATs (No-Intro has one for NES) list the file as is
+    if (!entry && hashes.headerSize > 0 && database.length > 0) {
+        const { crc32, md5, sha1 } = await hashBlob(file.fileContent, { sha1: true });
+        entry = findRom(database, { crc32, md5, sha1: sha1!, headerSize: 0 }, file.fileContent.size);
+    }
+    // Disc images only have their boot sectors read
+    const raHash = system ? await computeRAHash(system, file.fileContent, file.fileName) : undefined;
+    if (!entry) return { fileName: file.fileName, hashes, matched: false, raHash };
+
+    return {
+        fileName: file.fileName,
+        hashes,
+        raHash,
+        matched: true,
+        name: entry.name,
+        title: getRomTitle(entry.name),
+        region: detectRomRegion(entry.name),
+        system: entry.system ? getSystemFromDatName(entry.system) : undefined,
+    };
+}
+
+/**
+ * Storage key for saves that follows the dump rather than the host's romId
+ */
+export function getRomSaveKey(identity: RomIdentity): string {
+    return `sha1-${identity.hashes.sha1}`;
+}
@@ -0,0 +1,197 @@
+/**
+ * Save Bundles
+ *
+ * Packs every save slot of a game into one portable file so players can back
+ * up or move their progress between devices and storage backends.
+ *
+ * Layout (little-endian):
+ *   "KOINSAVE" magic (8 bytes) | manifest length (uint32) | manifest JSON | data
+ *
+ * The manifest describes the game and core build; each slot points at its
+ * state (and optional screenshot) bytes inside the data section.
+ */
+
+export const SAVE_BUNDLE_FORMAT = 'koin-save-bundle';
+export const SAVE_BUNDLE_VERSION = 1;
+export const SAVE_BUNDLE_EXTENSION = '.koinsaves';
+
+const MAGIC = 'KOINSAVE';
+const HEADER_SIZE = MAGIC.length + 4;
+
+export interface SaveBundleSlot {
+    slot: number;
+    timestamp: string;
+    state: Blob;
+    /** Screenshot as a data URL */
+    screenshot?: string;
+}
+
+export interface SaveBundle {
+    romId: string;
+    system: string;
+    /** Core the states were created with */
+    core: string;
+    /** Core build (states are not portable across cores) */
+    coreVersion: string;
+    title?: string;
+    exportedAt: string;
+    slots: SaveBundleSlot[];
+}
+
+/** Why a bundle can't be imported into the current session */
+export type SaveBundleMismatch = 'system' | 'core';
+
+interface BundleRange {
+    offset: number;
+    length: number;
+}
+
+interface SaveBundleManifest extends Omit<SaveBundle, 'slots'> {
+    format: typeof SAVE_BUNDLE_FORMAT;
+    version: number;
+    slots: {
+        slot: number;
+        timestamp: string;
+        state: BundleRange;
+        screenshot?: BundleRange & { type: string };
+    }[];
+}
+
+async function screenshotToBlob(screenshot: string): Promise<Blob | null> {
+    try {
+        const response = await fetch(screenshot);
+        return response.ok ? await response.blob() : null;
+    } catch {
+        // Remote screenshots may be blocked by CORS - the state still exports
+        return null;
+    }
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error('FileReader error'));
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Encode a bundle as a single downloadable blob
+ */
+export async function serializeSaveBundle(bundle: SaveBundle): Promise<Blob> {
+    const parts: Blob[] = [];
+    let offset = 0;
+    const append = (blob: Blob): BundleRange => {
+        const range = { offset, length: blob.size };
+        parts.push(blob);
+        offset += blob.size;
+        return range;
+    };
+
+    const { slots, ...meta } = bundle;
+    const manifest: SaveBundleManifest = {
+        format: SAVE_BUNDLE_FORMAT,
+        version: SAVE_BUNDLE_VERSION,
+        ...meta,
+        slots: [],
+    };
+
+    for (const slot of slots) {
+        const entry: SaveBundleManifest['slots'][number] = {
+            slot: slot.slot,
+            timestamp: slot.timestamp,
+            state: append(slot.state),
+        };
+        const screenshot = slot.screenshot ? await screenshotToBlob(slot.screenshot) : null;
+        if (screenshot) {
+            entry.screenshot = { ...append(screenshot), type: screenshot.type || 'image/png' };
+        }
+        manifest.slots.push(entry);
+    }
+
+    const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+    const header = new Uint8Array(HEADER_SIZE);
+    header.set(new TextEncoder().encode(MAGIC));
+    new DataView(header.buffer).setUint32(MAGIC.length, manifestBytes.length, true);
+
+    return new Blob([header, manifestBytes, ...parts], { type: 'application/octet-stream' });
+}
+
+/**
+ * Decode a bundle file
+ * @throws Error if the file is not a supported bundle
+ */
+export async function parseSaveBundle(file: Blob): Promise<SaveBundle> {
+    const header = new Uint8Array(await file.slice(0, HEADER_SIZE).arrayBuffer());
+    if (header.length < HEADER_SIZE || new TextDecoder().decode(header.subarray(0, MAGIC.length)) !== MAGIC) {
+        throw new Error('Invalid save bundle file');
+    }
+
+    const manifestLength = new DataView(header.buffer).getUint32(MAGIC.length, true);
+    const dataStart = HEADER_SIZE + manifestLength;
+    if (dataStart > file.size) {
+        throw new Error('Save bundle file is incomplete');
+    }
+
+    let manifest: Partial<SaveBundleManifest>;
+    try {
+        manifest = JSON.parse(await file.slice(HEADER_SIZE, dataStart).text());
+    } catch {
+        throw new Error('Invalid save bundle file');
+    }
+
+    if (manifest.format !== SAVE_BUNDLE_FORMAT) {
+        throw new Error('Invalid save bundle file');
+    }
+    if (manifest.version !== SAVE_BUNDLE_VERSION) {
+        throw new Error(`Unsupported save bundle version: ${manifest.version}`);
+    }
+    if (!manifest.system || !manifest.core || !Array.isArray(manifest.slots)) {
+        throw new Error('Save bundle file is incomplete');
+    }
+
+    const read = (range: BundleRange, type?: string): Blob => {
+        const start = dataStart + range.offset;
+        if (range.offset < 0 || start + range.length > file.size) {
+            throw new Error('Save bundle file is incomplete');
+        }
+        return file.slice(start, start + range.length, type);
+    };
+
+    const slots: SaveBundleSlot[] = [];
+    for (const entry of manifest.slots) {
+        slots.push({
+            slot: entry.slot,
+            timestamp: entry.timestamp,
+            state: read(entry.state),
+            screenshot: entry.screenshot
+                ? await blobToDataUrl(read(entry.screenshot, entry.screenshot.type))
+                : undefined,
+        });
+    }
+
+    return {
+        romId: manifest.romId ?? '',
+        system: manifest.system,
+        core: manifest.core,
+        coreVersion: manifest.coreVersion ?? '',
+        title: manifest.title,
+        exportedAt: manifest.exportedAt ?? new Date().toISOString(),
+        slots,
+    };
+}
+
+/**
+ * Check a bundle against the running session. States only load on the
+ * system and core that produced them.
+ * @returns The mismatch, or null when the bundle can be imported
+ */
+export function checkSaveBundleCompatibility(
+    bundle: SaveBundle,
+    session: { system: string; core: string }
+): SaveBundleMismatch | null {
+    if (bundle.system.toUpperCase() !== session.system.toUpperCase()) return 'system';
+    if (bundle.core !== session.core) return 'core';
+    return null;
+}
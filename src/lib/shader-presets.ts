@@ -1,7 +1,8 @@
 /**
  * Available CRT Shader Presets
  * ----------------------------
- * These are loaded from libretro/glsl-shaders via Nostalgist.
+ * These are loaded from libretro/glsl-shaders via Nostalgist, unless
+ * resolvers (lib/emulator/resolvers.ts) point them at a self-hosted copy.
  * Format: { id: shader_path, name: display_name, description: tooltip }
  */
 export const SHADER_PRESETS = [
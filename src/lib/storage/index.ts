@@ -0,0 +1,14 @@
+/**
+ * Storage Adapters
+ *
+ * Single entry point for pluggable persistence.
+ * Import from here instead of individual files.
+ */
+
+// Types
+export type { KoinStorageAdapter } from './types';
+export { AUTO_SAVE_SLOT } from './types';
+
+// Adapters
+export { IndexedDBStorageAdapter } from './indexeddb';
+export { MemoryStorageAdapter } from './memory';
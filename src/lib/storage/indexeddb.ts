@@ -0,0 +1,152 @@
+/**
+ * IndexedDB Storage Adapter
+ *
+ * Default browser-local backend. Stores states, SRAM and settings
+ * in separate object stores of a single database.
+ */
+
+import { SaveSlot } from '../../components/types';
+import { KoinStorageAdapter } from './types';
+
+const DEFAULT_DB_NAME = 'koin-storage';
+const DB_VERSION = 1;
+
+const STATES_STORE = 'states';
+const SRAM_STORE = 'sram';
+const SETTINGS_STORE = 'settings';
+
+interface StoredState {
+    id: string; // romId-slot
+    romId: string;
+    slot: number;
+    blob: Blob;
+    timestamp: string;
+    screenshot?: string;
+}
+
+interface StoredSram {
+    romId: string;
+    blob: Blob;
+    timestamp: string;
+}
+
+interface StoredSettings {
+    key: string;
+    value: unknown;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export class IndexedDBStorageAdapter implements KoinStorageAdapter {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    constructor(private readonly dbName: string = DEFAULT_DB_NAME) { }
+
+    private openDB(): Promise<IDBDatabase> {
+        if (typeof indexedDB === 'undefined') {
+            return Promise.reject(new Error('IndexedDB is not available'));
+        }
+
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(this.dbName, DB_VERSION);
+
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+                request.onsuccess = () => resolve(request.result);
+
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(STATES_STORE)) {
+                        const store = db.createObjectStore(STATES_STORE, { keyPath: 'id' });
+                        store.createIndex('romId', 'romId', { unique: false });
+                    }
+                    if (!db.objectStoreNames.contains(SRAM_STORE)) {
+                        db.createObjectStore(SRAM_STORE, { keyPath: 'romId' });
+                    }
+                    if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+                        db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
+                    }
+                };
+            });
+        }
+
+        return this.dbPromise;
+    }
+
+    private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const db = await this.openDB();
+        return db.transaction(name, mode).objectStore(name);
+    }
+
+    async saveState(romId: string, slot: number, blob: Blob, screenshot?: string): Promise<void> {
+        const store = await this.store(STATES_STORE, 'readwrite');
+        const data: StoredState = {
+            id: `${romId}-${slot}`,
+            romId,
+            slot,
+            blob,
+            timestamp: new Date().toISOString(),
+            screenshot,
+        };
+        await promisify(store.put(data));
+    }
+
+    async loadState(romId: string, slot: number): Promise<Blob | null> {
+        const store = await this.store(STATES_STORE, 'readonly');
+        const data = await promisify(store.get(`${romId}-${slot}`)) as StoredState | undefined;
+        return data ? data.blob : null;
+    }
+
+    async listSlots(romId: string): Promise<SaveSlot[]> {
+        const store = await this.store(STATES_STORE, 'readonly');
+        const results = await promisify(store.index('romId').getAll(IDBKeyRange.only(romId))) as StoredState[];
+        return results
+            .map(item => ({
+                slot: item.slot,
+                timestamp: item.timestamp,
+                size: item.blob.size,
+                screenshot: item.screenshot,
+            }))
+            .sort((a, b) => a.slot - b.slot);
+    }
+
+    async deleteState(romId: string, slot: number): Promise<void> {
+        const store = await this.store(STATES_STORE, 'readwrite');
+        await promisify(store.delete(`${romId}-${slot}`));
+    }
+
+    async saveSram(romId: string, blob: Blob): Promise<void> {
+        const store = await this.store(SRAM_STORE, 'readwrite');
+        const data: StoredSram = { romId, blob, timestamp: new Date().toISOString() };
+        await promisify(store.put(data));
+    }
+
+    async loadSram(romId: string): Promise<Blob | null> {
+        const store = await this.store(SRAM_STORE, 'readonly');
+        const data = await promisify(store.get(romId)) as StoredSram | undefined;
+        return data ? data.blob : null;
+    }
+
+    async loadSettings<T = Record<string, unknown>>(key: string): Promise<T | null> {
+        const store = await this.store(SETTINGS_STORE, 'readonly');
+        const data = await promisify(store.get(key)) as StoredSettings | undefined;
+        return data ? data.value as T : null;
+    }
+
+    async saveSettings<T = Record<string, unknown>>(key: string, value: T): Promise<void> {
+        const store = await this.store(SETTINGS_STORE, 'readwrite');
+        const data: StoredSettings = { key, value };
+        await promisify(store.put(data));
+    }
+}
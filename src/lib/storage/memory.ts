@@ -0,0 +1,80 @@
+/**
+ * In-Memory Storage Adapter
+ *
+ * Non-persistent backend for tests, demos and SSR. Data lives only as long
+ * as the adapter instance.
+ */
+
+import { SaveSlot } from '../../components/types';
+import { KoinStorageAdapter } from './types';
+
+interface MemoryState {
+    blob: Blob;
+    timestamp: string;
+    screenshot?: string;
+}
+
+export class MemoryStorageAdapter implements KoinStorageAdapter {
+    private states = new Map<string, Map<number, MemoryState>>();
+    private srams = new Map<string, Blob>();
+    private settings = new Map<string, unknown>();
+
+    private slotsFor(romId: string): Map<number, MemoryState> {
+        let slots = this.states.get(romId);
+        if (!slots) {
+            slots = new Map();
+            this.states.set(romId, slots);
+        }
+        return slots;
+    }
+
+    async saveState(romId: string, slot: number, blob: Blob, screenshot?: string): Promise<void> {
+        this.slotsFor(romId).set(slot, { blob, screenshot, timestamp: new Date().toISOString() });
+    }
+
+    async loadState(romId: string, slot: number): Promise<Blob | null> {
+        return this.states.get(romId)?.get(slot)?.blob ?? null;
+    }
+
+    async listSlots(romId: string): Promise<SaveSlot[]> {
+        const slots = this.states.get(romId);
+        if (!slots) return [];
+        return Array.from(slots.entries())
+            .map(([slot, state]) => ({
+                slot,
+                timestamp: state.timestamp,
+                size: state.blob.size,
+                screenshot: state.screenshot,
+            }))
+            .sort((a, b) => a.slot - b.slot);
+    }
+
+    async deleteState(romId: string, slot: number): Promise<void> {
+        this.states.get(romId)?.delete(slot);
+    }
+
+    async saveSram(romId: string, blob: Blob): Promise<void> {
+        this.srams.set(romId, blob);
+    }
+
+    async loadSram(romId: string): Promise<Blob | null> {
+        return this.srams.get(romId) ?? null;
+    }
+
+    async loadSettings<T = Record<string, unknown>>(key: string): Promise<T | null> {
+        return (this.settings.get(key) as T | undefined) ?? null;
+    }
+
+    async saveSettings<T = Record<string, unknown>>(key: string, value: T): Promise<void> {
+        this.settings.set(key, value);
+    }
+
+    /**
+     * Drop everything (useful between test cases)
+     */
+    clear(): void {
+        this.states.clear();
+        this.srams.clear();
+        this.settings.clear();
+    }
+}
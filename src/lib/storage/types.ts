@@ -0,0 +1,38 @@
+/**
+ * Storage Adapter Types
+ *
+ * A single interface covering everything the player persists per game:
+ * save states, battery saves (SRAM) and player settings.
+ */
+
+import { SaveSlot } from '../../components/types';
+
+/**
+ * Slot reserved for auto-saves (shown separately in the save slot modal)
+ */
+export const AUTO_SAVE_SLOT = 5;
+
+/**
+ * Pluggable persistence backend for GamePlayer's `storage` prop.
+ * Every method is async so adapters can be backed by IndexedDB, a REST API, etc.
+ */
+export interface KoinStorageAdapter {
+    /** Write a save state to a slot, replacing any existing data */
+    saveState(romId: string, slot: number, blob: Blob, screenshot?: string): Promise<void>;
+    /** Read a save state, or null if the slot is empty */
+    loadState(romId: string, slot: number): Promise<Blob | null>;
+    /** List all occupied slots for a game */
+    listSlots(romId: string): Promise<SaveSlot[]>;
+    /** Remove a save state */
+    deleteState(romId: string, slot: number): Promise<void>;
+
+    /** Write the game's battery save (.srm) */
+    saveSram(romId: string, blob: Blob): Promise<void>;
+    /** Read the game's battery save, or null if none exists */
+    loadSram(romId: string): Promise<Blob | null>;
+
+    /** Read a settings document by key */
+    loadSettings<T = Record<string, unknown>>(key: string): Promise<T | null>;
+    /** Write a settings document by key */
+    saveSettings<T = Record<string, unknown>>(key: string, value: T): Promise<void>;
+}
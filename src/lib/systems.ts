@@ -11,10 +11,10 @@
  * All other files should import from here instead of maintaining their own mappings.
  */
 
-import { SYSTEMS, SystemConfig } from '../data/systems-data';
+import { SYSTEMS, SystemConfig, CORE_OPTIONS, CoreOptionDefinition } from '../data/systems-data';
 
-export type { SystemConfig };
-export { SYSTEMS };
+export type { SystemConfig, CoreOptionDefinition };
+export { SYSTEMS, CORE_OPTIONS };
 
 // ============ Lookup Maps (built from SYSTEMS) ============
 
@@ -95,6 +95,13 @@ export function getCore(systemName: string): string {
     return sys?.core ?? 'fceumm';
 }
 
+/**
+ * Core options editable in the player for a system's core (empty if none)
+ */
+export function getCoreOptionDefinitions(systemName: string, coreOverride?: string): CoreOptionDefinition[] {
+    return CORE_OPTIONS[coreOverride || getCore(systemName)] ?? [];
+}
+
 /**
  * Get the core source for a system (nostalgist or emulatorjs)
  * Returns undefined if using default (nostalgist)
@@ -149,6 +156,7 @@ export function getSystemsList(): Array<{ value: string; label: string; iconName
 /**
  * Detect system from filename
  * Returns null for ZIP files (user must select)
+ * Extensions shared by systems (.bin, .iso) need identifyRom (lib/rom-identify)
  */
 export function detectSystem(filename: string): SystemConfig | undefined {
     const ext = filename.match(/\.[^.]+$/)?.[0]?.toLowerCase();
@@ -182,13 +190,35 @@ export function getMaxFileSizeMB(systemName: string): number {
     return sys?.maxFileSizeMB ?? 100;
 }
 
+/**
+ * Frame rate the core should run a system at (Hz). PAL consoles run slower:
+ * a PAL region core option wins, then a European ROM unless an option forces
+ * another region.
+ */
+export function getTargetFrameRate(
+    systemName: string,
+    { coreOptions = {}, region }: { coreOptions?: Record<string, string>; region?: string | null } = {}
+): number {
+    const sys = getSystem(systemName);
+    const frameRate = sys?.frameRate ?? 60;
+    if (!sys?.palFrameRate) return frameRate;
+
+    const regions = Object.entries(coreOptions)
+        .filter(([key]) => /region/i.test(key))
+        .map(([, value]) => value.toLowerCase());
+    // Dendy clones run at PAL speed
+    if (regions.some(value => /pal|dendy/.test(value))) return sys.palFrameRate;
+    if (regions.some(value => value.includes('ntsc'))) return frameRate;
+    return region === 'eu' ? sys.palFrameRate : frameRate;
+}
+
 // Legacy export names for backward compatibility
 export const SUPPORTED_EXTENSIONS = getSupportedExtensions();
 
 // Performance Optimization Tiers
 // ===============================
 // Systems are grouped by CPU complexity to apply optimal RetroArch settings.
-// See useEmulatorCore.ts getOptimizedConfig() for the actual settings applied.
+// See lib/emulator/config.ts getOptimizedConfig() for the actual settings applied.
 
 /**
  * TIER 1: "Zero Lag" - Lightweight Systems
@@ -214,7 +244,7 @@ export const PERFORMANCE_TIER_1_SYSTEMS = new Set([
  * Instead, we optimize for smooth, consistent frame delivery:
  * - Threaded video rendering to prevent UI freezes
  * - Larger audio buffers to prevent crackling
- * - Disabled manual rewind capture (saves RAM and CPU cycles)
+ * - Manual rewind capture off by default (opt in via `rewindOnHeavySystems`)
  */
 export const PERFORMANCE_TIER_2_SYSTEMS = new Set([
     'PS1', 'N64', 'GBA', 'SATURN', 'DREAMCAST',
@@ -0,0 +1,120 @@
+/**
+ * Zip Reader
+ *
+ * Minimal reader for the zip archives ROM sets ship in. Entries are located
+ * through the central directory and inflated with the browser's
+ * DecompressionStream, so there is no bundled inflate implementation.
+ *
+ * Supports stored and deflated entries. Zip64, encryption and multi-part
+ * archives are rejected.
+ */
+
+export interface ZipEntry {
+    /** Path inside the archive ('tracks/track01.bin') */
+    name: string;
+    size: number;
+    /** Decompress the entry */
+    read: () => Promise<Blob>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const EOCD_SIZE = 22;
+const CENTRAL_HEADER_SIZE = 46;
+const LOCAL_HEADER_SIZE = 30;
+// The archive comment (at most 64KB) sits after the end record
+const MAX_EOCD_SEARCH = EOCD_SIZE + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+export function isZip(nameOrUrl: string): boolean {
+    return /\.zip(\?|#|$)/i.test(nameOrUrl);
+}
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+    return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+function findEndOfCentralDirectory(tail: DataView): number {
+    for (let i = tail.byteLength - EOCD_SIZE; i >= 0; i--) {
+        if (tail.getUint32(i, true) === EOCD_SIGNATURE) return i;
+    }
+    return -1;
+}
+
+async function inflate(data: Blob): Promise<Blob> {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('Zip archives need DecompressionStream support');
+    }
+    const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw' as CompressionFormat));
+    return new Response(stream).blob();
+}
+
+/**
+ * List the files of a zip archive (directories are skipped)
+ */
+export async function readZip(blob: Blob): Promise<ZipEntry[]> {
+    const tailStart = Math.max(0, blob.size - MAX_EOCD_SEARCH);
+    const tail = await readBytes(blob, tailStart, blob.size);
+    const eocd = findEndOfCentralDirectory(tail);
+    if (eocd < 0) throw new Error('Not a zip archive');
+
+    const entryCount = tail.getUint16(eocd + 10, true);
+    const directorySize = tail.getUint32(eocd + 12, true);
+    const directoryOffset = tail.getUint32(eocd + 16, true);
+    if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+        throw new Error('Zip64 archives are not supported');
+    }
+
+    const directory = await readBytes(blob, directoryOffset, directoryOffset + directorySize);
+    const utf8 = new TextDecoder('utf-8');
+    const latin1 = new TextDecoder('latin1');
+    const entries: ZipEntry[] = [];
+
+    let pos = 0;
+    for (let i = 0; i < entryCount; i++) {
+        if (directory.getUint32(pos, true) !== CENTRAL_SIGNATURE) {
+            throw new Error('Corrupt zip central directory');
+        }
+        const flags = directory.getUint16(pos + 8, true);
+        const method = directory.getUint16(pos + 10, true);
+        const compressedSize = directory.getUint32(pos + 20, true);
+        const size = directory.getUint32(pos + 24, true);
+        const nameLength = directory.getUint16(pos + 28, true);
+        const extraLength = directory.getUint16(pos + 30, true);
+        const commentLength = directory.getUint16(pos + 32, true);
+        const localOffset = directory.getUint32(pos + 42, true);
+
+        const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + pos + CENTRAL_HEADER_SIZE, nameLength);
+        const name = (flags & FLAG_UTF8 ? utf8 : latin1).decode(nameBytes);
+        pos += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        if (flags & FLAG_ENCRYPTED) throw new Error(`Encrypted zip entry: ${name}`);
+        if (method !== METHOD_STORED && method !== METHOD_DEFLATE) {
+            throw new Error(`Unsupported zip compression method ${method}: ${name}`);
+        }
+
+        entries.push({
+            name,
+            size,
+            read: async () => {
+                // Local header name/extra lengths can differ from the central directory's
+                const local = await readBytes(blob, localOffset, localOffset + LOCAL_HEADER_SIZE);
+                if (local.getUint32(0, true) !== LOCAL_SIGNATURE) {
+                    throw new Error(`Corrupt zip entry: ${name}`);
+                }
+                const dataStart = localOffset + LOCAL_HEADER_SIZE + local.getUint16(26, true) + local.getUint16(28, true);
+                const data = blob.slice(dataStart, dataStart + compressedSize);
+                return method === METHOD_STORED ? data : inflate(data);
+            },
+        });
+    }
+
+    return entries;
+}
@@ -25,6 +25,8 @@ export const en: KoinTranslations = {
         press: 'Press',
         startBtn: 'START',
         selectBtn: 'SEL',
+        disc: 'Disc {{num}}/{{count}}',
+        changeDisc: 'Change Disc',
     },
     common: {
         disabledInHardcore: 'Disabled in Hardcore mode',
@@ -49,6 +51,19 @@ export const en: KoinTranslations = {
         selectLanguage: 'Select Language',
         haptics: 'Haptic Feedback',
         enableHaptics: 'Vibration',
+        hotkeys: 'Hotkeys',
+        editHotkeys: 'Edit Hotkeys',
+        coreOptions: 'Core Options',
+        coreOptionsEmpty: 'This core has no adjustable options',
+        coreOptionsRestartNotice: 'Options marked * restart the game',
+        resetDefaults: 'Reset to Defaults',
+        apply: 'Apply',
+        runAhead: 'Run-Ahead',
+        runAheadFrames: 'Run-Ahead Frames',
+        threadedVideo: 'Threaded Video',
+        audioLatency: 'Audio Latency (ms)',
+        advancedNotice: 'For games that stutter or crackle. Applying reloads the game.',
+        effectiveConfig: 'Effective config',
     },
     overlay: {
         play: 'PLAY',
@@ -59,6 +74,7 @@ export const en: KoinTranslations = {
         preparingSlot: 'Preparing slot {{num}}',
         systemError: 'System Error',
         failedInit: 'Failed to initialize emulator',
+        missingFiles: 'Missing game files: {{files}}',
         retry: 'Retry',
         slotReady: 'Slot {{num}} ready',
         paused: 'Paused',
@@ -87,8 +103,79 @@ export const en: KoinTranslations = {
         insertCoinTitle: '🪙 Insert Coin',
         controlsSaved: 'Controls saved',
         controlsReset: 'Controls reset to defaults',
+        movieRecordingStarted: 'Input movie recording started',
+        movieSaved: 'Input movie saved',
+        moviePlaybackStarted: 'Replaying input movie',
+        moviePlaybackFinished: 'Input movie finished',
+        movieInvalid: 'Invalid input movie file',
+        movieWrongGame: 'This movie was recorded for a different game',
+        savesExported: 'Saves exported',
+        savesImported: 'Imported {{count}} saves',
+        noSavesToExport: 'No saves to export',
+        saveBundleInvalid: 'Invalid save bundle file',
+        saveBundleWrongSystem: 'These saves are for {{system}}, not {{current}}',
+        saveBundleWrongCore: 'These saves were made with the {{core}} core and cannot be loaded by {{current}}',
+        saveBundleOverwrite: 'Importing will overwrite existing saves in the same slots. Continue?',
+        hotkeysSaved: 'Hotkeys saved',
+        hotkeysReset: 'Hotkeys reset to defaults',
+        slotSelected: 'Slot {{num}} selected',
+        discInserted: 'Disc {{num}} inserted',
+        coreOptionsApplied: 'Core options applied',
+        coreOptionsRestarted: 'Core options applied - game restarted',
+        coreOptionsFailed: 'Failed to apply core options',
+        coreOptionsSaved: 'Core options saved',
+        advancedSettingsApplied: 'Advanced settings applied',
+        advancedSettingsFailed: 'Failed to apply advanced settings',
+        advancedSettingsSaved: 'Advanced settings saved',
+        performanceReduced: 'Lowering quality to keep up: {{step}}',
+        performanceRestored: 'Quality restored: {{step}}',
+        performanceReducePending: 'Lowering quality would help: {{step}}',
+        performanceRestorePending: 'Quality can be restored: {{step}}',
+        performanceReload: 'Reload now',
+        appliesOnRestart: 'Applies on the next restart',
+        shaderSelected: 'Shader: {{name}}',
     },
     modals: {
+        hotkeys: {
+            title: 'Hotkeys',
+            description: 'Player shortcuts on the keyboard and gamepad',
+            keyboard: 'Keyboard',
+            gamepad: 'Gamepad',
+            enableButton: 'Hotkey enable',
+            enableHint: 'Hold this button, then press the hotkey button',
+            off: 'Off',
+            pressKey: 'Press key...',
+            pressButton: 'Press button...',
+            clear: 'Clear',
+            reset: 'Reset Defaults',
+            save: 'Save',
+            groups: {
+                states: 'Save States',
+                playback: 'Playback',
+                capture: 'Capture',
+                display: 'Display',
+                overlays: 'Overlays',
+            },
+            actions: {
+                save: 'Save state',
+                load: 'Load state',
+                nextSlot: 'Next slot',
+                prevSlot: 'Previous slot',
+                fastForward: 'Fast forward (hold)',
+                rewind: 'Rewind (hold)',
+                screenshot: 'Screenshot',
+                record: 'Record video',
+                pause: 'Pause',
+                fullscreen: 'Fullscreen',
+                mute: 'Mute',
+                shaderCycle: 'Next shader',
+                help: 'Show this help',
+                perfOverlay: 'Performance overlay',
+                inputDisplay: 'Input display',
+                movieRecord: 'Record input movie',
+                moviePlay: 'Play input movie',
+            },
+        },
         shortcuts: {
             title: 'Keyboard Shortcuts',
             playerShortcuts: 'Player Shortcuts',
@@ -98,6 +185,8 @@ export const en: KoinTranslations = {
             perfOverlay: 'Performance Overlay',
             inputDisplay: 'Input Display',
             toggleRec: 'Toggle Recording',
+            toggleMovie: 'Record Input Movie',
+            playMovie: 'Replay Input Movie',
             toggleMute: 'Toggle Mute',
             pressEsc: 'Press ESC to close',
         },
@@ -119,6 +208,11 @@ export const en: KoinTranslations = {
             pressAny: 'Press any button on your gamepad to connect',
             waiting: 'Waiting for input...',
             pressButton: 'Press a button on your controller for {{button}}',
+            moveAxis: 'Move {{input}} on your controller',
+            analog: 'Analog',
+            invert: 'Invert',
+            deadzone: 'Deadzone',
+            sensitivity: 'Sensitivity',
             pressEsc: 'Press Escape to cancel',
             reset: 'Reset to Default',
             save: 'Save Settings',
@@ -152,6 +246,8 @@ export const en: KoinTranslations = {
             slot: 'Slot {{num}}',
             footerSave: 'Saves are stored in the cloud and sync across devices',
             footerLoad: 'Your progress will be restored to the selected save point',
+            exportAll: 'Export all',
+            importAll: 'Import',
         },
         bios: {
             title: 'BIOS Selection',
@@ -164,6 +260,12 @@ export const en: KoinTranslations = {
             emptyTitle: 'No BIOS files found for this console.',
             emptyDesc: 'Upload BIOS files in your Dashboard Library.',
             footer: 'System Firmware Settings',
+            checkTitle: 'BIOS Check',
+            statusOk: 'Verified',
+            statusBadHash: 'Bad dump',
+            statusMissing: 'Missing',
+            statusUnknown: 'Unverified',
+            mountedAs: 'Used as {{names}}',
         },
     },
     retroAchievements: {
@@ -208,10 +310,18 @@ export const en: KoinTranslations = {
             title: 'Stats',
             fps: 'FPS',
             frameTime: 'FT',
+            skipped: 'SKIP',
+            audio: 'AUDIO',
             memory: 'MEM',
             core: 'Core',
             input: 'INPUT',
             active: 'ACTIVE',
+            steps: {
+                rewind: 'rewind',
+                runAhead: 'run-ahead',
+                audioLatency: 'audio latency',
+                shader: 'shader',
+            },
         },
         toast: {
             saved: 'Game Saved',
@@ -229,5 +339,47 @@ export const en: KoinTranslations = {
             stop: 'Stop and save recording',
             hover: 'Hover for controls',
         },
+        movie: {
+            recording: 'MOVIE REC',
+            playing: 'REPLAY',
+            frame: 'Frame {{frame}}',
+        },
+        netplay: {
+            hosting: 'Waiting for player 2 to join',
+            joining: 'Connecting to host',
+            room: 'Room',
+            copyRoom: 'Copy room code',
+            syncing: 'Syncing game state',
+            waiting: 'Waiting for the other player',
+            disconnected: 'The other player disconnected',
+            error: 'Netplay connection failed',
+            leave: 'Play offline',
+            player: 'P{{num}}',
+        },
+        layoutEditor: {
+            title: 'Edit Layout',
+            hint: 'Tap a button to edit it',
+            custom: 'Custom',
+            size: 'Size',
+            opacity: 'Opacity',
+            shape: 'Shape',
+            shapes: {
+                circle: 'Circle',
+                square: 'Square',
+                rect: 'Wide',
+                pill: 'Pill',
+            },
+            label: 'Label',
+            buttons: 'Presses',
+            portrait: 'Portrait',
+            landscape: 'Landscape',
+            add: 'Add button',
+            remove: 'Remove',
+            export: 'Export',
+            import: 'Import',
+            reset: 'Reset to default',
+            invalidFile: 'Not a valid layout file',
+            wrongSystem: 'This layout was made for {{system}}',
+        },
     },
 };
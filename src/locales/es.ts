@@ -25,6 +25,8 @@ export const es: KoinTranslations = {
         press: 'Pulsa',
         startBtn: 'START',
         selectBtn: 'SELECT',
+        disc: 'Disco {{num}}/{{count}}',
+        changeDisc: 'Cambiar disco',
     },
     common: {
         disabledInHardcore: 'Desactivado en modo Hardcore',
@@ -49,6 +51,19 @@ export const es: KoinTranslations = {
         selectLanguage: 'Seleccionar idioma',
         haptics: 'Vibración',
         enableHaptics: 'Habilitar vibración',
+        hotkeys: 'Atajos',
+        editHotkeys: 'Editar atajos',
+        coreOptions: 'Opciones del núcleo',
+        coreOptionsEmpty: 'Este núcleo no tiene opciones ajustables',
+        coreOptionsRestartNotice: 'Las opciones marcadas con * reinician el juego',
+        resetDefaults: 'Restablecer valores',
+        apply: 'Aplicar',
+        runAhead: 'Run-Ahead',
+        runAheadFrames: 'Fotogramas de Run-Ahead',
+        threadedVideo: 'Vídeo en hilo aparte',
+        audioLatency: 'Latencia de audio (ms)',
+        advancedNotice: 'Para juegos con tirones o chasquidos. Aplicar recarga el juego.',
+        effectiveConfig: 'Configuración efectiva',
     },
     overlay: {
         play: 'JUGAR',
@@ -59,6 +74,7 @@ export const es: KoinTranslations = {
         preparingSlot: 'Preparando ranura {{num}}',
         systemError: 'Error del sistema',
         failedInit: 'Error al inicializar el emulador',
+        missingFiles: 'Faltan archivos del juego: {{files}}',
         retry: 'Reintentar',
         slotReady: 'Ranura {{num}} lista',
         paused: 'Pausado',
@@ -87,8 +103,79 @@ export const es: KoinTranslations = {
         insertCoinTitle: '🪙 Insertar Moneda',
         controlsSaved: 'Controles guardados',
         controlsReset: 'Controles restablecidos',
+        movieRecordingStarted: 'Grabación de entradas iniciada',
+        movieSaved: 'Película de entradas guardada',
+        moviePlaybackStarted: 'Reproduciendo película de entradas',
+        moviePlaybackFinished: 'Película de entradas finalizada',
+        movieInvalid: 'Archivo de película de entradas no válido',
+        movieWrongGame: 'Esta película se grabó para otro juego',
+        savesExported: 'Partidas exportadas',
+        savesImported: '{{count}} partidas importadas',
+        noSavesToExport: 'No hay partidas para exportar',
+        saveBundleInvalid: 'Archivo de partidas no válido',
+        saveBundleWrongSystem: 'Estas partidas son de {{system}}, no de {{current}}',
+        saveBundleWrongCore: 'Estas partidas se crearon con el núcleo {{core}} y no se pueden cargar en {{current}}',
+        saveBundleOverwrite: 'La importación sobrescribirá las partidas existentes en los mismos espacios. ¿Continuar?',
+        hotkeysSaved: 'Atajos guardados',
+        hotkeysReset: 'Atajos restablecidos',
+        slotSelected: 'Ranura {{num}} seleccionada',
+        discInserted: 'Disco {{num}} insertado',
+        coreOptionsApplied: 'Opciones del núcleo aplicadas',
+        coreOptionsRestarted: 'Opciones del núcleo aplicadas - juego reiniciado',
+        coreOptionsFailed: 'No se pudieron aplicar las opciones del núcleo',
+        coreOptionsSaved: 'Opciones del núcleo guardadas',
+        advancedSettingsApplied: 'Ajustes avanzados aplicados',
+        advancedSettingsFailed: 'No se pudieron aplicar los ajustes avanzados',
+        advancedSettingsSaved: 'Ajustes avanzados guardados',
+        performanceReduced: 'Bajando la calidad para mantener el ritmo: {{step}}',
+        performanceRestored: 'Calidad restaurada: {{step}}',
+        performanceReducePending: 'Bajar la calidad ayudaría: {{step}}',
+        performanceRestorePending: 'Se puede restaurar la calidad: {{step}}',
+        performanceReload: 'Recargar ahora',
+        appliesOnRestart: 'Se aplicará al reiniciar',
+        shaderSelected: 'Shader: {{name}}',
     },
     modals: {
+        hotkeys: {
+            title: 'Atajos',
+            description: 'Atajos del reproductor en teclado y mando',
+            keyboard: 'Teclado',
+            gamepad: 'Mando',
+            enableButton: 'Activar atajos',
+            enableHint: 'Mantén este botón y pulsa el botón del atajo',
+            off: 'Desactivado',
+            pressKey: 'Pulsa una tecla...',
+            pressButton: 'Pulsa un botón...',
+            clear: 'Borrar',
+            reset: 'Restablecer',
+            save: 'Guardar',
+            groups: {
+                states: 'Partidas guardadas',
+                playback: 'Reproducción',
+                capture: 'Captura',
+                display: 'Pantalla',
+                overlays: 'Superposiciones',
+            },
+            actions: {
+                save: 'Guardar estado',
+                load: 'Cargar estado',
+                nextSlot: 'Ranura siguiente',
+                prevSlot: 'Ranura anterior',
+                fastForward: 'Avance rápido (mantener)',
+                rewind: 'Rebobinar (mantener)',
+                screenshot: 'Captura de pantalla',
+                record: 'Grabar vídeo',
+                pause: 'Pausa',
+                fullscreen: 'Pantalla completa',
+                mute: 'Silenciar',
+                shaderCycle: 'Siguiente shader',
+                help: 'Mostrar esta ayuda',
+                perfOverlay: 'Panel de rendimiento',
+                inputDisplay: 'Mostrar entradas',
+                movieRecord: 'Grabar película de entradas',
+                moviePlay: 'Reproducir película de entradas',
+            },
+        },
         shortcuts: {
             title: 'Atajos de teclado',
             playerShortcuts: 'Atajos del reproductor',
@@ -98,6 +185,8 @@ export const es: KoinTranslations = {
             perfOverlay: 'Superposición de rendimiento',
             inputDisplay: 'Mostrar entrada',
             toggleRec: 'Alternar grabación',
+            toggleMovie: 'Grabar película de entradas',
+            playMovie: 'Reproducir película de entradas',
             toggleMute: 'Alternar silencio',
             pressEsc: 'Pulsa ESC para cerrar',
         },
@@ -119,6 +208,11 @@ export const es: KoinTranslations = {
             pressAny: 'Pulsa cualquier botón para conectar',
             waiting: 'Esperando entrada...',
             pressButton: 'Pulsa botón para {{button}}',
+            moveAxis: 'Mueve {{input}} en tu mando',
+            analog: 'Analógico',
+            invert: 'Invertir',
+            deadzone: 'Zona muerta',
+            sensitivity: 'Sensibilidad',
             pressEsc: 'Pulsa Escape para cancelar',
             reset: 'Restablecer',
             save: 'Guardar ajustes',
@@ -152,6 +246,8 @@ export const es: KoinTranslations = {
             slot: 'Ranura {{num}}',
             footerSave: 'Las partidas se guardan en la nube y se sincronizan',
             footerLoad: 'Tu progreso se restaurará al punto seleccionado',
+            exportAll: 'Exportar todo',
+            importAll: 'Importar',
         },
         bios: {
             title: 'Selección de BIOS',
@@ -164,6 +260,12 @@ export const es: KoinTranslations = {
             emptyTitle: 'No se encontraron archivos de BIOS.',
             emptyDesc: 'Sube archivos BIOS en tu biblioteca.',
             footer: 'Firmware del sistema',
+            checkTitle: 'Verificación de BIOS',
+            statusOk: 'Verificada',
+            statusBadHash: 'Volcado incorrecto',
+            statusMissing: 'Falta',
+            statusUnknown: 'Sin verificar',
+            mountedAs: 'Usada como {{names}}',
         },
     },
     retroAchievements: {
@@ -208,10 +310,18 @@ export const es: KoinTranslations = {
             title: 'Estadísticas',
             fps: 'FPS',
             frameTime: 'FT',
+            skipped: 'SALTOS',
+            audio: 'AUDIO',
             memory: 'MEM',
             core: 'Core',
             input: 'ENTRADA',
             active: 'ACTIVO',
+            steps: {
+                rewind: 'rebobinado',
+                runAhead: 'run-ahead',
+                audioLatency: 'latencia de audio',
+                shader: 'shader',
+            },
         },
         toast: {
             saved: 'Juego guardado',
@@ -229,5 +339,47 @@ export const es: KoinTranslations = {
             stop: 'Detener y guardar',
             hover: 'Controles',
         },
+        movie: {
+            recording: 'GRAB. PELÍCULA',
+            playing: 'REPETICIÓN',
+            frame: 'Fotograma {{frame}}',
+        },
+        netplay: {
+            hosting: 'Esperando al jugador 2',
+            joining: 'Conectando con el anfitrión',
+            room: 'Sala',
+            copyRoom: 'Copiar código de sala',
+            syncing: 'Sincronizando partida',
+            waiting: 'Esperando al otro jugador',
+            disconnected: 'El otro jugador se desconectó',
+            error: 'Falló la conexión en línea',
+            leave: 'Jugar sin conexión',
+            player: 'J{{num}}',
+        },
+        layoutEditor: {
+            title: 'Editar diseño',
+            hint: 'Toca un botón para editarlo',
+            custom: 'Personalizado',
+            size: 'Tamaño',
+            opacity: 'Opacidad',
+            shape: 'Forma',
+            shapes: {
+                circle: 'Círculo',
+                square: 'Cuadrado',
+                rect: 'Ancho',
+                pill: 'Píldora',
+            },
+            label: 'Etiqueta',
+            buttons: 'Pulsa',
+            portrait: 'Vertical',
+            landscape: 'Horizontal',
+            add: 'Añadir botón',
+            remove: 'Quitar',
+            export: 'Exportar',
+            import: 'Importar',
+            reset: 'Restablecer',
+            invalidFile: 'No es un archivo de diseño válido',
+            wrongSystem: 'Este diseño es para {{system}}',
+        },
     },
 };
@@ -25,6 +25,8 @@ export const fr: KoinTranslations = {
         press: 'Appuyez',
         startBtn: 'START',
         selectBtn: 'SELECT',
+        disc: 'Disque {{num}}/{{count}}',
+        changeDisc: 'Changer de disque',
     },
     common: {
         disabledInHardcore: 'Désactivé en mode Hardcore',
@@ -49,6 +51,19 @@ export const fr: KoinTranslations = {
         selectLanguage: 'Choisir la langue',
         haptics: 'Vibration',
         enableHaptics: 'Activer la vibration',
+        hotkeys: 'Raccourcis',
+        editHotkeys: 'Modifier les raccourcis',
+        coreOptions: 'Options du cœur',
+        coreOptionsEmpty: 'Ce cœur n\'a pas d\'options réglables',
+        coreOptionsRestartNotice: 'Les options marquées * redémarrent le jeu',
+        resetDefaults: 'Valeurs par défaut',
+        apply: 'Appliquer',
+        runAhead: 'Run-Ahead',
+        runAheadFrames: 'Images de Run-Ahead',
+        threadedVideo: 'Vidéo multithread',
+        audioLatency: 'Latence audio (ms)',
+        advancedNotice: 'Pour les jeux qui saccadent ou grésillent. Appliquer recharge le jeu.',
+        effectiveConfig: 'Configuration effective',
     },
     overlay: {
         play: 'JOUER',
@@ -59,6 +74,7 @@ export const fr: KoinTranslations = {
         preparingSlot: 'Préparation de l\'emplacement {{num}}',
         systemError: 'Erreur système',
         failedInit: 'Échec de l\'initialisation',
+        missingFiles: 'Fichiers du jeu manquants : {{files}}',
         retry: 'Réessayer',
         slotReady: 'Emplacement {{num}} prêt',
         paused: 'Pause',
@@ -87,8 +103,79 @@ export const fr: KoinTranslations = {
         insertCoinTitle: '🪙 Insérer Pièce',
         controlsSaved: 'Contrôles sauvegardés',
         controlsReset: 'Contrôles réinitialisés',
+        movieRecordingStarted: 'Enregistrement des entrées démarré',
+        movieSaved: 'Film d\'entrées enregistré',
+        moviePlaybackStarted: 'Lecture du film d\'entrées',
+        moviePlaybackFinished: 'Film d\'entrées terminé',
+        movieInvalid: 'Fichier de film d\'entrées invalide',
+        movieWrongGame: 'Ce film a été enregistré pour un autre jeu',
+        savesExported: 'Sauvegardes exportées',
+        savesImported: '{{count}} sauvegardes importées',
+        noSavesToExport: 'Aucune sauvegarde à exporter',
+        saveBundleInvalid: 'Fichier de sauvegardes invalide',
+        saveBundleWrongSystem: 'Ces sauvegardes sont pour {{system}}, pas pour {{current}}',
+        saveBundleWrongCore: 'Ces sauvegardes ont été créées avec le cœur {{core}} et ne peuvent pas être chargées par {{current}}',
+        saveBundleOverwrite: "L'importation écrasera les sauvegardes existantes dans les mêmes emplacements. Continuer ?",
+        hotkeysSaved: 'Raccourcis enregistrés',
+        hotkeysReset: 'Raccourcis réinitialisés',
+        slotSelected: 'Emplacement {{num}} sélectionné',
+        discInserted: 'Disque {{num}} inséré',
+        coreOptionsApplied: 'Options du cœur appliquées',
+        coreOptionsRestarted: 'Options du cœur appliquées - jeu redémarré',
+        coreOptionsFailed: 'Impossible d\'appliquer les options du cœur',
+        coreOptionsSaved: 'Options du cœur enregistrées',
+        advancedSettingsApplied: 'Paramètres avancés appliqués',
+        advancedSettingsFailed: 'Impossible d\'appliquer les paramètres avancés',
+        advancedSettingsSaved: 'Paramètres avancés enregistrés',
+        performanceReduced: 'Qualité réduite pour suivre le rythme : {{step}}',
+        performanceRestored: 'Qualité rétablie : {{step}}',
+        performanceReducePending: 'Réduire la qualité aiderait : {{step}}',
+        performanceRestorePending: 'La qualité peut être rétablie : {{step}}',
+        performanceReload: 'Recharger maintenant',
+        appliesOnRestart: 'Appliqué au prochain redémarrage',
+        shaderSelected: 'Shader : {{name}}',
     },
     modals: {
+        hotkeys: {
+            title: 'Raccourcis',
+            description: 'Raccourcis du lecteur au clavier et à la manette',
+            keyboard: 'Clavier',
+            gamepad: 'Manette',
+            enableButton: 'Activation des raccourcis',
+            enableHint: 'Maintenez ce bouton puis appuyez sur le bouton du raccourci',
+            off: 'Désactivé',
+            pressKey: 'Appuyez sur une touche...',
+            pressButton: 'Appuyez sur un bouton...',
+            clear: 'Effacer',
+            reset: 'Réinitialiser',
+            save: 'Enregistrer',
+            groups: {
+                states: 'Sauvegardes',
+                playback: 'Lecture',
+                capture: 'Capture',
+                display: 'Affichage',
+                overlays: 'Superpositions',
+            },
+            actions: {
+                save: 'Sauvegarder l\'état',
+                load: 'Charger l\'état',
+                nextSlot: 'Emplacement suivant',
+                prevSlot: 'Emplacement précédent',
+                fastForward: 'Avance rapide (maintenir)',
+                rewind: 'Rembobiner (maintenir)',
+                screenshot: 'Capture d\'écran',
+                record: 'Enregistrer une vidéo',
+                pause: 'Pause',
+                fullscreen: 'Plein écran',
+                mute: 'Couper le son',
+                shaderCycle: 'Shader suivant',
+                help: 'Afficher l\'aide',
+                perfOverlay: 'Panneau de performances',
+                inputDisplay: 'Affichage des entrées',
+                movieRecord: 'Enregistrer un film d\'entrées',
+                moviePlay: 'Lire un film d\'entrées',
+            },
+        },
         shortcuts: {
             title: 'Raccourcis clavier',
             playerShortcuts: 'Raccourcis du lecteur',
@@ -98,6 +185,8 @@ export const fr: KoinTranslations = {
             perfOverlay: 'Overlay de performance',
             inputDisplay: 'Afficher les entrées',
             toggleRec: 'Basculer l\'enregistrement',
+            toggleMovie: 'Enregistrer un film d\'entrées',
+            playMovie: 'Rejouer un film d\'entrées',
             toggleMute: 'Basculer le son',
             pressEsc: 'Appuyez sur ESC pour fermer',
         },
@@ -119,6 +208,11 @@ export const fr: KoinTranslations = {
             pressAny: 'Appuyez sur un bouton pour connecter',
             waiting: 'En attente...',
             pressButton: 'Appuyez pour {{button}}',
+            moveAxis: 'Bougez {{input}} sur votre manette',
+            analog: 'Analogique',
+            invert: 'Inverser',
+            deadzone: 'Zone morte',
+            sensitivity: 'Sensibilité',
             pressEsc: 'Echap pour annuler',
             reset: 'Réinitialiser',
             save: 'Sauvegarder',
@@ -152,6 +246,8 @@ export const fr: KoinTranslations = {
             slot: 'Emplacement {{num}}',
             footerSave: 'Les sauvegardes sont synchronisées dans le cloud',
             footerLoad: 'Votre progression sera restaurée',
+            exportAll: 'Tout exporter',
+            importAll: 'Importer',
         },
         bios: {
             title: 'Sélection BIOS',
@@ -164,6 +260,12 @@ export const fr: KoinTranslations = {
             emptyTitle: 'Aucun BIOS trouvé.',
             emptyDesc: 'Téléversez des fichiers BIOS dans votre bibliothèque.',
             footer: 'Firmware système',
+            checkTitle: 'Vérification du BIOS',
+            statusOk: 'Vérifié',
+            statusBadHash: 'Dump incorrect',
+            statusMissing: 'Manquant',
+            statusUnknown: 'Non vérifié',
+            mountedAs: 'Utilisé comme {{names}}',
         },
     },
     retroAchievements: {
@@ -208,10 +310,18 @@ export const fr: KoinTranslations = {
             title: 'Stats',
             fps: 'FPS',
             frameTime: 'FT',
+            skipped: 'SAUTS',
+            audio: 'AUDIO',
             memory: 'MEM',
             core: 'Core',
             input: 'ENTRÉE',
             active: 'ACTIF',
+            steps: {
+                rewind: 'retour arrière',
+                runAhead: 'run-ahead',
+                audioLatency: 'latence audio',
+                shader: 'shader',
+            },
         },
         toast: {
             saved: 'Sauvegardé',
@@ -229,5 +339,47 @@ export const fr: KoinTranslations = {
             stop: 'Arrêter et sauver',
             hover: 'Contrôles',
         },
+        movie: {
+            recording: 'ENR. FILM',
+            playing: 'REPLAY',
+            frame: 'Image {{frame}}',
+        },
+        netplay: {
+            hosting: 'En attente du joueur 2',
+            joining: 'Connexion à l\'hôte',
+            room: 'Salon',
+            copyRoom: 'Copier le code du salon',
+            syncing: 'Synchronisation de la partie',
+            waiting: 'En attente de l\'autre joueur',
+            disconnected: 'L\'autre joueur s\'est déconnecté',
+            error: 'Échec de la connexion en ligne',
+            leave: 'Jouer hors ligne',
+            player: 'J{{num}}',
+        },
+        layoutEditor: {
+            title: 'Modifier la disposition',
+            hint: 'Touchez un bouton pour le modifier',
+            custom: 'Personnalisée',
+            size: 'Taille',
+            opacity: 'Opacité',
+            shape: 'Forme',
+            shapes: {
+                circle: 'Cercle',
+                square: 'Carré',
+                rect: 'Large',
+                pill: 'Pilule',
+            },
+            label: 'Libellé',
+            buttons: 'Appuie sur',
+            portrait: 'Portrait',
+            landscape: 'Paysage',
+            add: 'Ajouter un bouton',
+            remove: 'Supprimer',
+            export: 'Exporter',
+            import: 'Importer',
+            reset: 'Réinitialiser',
+            invalidFile: 'Fichier de disposition invalide',
+            wrongSystem: 'Cette disposition est pour {{system}}',
+        },
     },
 };
@@ -23,6 +23,8 @@ export interface KoinTranslations {
         press: string;
         startBtn: string;
         selectBtn: string;
+        disc: string;
+        changeDisc: string;
     };
     common: {
         disabledInHardcore: string;
@@ -47,6 +49,19 @@ export interface KoinTranslations {
         selectLanguage: string;
         haptics: string;
         enableHaptics: string;
+        hotkeys: string;
+        editHotkeys: string;
+        coreOptions: string;
+        coreOptionsEmpty: string;
+        coreOptionsRestartNotice: string;
+        resetDefaults: string;
+        apply: string;
+        runAhead: string;
+        runAheadFrames: string;
+        threadedVideo: string;
+        audioLatency: string;
+        advancedNotice: string;
+        effectiveConfig: string;
     };
     overlay: {
         play: string;
@@ -57,6 +72,7 @@ export interface KoinTranslations {
         preparingSlot: string;
         systemError: string;
         failedInit: string;
+        missingFiles: string;
         retry: string;
         slotReady: string;
         paused: string;
@@ -85,9 +101,80 @@ export interface KoinTranslations {
         insertCoinTitle: string;
         controlsSaved: string;
         controlsReset: string;
+        movieRecordingStarted: string;
+        movieSaved: string;
+        moviePlaybackStarted: string;
+        moviePlaybackFinished: string;
+        movieInvalid: string;
+        movieWrongGame: string;
+        savesExported: string;
+        savesImported: string;
+        noSavesToExport: string;
+        saveBundleInvalid: string;
+        saveBundleWrongSystem: string;
+        saveBundleWrongCore: string;
+        saveBundleOverwrite: string;
+        hotkeysSaved: string;
+        hotkeysReset: string;
+        slotSelected: string;
+        discInserted: string;
+        coreOptionsApplied: string;
+        coreOptionsRestarted: string;
+        coreOptionsFailed: string;
+        coreOptionsSaved: string;
+        advancedSettingsApplied: string;
+        advancedSettingsFailed: string;
+        advancedSettingsSaved: string;
+        performanceReduced: string;
+        performanceRestored: string;
+        performanceReducePending: string;
+        performanceRestorePending: string;
+        performanceReload: string;
+        appliesOnRestart: string;
+        shaderSelected: string;
     };
     // Modals
     modals: {
+        hotkeys: {
+            title: string;
+            description: string;
+            keyboard: string;
+            gamepad: string;
+            enableButton: string;
+            enableHint: string;
+            off: string;
+            pressKey: string;
+            pressButton: string;
+            clear: string;
+            reset: string;
+            save: string;
+            groups: {
+                states: string;
+                playback: string;
+                capture: string;
+                display: string;
+                overlays: string;
+            };
+            actions: {
+                save: string;
+                load: string;
+                nextSlot: string;
+                prevSlot: string;
+                fastForward: string;
+                rewind: string;
+                screenshot: string;
+                record: string;
+                pause: string;
+                fullscreen: string;
+                mute: string;
+                shaderCycle: string;
+                help: string;
+                perfOverlay: string;
+                inputDisplay: string;
+                movieRecord: string;
+                moviePlay: string;
+            };
+        };
         shortcuts: {
             title: string;
             playerShortcuts: string;
@@ -97,6 +184,8 @@ export interface KoinTranslations {
             perfOverlay: string;
             inputDisplay: string;
             toggleRec: string;
+            toggleMovie: string;
+            playMovie: string;
             toggleMute: string;
             pressEsc: string;
         };
@@ -118,6 +207,11 @@ export interface KoinTranslations {
             pressAny: string;
             waiting: string;
             pressButton: string;
+            moveAxis: string;
+            analog: string;
+            invert: string;
+            deadzone: string;
+            sensitivity: string;
             pressEsc: string;
             reset: string;
             save: string;
@@ -151,6 +245,8 @@ export interface KoinTranslations {
             slot: string;
             footerSave: string;
             footerLoad: string;
+            exportAll: string;
+            importAll: string;
         },
         bios: {
             title: string;
@@ -163,6 +259,12 @@ export interface KoinTranslations {
             emptyTitle: string;
             emptyDesc: string;
             footer: string;
+            checkTitle: string;
+            statusOk: string;
+            statusBadHash: string;
+            statusMissing: string;
+            statusUnknown: string;
+            mountedAs: string;
         };
     };
     retroAchievements: {
@@ -207,10 +309,18 @@ export interface KoinTranslations {
             title: string;
             fps: string;
             frameTime: string;
+            skipped: string;
+            audio: string;
             memory: string;
             core: string;
             input: string;
             active: string;
+            steps: {
+                rewind: string;
+                runAhead: string;
+                audioLatency: string;
+                shader: string;
+            };
         };
         toast: {
             saved: string;
@@ -228,6 +338,48 @@ export interface KoinTranslations {
             stop: string;
             hover: string;
         };
+        movie: {
+            recording: string;
+            playing: string;
+            frame: string;
+        };
+        netplay: {
+            hosting: string;
+            joining: string;
+            room: string;
+            copyRoom: string;
+            syncing: string;
+            waiting: string;
+            disconnected: string;
+            error: string;
+            leave: string;
+            player: string;
+        };
+        layoutEditor: {
+            title: string;
+            hint: string;
+            custom: string;
+            size: string;
+            opacity: string;
+            shape: string;
+            shapes: {
+                circle: string;
+                square: string;
+                rect: string;
+                pill: string;
+            };
+            label: string;
+            buttons: string;
+            portrait: string;
+            landscape: string;
+            add: string;
+            remove: string;
+            export: string;
+            import: string;
+            reset: string;
+            invalidFile: string;
+            wrongSystem: string;
+        };
     };
 }
 
@@ -1,118 +1,538 @@
 import React from 'react';
 import { createRoot, Root } from 'react-dom/client';
 import GamePlayer from './components/GamePlayer';
-import { GamePlayerProps } from './components/types';
+import { GamePlayerProps, GamePlayerHandle } from './components/types';
+import { resolveStorageHandlers } from './hooks/useStorageHandlers';
+import { PortalContainerProvider } from './hooks/usePortalContainer';
+import { IndexedDBStorageAdapter, MemoryStorageAdapter } from './lib/storage';
+import type { EmulatorStatus, SpeedMultiplier } from './hooks/useNostalgist';
+import type { KoinEmulator, PerformanceStats } from './lib/emulator';
+import type { RomIdentity } from './lib/rom-identify';
+// Compiled Tailwind CSS - the element build registers it on globalThis (see tsup.element.config.ts)
+import './styles.css';
 
-class RetroGamePlayerElement extends HTMLElement {
+declare global {
+    interface HTMLElementTagNameMap {
+        'retro-game-player': RetroGamePlayerElement;
+    }
+}
+
+type ElementProps = GamePlayerProps & { initialLanguage?: 'en' | 'es' | 'fr' };
+
+// Props read by name (property upgrade, attribute parsing)
+type PropValues = Partial<Record<keyof ElementProps, unknown>>;
+
+// Set by the element build (see tsup.element.config.ts)
+const elementCss = globalThis as typeof globalThis & { __KOIN_ELEMENT_CSS__?: string };
+
+// Handled natively by HTMLElement (title is read from the attribute)
+type NativeKey = 'className' | 'style' | 'title';
+type PropertyName = Exclude<keyof ElementProps, NativeKey>;
+
+/**
+ * Every GamePlayer prop is also a JS property on the element.
+ * Typed as a Record so a new prop fails to compile until it's listed here.
+ */
+const PROPERTIES: Record<PropertyName, true> = {
+    romId: true, romUrl: true, romFileName: true, romFiles: true, discs: true, system: true, core: true, resolvers: true, biosUrl: true, biosFiles: true, coreOptions: true, retroarchOverrides: true,
+    romDatabase: true, onRomIdentified: true, saveKeyFromHash: true,
+    availableBios: true, currentBiosId: true, onSelectBios: true,
+    onReady: true, onError: true, onExit: true,
+    systemColor: true, shader: true, onShaderChange: true, initialSlot: true,
+    onSaveState: true, onLoadState: true, onAutoSave: true, onGetSaveSlots: true, onDeleteSaveState: true,
+    initialSaveState: true, onScreenshotCaptured: true, onInputMovieRecorded: true, autoSaveInterval: true,
+    onSaveSram: true, onLoadSram: true, sramSaveInterval: true,
+    storage: true,
+    rewindMemoryBudgetMB: true, rewindOnHeavySystems: true, adaptivePerformance: true, onPerformanceChange: true,
+    netplay: true,
+    maxSlots: true, currentTier: true, onUpgrade: true,
+    retroAchievementsConfig: true,
+    cheats: true, onToggleCheat: true,
+    onSessionStart: true, onSessionEnd: true,
+    raUser: true, raGame: true, raAchievements: true, raUnlockedAchievements: true, raIsLoading: true, raError: true,
+    onRALogin: true, onRALogout: true, onRAHardcoreChange: true,
+    translations: true,
+    initialLanguage: true,
+};
+
+type AttributeType = 'string' | 'number' | 'boolean';
+
+/**
+ * Scalar props settable as kebab-case attributes. Properties win over attributes.
+ * `storage="indexeddb" | "memory"` is handled separately (creates an adapter).
+ */
+const ATTRIBUTES: Record<string, [keyof ElementProps, AttributeType]> = {
+    'rom-id': ['romId', 'string'],
+    'rom-url': ['romUrl', 'string'],
+    'rom-file-name': ['romFileName', 'string'],
+    'system': ['system', 'string'],
+    'title': ['title', 'string'],
+    'core': ['core', 'string'],
+    'bios-url': ['biosUrl', 'string'],
+    'rom-database': ['romDatabase', 'string'],
+    'save-key-from-hash': ['saveKeyFromHash', 'boolean'],
+    'current-bios-id': ['currentBiosId', 'string'],
+    'system-color': ['systemColor', 'string'],
+    'shader': ['shader', 'string'],
+    'initial-slot': ['initialSlot', 'number'],
+    'auto-save-interval': ['autoSaveInterval', 'number'],
+    'sram-save-interval': ['sramSaveInterval', 'number'],
+    'rewind-memory-budget-mb': ['rewindMemoryBudgetMB', 'number'],
+    'rewind-on-heavy-systems': ['rewindOnHeavySystems', 'boolean'],
+    'adaptive-performance': ['adaptivePerformance', 'boolean'],
+    'max-slots': ['maxSlots', 'number'],
+    'current-tier': ['currentTier', 'string'],
+    'initial-language': ['initialLanguage', 'string'],
+    'ra-is-loading': ['raIsLoading', 'boolean'],
+    'ra-error': ['raError', 'string'],
+};
+
+type NotifyCallback =
+    | 'onReady' | 'onError' | 'onExit' | 'onSessionStart' | 'onSessionEnd' | 'onScreenshotCaptured'
+    | 'onToggleCheat' | 'onShaderChange' | 'onRAHardcoreChange' | 'onPerformanceChange';
+
+type NotifyArgs<K extends NotifyCallback> = Parameters<NonNullable<GamePlayerProps[K]>>;
+
+/**
+ * Callbacks that are always re-emitted as DOM events, with the event
+ * `detail` built from the callback's arguments. Their presence doesn't
+ * change player behaviour, so the element can always pass them.
+ */
+const NOTIFY_EVENTS: { [K in NotifyCallback]: { type: string; detail?: (...args: NotifyArgs<K>) => unknown } } = {
+    onReady: { type: 'koin-ready' },
+    onError: { type: 'koin-error', detail: error => ({ error }) },
+    onExit: { type: 'koin-exit' },
+    onSessionStart: { type: 'koin-session-start' },
+    onSessionEnd: { type: 'koin-session-end' },
+    onScreenshotCaptured: { type: 'koin-screenshot', detail: image => ({ image }) },
+    onToggleCheat: { type: 'koin-cheat-toggle', detail: (cheatId, active) => ({ cheatId, active }) },
+    onShaderChange: { type: 'koin-shader-change', detail: (shader, requiresRestart) => ({ shader, requiresRestart }) },
+    onRAHardcoreChange: { type: 'koin-hardcore-change', detail: enabled => ({ enabled }) },
+    onPerformanceChange: { type: 'koin-performance-change', detail: change => ({ change }) },
+};
+
+const HOST_CSS = `
+    :host {
+        display: block;
+        width: 100%;
+        height: 100%;
+        min-height: 400px;
+        position: relative;
+    }
+`;
+
+let sharedSheet: CSSStyleSheet | null = null;
+
+// One constructable stylesheet shared by every instance, <style> fallback for older browsers
+function applyStyles(root: ShadowRoot): void {
+    const css = HOST_CSS + (elementCss.__KOIN_ELEMENT_CSS__ ?? '');
+    if ('adoptedStyleSheets' in Document.prototype && 'replaceSync' in CSSStyleSheet.prototype) {
+        if (!sharedSheet) {
+            sharedSheet = new CSSStyleSheet();
+            sharedSheet.replaceSync(css);
+        }
+        root.adoptedStyleSheets = [sharedSheet];
+        return;
+    }
+    const style = document.createElement('style');
+    style.textContent = css;
+    root.appendChild(style);
+}
+
+function parseAttribute(value: string | null, type: AttributeType): unknown {
+    if (value === null) return undefined;
+    if (type === 'boolean') return value !== 'false';
+    if (type === 'number') {
+        const num = Number(value);
+        return Number.isFinite(num) ? num : undefined;
+    }
+    return value;
+}
+
+/**
+ * <retro-game-player>
+ * -------------------
+ * GamePlayer as a custom element for non-React pages.
+ *
+ * - Props: kebab-case attributes for scalars, JS properties for everything
+ * - Events: callbacks re-dispatched as `koin-*` CustomEvents (bubbling, composed)
+ * - Methods: mirror GamePlayerHandle (save, load, pause, screenshot...)
+ */
+export interface RetroGamePlayerElement extends Partial<Omit<ElementProps, NativeKey>> { }
+
+export class RetroGamePlayerElement extends HTMLElement implements GamePlayerHandle {
     private root: Root | null = null;
-    private _props: Partial<GamePlayerProps> = {};
+    private mountPoint: HTMLDivElement;
+    private portalContainer: HTMLDivElement;
+    private properties: Partial<ElementProps> = {};
+    private handle: GamePlayerHandle | null = null;
+    private unsubscribeStatus: (() => void) | null = null;
+    private renderQueued = false;
+    private attributeStorage: { kind: string; adapter: GamePlayerProps['storage'] } | null = null;
+    private announcedAchievements = new Set<number>();
+    private handlers: Partial<GamePlayerProps> = {}; // Effective callbacks for the current render
+    private wrappers = new Map<keyof GamePlayerProps, unknown>();
+    private romIdentity: RomIdentity | null = null; // Keys saves with `saveKeyFromHash`
 
     static get observedAttributes() {
-        return ['rom-url', 'system', 'title', 'core', 'bios-url', 'system-color'];
+        return [...Object.keys(ATTRIBUTES), 'storage'];
+    }
+
+    static {
+        // Accessors for every GamePlayer prop (declared via the interface above)
+        for (const name of Object.keys(PROPERTIES) as PropertyName[]) {
+            Object.defineProperty(RetroGamePlayerElement.prototype, name, {
+                get(this: RetroGamePlayerElement) {
+                    return this.properties[name];
+                },
+                set(this: RetroGamePlayerElement, value: unknown) {
+                    this.properties = { ...this.properties, [name]: value };
+                    if (name === 'raUnlockedAchievements') this.announceAchievements();
+                    this.scheduleRender();
+                },
+                configurable: true,
+                enumerable: true,
+            });
+        }
     }
 
     constructor() {
         super();
-        this.attachShadow({ mode: 'open' });
-    }
+        const shadow = this.attachShadow({ mode: 'open' });
+        applyStyles(shadow);
 
-    connectedCallback() {
-        if (!this.shadowRoot) return;
-
-        // Add styles
-        const style = document.createElement('style');
-        style.textContent = `
-            :host { 
-                display: block; 
-                width: 100%; 
-                height: 100%; 
-                min-height: 400px;
-                position: relative;
-            }
-            /* Import Tailwind styles if needed, or rely on GamePlayer's internal styles being scoped */
-        `;
-        this.shadowRoot.appendChild(style);
+        this.mountPoint = document.createElement('div');
+        this.mountPoint.style.width = '100%';
+        this.mountPoint.style.height = '100%';
+        shadow.appendChild(this.mountPoint);
+
+        // Menus and tooltips portal here so they stay inside the styled shadow tree
+        this.portalContainer = document.createElement('div');
+        this.portalContainer.className = 'koin-scope';
+        shadow.appendChild(this.portalContainer);
 
-        // Create mount point
-        const mountPoint = document.createElement('div');
-        mountPoint.style.width = '100%';
-        mountPoint.style.height = '100%';
-        this.shadowRoot.appendChild(mountPoint);
+        this.upgradeProperties();
+    }
 
-        this.root = createRoot(mountPoint);
+    connectedCallback() {
+        if (!this.root) {
+            this.root = createRoot(this.mountPoint);
+        }
         this.render();
     }
 
-    attributeChangedCallback(name: string, oldValue: string, newValue: string) {
+    disconnectedCallback() {
+        this.unsubscribeStatus?.();
+        this.unsubscribeStatus = null;
+        this.root?.unmount();
+        this.root = null;
+        this.handle = null;
+    }
+
+    attributeChangedCallback(_name: string, oldValue: string | null, newValue: string | null) {
         if (oldValue === newValue) return;
-        this.render();
+        this.scheduleRender();
     }
 
-    // Property setters for complex data objects (save handlers, etc.)
-    set onSaveState(handler: GamePlayerProps['onSaveState']) {
-        this._props.onSaveState = handler;
-        this.render();
+    // ============ Player actions (GamePlayerHandle) ============
+
+    start(): Promise<void> {
+        return this.handle?.start() ?? Promise.resolve();
     }
 
-    set onLoadState(handler: GamePlayerProps['onLoadState']) {
-        this._props.onLoadState = handler;
-        this.render();
+    restart(): Promise<void> {
+        return this.handle?.restart() ?? Promise.resolve();
     }
 
-    set retroAchievementsConfig(config: GamePlayerProps['retroAchievementsConfig']) {
-        this._props.retroAchievementsConfig = config;
-        this.render();
+    getStatus(): EmulatorStatus {
+        return this.handle?.getStatus() ?? 'idle';
     }
 
-    set cheats(cheats: GamePlayerProps['cheats']) {
-        this._props.cheats = cheats;
-        this.render();
+    pause(): void {
+        this.handle?.pause();
+    }
+
+    resume(): void {
+        this.handle?.resume();
+    }
+
+    togglePause(): void {
+        this.handle?.togglePause();
+    }
+
+    setSpeed(speed: SpeedMultiplier): void {
+        this.handle?.setSpeed(speed);
+    }
+
+    getSpeed(): SpeedMultiplier {
+        return this.handle?.getSpeed() ?? 1;
+    }
+
+    save(slot?: number): Promise<Blob | null> {
+        return this.handle?.save(slot) ?? Promise.resolve(null);
+    }
+
+    load(slot?: number): Promise<boolean> {
+        return this.handle?.load(slot) ?? Promise.resolve(false);
+    }
+
+    loadState(state: Blob | Uint8Array): Promise<boolean> {
+        return this.handle?.loadState(state) ?? Promise.resolve(false);
+    }
+
+    setDisc(disc: number): Promise<boolean> {
+        return this.handle?.setDisc(disc) ?? Promise.resolve(false);
+    }
+
+    screenshot(): Promise<string | null> {
+        return this.handle?.screenshot() ?? Promise.resolve(null);
+    }
+
+    startRecording(): void {
+        this.handle?.startRecording();
+    }
+
+    stopRecording(): Promise<Blob | null> {
+        return this.handle?.stopRecording() ?? Promise.resolve(null);
+    }
+
+    isRecording(): boolean {
+        return this.handle?.isRecording() ?? false;
+    }
+
+    setVolume(volume: number): void {
+        this.handle?.setVolume(volume);
+    }
+
+    toggleMute(): void {
+        this.handle?.toggleMute();
+    }
+
+    toggleFullscreen(): void {
+        this.handle?.toggleFullscreen();
+    }
+
+    getPerformanceStats(): PerformanceStats | null {
+        return this.handle?.getPerformanceStats() ?? null;
+    }
+
+    getEmulator(): KoinEmulator {
+        if (!this.handle) {
+            throw new Error('retro-game-player is not connected');
+        }
+        return this.handle.getEmulator();
+    }
+
+    // ============ Internals ============
+
+    private emit(type: string, detail?: unknown): void {
+        this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+    }
+
+    // Properties set before the element was defined shadow the prototype accessors
+    private upgradeProperties(): void {
+        const values: PropValues = this;
+        for (const name of Object.keys(PROPERTIES) as PropertyName[]) {
+            if (Object.prototype.hasOwnProperty.call(this, name)) {
+                const value = values[name];
+                delete values[name];
+                values[name] = value;
+            }
+        }
+    }
+
+    private scheduleRender(): void {
+        if (this.renderQueued) return;
+        this.renderQueued = true;
+        queueMicrotask(() => {
+            this.renderQueued = false;
+            this.render();
+        });
+    }
+
+    // storage="indexeddb" | "memory" - one adapter per attribute value
+    private getAttributeStorage(): GamePlayerProps['storage'] {
+        const kind = this.getAttribute('storage');
+        if (!kind) return undefined;
+        if (this.attributeStorage?.kind !== kind) {
+            const adapter = kind === 'memory' ? new MemoryStorageAdapter()
+                : kind === 'indexeddb' ? new IndexedDBStorageAdapter()
+                : undefined;
+            if (!adapter) {
+                // Reported like player errors (onError + koin-error), once the render has set the handlers
+                const error = new Error(`[retro-game-player] Unknown storage "${kind}" - saves are not persisted`);
+                queueMicrotask(() => this.notify('onError')(error));
+            }
+            this.attributeStorage = { kind, adapter };
+        }
+        return this.attributeStorage.adapter;
+    }
+
+    // Unlocks are reported by the host via raUnlockedAchievements - emit once per new id
+    private announceAchievements(): void {
+        const unlocked = this.properties.raUnlockedAchievements;
+        if (!unlocked) return;
+        for (const id of unlocked) {
+            if (this.announcedAchievements.has(id)) continue;
+            this.announcedAchievements.add(id);
+            const achievement = this.properties.raAchievements?.find(a => a.ID === id);
+            this.emit('koin-achievement', {
+                id,
+                achievement,
+                hardcore: !!this.properties.retroAchievementsConfig?.hardcore,
+            });
+        }
     }
 
-    private getProps(): GamePlayerProps {
-        const romUrl = this.getAttribute('rom-url') || '';
-        const system = this.getAttribute('system') || 'nes';
-        const title = this.getAttribute('title') || 'Retro Game';
-        const core = this.getAttribute('core') || undefined;
-        const biosUrl = this.getAttribute('bios-url') || undefined;
-        const systemColor = this.getAttribute('system-color') || undefined;
-
-        // Merge attributes and properties
-        return {
-            romId: romUrl, // Default ID to URL if not provided
-            romUrl,
-            system,
-            title,
-            core,
-            biosUrl,
-            systemColor,
-            ...this._props,
+    private getProps(): ElementProps {
+        const values: PropValues = {};
+        for (const [attribute, [prop, type]] of Object.entries(ATTRIBUTES)) {
+            const value = parseAttribute(this.getAttribute(attribute), type);
+            if (value !== undefined) {
+                values[prop] = value;
+            }
+        }
+        // ATTRIBUTES parses every value to the type of its prop
+        const fromAttributes = values as Partial<ElementProps>;
+
+        const merged: ElementProps = {
+            system: 'nes',
+            // Leave the title to the DAT when the ROM gets identified
+            title: this.properties.romDatabase || fromAttributes.romDatabase ? undefined : 'Retro Game',
+            ...fromAttributes,
+            ...this.properties,
+            romUrl: this.properties.romUrl ?? fromAttributes.romUrl ?? '',
+            romId: this.properties.romId ?? fromAttributes.romId ?? fromAttributes.romUrl ?? '', // Default ID to URL if not provided
+            storage: this.properties.storage ?? this.getAttributeStorage(),
         };
+
+        return { ...merged, ...this.wrapCallbacks(merged) };
     }
 
+    /**
+     * Wrap callbacks to re-dispatch them as DOM events. Handlers whose
+     * presence changes behaviour (save/load, movie download, BIOS picker...)
+     * are only wrapped when set - directly or through `storage`.
+     */
+    private wrapCallbacks(props: ElementProps): Partial<GamePlayerProps> {
+        this.handlers = { ...props, ...resolveStorageHandlers(props, () => this.romIdentity) };
+        const handlers = this.handlers;
+        const wrapped: Partial<GamePlayerProps> = {};
+
+        (Object.keys(NOTIFY_EVENTS) as NotifyCallback[]).forEach(<K extends NotifyCallback>(callback: K) => {
+            wrapped[callback] = this.notify(callback);
+        });
+
+        if (handlers.onSaveState) {
+            wrapped.onSaveState = this.stable('onSaveState', () => async (slot, blob, screenshot) => {
+                await this.handlers.onSaveState?.(slot, blob, screenshot);
+                this.emit('koin-save', { slot, blob, screenshot });
+            });
+        }
+        if (handlers.onLoadState) {
+            wrapped.onLoadState = this.stable('onLoadState', () => async (slot) => {
+                const blob = (await this.handlers.onLoadState?.(slot)) ?? null;
+                this.emit('koin-load', { slot, blob });
+                return blob;
+            });
+        }
+        if (handlers.onAutoSave) {
+            wrapped.onAutoSave = this.stable('onAutoSave', () => async (blob, screenshot) => {
+                await this.handlers.onAutoSave?.(blob, screenshot);
+                this.emit('koin-auto-save', { blob, screenshot });
+            });
+        }
+        if (handlers.onDeleteSaveState) {
+            wrapped.onDeleteSaveState = this.stable('onDeleteSaveState', () => async (slot) => {
+                await this.handlers.onDeleteSaveState?.(slot);
+                this.emit('koin-delete', { slot });
+            });
+        }
+        if (handlers.onSaveSram) {
+            wrapped.onSaveSram = this.stable('onSaveSram', () => async (blob) => {
+                await this.handlers.onSaveSram?.(blob);
+                this.emit('koin-sram-save', { blob });
+            });
+        }
+        if (handlers.onInputMovieRecorded) {
+            wrapped.onInputMovieRecorded = this.stable('onInputMovieRecorded', () => (movie) => {
+                this.handlers.onInputMovieRecorded?.(movie);
+                this.emit('koin-movie', { movie });
+            });
+        }
+        // Hashing reads the whole ROM, so only ask for it when something uses the result
+        if (handlers.onRomIdentified || props.romDatabase || props.saveKeyFromHash) {
+            wrapped.onRomIdentified = this.stable('onRomIdentified', () => (identity) => {
+                this.romIdentity = identity;
+                this.handlers.onRomIdentified?.(identity);
+                this.emit('koin-rom-identified', { identity });
+            });
+        }
+        if (handlers.onSelectBios) {
+            wrapped.onSelectBios = this.stable('onSelectBios', () => (biosId) => {
+                this.handlers.onSelectBios?.(biosId);
+                this.emit('koin-bios-select', { biosId });
+            });
+        }
+
+        // Pass-through handlers resolved from storage (no event)
+        wrapped.onGetSaveSlots = handlers.onGetSaveSlots;
+        wrapped.onLoadSram = handlers.onLoadSram;
+
+        return wrapped;
+    }
+
+    // Wrappers keep their identity across renders (hooks depend on callback identity)
+    private stable<K extends keyof GamePlayerProps>(name: K, create: () => NonNullable<GamePlayerProps[K]>): NonNullable<GamePlayerProps[K]> {
+        let wrapper = this.wrappers.get(name);
+        if (!wrapper) {
+            wrapper = create();
+            this.wrappers.set(name, wrapper);
+        }
+        return wrapper as NonNullable<GamePlayerProps[K]>;
+    }
+
+    // Calls the host's callback, then dispatches its NOTIFY_EVENTS event
+    private notify<K extends NotifyCallback>(callback: K): NonNullable<GamePlayerProps[K]> {
+        return this.stable(callback, () => {
+            const { type, detail } = NOTIFY_EVENTS[callback] as {
+                type: string;
+                detail?: (...args: NotifyArgs<K>) => unknown;
+            };
+            const notify = (...args: NotifyArgs<K>) => {
+                const handler = this.handlers[callback] as ((...args: NotifyArgs<K>) => void) | undefined;
+                handler?.(...args);
+                this.emit(type, detail?.(...args));
+            };
+            return notify as NonNullable<GamePlayerProps[K]>;
+        });
+    }
+
+    // Track the player handle and re-emit emulator status changes
+    private setHandle = (handle: GamePlayerHandle | null) => {
+        this.unsubscribeStatus?.();
+        this.unsubscribeStatus = null;
+        this.handle = handle;
+        if (handle) {
+            this.unsubscribeStatus = handle.getEmulator().on('status', status => {
+                this.emit('koin-status', { status });
+            });
+        }
+    };
+
     private render() {
         if (!this.root) return;
 
         const props = this.getProps();
 
-        // We need to inject styles into the shadow DOM because CSS modules/Tailwind 
-        // won't automatically penetrate. 
-        // Ideally, we supply a style prop or inject a <link> to the CSS.
-        // For now, we assume styles are handled or inline.
-
         this.root.render(
             <React.StrictMode>
-                {/* Pass class name or style to ensure full height */}
-                <GamePlayer {...props} style={{ width: '100%', height: '100%' }} />
+                <PortalContainerProvider value={this.portalContainer}>
+                    <GamePlayer {...props} ref={this.setHandle} style={{ width: '100%', height: '100%' }} />
+                </PortalContainerProvider>
             </React.StrictMode>
         );
     }
-
-    disconnectedCallback() {
-        if (this.root) {
-            this.root.unmount();
-        }
-    }
 }
 
 // Define the custom element
@@ -13,5 +13,7 @@ export default defineConfig({
     clean: false, // Don't clean existing dist
     external: [], // Bundle EVERYTHING (React, ReactDOM, Nostalgist)
     noExternal: ['react', 'react-dom', 'nostalgist', 'lucide-react', 'clsx', 'tailwind-merge', 'framer-motion'],
-    injectStyle: true, // Inject CSS into the JS
+    // Tailwind is compiled through PostCSS and handed to the element's shadow root
+    // (styles injected into <head> wouldn't reach inside it)
+    injectStyle: (css) => `globalThis.__KOIN_ELEMENT_CSS__ = (globalThis.__KOIN_ELEMENT_CSS__ || '') + ${css};`,
 });